@@ -2,41 +2,247 @@
 
 pragma solidity ^0.8.4;
 
-import "@openzeppelin/contracts/access/Ownable.sol";
-import "@openzeppelin/contracts/utils/math/SafeMath.sol";
+import "@openzeppelin/contracts-upgradeable/access/AccessControlEnumerableUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/token/ERC20/IERC20Upgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/token/ERC20/utils/SafeERC20Upgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/cryptography/ECDSAUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/cryptography/draft-EIP712Upgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/math/SafeMathUpgradeable.sol";
 
 
-// ExampleToken with Governance.
-contract DelayedJobs is Ownable {
-    using SafeMath for uint;
+// ExampleToken with Governance, deployed behind a UUPS proxy.
+contract DelayedJobs is Initializable, AccessControlEnumerableUpgradeable, EIP712Upgradeable, UUPSUpgradeable {
+    using SafeMathUpgradeable for uint;
+    using SafeERC20Upgradeable for IERC20Upgradeable;
+
+    /// @dev Account a submitter was rotated to, and how many times that account had itself been rotated then.
+    struct Rotation {
+        address to;
+        uint rotations;
+    }
+
+    bytes32 public constant SUBMITTER_ROLE = keccak256("SUBMITTER_ROLE");
+    bytes32 public constant EXECUTOR_ROLE = keccak256("EXECUTOR_ROLE");
+    bytes32 public constant SUBMIT_JOB_TYPEHASH = keccak256("SubmitJob(address target,uint256 value,string signature,bytes data,uint256 nonce,uint256 deadline)");
+    bytes32 public constant SUBMIT_JOB_AUCTION_TYPEHASH = keccak256("SubmitJobAuction(address target,uint256 maxBid,string signature,bytes data,uint256 timeout,uint256 nonce,uint256 deadline)");
 
-    address public userA;
-    address public userB;
     uint public delay;
     mapping (bytes32 => bool) public submittedTxs;
     mapping (bytes32 => uint256) public submittedTimes;
     mapping (bytes32 => uint256) public submittedBestBid;
     mapping (bytes32 => address) public submittedBestBidder;
+    mapping (bytes32 => address) public submittedBy;
+    mapping (bytes32 => uint256) public submittedExpiry;
+    mapping (bytes32 => address) public submittedToken;
+    mapping (bytes32 => uint256) public submittedRuns;
+    mapping (bytes32 => uint256) public submittedRevealPeriod;
+    mapping (bytes32 => uint256) public unrevealedBids;
+    mapping (bytes32 => bool) public executedTxs;
+    mapping (bytes32 => bytes32[]) private _prerequisites;
+    mapping (address => uint) public rotations;
+    mapping (address => mapping (uint => Rotation)) public rotatedTo;
+    mapping (bytes32 => uint) private _submittedRotations;
+    mapping (address => uint256) public nonces;
+    uint private _sealedAuctions;
+    mapping (bytes32 => uint) private _sealedAuctionIds;
+    mapping (uint => mapping (address => bytes32)) private _bidCommitments;
+    mapping (address => mapping (address => uint256)) public claimableToken;
+    mapping (bytes32 => uint) public submissions;
+    mapping (bytes32 => uint) public executedSubmission;
+    mapping (bytes32 => uint[]) private _prerequisiteSubmissions;
 
     uint public constant MIN_DELAY = 1 hours;
     uint public constant MAX_DELAY = 48 hours;
+    uint public constant CANCEL_GRACE_PERIOD = 1 hours;
+
+    error MissingRole(bytes32 role, address account);
+    error CallerNotSubmitter(address caller, address submitter);
+    error CallerIsSubmitter();
+    error CallerNotSelf(address caller);
+    error ZeroAddress();
+    error DelayBelowMinimum(uint delay, uint minimum);
+    error DelayAboveMaximum(uint delay, uint maximum);
+    error MissingReward();
+    error TimeoutTooShort(uint timeout, uint minimum);
+    error ExpiryTooShort(uint expiry, uint minimum);
+    error IntervalTooShort(uint interval, uint minimum);
+    error MissingRuns();
+    error RevealPeriodTooShort(uint revealPeriod, uint minimum);
+    error UnknownPrerequisite(bytes32 prerequisite);
+    error PrerequisiteNotExecuted(bytes32 txHash, bytes32 prerequisite);
+    error JobNotSubmitted(bytes32 txHash);
+    error JobAlreadySubmitted(bytes32 txHash);
+    error DelayNotElapsed(bytes32 txHash, uint maturesAt);
+    error JobExpired(bytes32 txHash, uint expiredAt);
+    error JobNotExpired(bytes32 txHash, uint expiresAt);
+    error JobWithoutExpiry(bytes32 txHash);
+    error CancellationLocked(bytes32 txHash, uint unlocksAt);
+    error BiddingClosed(bytes32 txHash, uint closedAt);
+    error BidNotLower(uint bid, uint bestBid);
+    error WrongCollateral(uint collateral, uint expected);
+    error WrongBatchReward(uint reward, uint expected);
+    error BatchLengthMismatch();
+    error NotBestBidder(address caller, address bestBidder);
+    error SealedAuction(bytes32 txHash);
+    error NotSealedAuction(bytes32 txHash);
+    error MissingCommitment();
+    error AlreadyCommitted(bytes32 txHash, address bidder);
+    error CommitmentMismatch(bytes32 txHash, address bidder);
+    error RevealNotOpen(bytes32 txHash, uint opensAt);
+    error RevealClosed(bytes32 txHash, uint closedAt);
+    error AuctionExpired(bytes32 txHash, uint expiredAt);
+    error AuctionNotExpired(bytes32 txHash, uint expiresAt);
+    error ExecutionReverted(bytes32 txHash);
+    error ForbiddenCall(bytes32 txHash, bytes4 selector);
+    error TransferFailed(address recipient, uint amount);
+    error NothingToWithdraw(address account);
+    error SignatureExpired(uint deadline);
+    error InvalidSignature(address submitter);
 
     event DelayUpdate(uint indexed newDelay);
     event JobSubmitted(bytes32 indexed txHash, address indexed target, uint value, string signature, bytes data);
     event JobExecuted(bytes32 indexed txHash, address indexed target, uint value, string signature,  bytes data);
+    event JobExpiring(bytes32 indexed txHash, uint expiry);
+    event JobPrerequisites(bytes32 indexed txHash, bytes32[] prerequisites);
+    event JobRewardToken(bytes32 indexed txHash, address indexed token);
+    event JobRelayed(bytes32 indexed txHash, address indexed submitter, address indexed relayer, uint nonce);
+    event JobBatchResult(bytes32 indexed txHash, uint index, bool success, bytes result);
+    event JobCancelled(bytes32 indexed txHash);
+    event JobReclaimed(bytes32 indexed txHash);
+    event JobRecurring(bytes32 indexed txHash, uint interval, uint maxRuns);
+    event JobRunExecuted(bytes32 indexed txHash, address indexed executor, uint run, uint reward);
+    event JobAuctionStarted(bytes32 indexed txHash, uint timeout);
+    event JobBidPlaced(bytes32 indexed txHash, address indexed bidder, uint bid);
+    event JobBidsSealed(bytes32 indexed txHash, uint revealPeriod);
+    event JobBidCommitted(bytes32 indexed txHash, address indexed bidder, bytes32 commitment);
+    event JobBidRevealed(bytes32 indexed txHash, address indexed bidder, uint bid);
+    event JobAuctionExecuted(bytes32 indexed txHash, address indexed bidder, uint bid);
+    event JobAuctionCancelled(bytes32 indexed txHash);
+    event RoleRotated(bytes32 indexed role, address indexed from, address indexed to);
+    event Credited(address indexed account, address indexed token, bytes32 indexed txHash, uint amount);
+    event Withdrawn(address indexed account, address indexed token, address recipient, uint amount);
+
+    /// @dev Locks the implementation, so only proxies are ever initialized.
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() initializer {}
+
+    /// @dev Submits one job of a batch for `submitter`, called only by the contract itself so a failure reverts that job alone, and never as the call of a job.
+    function submitBatchedJob(address submitter, address target, uint value, string memory signature, bytes memory data) external returns (bytes32) {
+        _onlySelf();
+        return _submitJob(submitter, target, signature, data, address(0), value);
+    }
+
+    /// @dev Executes one job of a batch for `executor`, called only by the contract itself so a failure reverts that job alone, and never as the call of a job.
+    function executeBatchedJob(address executor, address target, uint value, string memory signature, bytes memory data) external returns (bytes memory) {
+        _onlySelf();
+        return _executeJob(executor, target, value, signature, data, 0);
+    }
+
+    /// @notice Initializes the proxy with administrator `admin_` (also the first submitter), executor `executor_` and seconds `delay_`.
+    function initialize(address admin_, address executor_, uint delay_) public initializer {
+        __AccessControlEnumerable_init();
+        __EIP712_init("DelayedJobs", "1");
+        __UUPSUpgradeable_init();
+        _checkDelay(delay_);
+
+        _grantRole(DEFAULT_ADMIN_ROLE, admin_);
+        _grantRole(SUBMITTER_ROLE, admin_);
+        _grantRole(EXECUTOR_ROLE, executor_);
+        delay = delay_;
+    }
+
+    /// @notice Moves `role` from `from` to `to`, where for submitters their pending jobs (and refunds) follow to `to`.
+    function rotateRole(bytes32 role, address from, address to) public {
+        _onlyRole(getRoleAdmin(role));
+        if (!hasRole(role, from)) {
+            revert MissingRole(role, from);
+        }
+        if (from == address(0) || to == address(0)) {
+            revert ZeroAddress();
+        }
+
+        _revokeRole(role, from);
+        _grantRole(role, to);
+
+        if (role == SUBMITTER_ROLE) {
+            // Only the jobs `from` holds now follow, not those of any later grant to it
+            uint rotation = rotations[from]++;
+            rotatedTo[from][rotation] = Rotation(to, rotations[to]);
+        }
+
+        emit RoleRotated(role, from, to);
+    }
+
+    /// @notice Account owning the job `txHash`, following the rotations of its submitter since submission.
+    /// @dev Each rotation followed was made after the one before, so the chain ends within the rotations made.
+    function submitterOf(bytes32 txHash) public view returns (address submitter) {
+        submitter = submittedBy[txHash];
+        Rotation memory next = rotatedTo[submitter][_submittedRotations[txHash]];
+
+        while (next.to != address(0)) {
+            submitter = next.to;
+            next = rotatedTo[submitter][next.rotations];
+        }
+    }
+
+    /// @notice Separator of the EIP-712 domain the submitter signs relayed jobs in.
+    function DOMAIN_SEPARATOR() public view returns (bytes32) {
+        return _domainSeparatorV4();
+    }
+
+    /// @notice Jobs that must have executed before the job `txHash` may execute.
+    function prerequisitesOf(bytes32 txHash) public view returns (bytes32[] memory) {
+        return _prerequisites[txHash];
+    }
+
+    /// @notice Whether each prerequisite of the job `txHash` has executed, as its submission the job waits on.
+    function prerequisitesExecuted(bytes32 txHash) public view returns (bool[] memory executed) {
+        executed = new bool[](_prerequisites[txHash].length);
+        for (uint i = 0; i < executed.length; i++) {
+            executed[i] = _prerequisiteExecuted(txHash, i);
+        }
+    }
+
+    /// @notice Commitment to a sealed bid of `bidder` on the auction `txHash`, yet to be revealed.
+    function bidCommitmentOf(bytes32 txHash, address bidder) public view returns (bytes32) {
+        return _bidCommitments[_sealedAuctionIds[txHash]][bidder];
+    }
+
+    /// @notice Commitment a bidder posts to seal its `bid` on the auction `txHash`, kept secret by the random `salt` until revealed.
+    function sealedBidCommitment(bytes32 txHash, address bidder, uint bid, bytes32 salt) public pure returns (bytes32) {
+        return keccak256(abi.encode(txHash, bidder, bid, salt));
+    }
 
-    /// @notice Construct the contract with administrator `admin_` and seconds `delay_`.
-    constructor(address userA_, address userB_, uint delay_) {
-        require(delay_ >= MIN_DELAY, "DelayedJobs::constructor: Delay must exceed min");
-        require(delay_ <= MAX_DELAY, "DelayedJobs::constructor: Delay must not exceed max");
+    /// @notice ETH credited to `account` and not yet withdrawn.
+    function claimable(address account) public view returns (uint) {
+        return claimableToken[account][address(0)];
+    }
 
-        (userA, userB, delay) = (userA_, userB_, delay_);
+    /// @notice Pays the caller all the ETH credited to it.
+    function withdraw() public returns (uint) {
+        return _withdraw(address(0), msg.sender);
+    }
+
+    /// @notice Pays `recipient` all the ETH credited to the caller, for callers unable to receive ETH.
+    function withdrawTo(address recipient) public returns (uint) {
+        return _withdraw(address(0), recipient);
+    }
+
+    /// @notice Pays the caller all of the ERC-20 `token` credited to it.
+    function withdrawToken(address token) public returns (uint) {
+        return _withdraw(token, msg.sender);
+    }
+
+    /// @notice Pays `recipient` all of the ERC-20 `token` credited to the caller.
+    function withdrawTokenTo(address token, address recipient) public returns (uint) {
+        return _withdraw(token, recipient);
     }
 
     function updateDelay(uint delay_) public {
-        require(msg.sender == userA, "DelayedJobs::updateDelay: Call must come from userA.");
-        require(delay_ >= MIN_DELAY, "DelayedJobs::updateDelay: Delay must exceed min");
-        require(delay_ <= MAX_DELAY, "DelayedJobs::updateDelay: Delay must not exceed max");
+        _onlyRole(DEFAULT_ADMIN_ROLE);
+        _checkDelay(delay_);
         delay = delay_;
 
         emit DelayUpdate(delay);
@@ -46,141 +252,797 @@ contract DelayedJobs is Ownable {
     }
 
     function submitJob(address target, string memory signature, bytes memory data) public payable returns (bytes32) {
-            require(msg.sender == userA, "DelayedJobs::submitJob: Call must come from userA.");
-            require(msg.value > 0, "DelayedJobs::submitJob: Must include an ETH reward.");
+            return _submitJob(msg.sender, target, signature, data, address(0), msg.value);
+        }
+
+    /// @notice Submits each job with its reward out of the combined payment, a job failing (its reward credited back to the caller) without reverting the others, emitting JobBatchResult for each.
+    function submitJobs(address[] memory targets, uint[] memory values, string[] memory signatures, bytes[] memory datas) public payable returns (bytes32[] memory txHashes) {
+            _onlyRole(SUBMITTER_ROLE);
+            _checkBatch(targets, values, signatures, datas);
+
+            uint total;
+            for (uint i = 0; i < values.length; i++) {
+                total += values[i];
+            }
+            if (msg.value != total) {
+                revert WrongBatchReward(msg.value, total);
+            }
+
+            txHashes = new bytes32[](targets.length);
+            for (uint i = 0; i < targets.length; i++) {
+                txHashes[i] = _submitBatched(i, targets[i], values[i], signatures[i], datas[i]);
+            }
+        }
+
+    /// @notice Submits a job that may only be executed within `expiry` seconds of its maturity, after which the submitter reclaims the reward.
+    function submitJobWithExpiry(address target, string memory signature, bytes memory data, uint256 expiry) public payable returns (bytes32) {
+            bytes32 txHash = _submitJob(msg.sender, target, signature, data, address(0), msg.value);
+            _setExpiry(txHash, expiry);
+            return txHash;
+        }
+
+    /// @notice Submits a job that may only be executed once each of the `prerequisites` (submitted or executed jobs) has executed.
+    function submitJobWithPrerequisites(address target, string memory signature, bytes memory data, bytes32[] memory prerequisites) public payable returns (bytes32) {
+            bytes32 txHash = _submitJob(msg.sender, target, signature, data, address(0), msg.value);
+            _setPrerequisites(txHash, prerequisites);
+            return txHash;
+        }
+
+    /// @notice Submits a job that `submitter` signed as EIP-712 SubmitJob typed data, valid until `deadline`, where the relayer (any caller) sends the reward.
+    function submitJobBySig(address target, string memory signature, bytes memory data, address submitter, uint deadline, bytes memory sig) public payable returns (bytes32 txHash) {
+            uint nonce = _useSignature(submitter, keccak256(abi.encode(SUBMIT_JOB_TYPEHASH, target, msg.value, keccak256(bytes(signature)), keccak256(data), nonces[submitter], deadline)), deadline, sig);
+            txHash = _submitJob(submitter, target, signature, data, address(0), msg.value);
+
+            emit JobRelayed(txHash, submitter, msg.sender, nonce);
+        }
 
-            bytes32 txHash = keccak256(abi.encode(target, msg.value, signature, data));
-            submittedTxs[txHash] = true;
-            submittedTimes[txHash] = block.timestamp;
+    /// @notice Submits a job with a `reward` in the ERC-20 `token`, taken from the caller's allowance.
+    function submitTokenJob(address target, string memory signature, bytes memory data, address token, uint reward) public returns (bytes32) {
+            _onlyToken(token);
+            bytes32 txHash = _submitJob(msg.sender, target, signature, data, token, reward);
 
-            emit JobSubmitted(txHash, target, msg.value, signature, data);
+            _collect(token, reward);
+            return txHash;
+        }
+
+    /// @notice Submits a job with a `reward` in the ERC-20 `token` that expires `expiry` seconds after its maturity.
+    function submitTokenJobWithExpiry(address target, string memory signature, bytes memory data, uint256 expiry, address token, uint reward) public returns (bytes32) {
+            _onlyToken(token);
+            bytes32 txHash = _submitJob(msg.sender, target, signature, data, token, reward);
+            _setExpiry(txHash, expiry);
+
+            _collect(token, reward);
+            return txHash;
+        }
+
+    /// @notice Submits a job with a `reward` in the ERC-20 `token` that may only be executed once each of the `prerequisites` has executed.
+    function submitTokenJobWithPrerequisites(address target, string memory signature, bytes memory data, bytes32[] memory prerequisites, address token, uint reward) public returns (bytes32) {
+            _onlyToken(token);
+            bytes32 txHash = _submitJob(msg.sender, target, signature, data, token, reward);
+            _setPrerequisites(txHash, prerequisites);
+
+            _collect(token, reward);
             return txHash;
         }
 
     function executeJob(address target, uint value, string memory signature, bytes memory data) public payable returns (bytes memory) {
-            require(msg.sender == userB, "DelayedJobs::executeJob: Call must come from userB.");
+            _onlyRole(EXECUTOR_ROLE);
+            return _executeJob(msg.sender, target, value, signature, data, msg.value);
+        }
+
+    /// @notice Executes each of the matured jobs, a job failing without reverting the others, emitting JobBatchResult for each with its return (or revert) data.
+    function executeJobs(address[] memory targets, uint[] memory values, string[] memory signatures, bytes[] memory datas) public returns (bool[] memory succeeded) {
+            _onlyRole(EXECUTOR_ROLE);
+            _checkBatch(targets, values, signatures, datas);
 
+            succeeded = new bool[](targets.length);
+            for (uint i = 0; i < targets.length; i++) {
+                succeeded[i] = _executeBatched(i, targets[i], values[i], signatures[i], datas[i]);
+            }
+        }
+
+    /// @notice Cancels the job, refunding the submitter, at any time but the grace period following its maturity that is kept for executors.
+    function cancelJob(address target, uint value, string memory signature, bytes memory data) public returns (bytes32) {
             bytes32 txHash = keccak256(abi.encode(target, value, signature, data));
-            require(submittedTxs[txHash], "DelayedJobs::executeJob: Transaction hasn't been submitted.");
-            require(block.timestamp >= submittedTimes[txHash]+delay, "DelayedJobs::executeJob: Transaction hasn't surpassed delay time.");
+            _onlySubmitted(txHash);
+            address submitter = _onlySubmitter(txHash);
+            uint maturesAt = submittedTimes[txHash]+delay;
+            if (block.timestamp >= maturesAt && block.timestamp < maturesAt+CANCEL_GRACE_PERIOD) {
+                revert CancellationLocked(txHash, maturesAt+CANCEL_GRACE_PERIOD);
+            }
 
-            submittedTxs[txHash] = false;
-            submittedTimes[txHash] = 0;
+            address token = submittedToken[txHash];
+            _removeJob(txHash);
+            _credit(submitter, token, txHash, value);
 
-            bytes memory callData;
+            emit JobCancelled(txHash);
 
-            if (bytes(signature).length == 0) {
-                callData = data;
-            } else {
-                callData = abi.encodePacked(bytes4(keccak256(bytes(signature))), data);
-            }
+            return txHash;
+        }
 
-            // solium-disable-next-line security/no-call-value
-            (bool success, bytes memory returnData) = target.call{value: msg.value}(callData);
-            require(success, "DelayedJobs::executeJob: Transaction execution reverted.");
+    /// @notice Refunds the submitter of a job submitted with an expiry, once expired.
+    function reclaimJob(address target, uint value, string memory signature, bytes memory data) public returns (bytes32) {
+            bytes32 txHash = keccak256(abi.encode(target, value, signature, data));
+            _onlySubmitted(txHash);
+            address submitter = _onlySubmitter(txHash);
+            if (submittedExpiry[txHash] == 0) {
+                revert JobWithoutExpiry(txHash);
+            }
+            if (block.timestamp < _expiresAt(txHash)) {
+                revert JobNotExpired(txHash, _expiresAt(txHash));
+            }
 
-            // Send ETH reward.
-            (bool success2, ) = userB.call{value: value}("");
-            require(success2, "DelayedJobs::executeJob: Send reward reverted.");
+            address token = submittedToken[txHash];
+            _removeJob(txHash);
+            _credit(submitter, token, txHash, value);
 
-            emit JobExecuted(txHash, target, value, signature, data);
+            emit JobReclaimed(txHash);
 
-            return returnData;
+            return txHash;
         }
 
     function submitJobAuction(address target, string memory signature, bytes memory data, uint256 timeout) public payable returns (bytes32) {
-            require(msg.sender == userA, "DelayedJobs::submitJobAuction: Call must come from userA.");
-            require(msg.value > 0, "DelayedJobs::submitJobAuction: Must include an ETH reward.");
-            require(timeout > MIN_DELAY, "DelayedJobs::submitJobAuction: Timeout must be great than 1 hour");
+            return _submitJobAuction(msg.sender, target, signature, data, timeout, address(0), msg.value);
+        }
 
-            // now msg.value sent by userA is the maximum reward to be paid.
-            bytes32 txHash = keccak256(abi.encode(target, msg.value, signature, data, timeout));
-            submittedTxs[txHash] = true;
-            submittedTimes[txHash] = block.timestamp;
-            submittedBestBid[txHash] = msg.value;
+    /// @notice Submits an auction job that `submitter` signed as EIP-712 SubmitJobAuction typed data, valid until `deadline`, where the relayer (any caller) sends the maximum reward.
+    function submitJobAuctionBySig(address target, string memory signature, bytes memory data, uint256 timeout, address submitter, uint deadline, bytes memory sig) public payable returns (bytes32 txHash) {
+            uint nonce = _useSignature(submitter, keccak256(abi.encode(SUBMIT_JOB_AUCTION_TYPEHASH, target, msg.value, keccak256(bytes(signature)), keccak256(data), timeout, nonces[submitter], deadline)), deadline, sig);
+            txHash = _submitJobAuction(submitter, target, signature, data, timeout, address(0), msg.value);
 
-            emit JobSubmitted(txHash, target, msg.value, signature, data);
+            emit JobRelayed(txHash, submitter, msg.sender, nonce);
+        }
+
+    /// @notice Submits an auction job taking sealed bids until the delay has passed, revealed within the following `revealPeriod` seconds, after which the lowest revealed bid may execute it within the timeout.
+    function submitJobSealedAuction(address target, string memory signature, bytes memory data, uint256 timeout, uint256 revealPeriod) public payable returns (bytes32) {
+            bytes32 txHash = _submitJobAuction(msg.sender, target, signature, data, timeout, address(0), msg.value);
+            _setRevealPeriod(txHash, revealPeriod);
             return txHash;
         }
 
-    function placeJobBid(address target, uint maxBid, uint bid, string memory signature, bytes memory data, uint256 timeout) public payable returns (bytes32) {
-            require(msg.sender != userA, "DelayedJobs::placeJobBid: Call must not come from userA.");
+    /// @notice Commits to a sealed bid on the auction before its delay has passed, as `sealedBidCommitment` of the bid and a secret salt, sending the maximum bid as collateral so the bid stays hidden.
+    function commitJobBid(address target, uint maxBid, string memory signature, bytes memory data, uint256 timeout, bytes32 commitment) public payable returns (bytes32) {
+            bytes32 txHash = keccak256(abi.encode(target, maxBid, signature, data, timeout));
+            _notSubmitter(txHash);
+            _onlySubmitted(txHash);
+            _onlySealed(txHash);
+            if (block.timestamp >= submittedTimes[txHash]+delay) {
+                revert BiddingClosed(txHash, submittedTimes[txHash]+delay);
+            }
+            // A zero commitment would read as none, so could be neither revealed nor kept to one per bidder
+            if (commitment == 0) {
+                revert MissingCommitment();
+            }
+            mapping (address => bytes32) storage commitments = _bidCommitments[_sealedAuctionIds[txHash]];
+            if (commitments[msg.sender] != 0) {
+                revert AlreadyCommitted(txHash, msg.sender);
+            }
+            if (msg.value != maxBid) {
+                revert WrongCollateral(msg.value, maxBid);
+            }
+
+            commitments[msg.sender] = commitment;
+            unrevealedBids[txHash] += 1;
+
+            emit JobBidCommitted(txHash, msg.sender, commitment);
+
+            return txHash;
+        }
 
+    /// @notice Reveals the committed bid within the reveal period, which leads when lower than the best revealed so far (ties going to the first revealed); the collateral of every other revealed bid is refunded.
+    function revealJobBid(address target, uint maxBid, string memory signature, bytes memory data, uint256 timeout, uint bid, bytes32 salt) public returns (bytes32) {
             bytes32 txHash = keccak256(abi.encode(target, maxBid, signature, data, timeout));
-            require(submittedTxs[txHash], "DelayedJobs::placeJobBid: Transaction has not been submitted.");
-            require(block.timestamp < submittedTimes[txHash]+delay, "DelayedJobs::placeJobBid: Transaction cannot surpass delay time.");
-            require(submittedBestBid[txHash] > bid, "DelayedJobs::placeJobBid: Bid must be positive and smaller than best bid" );
-            require(msg.value == maxBid - bid, "DelayedJobs::placeJobBid: Collateral must be diff with max bid." );
-            
+            _onlySubmitted(txHash);
+            _onlySealed(txHash);
+            uint revealsAt = submittedTimes[txHash]+delay;
+            if (block.timestamp < revealsAt) {
+                revert RevealNotOpen(txHash, revealsAt);
+            }
+            if (block.timestamp >= revealsAt+submittedRevealPeriod[txHash]) {
+                revert RevealClosed(txHash, revealsAt+submittedRevealPeriod[txHash]);
+            }
+            mapping (address => bytes32) storage commitments = _bidCommitments[_sealedAuctionIds[txHash]];
+            if (commitments[msg.sender] == 0 || commitments[msg.sender] != sealedBidCommitment(txHash, msg.sender, bid, salt)) {
+                revert CommitmentMismatch(txHash, msg.sender);
+            }
+
+            delete commitments[msg.sender];
+            unrevealedBids[txHash] -= 1;
+            if (bid < submittedBestBid[txHash]) {
+                // refund the collateral of the previous best bidder, if any
+                if (submittedBestBid[txHash] < maxBid) {
+                    _credit(submittedBestBidder[txHash], address(0), txHash, maxBid);
+                }
+                submittedBestBid[txHash] = bid;
+                submittedBestBidder[txHash] = msg.sender;
+            } else {
+                _credit(msg.sender, address(0), txHash, maxBid);
+            }
+
+            emit JobBidRevealed(txHash, msg.sender, bid);
+
+            return txHash;
+        }
+
+    /// @notice Submits an auction job with a maximum reward `maxBid` in the ERC-20 `token`, taken from the caller's allowance, as is the collateral of each bidder.
+    function submitTokenJobAuction(address target, string memory signature, bytes memory data, uint256 timeout, address token, uint maxBid) public returns (bytes32) {
+            _onlyToken(token);
+            bytes32 txHash = _submitJobAuction(msg.sender, target, signature, data, timeout, token, maxBid);
+
+            _collect(token, maxBid);
+            return txHash;
+        }
+
+    function placeJobBid(address target, uint maxBid, uint bid, string memory signature, bytes memory data, uint256 timeout) public payable returns (bytes32) {
+            bytes32 txHash = keccak256(abi.encode(target, maxBid, signature, data, timeout));
+            _notSubmitter(txHash);
+            _onlySubmitted(txHash);
+            if (submittedRevealPeriod[txHash] != 0) {
+                revert SealedAuction(txHash);
+            }
+            if (block.timestamp >= submittedTimes[txHash]+delay) {
+                revert BiddingClosed(txHash, submittedTimes[txHash]+delay);
+            }
+            if (submittedBestBid[txHash] <= bid) {
+                revert BidNotLower(bid, submittedBestBid[txHash]);
+            }
+            // ERC-20 collateral is taken from the allowance, with no ETH sent
+            address token = submittedToken[txHash];
+            uint etherCollateral = token == address(0) ? maxBid - bid : 0;
+            if (msg.value != etherCollateral) {
+                revert WrongCollateral(msg.value, etherCollateral);
+            }
+
             if (submittedBestBid[txHash] < maxBid) {
                 // refund previous bidder if prev best exists
-                uint256 prevCollateral = maxBid - submittedBestBid[txHash];
-                (bool success, ) = submittedBestBidder[txHash].call{value: prevCollateral}("");
-                require( success, "refund failed");
+                _credit(submittedBestBidder[txHash], token, txHash, maxBid - submittedBestBid[txHash]);
             }
             submittedBestBid[txHash] = bid;
             submittedBestBidder[txHash] = msg.sender;
 
+            emit JobBidPlaced(txHash, msg.sender, bid);
+
+            _collect(token, maxBid - bid);
             return txHash;
         }
 
+    /// @notice Executes an auction job as its best bidder once bidding (and for sealed auctions, revealing) has closed, within the timeout.
     function executeJobBid(address target, uint maxBid, string memory signature, bytes memory data, uint256 timeout) public returns (bytes memory) {
-            require(msg.sender != userA, "DelayedJobs::executeJobBid: Call must not come from userA.");
-
             bytes32 txHash = keccak256(abi.encode(target, maxBid, signature, data, timeout));
-            require(submittedTxs[txHash], "DelayedJobs::executeJobBid: Transaction hasn't been submitted.");
-            require(block.timestamp < submittedTimes[txHash]+delay+timeout, "DelayedJobs::executeJobBid: Transaction has surpassed delay+timeout time.");
-            require(block.timestamp >= submittedTimes[txHash]+delay, "DelayedJobs::executeJobBid: Transaction has not surpassed delay time.");
-            require(submittedBestBidder[txHash] == msg.sender, "DelayedJobs::executeJobBid: Sender is best bidder." );
-            
-            submittedTxs[txHash] = false;
-            submittedTimes[txHash] = 0;
-            
-            // refund bidder collateral + bid = (maxBid-bid) + bid = maxBid
-            (bool success, ) = submittedBestBidder[txHash].call{value: maxBid}("");
-            require( success, "transfer reward failed");
-            // refund userA (maxBid-bid)
-            (bool success_, ) = userA.call{value: maxBid-submittedBestBid[txHash]}("");
-            require( success_, "transfer diff to userA failed");
-
-            submittedBestBid[txHash] = 0;
-            submittedBestBidder[txHash] = address(0);
-
-            bytes memory callData;
-
-            if (bytes(signature).length == 0) {
-                callData = data;
-            } else {
-                callData = abi.encodePacked(bytes4(keccak256(bytes(signature))), data);
+            _notSubmitter(txHash);
+            _onlySubmitted(txHash);
+            uint maturesAt = _auctionMaturesAt(txHash);
+            if (block.timestamp >= maturesAt+timeout) {
+                revert AuctionExpired(txHash, maturesAt+timeout);
+            }
+            if (block.timestamp < maturesAt) {
+                revert DelayNotElapsed(txHash, maturesAt);
+            }
+            if (submittedBestBidder[txHash] != msg.sender) {
+                revert NotBestBidder(msg.sender, submittedBestBidder[txHash]);
             }
 
+            uint bestBid = _settleAuction(txHash, maxBid, true);
+            _setExecuted(txHash);
+
+            emit JobAuctionExecuted(txHash, msg.sender, bestBid);
+
+            bytes memory callData = _jobCall(txHash, target, signature, data);
+
             // solium-disable-next-line security/no-call-value
             (bool _success, bytes memory returnData) = target.call(callData);
-            require(_success, "DelayedJobs::executeJobBid: Transaction execution reverted.");
+            if (!_success) {
+                _bubbleRevert(txHash, returnData);
+            }
 
             return returnData;
         }
 
     function cancelJobAuction(address target, uint256 maxBid, string memory signature, bytes memory data, uint256 timeout) public returns (bytes32) {
-            require(msg.sender == userA, "DelayedJobs::submitJobAuction: Call must come from userA.");
-
             bytes32 txHash = keccak256(abi.encode(target, maxBid, signature, data, timeout));
-            require(submittedTxs[txHash], "DelayedJobs::executeJobBid: Transaction hasn't been submitted or already executed.");
-            require(block.timestamp >= submittedTimes[txHash]+delay+timeout, "DelayedJobs::cancelJobAuction: Cancelling only after delay+timeout");
-            
-            submittedTxs[txHash] = false;
-            submittedTimes[txHash] = 0;
-            submittedBestBid[txHash] = 0;
-            submittedBestBidder[txHash] = address(0);
-
-            // refund userA (maxBid)
-            (bool success, ) = userA.call{value: maxBid}("");
-            require( success, "transfer total reward back to userA failed");
+            _onlySubmitted(txHash);
+            _onlySubmitter(txHash);
+            if (block.timestamp < _auctionMaturesAt(txHash)+timeout) {
+                revert AuctionNotExpired(txHash, _auctionMaturesAt(txHash)+timeout);
+            }
+
+            _settleAuction(txHash, maxBid, false);
+
+            emit JobAuctionCancelled(txHash);
 
             return txHash;
         }
 
+    /// @notice Submits a job run every `interval` seconds from its maturity, `maxRuns` times, each run drawing an equal share of the ETH budget.
+    function submitRecurringJob(address target, string memory signature, bytes memory data, uint256 interval, uint256 maxRuns) public payable returns (bytes32) {
+            return _submitRecurringJob(target, signature, data, interval, maxRuns, address(0), msg.value);
+        }
+
+    /// @notice Submits a recurring job with a `budget` in the ERC-20 `token`, taken from the caller's allowance.
+    function submitTokenRecurringJob(address target, string memory signature, bytes memory data, uint256 interval, uint256 maxRuns, address token, uint budget) public returns (bytes32) {
+            _onlyToken(token);
+            bytes32 txHash = _submitRecurringJob(target, signature, data, interval, maxRuns, token, budget);
+
+            _collect(token, budget);
+            return txHash;
+        }
+
+    /// @notice Executes the next run of a recurring job once it matures, rewarding the executor with its share of the budget, where the last run removes the job.
+    function executeRecurringJob(address target, uint budget, string memory signature, bytes memory data, uint256 interval, uint256 maxRuns) public payable returns (bytes memory) {
+            _onlyRole(EXECUTOR_ROLE);
+
+            bytes32 txHash = keccak256(abi.encode(target, budget, signature, data, interval, maxRuns));
+            _onlySubmitted(txHash);
+            uint run = submittedRuns[txHash];
+            if (block.timestamp < _nextRunAt(txHash, interval)) {
+                revert DelayNotElapsed(txHash, _nextRunAt(txHash, interval));
+            }
+
+            address token = submittedToken[txHash];
+            if (run + 1 == maxRuns) {
+                _removeJob(txHash);
+                submittedRuns[txHash] = 0;
+                _setExecuted(txHash);
+            } else {
+                submittedRuns[txHash] = run + 1;
+            }
+
+            bytes memory callData = _jobCall(txHash, target, signature, data);
+
+            // solium-disable-next-line security/no-call-value
+            (bool success, bytes memory returnData) = target.call{value: msg.value}(callData);
+            if (!success) {
+                _bubbleRevert(txHash, returnData);
+            }
+
+            uint reward = _runsReward(budget, maxRuns, run + 1) - _runsReward(budget, maxRuns, run);
+            _credit(msg.sender, token, txHash, reward);
+
+            emit JobRunExecuted(txHash, msg.sender, run + 1, reward);
+
+            return returnData;
+        }
+
+    /// @notice Cancels the remaining runs of a recurring job, refunding the submitter the budget they have not drawn, at any time but the grace period following the maturity of the next run.
+    function cancelRecurringJob(address target, uint budget, string memory signature, bytes memory data, uint256 interval, uint256 maxRuns) public returns (bytes32) {
+            bytes32 txHash = keccak256(abi.encode(target, budget, signature, data, interval, maxRuns));
+            _onlySubmitted(txHash);
+            address submitter = _onlySubmitter(txHash);
+            uint nextRunAt = _nextRunAt(txHash, interval);
+            if (block.timestamp >= nextRunAt && block.timestamp < nextRunAt+CANCEL_GRACE_PERIOD) {
+                revert CancellationLocked(txHash, nextRunAt+CANCEL_GRACE_PERIOD);
+            }
 
+            address token = submittedToken[txHash];
+            uint refund = budget - _runsReward(budget, maxRuns, submittedRuns[txHash]);
+            _removeJob(txHash);
+            submittedRuns[txHash] = 0;
+            _credit(submitter, token, txHash, refund);
 
+            emit JobCancelled(txHash);
 
+            return txHash;
+        }
+
+    /// @dev Only the admin upgrades the implementation, the proxy keeping its storage (and so every pending job).
+    function _authorizeUpgrade(address) internal view override {
+        _onlyRole(DEFAULT_ADMIN_ROLE);
+    }
+
+    function _onlyRole(bytes32 role) private view {
+        _requireRole(role, msg.sender);
+    }
+
+    function _requireRole(bytes32 role, address account) private view {
+        if (!hasRole(role, account)) {
+            revert MissingRole(role, account);
+        }
+    }
+
+    function _onlySubmitter(bytes32 txHash) private view returns (address submitter) {
+        submitter = submitterOf(txHash);
+        if (msg.sender != submitter) {
+            revert CallerNotSubmitter(msg.sender, submitter);
+        }
+    }
+
+    function _notSubmitter(bytes32 txHash) private view {
+        if (msg.sender == submitterOf(txHash)) {
+            revert CallerIsSubmitter();
+        }
+    }
+
+    function _onlySubmitted(bytes32 txHash) private view {
+        if (!submittedTxs[txHash]) {
+            revert JobNotSubmitted(txHash);
+        }
+    }
+
+    function _notSubmitted(bytes32 txHash) private view {
+        if (submittedTxs[txHash]) {
+            revert JobAlreadySubmitted(txHash);
+        }
+    }
+
+    function _onlySelf() private view {
+        if (msg.sender != address(this)) {
+            revert CallerNotSelf(msg.sender);
+        }
+    }
+
+    function _onlyToken(address token) private pure {
+        if (token == address(0)) {
+            revert ZeroAddress();
+        }
+    }
+
+    function _onlySealed(bytes32 txHash) private view {
+        if (submittedRevealPeriod[txHash] == 0) {
+            revert NotSealedAuction(txHash);
+        }
+    }
+
+    function _onlyMatured(bytes32 txHash) private view {
+        if (block.timestamp < submittedTimes[txHash]+delay) {
+            revert DelayNotElapsed(txHash, submittedTimes[txHash]+delay);
+        }
+    }
+
+    function _onlyPrerequisitesExecuted(bytes32 txHash) private view {
+        bytes32[] storage prerequisites = _prerequisites[txHash];
+        for (uint i = 0; i < prerequisites.length; i++) {
+            if (!_prerequisiteExecuted(txHash, i)) {
+                revert PrerequisiteNotExecuted(txHash, prerequisites[i]);
+            }
+        }
+    }
+
+    /// @dev Whether the submission of the prerequisite at `index` current when the job was submitted has executed, any later submission of it aside.
+    function _prerequisiteExecuted(bytes32 txHash, uint index) private view returns (bool) {
+        bytes32 prerequisite = _prerequisites[txHash][index];
+        uint[] storage required = _prerequisiteSubmissions[txHash];
+
+        // Prerequisites recorded before submissions were counted take any execution
+        return executedTxs[prerequisite] && (index >= required.length || executedSubmission[prerequisite] >= required[index]);
+    }
+
+    function _expiresAt(bytes32 txHash) private view returns (uint) {
+        return submittedTimes[txHash]+delay+submittedExpiry[txHash];
+    }
+
+    /// @dev Maturity of an auction job, once bidding and for sealed auctions revealing have closed.
+    function _auctionMaturesAt(bytes32 txHash) private view returns (uint) {
+        return submittedTimes[txHash]+delay+submittedRevealPeriod[txHash];
+    }
+
+    /// @dev Credits the escrow of an auction job and clears it: its collateral (plus the bid once `executed`) to the best bidder, the rest to the submitter, including the forfeited collateral of sealed bids never revealed.
+    function _settleAuction(bytes32 txHash, uint maxBid, bool executed) private returns (uint bestBid) {
+        bestBid = submittedBestBid[txHash];
+        address bidder = submittedBestBidder[txHash];
+        address token = submittedToken[txHash];
+        uint forfeited = unrevealedBids[txHash]*maxBid;
+
+        if (bidder != address(0)) {
+            uint collateral = submittedRevealPeriod[txHash] == 0 ? maxBid - bestBid : maxBid;
+            _credit(bidder, token, txHash, executed ? collateral + bestBid : collateral);
+        }
+        _credit(submitterOf(txHash), token, txHash, (executed ? maxBid - bestBid : maxBid) + forfeited);
+
+        _removeAuction(txHash);
+    }
+
+    /// @dev Maturity of the next run of a recurring job, each run maturing `interval` seconds after the one before.
+    function _nextRunAt(bytes32 txHash, uint interval) private view returns (uint) {
+        return submittedTimes[txHash]+delay+submittedRuns[txHash]*interval;
+    }
+
+    /// @dev Share of the budget drawn by the first `runs` runs, rounded so the last run draws whatever remains.
+    function _runsReward(uint budget, uint maxRuns, uint runs) private pure returns (uint) {
+        return budget*runs/maxRuns;
+    }
+
+    /// @dev Records a plain job of `submitter` with a reward of `value` in `token`, the zero address for ETH.
+    function _submitJob(address submitter, address target, string memory signature, bytes memory data, address token, uint value) private returns (bytes32 txHash) {
+        _requireRole(SUBMITTER_ROLE, submitter);
+        if (value == 0) {
+            revert MissingReward();
+        }
+
+        txHash = keccak256(abi.encode(target, value, signature, data));
+        _notSubmitted(txHash);
+        submissions[txHash] += 1;
+        submittedTxs[txHash] = true;
+        submittedTimes[txHash] = block.timestamp;
+        submittedBy[txHash] = submitter;
+        _submittedRotations[txHash] = rotations[submitter];
+
+        emit JobSubmitted(txHash, target, value, signature, data);
+        _setToken(txHash, token);
+    }
+
+    /// @dev Records an auction job of `submitter` with a maximum reward of `maxBid` in `token`, the zero address for ETH.
+    function _submitJobAuction(address submitter, address target, string memory signature, bytes memory data, uint256 timeout, address token, uint maxBid) private returns (bytes32 txHash) {
+        _requireRole(SUBMITTER_ROLE, submitter);
+        if (maxBid == 0) {
+            revert MissingReward();
+        }
+        if (timeout <= MIN_DELAY) {
+            revert TimeoutTooShort(timeout, MIN_DELAY);
+        }
+
+        // maxBid escrowed by the submitter is the maximum reward to be paid.
+        txHash = keccak256(abi.encode(target, maxBid, signature, data, timeout));
+        _notSubmitted(txHash);
+        submissions[txHash] += 1;
+        submittedTxs[txHash] = true;
+        submittedTimes[txHash] = block.timestamp;
+        submittedBy[txHash] = submitter;
+        _submittedRotations[txHash] = rotations[submitter];
+        submittedBestBid[txHash] = maxBid;
+
+        emit JobSubmitted(txHash, target, maxBid, signature, data);
+        emit JobAuctionStarted(txHash, timeout);
+        _setToken(txHash, token);
+    }
+
+    /// @dev Records a recurring job with a `budget` for all its runs in `token`, the zero address for ETH.
+    function _submitRecurringJob(address target, string memory signature, bytes memory data, uint256 interval, uint256 maxRuns, address token, uint budget) private returns (bytes32 txHash) {
+        _onlyRole(SUBMITTER_ROLE);
+        if (maxRuns == 0) {
+            revert MissingRuns();
+        }
+        if (budget < maxRuns) {
+            revert MissingReward();
+        }
+        if (interval < MIN_DELAY) {
+            revert IntervalTooShort(interval, MIN_DELAY);
+        }
+
+        txHash = keccak256(abi.encode(target, budget, signature, data, interval, maxRuns));
+        _notSubmitted(txHash);
+        submissions[txHash] += 1;
+        submittedTxs[txHash] = true;
+        submittedTimes[txHash] = block.timestamp;
+        submittedBy[txHash] = msg.sender;
+        _submittedRotations[txHash] = rotations[msg.sender];
+
+        emit JobSubmitted(txHash, target, budget, signature, data);
+        emit JobRecurring(txHash, interval, maxRuns);
+        _setToken(txHash, token);
+    }
+
+    /// @dev Checks `sig` is the signature by `submitter` of the typed data hashing to `structHash`, consuming the nonce it was signed with so it cannot be replayed.
+    function _useSignature(address submitter, bytes32 structHash, uint deadline, bytes memory sig) private returns (uint nonce) {
+        if (block.timestamp > deadline) {
+            revert SignatureExpired(deadline);
+        }
+        (address signer, ECDSAUpgradeable.RecoverError recoverError) = ECDSAUpgradeable.tryRecover(_hashTypedDataV4(structHash), sig);
+        if (recoverError != ECDSAUpgradeable.RecoverError.NoError || signer != submitter) {
+            revert InvalidSignature(submitter);
+        }
+
+        nonce = nonces[submitter]++;
+    }
+
+    function _setExpiry(bytes32 txHash, uint expiry) private {
+        if (expiry < MIN_DELAY) {
+            revert ExpiryTooShort(expiry, MIN_DELAY);
+        }
+
+        submittedExpiry[txHash] = expiry;
+
+        emit JobExpiring(txHash, expiry);
+    }
+
+    /// @dev Each prerequisite must be another job, already submitted or executed, so chains are submitted in dependency order. The job waits on the latest submission of each, so submitting a prerequisite again later leaves the job as it was.
+    function _setPrerequisites(bytes32 txHash, bytes32[] memory prerequisites) private {
+        uint[] storage required = _prerequisiteSubmissions[txHash];
+        for (uint i = 0; i < prerequisites.length; i++) {
+            bytes32 prerequisite = prerequisites[i];
+            if (prerequisite == txHash || (!submittedTxs[prerequisite] && !executedTxs[prerequisite])) {
+                revert UnknownPrerequisite(prerequisite);
+            }
+            required.push(submissions[prerequisite]);
+        }
+
+        _prerequisites[txHash] = prerequisites;
+
+        emit JobPrerequisites(txHash, prerequisites);
+    }
+
+    /// @dev Seals the bids of the auction, keeping its commitments apart from those of any earlier submission of the same job.
+    function _setRevealPeriod(bytes32 txHash, uint revealPeriod) private {
+        if (revealPeriod < MIN_DELAY) {
+            revert RevealPeriodTooShort(revealPeriod, MIN_DELAY);
+        }
+
+        submittedRevealPeriod[txHash] = revealPeriod;
+        _sealedAuctions += 1;
+        _sealedAuctionIds[txHash] = _sealedAuctions;
+
+        emit JobBidsSealed(txHash, revealPeriod);
+    }
+
+    function _setToken(bytes32 txHash, address token) private {
+        if (token != address(0)) {
+            submittedToken[txHash] = token;
+
+            emit JobRewardToken(txHash, token);
+        }
+    }
+
+    /// @dev Clears the state of a plain job, once executed, cancelled or reclaimed.
+    function _removeJob(bytes32 txHash) private {
+        submittedTxs[txHash] = false;
+        submittedTimes[txHash] = 0;
+        submittedBy[txHash] = address(0);
+        _submittedRotations[txHash] = 0;
+        submittedExpiry[txHash] = 0;
+        submittedToken[txHash] = address(0);
+        delete _prerequisites[txHash];
+        delete _prerequisiteSubmissions[txHash];
+    }
+
+    /// @dev Records the current submission of the job as executed, meeting the prerequisite of the jobs waiting on it.
+    function _setExecuted(bytes32 txHash) private {
+        executedTxs[txHash] = true;
+        executedSubmission[txHash] = submissions[txHash];
+    }
+
+    /// @dev Clears the state of an auction job, once executed or cancelled.
+    function _removeAuction(bytes32 txHash) private {
+        submittedTxs[txHash] = false;
+        submittedTimes[txHash] = 0;
+        submittedBestBid[txHash] = 0;
+        submittedBestBidder[txHash] = address(0);
+        submittedBy[txHash] = address(0);
+        _submittedRotations[txHash] = 0;
+        submittedToken[txHash] = address(0);
+        submittedRevealPeriod[txHash] = 0;
+        unrevealedBids[txHash] = 0;
+        _sealedAuctionIds[txHash] = 0;
+    }
+
+    /// @dev Executes the job for `executor`, sending `callValue` along with the call to its target.
+    function _executeJob(address executor, address target, uint value, string memory signature, bytes memory data, uint callValue) private returns (bytes memory) {
+        bytes32 txHash = keccak256(abi.encode(target, value, signature, data));
+        _onlySubmitted(txHash);
+        if (submittedExpiry[txHash] != 0 && block.timestamp >= _expiresAt(txHash)) {
+            revert JobExpired(txHash, _expiresAt(txHash));
+        }
+        _onlyMatured(txHash);
+        _onlyPrerequisitesExecuted(txHash);
+
+        address token = submittedToken[txHash];
+        _removeJob(txHash);
+        _setExecuted(txHash);
+
+        bytes memory callData = _jobCall(txHash, target, signature, data);
+
+        // solium-disable-next-line security/no-call-value
+        (bool success, bytes memory returnData) = target.call{value: callValue}(callData);
+        if (!success) {
+            _bubbleRevert(txHash, returnData);
+        }
+
+        // Credit reward.
+        _credit(executor, token, txHash, value);
+
+        emit JobExecuted(txHash, target, value, signature, data);
+
+        return returnData;
+    }
+
+    /// @dev Call data of the job, refusing calls into the batch helpers, which trust the contract as their caller.
+    function _jobCall(bytes32 txHash, address target, string memory signature, bytes memory data) private view returns (bytes memory callData) {
+        if (bytes(signature).length == 0) {
+            callData = data;
+        } else {
+            callData = abi.encodePacked(bytes4(keccak256(bytes(signature))), data);
+        }
+
+        if (target == address(this) && callData.length >= 4) {
+            bytes4 selector = bytes4(callData[0]) | bytes4(callData[1]) >> 8 | bytes4(callData[2]) >> 16 | bytes4(callData[3]) >> 24;
+            if (selector == this.submitBatchedJob.selector || selector == this.executeBatchedJob.selector) {
+                revert ForbiddenCall(txHash, selector);
+            }
+        }
+    }
+
+    /// @dev Submits the job at `index` of a batch, crediting its reward back to the caller should it fail.
+    function _submitBatched(uint index, address target, uint value, string memory signature, bytes memory data) private returns (bytes32 txHash) {
+        txHash = keccak256(abi.encode(target, value, signature, data));
+
+        try this.submitBatchedJob(msg.sender, target, value, signature, data) {
+            emit JobBatchResult(txHash, index, true, "");
+        } catch (bytes memory reason) {
+            _credit(msg.sender, address(0), txHash, value);
+            emit JobBatchResult(txHash, index, false, reason);
+        }
+    }
+
+    /// @dev Executes the job at `index` of a batch, whether it succeeded.
+    function _executeBatched(uint index, address target, uint value, string memory signature, bytes memory data) private returns (bool) {
+        bytes32 txHash = keccak256(abi.encode(target, value, signature, data));
+
+        try this.executeBatchedJob(msg.sender, target, value, signature, data) returns (bytes memory returnData) {
+            emit JobBatchResult(txHash, index, true, returnData);
+            return true;
+        } catch (bytes memory reason) {
+            emit JobBatchResult(txHash, index, false, reason);
+            return false;
+        }
+    }
+
+    function _checkBatch(address[] memory targets, uint[] memory values, string[] memory signatures, bytes[] memory datas) private pure {
+        if (values.length != targets.length || signatures.length != targets.length || datas.length != targets.length) {
+            revert BatchLengthMismatch();
+        }
+    }
+
+    function _checkDelay(uint delay_) private pure {
+        if (delay_ < MIN_DELAY) {
+            revert DelayBelowMinimum(delay_, MIN_DELAY);
+        }
+        if (delay_ > MAX_DELAY) {
+            revert DelayAboveMaximum(delay_, MAX_DELAY);
+        }
+    }
+
+    /// @dev Adds to the balance the account withdraws, rather than sending ETH that a receiving contract could refuse.
+    function _credit(address account, address token, bytes32 txHash, uint amount) private {
+        if (amount == 0) {
+            return;
+        }
+
+        claimableToken[account][token] += amount;
+
+        emit Credited(account, token, txHash, amount);
+    }
+
+    function _withdraw(address token, address recipient) private returns (uint amount) {
+        if (recipient == address(0)) {
+            revert ZeroAddress();
+        }
+        amount = claimableToken[msg.sender][token];
+        if (amount == 0) {
+            revert NothingToWithdraw(msg.sender);
+        }
+
+        claimableToken[msg.sender][token] = 0;
+        if (token == address(0)) {
+            _transfer(recipient, amount);
+        } else {
+            IERC20Upgradeable(token).safeTransfer(recipient, amount);
+        }
+
+        emit Withdrawn(msg.sender, token, recipient, amount);
+    }
+
+    /// @dev Takes `amount` of the ERC-20 `token` from the caller's allowance, as ETH arrives with the call instead.
+    function _collect(address token, uint amount) private {
+        if (token != address(0) && amount != 0) {
+            IERC20Upgradeable(token).safeTransferFrom(msg.sender, address(this), amount);
+        }
+    }
+
+    function _transfer(address recipient, uint amount) private {
+        // solhint-disable-next-line avoid-low-level-calls
+        (bool success, ) = recipient.call{value: amount}("");
+        if (!success) {
+            revert TransferFailed(recipient, amount);
+        }
+    }
+
+    /// @dev Reverts with the revert data of the failed target call, or with ExecutionReverted when there is none.
+    function _bubbleRevert(bytes32 txHash, bytes memory returnData) private pure {
+        if (returnData.length == 0) {
+            revert ExecutionReverted(txHash);
+        }
+
+        // solhint-disable-next-line no-inline-assembly
+        assembly {
+            revert(add(returnData, 32), mload(returnData))
+        }
+    }
 }
\ No newline at end of file
@@ -0,0 +1,36 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.4;
+
+import "../DelayedJobs.sol";
+
+
+/// @notice Next version of DelayedJobs, appending storage after the existing, for testing upgrades.
+/// @custom:oz-upgrades-unsafe-allow constructor
+contract DelayedJobsV2 is DelayedJobs {
+    mapping (bytes32 => string) public notes;
+
+    function annotate(bytes32 txHash, string memory note) public {
+        address submitter = submitterOf(txHash);
+        if (msg.sender != submitter) {
+            revert CallerNotSubmitter(msg.sender, submitter);
+        }
+
+        notes[txHash] = note;
+    }
+
+    function version() public pure returns (uint) {
+        return 2;
+    }
+}
+
+
+/// @notice Storage slot ahead of every DelayedJobs variable, shifting them all.
+contract StorageShift {
+    uint private _shift;
+}
+
+
+/// @notice DelayedJobs with its storage shifted by a slot, an upgrade that must be rejected, for testing.
+/// @custom:oz-upgrades-unsafe-allow constructor
+contract DelayedJobsShifted is StorageShift, DelayedJobs {}
@@ -0,0 +1,49 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.4;
+
+import "../DelayedJobs.sol";
+
+
+/// @notice Bidder contract that refuses ETH, or tries withdrawing again when paid, for testing.
+contract RejectingReceiver {
+    enum Mode { Accept, Reject, Reenter }
+
+    DelayedJobs private immutable _jobs;
+    Mode public mode;
+
+    error Rejected(uint amount);
+
+    constructor(DelayedJobs jobs_) {
+        _jobs = jobs_;
+    }
+
+    function setMode(Mode mode_) public {
+        mode = mode_;
+    }
+
+    function placeJobBid(address target, uint maxBid, uint bid, string memory signature, bytes memory data, uint256 timeout) public payable {
+        _jobs.placeJobBid{value: msg.value}(target, maxBid, bid, signature, data, timeout);
+    }
+
+    function executeJobBid(address target, uint maxBid, string memory signature, bytes memory data, uint256 timeout) public {
+        _jobs.executeJobBid(target, maxBid, signature, data, timeout);
+    }
+
+    function withdraw() public {
+        _jobs.withdraw();
+    }
+
+    function withdrawTo(address recipient) public {
+        _jobs.withdrawTo(recipient);
+    }
+
+    receive() external payable {
+        if (mode == Mode.Reject) {
+            revert Rejected(msg.value);
+        }
+        if (mode == Mode.Reenter) {
+            _jobs.withdraw();
+        }
+    }
+}
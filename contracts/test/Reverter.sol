@@ -0,0 +1,30 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.4;
+
+
+/// @notice Job target failing in each of the ways a call can revert, for testing.
+contract Reverter {
+    error Refused(address caller, uint code);
+
+    function succeed(uint value) public pure returns (uint) {
+        return value * 2;
+    }
+
+    function failWithReason(string memory reason) public pure {
+        revert(reason);
+    }
+
+    function failWithPanic(uint divisor) public pure returns (uint) {
+        return 1 / divisor;
+    }
+
+    function failWithCustomError(uint code) public view {
+        revert Refused(msg.sender, code);
+    }
+
+    function failSilently() public pure {
+        // solhint-disable-next-line reason-string
+        revert();
+    }
+}
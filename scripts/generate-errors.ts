@@ -0,0 +1,55 @@
+import {artifacts} from 'hardhat'
+import {writeFileSync} from 'fs'
+import {utils} from 'ethers'
+
+/*
+ * Generates the catalogue of DelayedJobs custom errors for the tests, e.g.
+ *
+ * npm run generate-errors
+ */
+const CATALOGUE = 'test/framework/errors.ts'
+
+async function main(): Promise<void> {
+    const {abi} = await artifacts.readArtifact('DelayedJobs')
+    const errors = Object.values(new utils.Interface(abi).errors).sort((a, b) =>
+        a.name.localeCompare(b.name)
+    )
+    const entries = errors.map(
+        (error) =>
+            `    ${error.name}: {\n` +
+            `        name: '${error.name}',\n` +
+            `        signature: '${error.format()}',\n` +
+            `        selector: '${utils.id(error.format()).slice(0, 10)}'\n` +
+            '    }'
+    )
+
+    writeFileSync(
+        CATALOGUE,
+        `/*
+ * Generated by scripts/generate-errors.ts from the DelayedJobs ABI, do not
+ * edit by hand: npm run generate-errors
+ */
+
+/**
+ * A custom error of a contract, by its name, signature and selector.
+ */
+export interface ContractError {
+    name: string
+    signature: string
+    selector: string
+}
+
+export const DelayedJobsError = {
+${entries.join(',\n')}
+}
+
+export type DelayedJobsErrorName = keyof typeof DelayedJobsError
+`
+    )
+    process.stdout.write(`Wrote ${errors.length} errors to ${CATALOGUE}\n`)
+}
+
+main().catch((error: unknown) => {
+    process.stderr.write(`${String(error)}\n`)
+    process.exitCode = 1
+})
@@ -0,0 +1,50 @@
+import {ethers} from 'hardhat'
+import {createLogger} from 'bunyan'
+import {DelayedJobs} from '../typechain-types'
+import {AbiRegistry} from '../src/calldata'
+import {Keeper} from '../src/keeper'
+import {JsonFileKeeperStore} from '../src/keeper-store'
+
+/*
+ * Runs the keeper as userB (second signer) until interrupted, e.g.
+ *
+ * DELAYED_JOBS_ADDRESS=0x... npx hardhat run --network local scripts/keeper.ts
+ */
+const log = createLogger({name: 'keeper'})
+
+async function main(): Promise<void> {
+    const address = process.env.DELAYED_JOBS_ADDRESS
+    const statePath = process.env.KEEPER_STATE ?? 'keeper-state.json'
+
+    if (!address) {
+        throw new Error('DELAYED_JOBS_ADDRESS must be set')
+    }
+
+    const [, userB] = await ethers.getSigners()
+    const contract = (await ethers.getContractAt(
+        'DelayedJobs',
+        address,
+        userB
+    )) as DelayedJobs
+    const keeper = new Keeper(contract, new JsonFileKeeperStore(statePath), {
+        logger: log,
+        registry: new AbiRegistry().registerContract('DelayedJobs', contract)
+    })
+
+    process.on('SIGINT', () => {
+        keeper
+            .stop()
+            .then(() => process.exit(0))
+            .catch((error: unknown) =>
+                log.error({error}, 'Failed stopping keeper')
+            )
+    })
+
+    await keeper.start()
+    log.info({address, executor: userB.address}, 'Keeper started')
+}
+
+main().catch((error: unknown) => {
+    log.fatal({error}, 'Keeper stopped')
+    process.exitCode = 1
+})
@@ -0,0 +1,37 @@
+import {BigNumber, BigNumberish} from 'ethers'
+
+/**
+ * Groups the items in order into batches whose gas adds up to at most the
+ * limit, starting the next batch once an item no longer fits. An item using
+ * more than the limit alone still gets a batch of its own.
+ *
+ * @param gas of each item, e.g. its estimate less the base transaction cost.
+ * @param limit of each batch, e.g. the share of the block gas limit to use.
+ */
+export function packBatches<T>(
+    items: T[],
+    gas: (item: T) => BigNumberish,
+    limit: BigNumberish
+): T[][] {
+    const batches: T[][] = []
+    let batch: T[] = []
+    let used = BigNumber.from(0)
+
+    for (const item of items) {
+        const needed = BigNumber.from(gas(item))
+
+        if (batch.length > 0 && used.add(needed).gt(limit)) {
+            batches.push(batch)
+            batch = []
+            used = BigNumber.from(0)
+        }
+
+        batch.push(item)
+        used = used.add(needed)
+    }
+
+    if (batch.length > 0) {
+        batches.push(batch)
+    }
+    return batches
+}
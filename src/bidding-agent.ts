@@ -0,0 +1,326 @@
+import Logger, {createLogger} from 'bunyan'
+import {BigNumber, BigNumberish} from 'ethers'
+import {DelayedJobs} from '../typechain-types'
+import {BiddingStrategy} from './bidding-strategy'
+import {DelayedJobsClient} from './client'
+import {AuctionJob} from './job'
+import {PriceOracle, weiIn} from './prices'
+import {MemorySealedBidStore, SealedBidStore, SealedBidder} from './sealed-bids'
+
+// Gas for placing a bid and executing the job, with headroom
+const DEFAULT_GAS_UNITS = 200000
+
+/**
+ * Where the agent stands in a single auction.
+ *
+ * watching: no bid placed yet.
+ * committed: the agent committed a sealed bid, yet to be revealed.
+ * leading: the agent holds the best bid.
+ * outbid: the agent bid, but another has since bid lower.
+ * executed: the agent won and executed the job.
+ * lost: the auction closed without the agent executing the job.
+ */
+export type PositionState =
+    | 'watching'
+    | 'committed'
+    | 'leading'
+    | 'outbid'
+    | 'executed'
+    | 'lost'
+
+/**
+ * The agent's involvement in one auction job.
+ */
+export interface Position {
+    job: AuctionJob
+    state: PositionState
+    ourBid: BigNumber | null
+    bids: number
+}
+
+/**
+ * Tuning for the agent, where gas units is the estimated gas for placing a
+ * bid and executing the job (given to the strategy for cost estimates), the
+ * prices value that gas in the token of a token reward, and the sealed bids
+ * keep the salts of bids committed on sealed auctions (in memory by default).
+ */
+export interface BiddingAgentOptions {
+    gasUnits?: BigNumberish
+    logger?: Logger
+    prices?: PriceOracle
+    sealedBids?: SealedBidStore
+}
+
+/**
+ * Takes part in job auctions, bidding by its strategy whenever it is not the
+ * best bidder during the delay, then executing the auctions it won within
+ * the delay + timeout window.
+ *
+ * On a sealed auction, where bids stay hidden, the agent commits the single
+ * bid its strategy makes against the maximum bid, reveals it during the
+ * reveal period, then executes if it won.
+ */
+export class BiddingAgent {
+    private readonly _client: DelayedJobsClient
+    private readonly _bidder: Promise<string>
+    private readonly _strategy: BiddingStrategy
+    private readonly _sealed: SealedBidder
+    private readonly _gasUnits: BigNumber
+    private readonly _prices: PriceOracle | null
+    private readonly _log: Logger
+    private readonly _positions = new Map<string, Position>()
+    private _queue: Promise<void> = Promise.resolve()
+
+    /**
+     * @param contract connected to the signer placing the bids.
+     * @param strategy deciding each bid.
+     */
+    constructor(
+        contract: DelayedJobs,
+        strategy: BiddingStrategy,
+        options: BiddingAgentOptions = {}
+    ) {
+        this._client = new DelayedJobsClient(contract)
+        this._bidder = contract.signer.getAddress()
+        this._strategy = strategy
+        this._gasUnits = BigNumber.from(options.gasUnits ?? DEFAULT_GAS_UNITS)
+        this._prices = options.prices ?? null
+        this._log = options.logger ?? createLogger({name: 'bidding-agent'})
+        this._sealed = new SealedBidder(
+            contract,
+            options.sealedBids ?? new MemorySealedBidStore(),
+            {logger: this._log}
+        )
+    }
+
+    /**
+     * Takes part in the auction from the next step onwards.
+     */
+    public track(job: AuctionJob): void {
+        if (!this._positions.has(job.txHash)) {
+            this._positions.set(job.txHash, {
+                job,
+                state: 'watching',
+                ourBid: null,
+                bids: 0
+            })
+        }
+    }
+
+    public position(txHash: string): Position | null {
+        return this._positions.get(txHash) ?? null
+    }
+
+    /**
+     * Positions still to be decided, i.e. neither executed nor lost.
+     */
+    public openPositions(): Position[] {
+        return [...this._positions.values()].filter(
+            ({state}) => state !== 'executed' && state !== 'lost'
+        )
+    }
+
+    /**
+     * Steps on every new block, until stopped.
+     */
+    public start(): void {
+        this._client.contract.provider.on('block', this.block)
+    }
+
+    public async stop(): Promise<void> {
+        this._client.contract.provider.off('block', this.block)
+        await this._queue
+    }
+
+    /**
+     * Advances every open position once, bidding or executing as due.
+     */
+    public step(): Promise<void> {
+        this._queue = this._queue.then(async () => {
+            for (const position of this.openPositions()) {
+                this._positions.set(
+                    position.job.txHash,
+                    await this.advance(position)
+                )
+            }
+        })
+        return this._queue
+    }
+
+    private readonly block = (): void => {
+        this.step().catch((error: unknown) =>
+            this._log.error({error}, 'Failed stepping positions')
+        )
+    }
+
+    /**
+     * The position after bidding or executing as its auction phase demands.
+     */
+    private async advance(position: Position): Promise<Position> {
+        const {job} = position
+        const [status, bidder] = await Promise.all([
+            this._client.status(job),
+            this._bidder
+        ])
+        const leading = status.bestBidder === bidder
+
+        switch (status.phase) {
+            case 'bidding':
+                if (status.revealsAt) {
+                    return position.ourBid ? position : this.commit(position)
+                }
+                if (leading) {
+                    return {...position, state: 'leading'}
+                }
+                return this.bid(position, status.bestBid ?? job.value)
+            case 'revealing':
+                return this.reveal(position, bidder)
+            case 'executable':
+                return leading
+                    ? this.execute(position)
+                    : {...position, state: 'lost'}
+            default:
+                return {...position, state: 'lost'}
+        }
+    }
+
+    private async bid(
+        position: Position,
+        bestBid: BigNumber
+    ): Promise<Position> {
+        const current: Position = position.ourBid
+            ? {...position, state: 'outbid'}
+            : position
+        const amount = await this.nextBid(position, bestBid)
+
+        if (!amount) {
+            return current
+        }
+
+        try {
+            await this._client.bid(position.job, amount)
+            this._log.info(
+                {txHash: position.job.txHash, bid: amount.toString()},
+                'Bid placed'
+            )
+            return {
+                ...position,
+                state: 'leading',
+                ourBid: amount,
+                bids: position.bids + 1
+            }
+        } catch (error) {
+            this._log.warn({txHash: position.job.txHash, error}, 'Bid failed')
+            return current
+        }
+    }
+
+    /**
+     * Commits the bid of the strategy on a sealed auction, bidding against
+     * the maximum bid as the others stay hidden.
+     */
+    private async commit(position: Position): Promise<Position> {
+        const amount = await this.nextBid(position, position.job.value)
+
+        if (!amount) {
+            return position
+        }
+
+        try {
+            await this._sealed.commit(position.job, amount)
+            this._log.info(
+                {txHash: position.job.txHash, bid: amount.toString()},
+                'Sealed bid committed'
+            )
+            return {
+                ...position,
+                state: 'committed',
+                ourBid: amount,
+                bids: position.bids + 1
+            }
+        } catch (error) {
+            this._log.warn(
+                {txHash: position.job.txHash, error},
+                'Commit failed'
+            )
+            return position
+        }
+    }
+
+    /**
+     * Reveals the sealed bid of the agent, then stands by the best revealed
+     * bid so far. Without a bid committed the auction is lost.
+     */
+    private async reveal(
+        position: Position,
+        bidder: string
+    ): Promise<Position> {
+        const {txHash} = position.job
+        const sealed = (): boolean =>
+            this._sealed.pending().some((bid) => bid.txHash === txHash)
+
+        if (sealed()) {
+            await this._sealed.step()
+
+            if (sealed()) {
+                return {...position, state: 'committed'}
+            }
+        }
+
+        if (!position.ourBid) {
+            return {...position, state: 'lost'}
+        }
+
+        const bestBidder = await this._client.contract.submittedBestBidder(
+            txHash
+        )
+
+        return {
+            ...position,
+            state: bestBidder === bidder ? 'leading' : 'outbid'
+        }
+    }
+
+    /**
+     * The bid of the strategy below the best bid, or null to stay out.
+     */
+    private async nextBid(
+        position: Position,
+        bestBid: BigNumber
+    ): Promise<BigNumber | null> {
+        const [gasPrice, token] = await Promise.all([
+            this._client.contract.provider.getGasPrice(),
+            this._client.contract.submittedToken(position.job.txHash)
+        ])
+        const amount = this._strategy.nextBid({
+            job: position.job,
+            bestBid,
+            ourBid: position.ourBid,
+            gasPrice,
+            gasUnits: this._gasUnits,
+            gasCost: await weiIn(
+                this._prices,
+                token,
+                gasPrice.mul(this._gasUnits)
+            )
+        })
+
+        return !amount || amount.gte(bestBid) || amount.isNegative()
+            ? null
+            : amount
+    }
+
+    private async execute(position: Position): Promise<Position> {
+        try {
+            await this._client.execute(position.job)
+            this._log.info({txHash: position.job.txHash}, 'Auction executed')
+            return {...position, state: 'executed'}
+        } catch (error) {
+            this._log.warn(
+                {txHash: position.job.txHash, error},
+                'Execution failed'
+            )
+            return position
+        }
+    }
+}
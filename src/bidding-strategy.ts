@@ -0,0 +1,77 @@
+import {BigNumber, BigNumberish, constants} from 'ethers'
+import {AuctionJob} from './job'
+
+/**
+ * What a strategy knows when deciding on a bid.
+ *
+ * The bid is what the winning bidder earns on execution, with the auction
+ * descending from the maximum bid (the job value) towards zero. Bids are in
+ * the token of the reward, as is the gas cost (of gasUnits at gasPrice wei),
+ * which is null when the reward is in a token without a price.
+ */
+export interface BidContext {
+    job: AuctionJob
+    bestBid: BigNumber
+    ourBid: BigNumber | null
+    gasPrice: BigNumber
+    gasUnits: BigNumber
+    gasCost: BigNumber | null
+}
+
+/**
+ * Decides the next bid for an auction where the agent is not the best bidder,
+ * or null to stay out.
+ */
+export interface BiddingStrategy {
+    nextBid(context: BidContext): BigNumber | null
+}
+
+/**
+ * Bids the floor in a single step, never going below it.
+ */
+export function fixedFloor(floor: BigNumberish): BiddingStrategy {
+    const minimum = BigNumber.from(floor)
+
+    return {
+        nextBid: ({bestBid}) => (bestBid.gt(minimum) ? minimum : null)
+    }
+}
+
+/**
+ * Undercuts the best bid by the step, never going below the floor.
+ */
+export function undercut(
+    step: BigNumberish,
+    floor: BigNumberish
+): BiddingStrategy {
+    const decrement = BigNumber.from(step)
+    const minimum = BigNumber.from(floor)
+
+    return {
+        nextBid: ({bestBid}) => {
+            const bid = bestBid.sub(decrement)
+            return bid.gte(minimum) ? bid : null
+        }
+    }
+}
+
+/**
+ * Undercuts the best bid by the step, while the bid still covers the gas for
+ * bidding and executing plus the margin, or just the margin when the gas cost
+ * is unknown.
+ */
+export function gasAwareMargin(
+    margin: BigNumberish,
+    step: BigNumberish
+): BiddingStrategy {
+    const profit = BigNumber.from(margin)
+    const decrement = BigNumber.from(step)
+
+    return {
+        nextBid: ({bestBid, gasCost}) => {
+            const minimum = (gasCost ?? constants.Zero).add(profit)
+            const bid = bestBid.sub(decrement)
+            return bid.gte(minimum) ? bid : null
+        }
+    }
+}
@@ -0,0 +1,268 @@
+import {BaseContract, BytesLike, ContractInterface, utils} from 'ethers'
+
+/**
+ * The call a job makes, in the form submitJob expects: the contract prepends
+ * the selector of the signature to the ABI encoded data.
+ */
+export interface JobCall {
+    target: string
+    signature: string
+    data: string
+}
+
+/**
+ * A single named argument of a decoded call.
+ */
+export interface DecodedArgument {
+    name: string
+    type: string
+    value: unknown
+}
+
+/**
+ * A job call decoded back into its function and arguments, where contract is
+ * the registered name of the target (when known).
+ */
+export interface DecodedCall {
+    target: string
+    contract: string | null
+    signature: string
+    name: string
+    args: DecodedArgument[]
+}
+
+/**
+ * Builds the call from the function, given as a fragment or human readable
+ * signature (e.g. "transfer(address to, uint256 amount)"), normalising the
+ * signature to its canonical form.
+ */
+export function buildCall(
+    target: string,
+    fragment: utils.FunctionFragment | string,
+    args: ReadonlyArray<unknown>
+): JobCall {
+    const func = functionFragment(fragment)
+
+    if (args.length !== func.inputs.length) {
+        throw new Error(
+            `Calldata: ${func.format()} expects ${
+                func.inputs.length
+            } arguments, given ${args.length}`
+        )
+    }
+
+    return {
+        target,
+        signature: func.format(),
+        data: utils.defaultAbiCoder.encode(func.inputs, args)
+    }
+}
+
+/**
+ * Builds the call to the function of a (typechain) contract, with the
+ * arguments type checked against the contract function.
+ */
+export function contractCall<
+    C extends BaseContract,
+    F extends keyof C['functions'] & string
+>(contract: C, name: F, ...args: Parameters<C['functions'][F]>): JobCall {
+    const fragment = contract.interface.getFunction(name)
+
+    return buildCall(
+        contract.address,
+        fragment,
+        args.slice(0, fragment.inputs.length)
+    )
+}
+
+/**
+ * Known targets and their ABIs, for validating calls before submission and
+ * decoding them afterwards.
+ */
+export class AbiRegistry {
+    private readonly _targets = new Map<
+        string,
+        {name: string; abi: utils.Interface}
+    >()
+
+    /**
+     * Registers (or replaces) the ABI for the target address.
+     */
+    public register(
+        address: string,
+        name: string,
+        abi: ContractInterface
+    ): AbiRegistry {
+        this._targets.set(utils.getAddress(address), {
+            name,
+            abi: abi instanceof utils.Interface ? abi : new utils.Interface(abi)
+        })
+        return this
+    }
+
+    /**
+     * Registers the contract under the given name, at its address.
+     */
+    public registerContract(name: string, contract: BaseContract): AbiRegistry {
+        return this.register(contract.address, name, contract.interface)
+    }
+
+    public has(address: string): boolean {
+        return this._targets.has(utils.getAddress(address))
+    }
+
+    /**
+     * Every registered ABI, e.g. for decoding custom errors.
+     */
+    public interfaces(): utils.Interface[] {
+        return [...this._targets.values()].map(({abi}) => abi)
+    }
+
+    /**
+     * Checks the target is known and has a function with the signature,
+     * failing with a description of what does not match.
+     */
+    public validate(call: JobCall): void {
+        const known = this.lookup(call.target)
+
+        if (!known) {
+            throw new Error(`Calldata: Unknown target ${call.target}`)
+        }
+        if (call.signature === '') {
+            this.decode(call.target, call.signature, call.data)
+            return
+        }
+
+        const signature = functionFragment(call.signature).format()
+        const functions = Object.keys(known.abi.functions)
+
+        if (!functions.includes(signature)) {
+            throw new Error(
+                `Calldata: ${known.name} at ${
+                    call.target
+                } has no function ${signature}, it has ${functions.join(', ')}`
+            )
+        }
+
+        utils.defaultAbiCoder.decode(
+            known.abi.getFunction(signature).inputs,
+            call.data
+        )
+    }
+
+    /**
+     * Decodes the call, naming the arguments when the target is known,
+     * otherwise naming them by position from the signature.
+     */
+    public decode(
+        target: string,
+        signature: string,
+        data: BytesLike
+    ): DecodedCall {
+        const known = this.lookup(target)
+
+        if (signature === '') {
+            if (!known) {
+                throw new Error(
+                    `Calldata: Cannot decode raw calldata for unknown target ${target}`
+                )
+            }
+
+            const parsed = known.abi.parseTransaction({
+                data: utils.hexlify(data)
+            })
+            return decoded(
+                target,
+                known.name,
+                parsed.functionFragment,
+                utils.hexDataSlice(data, 4)
+            )
+        }
+
+        const fragment =
+            known && Object.keys(known.abi.functions).includes(signature)
+                ? known.abi.getFunction(signature)
+                : functionFragment(signature)
+
+        return decoded(target, known?.name ?? null, fragment, data)
+    }
+
+    /**
+     * Decodes the call of a job, or of a JobSubmitted or JobExecuted event.
+     */
+    public decodeJob(job: {
+        target: string
+        signature: string
+        data: BytesLike
+    }): DecodedCall {
+        return this.decode(job.target, job.signature, job.data)
+    }
+
+    private lookup(address: string) {
+        return this._targets.get(utils.getAddress(address)) ?? null
+    }
+}
+
+/**
+ * Human readable form of the decoded call, e.g.
+ * "DelayedJobs.updateDelay(delay_=3600)".
+ */
+export function formatCall(call: DecodedCall): string {
+    const args = call.args
+        .map((arg) => `${arg.name}=${formatValue(arg.value)}`)
+        .join(', ')
+
+    return `${call.contract ? `${call.contract}.` : ''}${call.name}(${args})`
+}
+
+/**
+ * The formatted call of the job for logs and listings, falling back to its
+ * raw signature when the data does not decode.
+ */
+export function describeCall(
+    registry: AbiRegistry,
+    job: {target: string; signature: string; data: BytesLike}
+): string {
+    try {
+        return formatCall(registry.decodeJob(job))
+    } catch {
+        return job.signature
+    }
+}
+
+function functionFragment(
+    fragment: utils.FunctionFragment | string
+): utils.FunctionFragment {
+    if (typeof fragment !== 'string') {
+        return fragment
+    }
+
+    return utils.FunctionFragment.from(fragment.trim())
+}
+
+function decoded(
+    target: string,
+    contract: string | null,
+    fragment: utils.FunctionFragment,
+    data: BytesLike
+): DecodedCall {
+    const values = utils.defaultAbiCoder.decode(fragment.inputs, data)
+
+    return {
+        target,
+        contract,
+        signature: fragment.format(),
+        name: fragment.name,
+        args: fragment.inputs.map((input, index) => ({
+            name: input.name || `arg${index}`,
+            type: input.format(),
+            value: values[index] as unknown
+        }))
+    }
+}
+
+function formatValue(value: unknown): string {
+    return Array.isArray(value)
+        ? `[${value.map(formatValue).join(', ')}]`
+        : String(value)
+}
@@ -0,0 +1,1207 @@
+import {
+    BaseContract,
+    BigNumber,
+    BigNumberish,
+    BytesLike,
+    ContractReceipt,
+    ContractTransaction,
+    Signer,
+    constants
+} from 'ethers'
+import {DelayedJobs} from '../typechain-types'
+import {packBatches} from './batches'
+import {erc20} from './erc20'
+import {
+    JobAuctionExecutedEvent,
+    JobExecutedEvent,
+    JobRunExecutedEvent
+} from '../typechain-types/DelayedJobs'
+import {WaitOptions, receiptEvents, waitFor} from './events'
+import {
+    AuctionJob,
+    Job,
+    RecurringJob,
+    describeAuctionJob,
+    describeJob,
+    describeRecurringJob,
+    isAuctionJob,
+    isRecurringJob
+} from './job'
+import {decodeError, decodeRevert, formatRevert, rethrowDecoded} from './revert'
+import {JobRole, roleId} from './roles'
+import {SignedJob, signingDomain, verifySignedJob} from './signing'
+
+/**
+ * Where a job is in its life cycle, as seen from the latest block.
+ *
+ * unsubmitted: never submitted, or already executed or cancelled.
+ * delayed: submitted, but the delay has not yet passed.
+ * bidding: auction job accepting bids, the delay has not yet passed.
+ * revealing: sealed auction job past its delay, taking reveals of the
+ * committed bids until it matures.
+ * executable: the delay has passed (for auctions, within the timeout).
+ * blocked: plain job past its delay, awaiting prerequisites yet to execute.
+ * expired: auction job past delay + timeout, only cancellation remains, or
+ * plain job past its expiry, only reclaiming the reward remains.
+ */
+export type JobPhase =
+    | 'unsubmitted'
+    | 'delayed'
+    | 'bidding'
+    | 'revealing'
+    | 'executable'
+    | 'blocked'
+    | 'expired'
+
+/**
+ * On-chain state of a job.
+ */
+export interface JobStatus {
+    phase: JobPhase
+    submitter: string
+    submittedAt: BigNumber
+    maturesAt: BigNumber
+    expiresAt?: BigNumber
+    bestBid?: BigNumber
+    bestBidder?: string
+    // Sealed auction: reveals open at, maturesAt being once they close
+    revealsAt?: BigNumber
+    // Sealed auction: bids committed, yet to be revealed
+    unrevealedBids?: BigNumber
+    // Runs a recurring job has executed, maturesAt being that of the next
+    runs?: BigNumber
+    // Prerequisites of a plain job yet to execute, by txHash
+    blockedOn?: string[]
+    // ERC-20 token of the reward and collateral, absent for ETH
+    token?: string
+}
+
+/**
+ * A plain job of a batch submission, with its reward in ETH.
+ */
+export interface BatchSubmission {
+    target: string
+    signature: string
+    data: BytesLike
+    reward: BigNumberish
+}
+
+/**
+ * Outcome of a single job of a batch.
+ */
+export interface JobResult {
+    job: Job
+    success: boolean
+    // Return data of the call on execution, or the revert data on failure
+    result: string
+    // Failure decoded from the revert data
+    error?: string
+    // Transaction of the batch, absent for a job failing before it was sent
+    transactionHash?: string
+}
+
+/**
+ * Options for executing jobs in batches.
+ */
+export interface BatchOptions {
+    // Share of the block gas limit a batch may use, default 0.5
+    blockGasShare?: number
+}
+
+// Cost of every transaction, paid once per batch rather than once per job
+const TX_BASE_GAS = 21000
+
+// Cost of a job in a batch beyond executing alone: the self call and its event
+const BATCHED_JOB_GAS = 15000
+
+const BLOCK_GAS_SHARE = 0.5
+
+/**
+ * Typed client for the DelayedJobs contract, where jobs are identified by
+ * their descriptor rather than by re-passing the submission arguments.
+ * Transactions the contract reverts fail with a RevertError.
+ */
+export class DelayedJobsClient {
+    readonly contract: DelayedJobs
+
+    constructor(contract: DelayedJobs) {
+        this.contract = contract
+    }
+
+    /**
+     * Client sending its transactions from the given signer.
+     */
+    public connect(signer: Signer): DelayedJobsClient {
+        return new DelayedJobsClient(this.contract.connect(signer))
+    }
+
+    /**
+     * Submits a job with an ETH reward, verifying the emitted txHash. With an
+     * expiry, the job may only be executed within that many seconds of its
+     * maturity, after which the submitter reclaims the reward.
+     */
+    public async submit(
+        target: string,
+        signature: string,
+        data: BytesLike,
+        reward: BigNumberish,
+        expiry?: BigNumberish
+    ): Promise<Job> {
+        const job = describeJob(target, reward, signature, data)
+        const receipt = await confirm(
+            this.contract,
+            typeof expiry === 'undefined'
+                ? this.contract.submitJob(target, signature, data, {
+                      value: reward
+                  })
+                : this.contract.submitJobWithExpiry(
+                      target,
+                      signature,
+                      data,
+                      expiry,
+                      {value: reward}
+                  )
+        )
+        verifySubmitted(this.contract, job, receipt)
+
+        return job
+    }
+
+    /**
+     * Submits the jobs in a single transaction sending their combined reward,
+     * reporting the result of each, where a job failing has its reward
+     * credited back to the sender for withdrawal.
+     */
+    public async submitBatch(jobs: BatchSubmission[]): Promise<JobResult[]> {
+        const described = jobs.map(({target, signature, data, reward}) =>
+            describeJob(target, reward, signature, data)
+        )
+        const receipt = await confirm(
+            this.contract,
+            this.contract.submitJobs(
+                described.map((job) => job.target),
+                described.map((job) => job.value),
+                described.map((job) => job.signature),
+                described.map((job) => job.data),
+                {
+                    value: described.reduce(
+                        (total, job) => total.add(job.value),
+                        BigNumber.from(0)
+                    )
+                }
+            )
+        )
+
+        return batchResults(this.contract, described, receipt)
+    }
+
+    /**
+     * Submits a job with an ETH reward that may only execute once each of the
+     * prerequisites (txHashes of submitted or executed jobs) has executed,
+     * verifying the emitted txHash.
+     */
+    public async submitWithPrerequisites(
+        target: string,
+        signature: string,
+        data: BytesLike,
+        prerequisites: BytesLike[],
+        reward: BigNumberish
+    ): Promise<Job> {
+        const job = describeJob(target, reward, signature, data)
+        const receipt = await confirm(
+            this.contract,
+            this.contract.submitJobWithPrerequisites(
+                target,
+                signature,
+                data,
+                prerequisites,
+                {value: reward}
+            )
+        )
+        verifySubmitted(this.contract, job, receipt)
+
+        return job
+    }
+
+    /**
+     * Submits an auction job where the reward is the maximum bid,
+     * verifying the emitted txHash.
+     */
+    public async submitAuction(
+        target: string,
+        signature: string,
+        data: BytesLike,
+        timeout: BigNumberish,
+        maxBid: BigNumberish
+    ): Promise<AuctionJob> {
+        const job = describeAuctionJob(target, maxBid, signature, data, timeout)
+        const receipt = await confirm(
+            this.contract,
+            this.contract.submitJobAuction(target, signature, data, timeout, {
+                value: maxBid
+            })
+        )
+        verifySubmitted(this.contract, job, receipt)
+
+        return job
+    }
+
+    /**
+     * Submits a sealed auction job where the reward is the maximum bid,
+     * verifying the emitted txHash. Bids are committed until the delay has
+     * passed, then revealed within the reveal period, only after which the
+     * lowest revealed bid executes within the timeout.
+     */
+    public async submitSealedAuction(
+        target: string,
+        signature: string,
+        data: BytesLike,
+        timeout: BigNumberish,
+        revealPeriod: BigNumberish,
+        maxBid: BigNumberish
+    ): Promise<AuctionJob> {
+        const job = describeAuctionJob(target, maxBid, signature, data, timeout)
+        const receipt = await confirm(
+            this.contract,
+            this.contract.submitJobSealedAuction(
+                target,
+                signature,
+                data,
+                timeout,
+                revealPeriod,
+                {value: maxBid}
+            )
+        )
+        verifySubmitted(this.contract, job, receipt)
+
+        return job
+    }
+
+    /**
+     * Submits a job signed by its submitter, sending the reward (maximum bid
+     * for auctions) as the relayer, verifying the emitted txHash. The
+     * signature is first checked locally, against the latest block and the
+     * next nonce of the submitter, to fail before sending the transaction.
+     */
+    public async relay(signed: SignedJob): Promise<Job> {
+        const {job, submitter, nonce, deadline, sig} = signed
+        const [domain, block, next] = await Promise.all([
+            signingDomain(this.contract),
+            this.contract.provider.getBlock('latest'),
+            this.contract.nonces(submitter)
+        ])
+
+        verifySignedJob(domain, signed, block.timestamp)
+        if (!nonce.eq(next)) {
+            throw new Error(
+                `DelayedJobsClient: Signed with nonce ${nonce.toString()}, the next nonce of ${submitter} is ${next.toString()}`
+            )
+        }
+
+        const receipt = await confirm(
+            this.contract,
+            isAuctionJob(job)
+                ? this.contract.submitJobAuctionBySig(
+                      job.target,
+                      job.signature,
+                      job.data,
+                      job.timeout,
+                      submitter,
+                      deadline,
+                      sig,
+                      {value: job.value}
+                  )
+                : this.contract.submitJobBySig(
+                      job.target,
+                      job.signature,
+                      job.data,
+                      submitter,
+                      deadline,
+                      sig,
+                      {value: job.value}
+                  )
+        )
+        verifySubmitted(this.contract, job, receipt)
+
+        return job
+    }
+
+    /**
+     * Submits a job with a reward in the ERC-20 token, first approving the
+     * contract to take the reward when the allowance falls short. With an
+     * expiry, the job expires as with submit.
+     */
+    public async submitToken(
+        target: string,
+        signature: string,
+        data: BytesLike,
+        token: string,
+        reward: BigNumberish,
+        expiry?: BigNumberish
+    ): Promise<Job> {
+        const job = describeJob(target, reward, signature, data)
+        await this.approve(token, reward)
+        const receipt = await confirm(
+            this.contract,
+            typeof expiry === 'undefined'
+                ? this.contract.submitTokenJob(
+                      target,
+                      signature,
+                      data,
+                      token,
+                      reward
+                  )
+                : this.contract.submitTokenJobWithExpiry(
+                      target,
+                      signature,
+                      data,
+                      expiry,
+                      token,
+                      reward
+                  )
+        )
+        verifySubmitted(this.contract, job, receipt)
+
+        return job
+    }
+
+    /**
+     * Submits a job with a reward in the ERC-20 token that may only execute
+     * once each of the prerequisites has executed, first approving the
+     * contract to take the reward when the allowance falls short.
+     */
+    public async submitTokenWithPrerequisites(
+        target: string,
+        signature: string,
+        data: BytesLike,
+        prerequisites: BytesLike[],
+        token: string,
+        reward: BigNumberish
+    ): Promise<Job> {
+        const job = describeJob(target, reward, signature, data)
+        await this.approve(token, reward)
+        const receipt = await confirm(
+            this.contract,
+            this.contract.submitTokenJobWithPrerequisites(
+                target,
+                signature,
+                data,
+                prerequisites,
+                token,
+                reward
+            )
+        )
+        verifySubmitted(this.contract, job, receipt)
+
+        return job
+    }
+
+    /**
+     * Submits an auction job where the reward, the maximum bid, is in the
+     * ERC-20 token, first approving the contract to take it when the
+     * allowance falls short.
+     */
+    public async submitTokenAuction(
+        target: string,
+        signature: string,
+        data: BytesLike,
+        timeout: BigNumberish,
+        token: string,
+        maxBid: BigNumberish
+    ): Promise<AuctionJob> {
+        const job = describeAuctionJob(target, maxBid, signature, data, timeout)
+        await this.approve(token, maxBid)
+        const receipt = await confirm(
+            this.contract,
+            this.contract.submitTokenJobAuction(
+                target,
+                signature,
+                data,
+                timeout,
+                token,
+                maxBid
+            )
+        )
+        verifySubmitted(this.contract, job, receipt)
+
+        return job
+    }
+
+    /**
+     * Submits a job run every interval seconds from its maturity, up to the
+     * maximum runs, each drawing an equal share of the ETH budget.
+     */
+    public async submitRecurring(
+        target: string,
+        signature: string,
+        data: BytesLike,
+        interval: BigNumberish,
+        maxRuns: BigNumberish,
+        budget: BigNumberish
+    ): Promise<RecurringJob> {
+        const job = describeRecurringJob(
+            target,
+            budget,
+            signature,
+            data,
+            interval,
+            maxRuns
+        )
+        const receipt = await confirm(
+            this.contract,
+            this.contract.submitRecurringJob(
+                target,
+                signature,
+                data,
+                interval,
+                maxRuns,
+                {value: budget}
+            )
+        )
+        verifySubmitted(this.contract, job, receipt)
+
+        return job
+    }
+
+    /**
+     * Submits a recurring job with its budget in the ERC-20 token, first
+     * approving the contract to take it when the allowance falls short.
+     */
+    public async submitTokenRecurring(
+        target: string,
+        signature: string,
+        data: BytesLike,
+        interval: BigNumberish,
+        maxRuns: BigNumberish,
+        token: string,
+        budget: BigNumberish
+    ): Promise<RecurringJob> {
+        const job = describeRecurringJob(
+            target,
+            budget,
+            signature,
+            data,
+            interval,
+            maxRuns
+        )
+        await this.approve(token, budget)
+        const receipt = await confirm(
+            this.contract,
+            this.contract.submitTokenRecurringJob(
+                target,
+                signature,
+                data,
+                interval,
+                maxRuns,
+                token,
+                budget
+            )
+        )
+        verifySubmitted(this.contract, job, receipt)
+
+        return job
+    }
+
+    /**
+     * Ensures the contract may take the amount of the ERC-20 token from the
+     * signer, approving exactly the amount when the allowance falls short.
+     * A non-zero allowance is first reset to zero, as some tokens refuse to
+     * change one directly. Resolves with the approval receipts, none when
+     * the allowance already suffices.
+     */
+    public async approve(
+        token: string,
+        amount: BigNumberish
+    ): Promise<ContractReceipt[]> {
+        const rewardToken = erc20(token, this.contract.signer)
+        const owner = await this.contract.signer.getAddress()
+        const allowance = await rewardToken.allowance(
+            owner,
+            this.contract.address
+        )
+
+        if (allowance.gte(amount)) {
+            return []
+        }
+
+        const receipts: ContractReceipt[] = []
+
+        if (!allowance.isZero()) {
+            receipts.push(
+                await confirm(
+                    rewardToken,
+                    rewardToken.approve(this.contract.address, 0)
+                )
+            )
+        }
+        receipts.push(
+            await confirm(
+                rewardToken,
+                rewardToken.approve(this.contract.address, amount)
+            )
+        )
+        return receipts
+    }
+
+    /**
+     * Executes a matured job, by executeJobBid for auction jobs, by
+     * executeRecurringJob for the next run of recurring jobs, otherwise by
+     * executeJob.
+     */
+    public async execute(job: Job): Promise<ContractReceipt> {
+        if (isRecurringJob(job)) {
+            return confirm(
+                this.contract,
+                this.contract.executeRecurringJob(
+                    job.target,
+                    job.value,
+                    job.signature,
+                    job.data,
+                    job.interval,
+                    job.maxRuns
+                )
+            )
+        }
+        if (isAuctionJob(job)) {
+            return confirm(
+                this.contract,
+                this.contract.executeJobBid(
+                    job.target,
+                    job.value,
+                    job.signature,
+                    job.data,
+                    job.timeout
+                )
+            )
+        }
+
+        return confirm(
+            this.contract,
+            this.contract.executeJob(
+                job.target,
+                job.value,
+                job.signature,
+                job.data
+            )
+        )
+    }
+
+    /**
+     * Executes the matured plain jobs by executeJobs, in as few transactions
+     * as fit within the share of the block gas limit, reporting the result of
+     * each in the given order. Each job is estimated alone first, so one
+     * that would fail (including one awaiting a prerequisite in the same
+     * batch) is reported failed without being sent.
+     */
+    public async executeBatch(
+        jobs: Job[],
+        options: BatchOptions = {}
+    ): Promise<JobResult[]> {
+        const share = options.blockGasShare ?? BLOCK_GAS_SHARE
+        const {gasLimit} = await this.contract.provider.getBlock('latest')
+        const limit = gasLimit.mul(Math.floor(share * 100)).div(100)
+        const results: JobResult[] = []
+        const estimated: Array<{index: number; job: Job; gas: BigNumber}> = []
+
+        for (const [index, job] of jobs.entries()) {
+            if (isAuctionJob(job) || isRecurringJob(job)) {
+                throw new Error(
+                    `DelayedJobsClient: Only plain jobs execute in batches, not ${job.txHash}`
+                )
+            }
+
+            try {
+                const estimate = await this.contract.estimateGas.executeJob(
+                    job.target,
+                    job.value,
+                    job.signature,
+                    job.data
+                )
+                estimated.push({index, job, gas: batchedGas(estimate)})
+            } catch (error) {
+                const revert = decodeError(error, [this.contract.interface])
+
+                if (!revert) {
+                    throw error
+                }
+                results[index] = {
+                    job,
+                    success: false,
+                    result: '0x',
+                    error: formatRevert(revert)
+                }
+            }
+        }
+
+        for (const batch of packBatches(
+            estimated,
+            ({gas}) => gas,
+            limit.sub(TX_BASE_GAS)
+        )) {
+            const batched = batch.map(({job}) => job)
+            const receipt = await confirm(
+                this.contract,
+                this.contract.executeJobs(
+                    batched.map((job) => job.target),
+                    batched.map((job) => job.value),
+                    batched.map((job) => job.signature),
+                    batched.map((job) => job.data),
+                    {
+                        gasLimit: batch.reduce(
+                            (total, {gas}) => total.add(gas),
+                            BigNumber.from(TX_BASE_GAS)
+                        )
+                    }
+                )
+            )
+
+            batchResults(this.contract, batched, receipt).forEach(
+                (result, i) => {
+                    results[batch[i].index] = result
+                }
+            )
+        }
+
+        return results
+    }
+
+    /**
+     * Waits for the job to be executed by anyone, resolving with the
+     * JobAuctionExecuted event for auction jobs, JobRunExecuted of the next
+     * run for recurring jobs, otherwise JobExecuted. Fails once the timeout
+     * or block limit of the options passes first.
+     */
+    public waitForExecution(
+        job: Job,
+        options: Omit<WaitOptions, 'where'> = {}
+    ): Promise<
+        JobExecutedEvent | JobAuctionExecutedEvent | JobRunExecutedEvent
+    > {
+        if (isRecurringJob(job)) {
+            return waitFor(
+                this.contract,
+                this.contract.filters.JobRunExecuted(job.txHash),
+                options
+            )
+        }
+
+        return isAuctionJob(job)
+            ? waitFor(
+                  this.contract,
+                  this.contract.filters.JobAuctionExecuted(job.txHash),
+                  options
+              )
+            : waitFor(
+                  this.contract,
+                  this.contract.filters.JobExecuted(job.txHash),
+                  options
+              )
+    }
+
+    /**
+     * Places a bid on an auction job with the collateral the contract
+     * expects (maximum bid less the bid amount): sent as ETH, or for a
+     * reward in an ERC-20 token approved for the contract to take.
+     */
+    public async bid(
+        job: AuctionJob,
+        amount: BigNumberish
+    ): Promise<ContractReceipt> {
+        const collateral = job.value.sub(amount)
+        const token = await this.contract.submittedToken(job.txHash)
+
+        if (token !== constants.AddressZero) {
+            await this.approve(token, collateral)
+        }
+
+        return confirm(
+            this.contract,
+            this.contract.placeJobBid(
+                job.target,
+                job.value,
+                amount,
+                job.signature,
+                job.data,
+                job.timeout,
+                {value: token === constants.AddressZero ? collateral : 0}
+            )
+        )
+    }
+
+    /**
+     * Commits to a sealed bid on an auction job, sending the maximum bid as
+     * collateral, whatever the bid, so nothing of it shows before the reveal.
+     * The commitment is that of bidCommitment, whose salt must be kept to
+     * reveal the bid.
+     */
+    public async commitBid(
+        job: AuctionJob,
+        commitment: BytesLike
+    ): Promise<ContractReceipt> {
+        return confirm(
+            this.contract,
+            this.contract.commitJobBid(
+                job.target,
+                job.value,
+                job.signature,
+                job.data,
+                job.timeout,
+                commitment,
+                {value: job.value}
+            )
+        )
+    }
+
+    /**
+     * Reveals the bid committed with the salt during the reveal period of a
+     * sealed auction job, refunding the collateral unless it is the best.
+     */
+    public async revealBid(
+        job: AuctionJob,
+        bid: BigNumberish,
+        salt: BytesLike
+    ): Promise<ContractReceipt> {
+        return confirm(
+            this.contract,
+            this.contract.revealJobBid(
+                job.target,
+                job.value,
+                job.signature,
+                job.data,
+                job.timeout,
+                bid,
+                salt
+            )
+        )
+    }
+
+    /**
+     * Cancels the job, refunding the submitter: an auction job after its
+     * delay and timeout have passed, by cancelJobAuction, the remaining runs
+     * of a recurring job by cancelRecurringJob, otherwise by cancelJob. Plain
+     * and recurring jobs cancel at any time but the grace period following
+     * the maturity (of their next run).
+     */
+    public async cancel(job: Job): Promise<ContractReceipt> {
+        if (isRecurringJob(job)) {
+            return confirm(
+                this.contract,
+                this.contract.cancelRecurringJob(
+                    job.target,
+                    job.value,
+                    job.signature,
+                    job.data,
+                    job.interval,
+                    job.maxRuns
+                )
+            )
+        }
+        if (isAuctionJob(job)) {
+            return confirm(
+                this.contract,
+                this.contract.cancelJobAuction(
+                    job.target,
+                    job.value,
+                    job.signature,
+                    job.data,
+                    job.timeout
+                )
+            )
+        }
+
+        return confirm(
+            this.contract,
+            this.contract.cancelJob(
+                job.target,
+                job.value,
+                job.signature,
+                job.data
+            )
+        )
+    }
+
+    /**
+     * Refunds the submitter the reward of a plain job past its expiry.
+     */
+    public async reclaim(job: Job): Promise<ContractReceipt> {
+        return confirm(
+            this.contract,
+            this.contract.reclaimJob(
+                job.target,
+                job.value,
+                job.signature,
+                job.data
+            )
+        )
+    }
+
+    /**
+     * ETH, or the ERC-20 token when given, credited to the account (rewards
+     * and refunds) and not yet withdrawn.
+     */
+    public claimable(
+        account: string,
+        token: string = constants.AddressZero
+    ): Promise<BigNumber> {
+        return this.contract.claimableToken(account, token)
+    }
+
+    /**
+     * Withdraws everything credited to the signer, paying the recipient when
+     * given (e.g. for a signer unable to receive ETH), otherwise the signer.
+     */
+    public async withdraw(recipient?: string): Promise<ContractReceipt> {
+        return confirm(
+            this.contract,
+            typeof recipient === 'undefined'
+                ? this.contract.withdraw()
+                : this.contract.withdrawTo(recipient)
+        )
+    }
+
+    /**
+     * Withdraws all of the ERC-20 token credited to the signer, paying the
+     * recipient when given, otherwise the signer.
+     */
+    public async withdrawToken(
+        token: string,
+        recipient?: string
+    ): Promise<ContractReceipt> {
+        return confirm(
+            this.contract,
+            typeof recipient === 'undefined'
+                ? this.contract.withdrawToken(token)
+                : this.contract.withdrawTokenTo(token, recipient)
+        )
+    }
+
+    /**
+     * Accounts holding the role, in the order the contract enumerates them.
+     */
+    public async roleMembers(role: JobRole): Promise<string[]> {
+        const id = roleId(role)
+        const count = await this.contract.getRoleMemberCount(id)
+
+        return Promise.all(
+            [...Array(count.toNumber()).keys()].map((index) =>
+                this.contract.getRoleMember(id, index)
+            )
+        )
+    }
+
+    public hasRole(role: JobRole, account: string): Promise<boolean> {
+        return this.contract.hasRole(roleId(role), account)
+    }
+
+    /**
+     * Grants the role to the account, as an admin.
+     */
+    public async grantRole(
+        role: JobRole,
+        account: string
+    ): Promise<ContractReceipt> {
+        return confirm(
+            this.contract,
+            this.contract.grantRole(roleId(role), account)
+        )
+    }
+
+    /**
+     * Revokes the role from the account, as an admin. A revoked submitter
+     * still owns (and may cancel) the jobs it submitted.
+     */
+    public async revokeRole(
+        role: JobRole,
+        account: string
+    ): Promise<ContractReceipt> {
+        return confirm(
+            this.contract,
+            this.contract.revokeRole(roleId(role), account)
+        )
+    }
+
+    /**
+     * Moves the role from one account to another, as an admin. Rotating a
+     * submitter also moves its pending jobs, with their refunds, to the new
+     * account.
+     */
+    public async rotateRole(
+        role: JobRole,
+        from: string,
+        to: string
+    ): Promise<ContractReceipt> {
+        return confirm(
+            this.contract,
+            this.contract.rotateRole(roleId(role), from, to)
+        )
+    }
+
+    /**
+     * Prerequisites of the job yet to execute, by txHash, none once it has
+     * executed (or was cancelled).
+     */
+    public async blockedOn(job: Job): Promise<string[]> {
+        const [prerequisites, executed] = await Promise.all([
+            this.contract.prerequisitesOf(job.txHash),
+            this.contract.prerequisitesExecuted(job.txHash)
+        ])
+
+        return prerequisites.filter((_, index) => !executed[index])
+    }
+
+    /**
+     * Retrieves the state of the job as of the latest block.
+     */
+    public async status(job: Job): Promise<JobStatus> {
+        const [submitted, submitter, submittedAt, delay, block, token] =
+            await Promise.all([
+                this.contract.submittedTxs(job.txHash),
+                this.contract.submitterOf(job.txHash),
+                this.contract.submittedTimes(job.txHash),
+                this.contract.delay(),
+                this.contract.provider.getBlock('latest'),
+                this.contract.submittedToken(job.txHash)
+            ])
+        const maturesAt = submittedAt.add(delay)
+        const now = block.timestamp
+        const reward = token === constants.AddressZero ? {} : {token}
+
+        if (isRecurringJob(job)) {
+            const runs = await this.contract.submittedRuns(job.txHash)
+            const nextRunAt = maturesAt.add(job.interval.mul(runs))
+
+            return {
+                phase: plainPhase(submitted, now, nextRunAt),
+                submitter,
+                submittedAt,
+                maturesAt: nextRunAt,
+                runs,
+                ...reward
+            }
+        }
+        if (!isAuctionJob(job)) {
+            const [expiry, blockedOn] = await Promise.all([
+                this.contract.submittedExpiry(job.txHash),
+                this.blockedOn(job)
+            ])
+            const blocked = blockedOn.length > 0 ? {blockedOn} : {}
+
+            if (expiry.isZero()) {
+                return {
+                    phase: blockedPhase(
+                        plainPhase(submitted, now, maturesAt),
+                        blockedOn
+                    ),
+                    submitter,
+                    submittedAt,
+                    maturesAt,
+                    ...blocked,
+                    ...reward
+                }
+            }
+
+            const expiresAt = maturesAt.add(expiry)
+
+            return {
+                phase: blockedPhase(
+                    expiringPhase(submitted, now, maturesAt, expiresAt),
+                    blockedOn
+                ),
+                submitter,
+                submittedAt,
+                maturesAt,
+                expiresAt,
+                ...blocked,
+                ...reward
+            }
+        }
+
+        const [bestBid, bestBidder, revealPeriod] = await Promise.all([
+            this.contract.submittedBestBid(job.txHash),
+            this.contract.submittedBestBidder(job.txHash),
+            this.contract.submittedRevealPeriod(job.txHash)
+        ])
+
+        if (revealPeriod.isZero()) {
+            const expiresAt = maturesAt.add(job.timeout)
+
+            return {
+                phase: auctionPhase(submitted, now, maturesAt, expiresAt),
+                submitter,
+                submittedAt,
+                maturesAt,
+                expiresAt,
+                bestBid,
+                bestBidder,
+                ...reward
+            }
+        }
+
+        const revealedAt = maturesAt.add(revealPeriod)
+        const expiresAt = revealedAt.add(job.timeout)
+        const phase = auctionPhase(submitted, now, maturesAt, expiresAt)
+
+        return {
+            phase:
+                phase === 'executable' && revealedAt.gt(now)
+                    ? 'revealing'
+                    : phase,
+            submitter,
+            submittedAt,
+            maturesAt: revealedAt,
+            expiresAt,
+            bestBid,
+            bestBidder,
+            revealsAt: maturesAt,
+            unrevealedBids: await this.contract.unrevealedBids(job.txHash),
+            ...reward
+        }
+    }
+}
+
+function plainPhase(
+    submitted: boolean,
+    now: number,
+    maturesAt: BigNumber
+): JobPhase {
+    if (!submitted) {
+        return 'unsubmitted'
+    }
+
+    return maturesAt.gt(now) ? 'delayed' : 'executable'
+}
+
+function expiringPhase(
+    submitted: boolean,
+    now: number,
+    maturesAt: BigNumber,
+    expiresAt: BigNumber
+): JobPhase {
+    const phase = plainPhase(submitted, now, maturesAt)
+
+    return phase === 'executable' && !expiresAt.gt(now) ? 'expired' : phase
+}
+
+/**
+ * An executable plain job is blocked while any prerequisite has yet to
+ * execute.
+ */
+function blockedPhase(phase: JobPhase, blockedOn: string[]): JobPhase {
+    return phase === 'executable' && blockedOn.length > 0 ? 'blocked' : phase
+}
+
+function auctionPhase(
+    submitted: boolean,
+    now: number,
+    maturesAt: BigNumber,
+    expiresAt: BigNumber
+): JobPhase {
+    if (!submitted) {
+        return 'unsubmitted'
+    }
+    if (maturesAt.gt(now)) {
+        return 'bidding'
+    }
+
+    return expiresAt.gt(now) ? 'executable' : 'expired'
+}
+
+/**
+ * Waits for the transaction to be mined, failing with a RevertError when the
+ * contract reverts.
+ */
+async function confirm(
+    contract: BaseContract,
+    transaction: Promise<ContractTransaction>
+): Promise<ContractReceipt> {
+    try {
+        return await (await transaction).wait()
+    } catch (error) {
+        return rethrowDecoded(error, [contract.interface])
+    }
+}
+
+/**
+ * Gas of a job in a batch, from the estimate of executing it alone, with the
+ * 1/64 of the gas EIP-150 withholds from the contract calling itself.
+ */
+function batchedGas(estimate: BigNumber): BigNumber {
+    return estimate.sub(TX_BASE_GAS).mul(64).div(63).add(BATCHED_JOB_GAS)
+}
+
+/**
+ * Result of each job of the batch, from its JobBatchResult event, checking
+ * the locally derived txHash matches the one emitted.
+ */
+function batchResults(
+    contract: DelayedJobs,
+    jobs: Job[],
+    receipt: ContractReceipt
+): JobResult[] {
+    const events = receiptEvents(
+        contract,
+        contract.filters.JobBatchResult(),
+        receipt
+    )
+
+    return jobs.map((job, index) => {
+        const event = events.find(({args}) => args.index.eq(index))
+
+        if (!event) {
+            throw new Error(
+                `DelayedJobsClient: No JobBatchResult for job ${index} in transaction ${receipt.transactionHash}`
+            )
+        }
+
+        const {txHash, success, result} = event.args
+
+        if (txHash !== job.txHash) {
+            throw new Error(
+                `DelayedJobsClient: Derived txHash ${job.txHash} does not match emitted ${txHash}`
+            )
+        }
+
+        return {
+            job,
+            success,
+            result,
+            ...(success
+                ? {}
+                : {
+                      error: formatRevert(
+                          decodeRevert(result, [contract.interface])
+                      )
+                  }),
+            transactionHash: receipt.transactionHash
+        }
+    })
+}
+
+/**
+ * Checks the locally derived txHash matches the one in the JobSubmitted event.
+ */
+function verifySubmitted(
+    contract: DelayedJobs,
+    job: Job,
+    receipt: ContractReceipt
+): void {
+    const [submitted] = receiptEvents(
+        contract,
+        contract.filters.JobSubmitted(),
+        receipt
+    )
+
+    if (!submitted) {
+        throw new Error(
+            `DelayedJobsClient: No JobSubmitted event in transaction ${receipt.transactionHash}`
+        )
+    }
+
+    const emitted = submitted.args.txHash
+
+    if (emitted !== job.txHash) {
+        throw new Error(
+            `DelayedJobsClient: Derived txHash ${job.txHash} does not match emitted ${emitted}`
+        )
+    }
+}
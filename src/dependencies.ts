@@ -0,0 +1,163 @@
+import {BigNumberish, BytesLike} from 'ethers'
+import {DelayedJobsClient} from './client'
+import {Job} from './job'
+
+/**
+ * A plain job in a dependency graph, named by an id of the caller's choosing,
+ * that may only execute after the jobs whose ids it lists in after.
+ */
+export interface PlannedJob {
+    id: string
+    target: string
+    signature: string
+    data: BytesLike
+    reward: BigNumberish
+    // ERC-20 token of the reward, absent for ETH
+    token?: string
+    after?: string[]
+}
+
+/**
+ * A submitted job of a plan awaiting prerequisites yet to execute, each by
+ * its id in the plan, or its txHash when outside the plan.
+ */
+export interface BlockedJob {
+    id: string
+    txHash: string
+    blockedOn: string[]
+}
+
+/**
+ * Orders the jobs so each follows its prerequisites, otherwise keeping their
+ * given order. Fails on a duplicate id, a prerequisite missing from the
+ * jobs, or a cycle, which is named from a job to its prerequisite e.g.
+ * "swap -> approve -> swap".
+ */
+export function dependencyOrder(jobs: PlannedJob[]): PlannedJob[] {
+    const byId = new Map<string, PlannedJob>()
+
+    for (const job of jobs) {
+        if (byId.has(job.id)) {
+            throw new Error(`Dependencies: Duplicate job id "${job.id}"`)
+        }
+        byId.set(job.id, job)
+    }
+
+    const ordered: PlannedJob[] = []
+    const visited = new Set<string>()
+    const path: string[] = []
+    const visit = (job: PlannedJob): void => {
+        if (visited.has(job.id)) {
+            return
+        }
+        if (path.includes(job.id)) {
+            const cycle = [...path.slice(path.indexOf(job.id)), job.id]
+            throw new Error(`Dependencies: Cycle ${cycle.join(' -> ')}`)
+        }
+
+        path.push(job.id)
+        for (const id of job.after ?? []) {
+            const prerequisite = byId.get(id)
+
+            if (!prerequisite) {
+                throw new Error(
+                    `Dependencies: "${job.id}" runs after unknown "${id}"`
+                )
+            }
+            visit(prerequisite)
+        }
+        path.pop()
+
+        visited.add(job.id)
+        ordered.push(job)
+    }
+
+    jobs.forEach(visit)
+    return ordered
+}
+
+/**
+ * Submits the jobs in dependency order, each with the txHashes of its
+ * prerequisites, resolving with the submitted jobs by id in that order. The
+ * whole plan is checked before submitting any job.
+ */
+export async function submitPlan(
+    client: DelayedJobsClient,
+    jobs: PlannedJob[]
+): Promise<Map<string, Job>> {
+    const submitted = new Map<string, Job>()
+
+    for (const planned of dependencyOrder(jobs)) {
+        const prerequisites = (planned.after ?? []).map(
+            (id) => (submitted.get(id) as Job).txHash
+        )
+        submitted.set(
+            planned.id,
+            await submitPlanned(client, planned, prerequisites)
+        )
+    }
+
+    return submitted
+}
+
+/**
+ * Jobs of the submitted plan that are blocked on prerequisites yet to
+ * execute, in plan order. Jobs no longer submitted are never blocked.
+ */
+export async function blockedJobs(
+    client: DelayedJobsClient,
+    plan: Map<string, Job>
+): Promise<BlockedJob[]> {
+    const ids = new Map(
+        [...plan.entries()].map(([id, job]) => [job.txHash, id])
+    )
+    const blocked: BlockedJob[] = []
+
+    for (const [id, job] of plan) {
+        const blockedOn = await client.blockedOn(job)
+
+        if (blockedOn.length > 0) {
+            blocked.push({
+                id,
+                txHash: job.txHash,
+                blockedOn: blockedOn.map((txHash) => ids.get(txHash) ?? txHash)
+            })
+        }
+    }
+
+    return blocked
+}
+
+/**
+ * Submits the job, as a plain job when without prerequisites.
+ */
+function submitPlanned(
+    client: DelayedJobsClient,
+    planned: PlannedJob,
+    prerequisites: string[]
+): Promise<Job> {
+    const {target, signature, data, reward, token} = planned
+
+    if (prerequisites.length === 0) {
+        return token
+            ? client.submitToken(target, signature, data, token, reward)
+            : client.submit(target, signature, data, reward)
+    }
+
+    return token
+        ? client.submitTokenWithPrerequisites(
+              target,
+              signature,
+              data,
+              prerequisites,
+              token,
+              reward
+          )
+        : client.submitWithPrerequisites(
+              target,
+              signature,
+              data,
+              prerequisites,
+              reward
+          )
+}
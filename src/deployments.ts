@@ -0,0 +1,116 @@
+import {existsSync, readFileSync, renameSync, writeFileSync} from 'fs'
+
+/**
+ * A DelayedJobs proxy deployed on a network, with the implementations behind
+ * it over time.
+ */
+export interface Deployment {
+    // Proxy address, which upgrades leave unchanged
+    address: string
+    // Block of the proxy deployment, from which to index its events
+    blockNumber: number | null
+    implementation: string
+    // Implementations replaced by upgrades, oldest first
+    previousImplementations: string[]
+}
+
+/**
+ * Persists the deployments, by network name.
+ */
+export interface DeploymentStore {
+    load(): Record<string, Deployment>
+    save(deployments: Record<string, Deployment>): void
+}
+
+/**
+ * Holds the deployments in a JSON file, replacing it atomically on each save.
+ */
+export class JsonFileDeploymentStore implements DeploymentStore {
+    private readonly _path: string
+
+    constructor(path: string) {
+        this._path = path
+    }
+
+    public load(): Record<string, Deployment> {
+        if (!existsSync(this._path)) {
+            return {}
+        }
+
+        return JSON.parse(readFileSync(this._path, 'utf8')) as Record<
+            string,
+            Deployment
+        >
+    }
+
+    public save(deployments: Record<string, Deployment>): void {
+        const staging = `${this._path}.tmp`
+        writeFileSync(staging, JSON.stringify(deployments, null, 2))
+        renameSync(staging, this._path)
+    }
+}
+
+/**
+ * The deployment recorded on the network, failing when there is none.
+ */
+export function deploymentOf(
+    store: DeploymentStore,
+    network: string
+): Deployment {
+    const deployment = store.load()[network]
+
+    if (!deployment) {
+        throw new Error(`Deployments: None recorded on ${network}`)
+    }
+
+    return deployment
+}
+
+/**
+ * Records a new proxy as the deployment on the network, replacing any earlier.
+ */
+export function recordDeployment(
+    store: DeploymentStore,
+    network: string,
+    address: string,
+    implementation: string,
+    blockNumber: number | null
+): Deployment {
+    const deployment: Deployment = {
+        address,
+        blockNumber,
+        implementation,
+        previousImplementations: []
+    }
+
+    store.save({...store.load(), [network]: deployment})
+    return deployment
+}
+
+/**
+ * Records the implementation the proxy on the network was upgraded to, which
+ * is unchanged when the upgrade reused the current implementation.
+ */
+export function recordUpgrade(
+    store: DeploymentStore,
+    network: string,
+    implementation: string
+): Deployment {
+    const current = deploymentOf(store, network)
+
+    if (current.implementation === implementation) {
+        return current
+    }
+
+    const deployment: Deployment = {
+        ...current,
+        implementation,
+        previousImplementations: [
+            ...current.previousImplementations,
+            current.implementation
+        ]
+    }
+
+    store.save({...store.load(), [network]: deployment})
+    return deployment
+}
@@ -0,0 +1,20 @@
+import {Contract, Signer, providers} from 'ethers'
+import {IERC20Metadata} from '../typechain-types'
+
+// The parts of ERC-20 the client and ledger use, with the optional metadata
+const ERC20_ABI = [
+    'function decimals() view returns (uint8)',
+    'function balanceOf(address account) view returns (uint256)',
+    'function allowance(address owner, address spender) view returns (uint256)',
+    'function approve(address spender, uint256 amount) returns (bool)'
+]
+
+/**
+ * The ERC-20 token at the address, connected to the signer or provider.
+ */
+export function erc20(
+    address: string,
+    signerOrProvider: Signer | providers.Provider
+): IERC20Metadata {
+    return new Contract(address, ERC20_ABI, signerOrProvider) as IERC20Metadata
+}
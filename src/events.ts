@@ -0,0 +1,319 @@
+import {BaseContract, ContractReceipt} from 'ethers'
+import {DelayedJobs} from '../typechain-types'
+import {TypedEvent, TypedEventFilter} from '../typechain-types/common'
+
+type DelayedJobsFilters = DelayedJobs['filters']
+
+/**
+ * Names of the DelayedJobs events, taken from the typechain filters (less
+ * their full signature duplicates) so new contract events appear on compile.
+ */
+export type DelayedJobsEventName = Exclude<
+    keyof DelayedJobsFilters,
+    `${string}(${string}`
+>
+
+/**
+ * Typed DelayedJobs event by name, e.g. DelayedJobsEvent<'JobSubmitted'> has
+ * args.txHash, args.target, args.value, args.signature and args.data.
+ */
+export type DelayedJobsEvent<N extends DelayedJobsEventName> = ReturnType<
+    DelayedJobsFilters[N]
+> extends TypedEventFilter<infer E>
+    ? E
+    : never
+
+/**
+ * Payload of the DelayedJobs event, by position and by name.
+ */
+export type DelayedJobsEventArgs<N extends DelayedJobsEventName> =
+    DelayedJobsEvent<N>['args']
+
+/**
+ * When to give up waiting for an event: after timeoutMs of wall clock time,
+ * or once blocks more blocks are mined. Events from fromBlock onwards that
+ * were emitted before waiting began count too, and only events passing the
+ * where predicate are matched.
+ */
+export interface WaitOptions<E extends TypedEvent = TypedEvent> {
+    timeoutMs?: number
+    blocks?: number
+    fromBlock?: number
+    where?: (event: E) => boolean
+}
+
+/**
+ * Subscription to the contract events matching a typechain filter (by event
+ * and any of its indexed args) e.g. contract.filters.JobExecuted(txHash).
+ *
+ * Events are delivered in order through next() or async iteration, with
+ * each delivered once however many consumers are iterating. Past events from
+ * fromBlock are delivered ahead of those emitted since the subscription.
+ * Dispose of the stream to unsubscribe, which ends any iteration; breaking
+ * out of a for await loop disposes of the stream too.
+ */
+export class EventStream<E extends TypedEvent> implements AsyncIterable<E> {
+    private readonly _contract: BaseContract
+    private readonly _filter: TypedEventFilter<E>
+    private readonly _received: E[] = []
+    private readonly _undelivered: E[] = []
+    private readonly _held: E[] = []
+    private readonly _seen = new Set<string>()
+    private readonly _consumers: Array<
+        (result: IteratorResult<E, null>) => void
+    > = []
+    private readonly _caughtUp: Promise<void>
+    private _catchingUp: boolean
+    private _disposed = false
+
+    /**
+     * @param contract emitting the events, whose provider is polled.
+     * @param filter of the events, typically from contract.filters.
+     * @param fromBlock earliest block of past events to deliver, when given.
+     */
+    constructor(
+        contract: BaseContract,
+        filter: TypedEventFilter<E>,
+        fromBlock?: number
+    ) {
+        this._contract = contract
+        this._filter = filter
+        this._catchingUp = typeof fromBlock === 'number'
+        this._contract.on(this._filter, this.listener)
+        this._caughtUp =
+            typeof fromBlock === 'number'
+                ? this.catchUp(fromBlock)
+                : Promise.resolve()
+    }
+
+    /**
+     * Every event received so far, including those already delivered.
+     */
+    public events(): E[] {
+        return [...this._received]
+    }
+
+    /**
+     * Delivers the next event, waiting for one to be emitted, or done once
+     * the stream is disposed.
+     */
+    public async next(): Promise<IteratorResult<E, null>> {
+        await this._caughtUp
+        const event = this._undelivered.shift()
+
+        if (event) {
+            return {done: false, value: event}
+        }
+        if (this._disposed) {
+            return done()
+        }
+
+        return new Promise((resolve) => {
+            this._consumers.push(resolve)
+        })
+    }
+
+    /**
+     * Unsubscribes from the contract, ending every iteration.
+     */
+    public dispose(): void {
+        if (this._disposed) {
+            return
+        }
+
+        this._disposed = true
+        this._contract.off(this._filter, this.listener)
+        this._consumers.splice(0).forEach((consume) => consume(done()))
+    }
+
+    public [Symbol.asyncIterator](): AsyncIterator<E, null> {
+        return {
+            next: () => this.next(),
+            return: () => {
+                this.dispose()
+                return Promise.resolve(done())
+            }
+        }
+    }
+
+    private readonly listener = (...args: unknown[]): void => {
+        const event = args[args.length - 1] as E
+
+        if (this._catchingUp) {
+            this._held.push(event)
+        } else {
+            this.receive(event)
+        }
+    }
+
+    private async catchUp(fromBlock: number): Promise<void> {
+        try {
+            const past = (await this._contract.queryFilter(
+                this._filter,
+                fromBlock
+            )) as E[]
+
+            ;[...past, ...this._held].sort(byPosition).forEach(this.receive)
+        } finally {
+            this._catchingUp = false
+            this._held.splice(0)
+        }
+    }
+
+    private readonly receive = (event: E): void => {
+        const key = `${event.transactionHash}:${event.logIndex}`
+
+        if (this._disposed || this._seen.has(key)) {
+            return
+        }
+
+        this._seen.add(key)
+        this._received.push(event)
+
+        const consume = this._consumers.shift()
+
+        if (consume) {
+            consume({done: false, value: event})
+        } else {
+            this._undelivered.push(event)
+        }
+    }
+}
+
+/**
+ * Waits for the first event matching the filter (and any where predicate),
+ * failing once the timeout or block limit of the options passes first.
+ *
+ * @param contract emitting the event, whose provider is polled.
+ * @param filter of the event, typically from contract.filters.
+ */
+export async function waitFor<E extends TypedEvent>(
+    contract: BaseContract,
+    filter: TypedEventFilter<E>,
+    options: WaitOptions<E> = {}
+): Promise<E> {
+    const {provider} = contract
+    const where = options.where ?? (() => true)
+    const name = eventName(contract, filter)
+    const startBlock = await provider.getBlockNumber()
+    const {timeoutMs, blocks} = options
+    const stream = new EventStream(contract, filter, options.fromBlock)
+    const cleanUp: Array<() => void> = [() => stream.dispose()]
+
+    try {
+        return await new Promise<E>((resolve, reject) => {
+            consumeUntil(stream, where).then(resolve, reject)
+
+            if (typeof timeoutMs === 'number') {
+                const timer = setTimeout(
+                    () =>
+                        reject(
+                            new Error(
+                                `Events: No ${name} within ${timeoutMs}ms`
+                            )
+                        ),
+                    timeoutMs
+                )
+                cleanUp.push(() => clearTimeout(timer))
+            }
+
+            if (typeof blocks === 'number') {
+                const lastBlock = startBlock + blocks
+                const mined = (blockNumber: number): void => {
+                    if (blockNumber >= lastBlock) {
+                        // The block may be polled before its events
+                        emittedUpTo(contract, filter, where, startBlock + 1)
+                            .then((event) =>
+                                event
+                                    ? resolve(event)
+                                    : reject(
+                                          new Error(
+                                              `Events: No ${name} within ${blocks} blocks`
+                                          )
+                                      )
+                            )
+                            .catch(reject)
+                    }
+                }
+                provider.on('block', mined)
+                cleanUp.push(() => provider.off('block', mined))
+            }
+        })
+    } finally {
+        cleanUp.forEach((clean) => clean())
+    }
+}
+
+/**
+ * Events of the transaction receipt matching the filter, by event and any of
+ * its indexed args.
+ */
+export function receiptEvents<E extends TypedEvent>(
+    contract: BaseContract,
+    filter: TypedEventFilter<E>,
+    receipt: ContractReceipt
+): E[] {
+    return (receipt.events ?? []).filter(
+        (event) =>
+            event.address === contract.address &&
+            (filter.topics ?? []).every((topic, i) =>
+                matchesTopic(topic, event.topics[i])
+            )
+    ) as E[]
+}
+
+async function consumeUntil<E extends TypedEvent>(
+    stream: EventStream<E>,
+    where: (event: E) => boolean
+): Promise<E> {
+    for await (const event of stream) {
+        if (where(event)) {
+            return event
+        }
+    }
+
+    throw new Error('Events: Stream disposed while waiting')
+}
+
+async function emittedUpTo<E extends TypedEvent>(
+    contract: BaseContract,
+    filter: TypedEventFilter<E>,
+    where: (event: E) => boolean,
+    fromBlock: number
+): Promise<E | null> {
+    const events = (await contract.queryFilter(filter, fromBlock)) as E[]
+
+    return events.find(where) ?? null
+}
+
+function eventName(
+    contract: BaseContract,
+    filter: TypedEventFilter<TypedEvent>
+): string {
+    const [topic] = filter.topics ?? []
+
+    return typeof topic === 'string'
+        ? contract.interface.getEvent(topic).name
+        : 'event'
+}
+
+function matchesTopic(
+    expected: string | string[] | null,
+    actual: string | null
+): boolean {
+    if (expected === null) {
+        return true
+    }
+
+    return Array.isArray(expected)
+        ? expected.includes(actual ?? '')
+        : expected === actual
+}
+
+function byPosition(a: TypedEvent, b: TypedEvent): number {
+    return a.blockNumber - b.blockNumber || a.logIndex - b.logIndex
+}
+
+function done<E>(): IteratorResult<E, null> {
+    return {done: true, value: null}
+}
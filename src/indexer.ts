@@ -0,0 +1,403 @@
+import {BigNumber, Event, utils} from 'ethers'
+import {DelayedJobs} from '../typechain-types'
+import {Job, describeAuctionJob, describeJob, describeRecurringJob} from './job'
+
+const DEFAULT_REORG_DEPTH = 12
+
+/**
+ * Where an indexed job is in its life cycle.
+ */
+export type JobState = 'pending' | 'executed' | 'cancelled' | 'reclaimed'
+
+/**
+ * A job, as rebuilt from the contract event logs.
+ */
+export interface IndexedJob {
+    txHash: string
+    kind: 'job' | 'auction' | 'recurring'
+    target: string
+    value: BigNumber
+    signature: string
+    data: string
+    timeout?: BigNumber
+    // Sealed auction: seconds revealing bids, once the delay has passed
+    revealPeriod?: BigNumber
+    // Sealed auction: bids committed, yet to be revealed
+    unrevealedBids?: number
+    expiry?: BigNumber
+    interval?: BigNumber
+    maxRuns?: BigNumber
+    // Runs a recurring job has executed
+    runs?: number
+    // txHashes of the jobs that must execute first
+    prerequisites?: string[]
+    // ERC-20 token of the reward and collateral, absent for ETH
+    token?: string
+    submitter: string
+    // Account that submitted the job signed by its submitter
+    relayer?: string
+    submittedAt: number
+    submittedBlock: number
+    state: JobState
+    bestBid?: BigNumber
+    bestBidder?: string
+    bidders: string[]
+    executor?: string
+}
+
+/**
+ * Criteria for selecting indexed jobs, any omitted criteria matches all.
+ */
+export interface JobQuery {
+    state?: JobState
+    target?: string
+    submitter?: string
+    bidder?: string
+}
+
+/**
+ * A contract event log, reduced to what the job book needs.
+ */
+export interface JobLogEntry {
+    name: string
+    blockNumber: number
+    logIndex: number
+    timestamp: number
+    sender: string
+    args: utils.Result
+}
+
+/**
+ * Local store of the job event logs, with the jobs they describe.
+ */
+export class JobBook {
+    private _entries: JobLogEntry[] = []
+    private _jobs = new Map<string, IndexedJob>()
+
+    /**
+     * Highest block number of any recorded entry, or -1 when empty.
+     */
+    public lastBlock(): number {
+        const last = this._entries[this._entries.length - 1]
+        return last ? last.blockNumber : -1
+    }
+
+    /**
+     * Records the entry, which must not precede those already recorded.
+     */
+    public record(entry: JobLogEntry): void {
+        this._entries.push(entry)
+        apply(this._jobs, entry)
+    }
+
+    /**
+     * Discards every entry from the given block onwards, rebuilding the jobs
+     * from the entries that remain.
+     */
+    public rollback(fromBlock: number): void {
+        const kept = this._entries.filter(
+            (entry) => entry.blockNumber < fromBlock
+        )
+
+        if (kept.length === this._entries.length) {
+            return
+        }
+
+        this._entries = []
+        this._jobs = new Map<string, IndexedJob>()
+        kept.forEach((entry) => this.record(entry))
+    }
+
+    public job(txHash: string): IndexedJob | null {
+        return this._jobs.get(txHash) ?? null
+    }
+
+    /**
+     * Jobs matching every given criteria, in submission order.
+     */
+    public jobs(query: JobQuery = {}): IndexedJob[] {
+        return [...this._jobs.values()].filter((job) => matches(job, query))
+    }
+}
+
+/**
+ * Descriptor for acting on the indexed job through the client.
+ */
+export function describeIndexedJob(job: IndexedJob): Job {
+    if (job.interval && job.maxRuns) {
+        return describeRecurringJob(
+            job.target,
+            job.value,
+            job.signature,
+            job.data,
+            job.interval,
+            job.maxRuns
+        )
+    }
+
+    return job.timeout
+        ? describeAuctionJob(
+              job.target,
+              job.value,
+              job.signature,
+              job.data,
+              job.timeout
+          )
+        : describeJob(job.target, job.value, job.signature, job.data)
+}
+
+/**
+ * Options for the indexer, defaulting to the genesis block and a reorg depth
+ * of twelve blocks.
+ */
+export interface JobIndexerOptions {
+    startBlock?: number
+    reorgDepth?: number
+}
+
+/**
+ * Replays the DelayedJobs event logs into a job book, re-fetching the most
+ * recent blocks on each sync to recover from chain reorganisations no deeper
+ * than the reorg depth.
+ */
+export class JobIndexer {
+    readonly book: JobBook
+    private readonly _contract: DelayedJobs
+    private readonly _startBlock: number
+    private readonly _reorgDepth: number
+    private _syncedBlock: number
+    private _timer: NodeJS.Timeout | null = null
+
+    constructor(
+        contract: DelayedJobs,
+        options: JobIndexerOptions = {},
+        book: JobBook = new JobBook()
+    ) {
+        this._contract = contract
+        this.book = book
+        this._startBlock = options.startBlock ?? 0
+        this._reorgDepth = options.reorgDepth ?? DEFAULT_REORG_DEPTH
+        this._syncedBlock = Math.max(this._startBlock - 1, book.lastBlock())
+    }
+
+    /**
+     * Fetches the logs up to the latest block, returning its number.
+     */
+    public async sync(): Promise<number> {
+        const latest = await this._contract.provider.getBlockNumber()
+        const fromBlock = Math.max(
+            this._startBlock,
+            Math.min(this._syncedBlock - this._reorgDepth + 1, latest + 1)
+        )
+        const entries =
+            latest >= fromBlock ? await this.fetch(fromBlock, latest) : []
+
+        this.book.rollback(fromBlock)
+        entries.forEach((entry) => this.book.record(entry))
+        this._syncedBlock = latest
+        return latest
+    }
+
+    /**
+     * Syncs repeatedly, with the given pause between each sync.
+     */
+    public start(intervalMs: number, onError: (error: unknown) => void): void {
+        this.stop()
+        this._timer = setInterval(() => {
+            this.sync().catch(onError)
+        }, intervalMs)
+    }
+
+    public stop(): void {
+        if (this._timer) {
+            clearInterval(this._timer)
+            this._timer = null
+        }
+    }
+
+    private async fetch(
+        fromBlock: number,
+        toBlock: number
+    ): Promise<JobLogEntry[]> {
+        const events = await this._contract.queryFilter(
+            {address: this._contract.address},
+            fromBlock,
+            toBlock
+        )
+        const timestamps = new Map<number, number>()
+        const entries: JobLogEntry[] = []
+
+        for (const event of events) {
+            if (event.event && event.args) {
+                entries.push({
+                    name: event.event,
+                    blockNumber: event.blockNumber,
+                    logIndex: event.logIndex,
+                    timestamp: await blockTimestamp(event, timestamps),
+                    sender: (await event.getTransaction()).from,
+                    args: event.args as utils.Result
+                })
+            }
+        }
+
+        return entries
+    }
+}
+
+async function blockTimestamp(
+    event: Event,
+    cache: Map<number, number>
+): Promise<number> {
+    if (!cache.has(event.blockNumber)) {
+        cache.set(event.blockNumber, (await event.getBlock()).timestamp)
+    }
+
+    return cache.get(event.blockNumber) as number
+}
+
+/**
+ * Updates the jobs with the effect of the logged event.
+ */
+function apply(jobs: Map<string, IndexedJob>, entry: JobLogEntry): void {
+    const txHash = entry.args.txHash as string
+    const job = jobs.get(txHash)
+
+    switch (entry.name) {
+        case 'JobSubmitted':
+            jobs.set(txHash, {
+                txHash,
+                kind: 'job',
+                target: entry.args.target as string,
+                value: entry.args.value as BigNumber,
+                signature: entry.args.signature as string,
+                data: entry.args.data as string,
+                submitter: entry.sender,
+                submittedAt: entry.timestamp,
+                submittedBlock: entry.blockNumber,
+                state: 'pending',
+                bidders: []
+            })
+            break
+        case 'JobAuctionStarted':
+            if (job) {
+                job.kind = 'auction'
+                job.timeout = entry.args.timeout as BigNumber
+                job.bestBid = job.value
+            }
+            break
+        case 'JobBidsSealed':
+            if (job) {
+                job.revealPeriod = entry.args.revealPeriod as BigNumber
+                job.unrevealedBids = 0
+            }
+            break
+        case 'JobExpiring':
+            if (job) {
+                job.expiry = entry.args.expiry as BigNumber
+            }
+            break
+        case 'JobRelayed':
+            if (job) {
+                job.submitter = entry.args.submitter as string
+                job.relayer = entry.args.relayer as string
+            }
+            break
+        case 'JobPrerequisites':
+            if (job) {
+                job.prerequisites = entry.args.prerequisites as string[]
+            }
+            break
+        case 'JobRecurring':
+            if (job) {
+                job.kind = 'recurring'
+                job.interval = entry.args.interval as BigNumber
+                job.maxRuns = entry.args.maxRuns as BigNumber
+                job.runs = 0
+            }
+            break
+        case 'JobRewardToken':
+            if (job) {
+                job.token = entry.args.token as string
+            }
+            break
+        case 'JobBidPlaced':
+            if (job) {
+                const bidder = entry.args.bidder as string
+                job.bestBid = entry.args.bid as BigNumber
+                job.bestBidder = bidder
+                if (!job.bidders.includes(bidder)) {
+                    job.bidders.push(bidder)
+                }
+            }
+            break
+        case 'JobBidCommitted':
+            if (job) {
+                const bidder = entry.args.bidder as string
+                job.unrevealedBids = (job.unrevealedBids ?? 0) + 1
+                if (!job.bidders.includes(bidder)) {
+                    job.bidders.push(bidder)
+                }
+            }
+            break
+        case 'JobBidRevealed':
+            if (job) {
+                const bid = entry.args.bid as BigNumber
+                job.unrevealedBids = (job.unrevealedBids ?? 1) - 1
+                // Ties go to the bid revealed first
+                if (job.bestBid && bid.lt(job.bestBid)) {
+                    job.bestBid = bid
+                    job.bestBidder = entry.args.bidder as string
+                }
+            }
+            break
+        case 'JobExecuted':
+            if (job) {
+                job.state = 'executed'
+                job.executor = entry.sender
+            }
+            break
+        case 'JobRunExecuted':
+            if (job) {
+                job.runs = (entry.args.run as BigNumber).toNumber()
+                job.executor = entry.args.executor as string
+                if (job.maxRuns?.eq(job.runs)) {
+                    job.state = 'executed'
+                }
+            }
+            break
+        case 'JobAuctionExecuted':
+            if (job) {
+                job.state = 'executed'
+                job.executor = entry.args.bidder as string
+            }
+            break
+        case 'JobCancelled':
+        case 'JobAuctionCancelled':
+            if (job) {
+                job.state = 'cancelled'
+            }
+            break
+        case 'JobReclaimed':
+            if (job) {
+                job.state = 'reclaimed'
+            }
+            break
+        default:
+            break
+    }
+}
+
+function matches(job: IndexedJob, query: JobQuery): boolean {
+    const {state, target, submitter, bidder} = query
+
+    return (
+        (!state || job.state === state) &&
+        (!target || sameAddress(job.target, target)) &&
+        (!submitter || sameAddress(job.submitter, submitter)) &&
+        (!bidder || job.bidders.some((other) => sameAddress(other, bidder)))
+    )
+}
+
+function sameAddress(a: string, b: string): boolean {
+    return utils.getAddress(a) === utils.getAddress(b)
+}
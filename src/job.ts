@@ -0,0 +1,143 @@
+import {BigNumber, BigNumberish, BytesLike, utils} from 'ethers'
+
+/**
+ * Everything needed to identify a job submitted with submitJob.
+ */
+export interface Job {
+    txHash: string
+    target: string
+    value: BigNumber
+    signature: string
+    data: BytesLike
+}
+
+/**
+ * Everything needed to identify a job submitted with submitJobAuction,
+ * where the value is the maximum bid (reward) escrowed by the submitter.
+ */
+export interface AuctionJob extends Job {
+    timeout: BigNumber
+}
+
+/**
+ * Everything needed to identify a job submitted with submitRecurringJob,
+ * where the value is the budget escrowed by the submitter for all its runs.
+ */
+export interface RecurringJob extends Job {
+    interval: BigNumber
+    maxRuns: BigNumber
+}
+
+/**
+ * Whether the job descriptor belongs to an auction job.
+ */
+export function isAuctionJob(job: Job): job is AuctionJob {
+    return 'timeout' in job
+}
+
+/**
+ * Whether the job descriptor belongs to a recurring job.
+ */
+export function isRecurringJob(job: Job): job is RecurringJob {
+    return 'interval' in job
+}
+
+/**
+ * Builds the descriptor for a job, deriving the txHash the same way the
+ * contract does: keccak256(abi.encode(target, value, signature, data)).
+ */
+export function describeJob(
+    target: string,
+    value: BigNumberish,
+    signature: string,
+    data: BytesLike
+): Job {
+    const reward = BigNumber.from(value)
+
+    return {
+        txHash: utils.keccak256(
+            utils.defaultAbiCoder.encode(
+                ['address', 'uint256', 'string', 'bytes'],
+                [target, reward, signature, data]
+            )
+        ),
+        target,
+        value: reward,
+        signature,
+        data
+    }
+}
+
+/**
+ * Builds the descriptor for an auction job, deriving the txHash the same way
+ * the contract does: keccak256(abi.encode(target, maxBid, signature, data,
+ * timeout)).
+ */
+export function describeAuctionJob(
+    target: string,
+    maxBid: BigNumberish,
+    signature: string,
+    data: BytesLike,
+    timeout: BigNumberish
+): AuctionJob {
+    const reward = BigNumber.from(maxBid)
+    const window = BigNumber.from(timeout)
+
+    return {
+        txHash: utils.keccak256(
+            utils.defaultAbiCoder.encode(
+                ['address', 'uint256', 'string', 'bytes', 'uint256'],
+                [target, reward, signature, data, window]
+            )
+        ),
+        target,
+        value: reward,
+        signature,
+        data,
+        timeout: window
+    }
+}
+
+/**
+ * Builds the descriptor for a recurring job, deriving the txHash the same way
+ * the contract does: keccak256(abi.encode(target, budget, signature, data,
+ * interval, maxRuns)).
+ */
+export function describeRecurringJob(
+    target: string,
+    budget: BigNumberish,
+    signature: string,
+    data: BytesLike,
+    interval: BigNumberish,
+    maxRuns: BigNumberish
+): RecurringJob {
+    const reward = BigNumber.from(budget)
+    const every = BigNumber.from(interval)
+    const runs = BigNumber.from(maxRuns)
+
+    return {
+        txHash: utils.keccak256(
+            utils.defaultAbiCoder.encode(
+                ['address', 'uint256', 'string', 'bytes', 'uint256', 'uint256'],
+                [target, reward, signature, data, every, runs]
+            )
+        ),
+        target,
+        value: reward,
+        signature,
+        data,
+        interval: every,
+        maxRuns: runs
+    }
+}
+
+/**
+ * Reward of the given run (counting from one) of the recurring job, an equal
+ * share of its budget as the contract rounds it, with the last run drawing
+ * whatever remains.
+ */
+export function runReward(job: RecurringJob, run: BigNumberish): BigNumber {
+    const drawn = (runs: BigNumber) => job.value.mul(runs).div(job.maxRuns)
+
+    return drawn(BigNumber.from(run)).sub(drawn(BigNumber.from(run).sub(1)))
+}
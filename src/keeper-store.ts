@@ -0,0 +1,91 @@
+import {existsSync, readFileSync, renameSync, writeFileSync} from 'fs'
+
+/**
+ * Progress of the keeper with a single job.
+ *
+ * scheduled: awaiting maturity, or a further execution attempt.
+ * executed: executed, by this keeper or another.
+ * failed: every execution attempt failed.
+ * cancelled: cancelled, or reclaimed once expired, by its submitter.
+ */
+export type KeeperJobStatus = 'scheduled' | 'executed' | 'failed' | 'cancelled'
+
+/**
+ * A job tracked by the keeper, with the value (reward) held in wei as a
+ * decimal string to survive serialisation.
+ */
+export interface KeeperJob {
+    txHash: string
+    target: string
+    value: string
+    signature: string
+    data: string
+    status: KeeperJobStatus
+    attempts: number
+    lastError?: string
+    executionTx?: string
+}
+
+/**
+ * Everything the keeper needs to resume after a restart.
+ */
+export interface KeeperState {
+    lastBlock: number
+    jobs: Record<string, KeeperJob>
+}
+
+/**
+ * Persists the keeper state between restarts.
+ */
+export interface KeeperStore {
+    load(): KeeperState
+    save(state: KeeperState): void
+}
+
+/**
+ * Holds the state in memory, surviving a keeper restart within the process.
+ */
+export class MemoryKeeperStore implements KeeperStore {
+    private _state: string
+
+    constructor() {
+        this._state = JSON.stringify(emptyState())
+    }
+
+    public load(): KeeperState {
+        return JSON.parse(this._state) as KeeperState
+    }
+
+    public save(state: KeeperState): void {
+        this._state = JSON.stringify(state)
+    }
+}
+
+/**
+ * Holds the state in a JSON file, replacing it atomically on each save.
+ */
+export class JsonFileKeeperStore implements KeeperStore {
+    private readonly _path: string
+
+    constructor(path: string) {
+        this._path = path
+    }
+
+    public load(): KeeperState {
+        if (!existsSync(this._path)) {
+            return emptyState()
+        }
+
+        return JSON.parse(readFileSync(this._path, 'utf8')) as KeeperState
+    }
+
+    public save(state: KeeperState): void {
+        const staging = `${this._path}.tmp`
+        writeFileSync(staging, JSON.stringify(state, null, 2))
+        renameSync(staging, this._path)
+    }
+}
+
+function emptyState(): KeeperState {
+    return {lastBlock: -1, jobs: {}}
+}
@@ -0,0 +1,482 @@
+import Logger, {createLogger} from 'bunyan'
+import {BigNumber, Event} from 'ethers'
+import {DelayedJobs} from '../typechain-types'
+import {TypedEvent} from '../typechain-types/common'
+import {
+    JobCancelledEvent,
+    JobExecutedEvent,
+    JobReclaimedEvent,
+    JobSubmittedEvent
+} from '../typechain-types/DelayedJobs'
+import {AbiRegistry, describeCall} from './calldata'
+import {DelayedJobsClient} from './client'
+import {EventStream} from './events'
+import {describeJob} from './job'
+import {KeeperJob, KeeperState, KeeperStore} from './keeper-store'
+import {PriceOracle, weiIn} from './prices'
+
+const DEFAULT_MAX_ATTEMPTS = 3
+const DEFAULT_RETRY_DELAY_MS = 15000
+const MS_PER_SECOND = 1000
+
+/**
+ * Tuning for the keeper, with defaults of three attempts per job fifteen
+ * seconds apart, starting from the genesis block. The registry names the calls
+ * of jobs in the logs, and the prices weigh token rewards against gas.
+ */
+export interface KeeperOptions {
+    maxAttempts?: number
+    retryDelayMs?: number
+    startBlock?: number
+    logger?: Logger
+    registry?: AbiRegistry
+    prices?: PriceOracle
+}
+
+/**
+ * Executes plain jobs, as an executor, once they mature.
+ *
+ * Jobs are learnt from JobSubmitted events (with a catch up from the last
+ * processed block on start) and each is checked on its maturity, and again
+ * on every new block, until executed, cancelled or reclaimed. Before spending
+ * gas a job is simulated, then skipped while its gas cost exceeds the reward
+ * (a token reward is only weighed against gas when the token has a price).
+ * A job blocked on prerequisites yet to execute waits for them, without
+ * counting as an attempt.
+ * Progress is persisted to the store after every change, so a restarted
+ * keeper carries on where it stopped.
+ */
+export class Keeper {
+    private readonly _contract: DelayedJobs
+    private readonly _store: KeeperStore
+    private readonly _maxAttempts: number
+    private readonly _retryDelayMs: number
+    private readonly _startBlock: number
+    private readonly _log: Logger
+    private readonly _registry: AbiRegistry
+    private readonly _prices: PriceOracle | null
+    private readonly _timers = new Map<string, NodeJS.Timeout>()
+    private readonly _retryAfter = new Map<string, number>()
+    private _state: KeeperState = {lastBlock: -1, jobs: {}}
+    private _nonce: number | null = null
+    private _queue: Promise<void> = Promise.resolve()
+    private _streams: Array<
+        | EventStream<JobSubmittedEvent>
+        | EventStream<JobExecutedEvent>
+        | EventStream<JobCancelledEvent>
+        | EventStream<JobReclaimedEvent>
+    > = []
+    private _listening: Promise<void[]> = Promise.resolve([])
+
+    /**
+     * @param contract connected to the signer of an executor.
+     * @param store where progress is persisted.
+     */
+    constructor(
+        contract: DelayedJobs,
+        store: KeeperStore,
+        options: KeeperOptions = {}
+    ) {
+        this._contract = contract
+        this._store = store
+        this._maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS
+        this._retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS
+        this._startBlock = options.startBlock ?? 0
+        this._log = options.logger ?? createLogger({name: 'keeper'})
+        this._registry = options.registry ?? new AbiRegistry()
+        this._prices = options.prices ?? null
+    }
+
+    /**
+     * Resumes from the persisted state, catches up on missed events and
+     * begins listening for new jobs.
+     */
+    public async start(): Promise<void> {
+        this._state = this._store.load()
+
+        const submissions = new EventStream(
+            this._contract,
+            this._contract.filters.JobSubmitted()
+        )
+        const executions = new EventStream(
+            this._contract,
+            this._contract.filters.JobExecuted()
+        )
+        const cancellations = new EventStream(
+            this._contract,
+            this._contract.filters.JobCancelled()
+        )
+        const reclaims = new EventStream(
+            this._contract,
+            this._contract.filters.JobReclaimed()
+        )
+        this._streams = [submissions, executions, cancellations, reclaims]
+        this._listening = Promise.all([
+            this.consume(submissions, this.submitted),
+            this.consume(executions, this.executed),
+            this.consume(cancellations, this.withdrawn),
+            this.consume(reclaims, this.withdrawn)
+        ])
+        this._contract.provider.on('block', this.block)
+
+        await this.catchUp()
+        this.jobs('scheduled').forEach((job) => this.schedule(job))
+        await this.tick()
+    }
+
+    /**
+     * Stops listening and cancels every pending schedule, waiting for any
+     * execution underway.
+     */
+    public async stop(): Promise<void> {
+        this._streams.forEach((stream) => stream.dispose())
+        this._contract.provider.off('block', this.block)
+        this._timers.forEach((timer) => clearTimeout(timer))
+        this._timers.clear()
+
+        await this._listening
+        await this._queue
+    }
+
+    public job(txHash: string): KeeperJob | null {
+        return this._state.jobs[txHash] ?? null
+    }
+
+    public jobs(status?: KeeperJob['status']): KeeperJob[] {
+        return Object.values(this._state.jobs).filter(
+            (job) => !status || job.status === status
+        )
+    }
+
+    /**
+     * Attempts every scheduled job that has matured, one at a time.
+     */
+    public tick(): Promise<void> {
+        this._queue = this._queue.then(() => this.executeMatured())
+        return this._queue
+    }
+
+    /**
+     * Handles each event of the stream in turn, until the stream is disposed.
+     */
+    private async consume<E extends TypedEvent>(
+        stream: EventStream<E>,
+        handle: (event: E) => void
+    ): Promise<void> {
+        for await (const event of stream) {
+            try {
+                handle(event)
+            } catch (error: unknown) {
+                this._log.error(
+                    {error, transaction: event.transactionHash},
+                    'Failed handling job event'
+                )
+            }
+        }
+    }
+
+    private readonly submitted = (event: JobSubmittedEvent): void => {
+        const {txHash, target, value, signature, data} = event.args
+        this.track(txHash, target, value, signature, data)
+        this.processed(event.blockNumber)
+        const job = this.job(txHash)
+
+        if (job?.status === 'scheduled') {
+            this.schedule(job)
+        }
+    }
+
+    private readonly executed = (event: JobExecutedEvent): void => {
+        this.untrack(event.args.txHash, event.transactionHash)
+        this.processed(event.blockNumber)
+    }
+
+    private readonly withdrawn = (
+        event: JobCancelledEvent | JobReclaimedEvent
+    ): void => {
+        this.cancel(event.args.txHash)
+        this.processed(event.blockNumber)
+    }
+
+    private readonly block = (): void => {
+        this.tick().catch((error: unknown) =>
+            this._log.error({error}, 'Failed checking for matured jobs')
+        )
+    }
+
+    private async catchUp(): Promise<void> {
+        const fromBlock = Math.max(this._startBlock, this._state.lastBlock + 1)
+        const toBlock = await this._contract.provider.getBlockNumber()
+
+        if (toBlock < fromBlock) {
+            return
+        }
+
+        const submissions = await this._contract.queryFilter(
+            this._contract.filters.JobSubmitted(),
+            fromBlock,
+            toBlock
+        )
+        const executions = await this._contract.queryFilter(
+            this._contract.filters.JobExecuted(),
+            fromBlock,
+            toBlock
+        )
+        const cancellations = await this._contract.queryFilter(
+            this._contract.filters.JobCancelled(),
+            fromBlock,
+            toBlock
+        )
+        const reclaims = await this._contract.queryFilter(
+            this._contract.filters.JobReclaimed(),
+            fromBlock,
+            toBlock
+        )
+        const events = [
+            ...submissions,
+            ...executions,
+            ...cancellations,
+            ...reclaims
+        ]
+
+        for (const event of events.sort(byPosition)) {
+            if (isSubmission(event)) {
+                const {txHash, target, value, signature, data} = event.args
+                this.track(txHash, target, value, signature, data)
+            } else if (event.event === 'JobExecuted') {
+                this.untrack(event.args.txHash, event.transactionHash)
+            } else {
+                this.cancel(event.args.txHash)
+            }
+        }
+        this.processed(toBlock)
+        this._log.info({fromBlock, toBlock}, 'Caught up on job events')
+    }
+
+    /**
+     * Adds a submitted job, ignoring auction jobs (their txHash is derived
+     * from a different encoding) and jobs already known.
+     */
+    private track(
+        txHash: string,
+        target: string,
+        value: BigNumber,
+        signature: string,
+        data: string
+    ): void {
+        const known = this._state.jobs[txHash]
+        const plain = describeJob(target, value, signature, data)
+
+        if (plain.txHash !== txHash || known?.status === 'scheduled') {
+            return
+        }
+
+        this._state.jobs[txHash] = {
+            txHash,
+            target,
+            value: value.toString(),
+            signature,
+            data,
+            status: 'scheduled',
+            attempts: 0
+        }
+        this.persist()
+        this._log.info(
+            {
+                txHash,
+                target,
+                call: describeCall(this._registry, {target, signature, data})
+            },
+            'Job scheduled'
+        )
+    }
+
+    private untrack(txHash: string, transactionHash: string): void {
+        const job = this._state.jobs[txHash]
+
+        if (job && job.status !== 'executed') {
+            job.status = 'executed'
+            job.executionTx = transactionHash
+            this.persist()
+        }
+
+        this.unschedule(txHash)
+    }
+
+    /**
+     * Stops tracking a job its submitter cancelled or reclaimed.
+     */
+    private cancel(txHash: string): void {
+        const job = this._state.jobs[txHash]
+
+        if (job && job.status !== 'cancelled') {
+            job.status = 'cancelled'
+            this.persist()
+        }
+
+        this.unschedule(txHash)
+    }
+
+    private processed(blockNumber: number): void {
+        if (blockNumber > this._state.lastBlock) {
+            this._state.lastBlock = blockNumber
+            this.persist()
+        }
+    }
+
+    /**
+     * Checks the job again once the chain reaches its maturity.
+     */
+    private schedule(job: KeeperJob): void {
+        this.unschedule(job.txHash)
+        this.secondsToMaturity(job)
+            .then((seconds) => {
+                const timer = setTimeout(() => {
+                    this._timers.delete(job.txHash)
+                    this.block()
+                }, Math.max(0, seconds) * MS_PER_SECOND)
+                this._timers.set(job.txHash, timer)
+            })
+            .catch((error: unknown) =>
+                this._log.error(
+                    {error, txHash: job.txHash},
+                    'Failed to schedule'
+                )
+            )
+    }
+
+    private unschedule(txHash: string): void {
+        const timer = this._timers.get(txHash)
+
+        if (timer) {
+            clearTimeout(timer)
+            this._timers.delete(txHash)
+        }
+    }
+
+    private async secondsToMaturity(job: KeeperJob): Promise<number> {
+        const [submittedAt, delay, block] = await Promise.all([
+            this._contract.submittedTimes(job.txHash),
+            this._contract.delay(),
+            this._contract.provider.getBlock('latest')
+        ])
+
+        return submittedAt.add(delay).sub(block.timestamp).toNumber()
+    }
+
+    private async blocked(job: KeeperJob): Promise<boolean> {
+        const blockedOn = await new DelayedJobsClient(this._contract).blockedOn(
+            describeJob(job.target, job.value, job.signature, job.data)
+        )
+
+        return blockedOn.length > 0
+    }
+
+    private async executeMatured(): Promise<void> {
+        for (const job of this.jobs('scheduled')) {
+            if (
+                (this._retryAfter.get(job.txHash) ?? 0) <= Date.now() &&
+                (await this.secondsToMaturity(job)) <= 0 &&
+                !(await this.blocked(job))
+            ) {
+                await this.attempt(job)
+            }
+        }
+    }
+
+    /**
+     * Simulates, checks profitability, then executes the job, counting any
+     * failure towards the job's attempts.
+     */
+    private async attempt(job: KeeperJob): Promise<void> {
+        const args = [job.target, job.value, job.signature, job.data] as const
+
+        try {
+            await this._contract.callStatic.executeJob(...args)
+
+            const [gasLimit, gasPrice, token] = await Promise.all([
+                this._contract.estimateGas.executeJob(...args),
+                this._contract.provider.getGasPrice(),
+                this._contract.submittedToken(job.txHash)
+            ])
+            const cost = await weiIn(
+                this._prices,
+                token,
+                gasLimit.mul(gasPrice)
+            )
+
+            if (cost?.gte(job.value)) {
+                this._log.info(
+                    {txHash: job.txHash, cost: cost.toString()},
+                    'Job skipped, gas cost exceeds reward'
+                )
+                return
+            }
+
+            const nonce = await this.nextNonce()
+            const transaction = await this._contract.executeJob(...args, {
+                gasLimit,
+                gasPrice,
+                nonce
+            })
+            await transaction.wait()
+
+            this.untrack(job.txHash, transaction.hash)
+            this._retryAfter.delete(job.txHash)
+            this._log.info(
+                {txHash: job.txHash, transaction: transaction.hash},
+                'Job executed'
+            )
+        } catch (error) {
+            this.failed(job, error)
+        }
+    }
+
+    private failed(job: KeeperJob, error: unknown): void {
+        this._nonce = null
+
+        // Executed or cancelled by others while attempting
+        if (job.status !== 'scheduled') {
+            return
+        }
+
+        job.attempts++
+        job.lastError = error instanceof Error ? error.message : String(error)
+
+        if (job.attempts >= this._maxAttempts) {
+            job.status = 'failed'
+            this.unschedule(job.txHash)
+            this._log.error({txHash: job.txHash, error}, 'Job failed')
+        } else {
+            this._retryAfter.set(job.txHash, Date.now() + this._retryDelayMs)
+            this._log.warn({txHash: job.txHash, error}, 'Job attempt failed')
+        }
+
+        this.persist()
+    }
+
+    /**
+     * Nonce for the next transaction, re-read from the chain after a failure.
+     */
+    private async nextNonce(): Promise<number> {
+        if (this._nonce === null) {
+            this._nonce = await this._contract.signer.getTransactionCount(
+                'pending'
+            )
+        }
+
+        return this._nonce++
+    }
+
+    private persist(): void {
+        this._store.save(this._state)
+    }
+}
+
+function byPosition(a: Event, b: Event): number {
+    return a.blockNumber - b.blockNumber || a.logIndex - b.logIndex
+}
+
+function isSubmission(event: Event): event is JobSubmittedEvent {
+    return event.event === 'JobSubmitted'
+}
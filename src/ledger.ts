@@ -0,0 +1,152 @@
+import {BigNumber, constants} from 'ethers'
+import {DelayedJobs} from '../typechain-types'
+import {erc20} from './erc20'
+import {CreditedEvent, WithdrawnEvent} from '../typechain-types/DelayedJobs'
+
+/**
+ * Event moving ETH or an ERC-20 token into (Credited) or out of (Withdrawn) a
+ * claimable balance.
+ */
+export type LedgerEvent = CreditedEvent | WithdrawnEvent
+
+/**
+ * Claimable balance of an account as rebuilt from the ledger events, where
+ * expected is credited less withdrawn, against the actual balance held by the
+ * contract.
+ */
+export interface ClaimableBalance {
+    account: string
+    credited: BigNumber
+    withdrawn: BigNumber
+    expected: BigNumber
+    actual: BigNumber
+}
+
+/**
+ * Outcome of reconciling the claimable balances of a token (the zero address
+ * for ETH) at a block. The contract is solvent when its balance of the token
+ * covers at least every expected claimable balance (the remainder being the
+ * escrow of pending jobs).
+ */
+export interface LedgerReconciliation {
+    token: string
+    blockNumber: number
+    balances: ClaimableBalance[]
+    mismatches: ClaimableBalance[]
+    totalClaimable: BigNumber
+    contractBalance: BigNumber
+    solvent: boolean
+}
+
+/**
+ * Token of the balances, ETH by default, and range of the ledger events, from
+ * a block no later than the deployment of the contract (as every credit
+ * counts) to the latest block by default.
+ */
+export interface ReconcileOptions {
+    token?: string
+    fromBlock?: number
+    blockNumber?: number
+}
+
+/**
+ * Credited and withdrawn totals of each account, in order of first credit.
+ */
+export function rebuildLedger(
+    events: LedgerEvent[]
+): Map<string, {credited: BigNumber; withdrawn: BigNumber}> {
+    const ledger = new Map<
+        string,
+        {credited: BigNumber; withdrawn: BigNumber}
+    >()
+    const entry = (account: string) => {
+        const existing = ledger.get(account) ?? {
+            credited: BigNumber.from(0),
+            withdrawn: BigNumber.from(0)
+        }
+        ledger.set(account, existing)
+        return existing
+    }
+
+    for (const event of events) {
+        const totals = entry(event.args.account)
+
+        if (isCredit(event)) {
+            totals.credited = totals.credited.add(event.args.amount)
+        } else {
+            totals.withdrawn = totals.withdrawn.add(event.args.amount)
+        }
+    }
+
+    return ledger
+}
+
+/**
+ * Rebuilds the claimable balance of every account in the token from the
+ * Credited and Withdrawn events, checking each against the contract as of the
+ * same block.
+ */
+export async function reconcileLedger(
+    contract: DelayedJobs,
+    options: ReconcileOptions = {}
+): Promise<LedgerReconciliation> {
+    const blockNumber =
+        options.blockNumber ??
+        (await contract.provider.getBlock('latest')).number
+    const fromBlock = options.fromBlock ?? 0
+    const token = options.token ?? constants.AddressZero
+    const [credits, withdrawals, contractBalance] = await Promise.all([
+        contract.queryFilter(
+            contract.filters.Credited(null, token),
+            fromBlock,
+            blockNumber
+        ),
+        contract.queryFilter(
+            contract.filters.Withdrawn(null, token),
+            fromBlock,
+            blockNumber
+        ),
+        token === constants.AddressZero
+            ? contract.provider.getBalance(contract.address, blockNumber)
+            : erc20(token, contract.provider).balanceOf(contract.address, {
+                  blockTag: blockNumber
+              })
+    ])
+    const ledger = rebuildLedger(
+        [...credits, ...withdrawals].sort(
+            (a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex
+        )
+    )
+
+    const balances = await Promise.all(
+        [...ledger].map(async ([account, {credited, withdrawn}]) => ({
+            account,
+            credited,
+            withdrawn,
+            expected: credited.sub(withdrawn),
+            actual: await contract.claimableToken(account, token, {
+                blockTag: blockNumber
+            })
+        }))
+    )
+    const totalClaimable = balances.reduce(
+        (sum, balance) => sum.add(balance.expected),
+        BigNumber.from(0)
+    )
+
+    return {
+        token,
+        blockNumber,
+        balances,
+        mismatches: balances.filter(
+            ({expected, actual}) => !expected.eq(actual)
+        ),
+        totalClaimable,
+        contractBalance,
+        solvent: contractBalance.gte(totalClaimable)
+    }
+}
+
+function isCredit(event: LedgerEvent): event is CreditedEvent {
+    return event.event === 'Credited'
+}
@@ -0,0 +1,55 @@
+import {BigNumber, BigNumberish, constants, utils} from 'ethers'
+
+/**
+ * The worth of an ERC-20 token in ETH, as an amount of the token (in its
+ * smallest units) worth the wei.
+ */
+export interface TokenPrice {
+    amount: BigNumber
+    wei: BigNumber
+}
+
+/**
+ * Prices ERC-20 tokens in ETH, for weighing token rewards against gas, or
+ * null for a token it has no price of.
+ */
+export interface PriceOracle {
+    price(token: string): Promise<TokenPrice | null>
+}
+
+/**
+ * Prices each token by a constant amount of it worth the wei.
+ */
+export function fixedPrices(
+    prices: Record<string, {amount: BigNumberish; wei: BigNumberish}>
+): PriceOracle {
+    const known = new Map(
+        Object.entries(prices).map(([token, {amount, wei}]) => [
+            utils.getAddress(token),
+            {amount: BigNumber.from(amount), wei: BigNumber.from(wei)}
+        ])
+    )
+
+    return {
+        price: (token) =>
+            Promise.resolve(known.get(utils.getAddress(token)) ?? null)
+    }
+}
+
+/**
+ * The wei in the unit of the token (the zero address for ETH), or null when
+ * the oracle has no price of the token.
+ */
+export async function weiIn(
+    oracle: PriceOracle | null,
+    token: string,
+    wei: BigNumber
+): Promise<BigNumber | null> {
+    if (token === constants.AddressZero) {
+        return wei
+    }
+
+    const price = (await oracle?.price(token)) ?? null
+
+    return price && wei.mul(price.amount).div(price.wei)
+}
@@ -0,0 +1,241 @@
+import {BigNumber, BytesLike, utils} from 'ethers'
+
+const ERROR_SELECTOR = '0x08c379a0'
+const PANIC_SELECTOR = '0x4e487b71'
+
+const REASON_STRING = /reverted with reason string '(.*)'/
+const CUSTOM_ERROR = /reverted with custom error '(.*)'/
+const CUSTOM_ERROR_CALL = /reverted with custom error '(\w+)\((.*)\)'/
+const PANIC_CODE = /reverted with panic code 0x([0-9a-f]+)/
+const BARE_NUMBER = /(^|\[|, )(-?\d+)(?=, |\]|$)/g
+
+/**
+ * Solidity panic codes, by the assertion that failed.
+ */
+const PANICS: Record<number, string> = {
+    0x01: 'Assertion failed',
+    0x11: 'Arithmetic overflow or underflow',
+    0x12: 'Division or modulo by zero',
+    0x21: 'Conversion to invalid enum value',
+    0x22: 'Incorrectly encoded storage byte array',
+    0x31: 'Pop on empty array',
+    0x32: 'Array index out of bounds',
+    0x41: 'Out of memory',
+    0x51: 'Call to uninitialised internal function'
+}
+
+/**
+ * Extracts the revert reason from a failed call or transaction, falling back
+ * to the error message when there is none.
+ */
+export function revertReason(error: unknown): string {
+    const message = errorMessage(error)
+    const match = REASON_STRING.exec(message) ?? CUSTOM_ERROR.exec(message)
+
+    if (match) {
+        return match[1]
+    }
+
+    const {reason} = error as {reason?: unknown}
+    return typeof reason === 'string' ? reason : message
+}
+
+/**
+ * Revert data decoded by its kind.
+ *
+ * error: require or revert with a reason string, i.e. Error(string).
+ * panic: failed assertion or arithmetic check, i.e. Panic(uint256).
+ * custom: custom error found in one of the given interfaces.
+ * unknown: no revert data, or data matching no known error.
+ */
+export type DecodedRevert =
+    | {kind: 'error'; reason: string}
+    | {kind: 'panic'; code: number; description: string}
+    | {kind: 'custom'; name: string; signature: string; args: utils.Result}
+    | {kind: 'unknown'; data: string}
+
+/**
+ * Decodes the revert data, matching custom errors against the interfaces.
+ */
+export function decodeRevert(
+    data: BytesLike,
+    interfaces: ReadonlyArray<utils.Interface> = []
+): DecodedRevert {
+    const hex = utils.hexlify(data)
+    const selector =
+        utils.hexDataLength(hex) >= 4 ? utils.hexDataSlice(hex, 0, 4) : ''
+    const payload = selector ? utils.hexDataSlice(hex, 4) : '0x'
+
+    try {
+        if (selector === ERROR_SELECTOR) {
+            const [reason] = utils.defaultAbiCoder.decode(['string'], payload)
+            return {kind: 'error', reason: reason as string}
+        }
+        if (selector === PANIC_SELECTOR) {
+            const [code] = utils.defaultAbiCoder.decode(['uint256'], payload)
+            return panic((code as BigNumber).toNumber())
+        }
+    } catch {
+        return {kind: 'unknown', data: hex}
+    }
+
+    for (const abi of interfaces) {
+        try {
+            const error = abi.parseError(hex)
+            return {
+                kind: 'custom',
+                name: error.name,
+                signature: error.signature,
+                args: error.args
+            }
+        } catch {
+            // Not an error of this interface
+        }
+    }
+
+    return {kind: 'unknown', data: hex}
+}
+
+/**
+ * Human readable form of the decoded revert, e.g. "Refused(0x..., 7)".
+ */
+export function formatRevert(revert: DecodedRevert): string {
+    switch (revert.kind) {
+        case 'error':
+            return revert.reason
+        case 'panic':
+            return `Panic 0x${revert.code.toString(16)}: ${revert.description}`
+        case 'custom':
+            return `${revert.name}(${revert.args.map(String).join(', ')})`
+        default:
+            return revert.data === '0x'
+                ? 'Reverted without data'
+                : `Unknown revert data ${revert.data}`
+    }
+}
+
+/**
+ * A failed call or transaction, with its revert decoded.
+ */
+export class RevertError extends Error {
+    readonly revert: DecodedRevert
+
+    constructor(revert: DecodedRevert) {
+        super(formatRevert(revert))
+        this.name = 'RevertError'
+        this.revert = revert
+    }
+}
+
+/**
+ * Decodes the revert of a failed call or transaction, from the revert data
+ * when the provider gives it, otherwise from the HardHat error message.
+ * Custom errors are matched against the interfaces, with null returned when
+ * the error is not a revert that can be decoded.
+ */
+export function decodeError(
+    error: unknown,
+    interfaces: ReadonlyArray<utils.Interface> = []
+): DecodedRevert | null {
+    const data = revertData(error)
+
+    if (data !== null) {
+        return decodeRevert(data, interfaces)
+    }
+
+    const message = errorMessage(error)
+    const custom = CUSTOM_ERROR_CALL.exec(message)
+
+    if (custom) {
+        return customError(custom[1], custom[2], interfaces)
+    }
+
+    const reason = REASON_STRING.exec(message)
+
+    if (reason) {
+        return {kind: 'error', reason: reason[1]}
+    }
+
+    const code = PANIC_CODE.exec(message)
+    return code ? panic(parseInt(code[1], 16)) : null
+}
+
+/**
+ * Throws the error as a RevertError when its revert can be decoded, otherwise
+ * as it is.
+ */
+export function rethrowDecoded(
+    error: unknown,
+    interfaces: ReadonlyArray<utils.Interface>
+): never {
+    const revert = decodeError(error, interfaces)
+
+    throw revert ? new RevertError(revert) : error
+}
+
+function errorMessage(error: unknown): string {
+    if (error instanceof Error) {
+        return error.message
+    }
+
+    return String(error)
+}
+
+function panic(code: number): DecodedRevert {
+    return {kind: 'panic', code, description: PANICS[code] ?? 'Unknown panic'}
+}
+
+/**
+ * Revert data nested within the error, as given by JSON-RPC providers.
+ */
+function revertData(error: unknown): string | null {
+    if (typeof error !== 'object' || error === null) {
+        return null
+    }
+
+    const {data, error: nested} = error as {data?: unknown; error?: unknown}
+
+    if (typeof data === 'string' && utils.isHexString(data) && data !== '0x') {
+        return data
+    }
+
+    return revertData(data) ?? revertData(nested)
+}
+
+/**
+ * The custom error from its name and the arguments as HardHat formats them,
+ * i.e. with quoted strings and unquoted numbers.
+ */
+function customError(
+    name: string,
+    params: string,
+    interfaces: ReadonlyArray<utils.Interface>
+): DecodedRevert | null {
+    for (const abi of interfaces) {
+        const fragment = Object.values(abi.errors).find(
+            (candidate) => candidate.name === name
+        )
+
+        if (fragment) {
+            try {
+                const values = JSON.parse(
+                    `[${params.replace(BARE_NUMBER, '$1"$2"')}]`
+                ) as unknown[]
+
+                return {
+                    kind: 'custom',
+                    name,
+                    signature: fragment.format(),
+                    args: utils.defaultAbiCoder.decode(
+                        fragment.inputs,
+                        utils.defaultAbiCoder.encode(fragment.inputs, values)
+                    )
+                }
+            } catch {
+                return null
+            }
+        }
+    }
+
+    return null
+}
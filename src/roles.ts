@@ -0,0 +1,46 @@
+import {constants, utils} from 'ethers'
+
+/**
+ * Roles of DelayedJobs accounts.
+ *
+ * admin: grants, revokes and rotates every role, and updates the delay.
+ * submitter: submits jobs, owning (and refunded for) those it submitted.
+ * executor: executes plain jobs for their reward.
+ */
+export type JobRole = 'admin' | 'submitter' | 'executor'
+
+export const JOB_ROLES: readonly JobRole[] = ['admin', 'submitter', 'executor']
+
+/**
+ * Role identifiers of the contract, where admin is the DEFAULT_ADMIN_ROLE of
+ * AccessControl and the others the keccak256 of their constant name.
+ */
+const ROLE_IDS: Record<JobRole, string> = {
+    admin: constants.HashZero,
+    submitter: utils.id('SUBMITTER_ROLE'),
+    executor: utils.id('EXECUTOR_ROLE')
+}
+
+export function isJobRole(name: string): name is JobRole {
+    return (JOB_ROLES as readonly string[]).includes(name)
+}
+
+/**
+ * The bytes32 identifier the contract uses for the role.
+ */
+export function roleId(role: JobRole): string {
+    return ROLE_IDS[role]
+}
+
+/**
+ * The role with the bytes32 identifier, failing for unknown identifiers.
+ */
+export function roleName(id: string): JobRole {
+    const role = JOB_ROLES.find((name) => ROLE_IDS[name] === id)
+
+    if (!role) {
+        throw new Error(`Roles: Unknown role ${id}`)
+    }
+
+    return role
+}
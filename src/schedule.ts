@@ -0,0 +1,282 @@
+import {BigNumber, BigNumberish} from 'ethers'
+import {RecurringJob} from './job'
+
+const SECONDS_PER_MINUTE = 60
+const MS_PER_SECOND = 1000
+const SEARCH_YEARS = 5
+// MIN_DELAY of the contract, the shortest interval it takes for a recurring job
+const MIN_INTERVAL = 60 * SECONDS_PER_MINUTE
+
+const MACROS: Record<string, string> = {
+    '@hourly': '0 * * * *',
+    '@daily': '0 0 * * *',
+    '@midnight': '0 0 * * *',
+    '@weekly': '0 0 * * 0',
+    '@monthly': '0 0 1 * *',
+    '@yearly': '0 0 1 1 *',
+    '@annually': '0 0 1 1 *'
+}
+
+/**
+ * A cron expression (minute, hour, day of month, month and day of week, in
+ * UTC) as the values each field matches. As in cron, a day matches either of
+ * day of month and day of week when both are restricted.
+ */
+export interface CronSchedule {
+    minutes: Set<number>
+    hours: Set<number>
+    days: Set<number>
+    months: Set<number>
+    weekdays: Set<number>
+    anyDay: boolean
+    anyWeekday: boolean
+}
+
+/**
+ * When to plan the runs from, and how many, for a contract with the delay.
+ */
+export interface PlanOptions {
+    from: number
+    delay: number
+    maxRuns: number
+}
+
+/**
+ * The on-chain interval of a schedule, with the timestamps of its runs.
+ *
+ * submitAt: when to submit, for the first run to mature at firstRunAt.
+ */
+export interface SchedulePlan {
+    interval: number
+    firstRunAt: number
+    submitAt: number
+    runs: number[]
+}
+
+/**
+ * Parses a five field cron expression, or one of the @hourly, @daily,
+ * @weekly, @monthly and @yearly macros. Fields take *, values, ranges (a-b),
+ * lists (a,b) and steps (*\/n, a-b/n), with Sunday either 0 or 7.
+ */
+export function parseCron(expression: string): CronSchedule {
+    const fields = (MACROS[expression.trim()] ?? expression).trim().split(/\s+/)
+
+    if (fields.length !== 5) {
+        throw new Error(
+            `Schedule: Expecting five fields in "${expression}", found ${fields.length}`
+        )
+    }
+
+    const [minute, hour, day, month, weekday] = fields
+
+    return {
+        minutes: parseField(minute, 0, 59),
+        hours: parseField(hour, 0, 23),
+        days: parseField(day, 1, 31),
+        months: parseField(month, 1, 12),
+        weekdays: new Set(
+            [...parseField(weekday, 0, 7)].map((value) => value % 7)
+        ),
+        anyDay: day.startsWith('*'),
+        anyWeekday: weekday.startsWith('*')
+    }
+}
+
+/**
+ * Timestamps of the next occurrences of the schedule, from the given
+ * timestamp on, at the start of each matching minute.
+ */
+export function occurrences(
+    schedule: CronSchedule,
+    from: number,
+    count: number
+): number[] {
+    const found: number[] = []
+    let after = from
+
+    while (found.length < count) {
+        const next = nextOccurrence(schedule, after)
+        found.push(next)
+        after = next + 1
+    }
+
+    return found
+}
+
+/**
+ * Turns the cron expression into the fixed interval a recurring job runs at,
+ * planning its runs from the first occurrence the delay allows when
+ * submitting at the from timestamp. Fails when the occurrences are not
+ * evenly spaced across the runs (e.g. weekdays only, or monthly), which no
+ * single interval can express, or closer than the contract's minimum
+ * interval of an hour.
+ */
+export function planSchedule(
+    expression: string,
+    options: PlanOptions
+): SchedulePlan {
+    const {from, delay, maxRuns} = options
+
+    if (maxRuns < 1) {
+        throw new Error(`Schedule: Expecting at least one run, not ${maxRuns}`)
+    }
+
+    // A single run still needs the interval to the occurrence after it
+    const runs = occurrences(
+        parseCron(expression),
+        from + delay,
+        Math.max(maxRuns, 2)
+    )
+    const gaps = runs.slice(1).map((run, i) => run - runs[i])
+    const interval = gaps[0]
+    const uneven = gaps.find((gap) => gap !== interval)
+
+    if (typeof uneven !== 'undefined') {
+        throw new Error(
+            `Schedule: "${expression}" does not recur at a fixed interval, its runs are ${interval}s and ${uneven}s apart`
+        )
+    }
+    if (interval < MIN_INTERVAL) {
+        throw new Error(
+            `Schedule: "${expression}" recurs every ${interval}s, more often than the minimum interval of ${MIN_INTERVAL}s`
+        )
+    }
+
+    return {
+        interval,
+        firstRunAt: runs[0],
+        submitAt: runs[0] - delay,
+        runs: runs.slice(0, maxRuns)
+    }
+}
+
+/**
+ * Maturities of the runs of the recurring job still to execute, each run
+ * maturing an interval after the one before.
+ *
+ * @param submittedAt timestamp the job was submitted.
+ * @param delay of the contract.
+ * @param runs already executed.
+ */
+export function upcomingRuns(
+    job: RecurringJob,
+    submittedAt: BigNumberish,
+    delay: BigNumberish,
+    runs: BigNumberish = 0
+): BigNumber[] {
+    const first = BigNumber.from(submittedAt).add(delay)
+    const executed = BigNumber.from(runs).toNumber()
+
+    return [...Array(job.maxRuns.toNumber() - executed).keys()].map((i) =>
+        first.add(job.interval.mul(executed + i))
+    )
+}
+
+function parseField(field: string, min: number, max: number): Set<number> {
+    const values = new Set<number>()
+
+    for (const item of field.split(',')) {
+        const [range, stepText] = item.split('/')
+        const stepped = typeof stepText !== 'undefined'
+        const step = stepped ? parseValue(stepText) : 1
+        const [low, high] =
+            range === '*' ? [min, max] : bounds(range, stepped ? max : null)
+
+        if (step < 1 || low < min || high > max || low > high) {
+            throw new Error(
+                `Schedule: "${item}" is outside ${min}-${max} or has no values`
+            )
+        }
+        for (let value = low; value <= high; value += step) {
+            values.add(value)
+        }
+    }
+
+    return values
+}
+
+/**
+ * Low and high of a value or range, where a stepped single value runs to the
+ * maximum (e.g. 5/15 is 5-59/15 for minutes).
+ */
+function bounds(range: string, steppedMax: number | null): [number, number] {
+    const [low, high] = range.split('-')
+
+    if (typeof high !== 'undefined') {
+        return [parseValue(low), parseValue(high)]
+    }
+
+    const value = parseValue(low)
+    return [value, steppedMax ?? value]
+}
+
+function parseValue(text: string): number {
+    if (!/^\d+$/.test(text)) {
+        throw new Error(`Schedule: "${text}" is not a number`)
+    }
+
+    return Number(text)
+}
+
+/**
+ * First occurrence of the schedule at or after the timestamp, skipping whole
+ * months, days and hours that cannot match.
+ */
+function nextOccurrence(schedule: CronSchedule, from: number): number {
+    const start = new Date(from * MS_PER_SECOND)
+    const limit = Date.UTC(start.getUTCFullYear() + SEARCH_YEARS, 0)
+    let time =
+        Math.ceil(from / SECONDS_PER_MINUTE) *
+        SECONDS_PER_MINUTE *
+        MS_PER_SECOND
+
+    while (time < limit) {
+        const next = skip(schedule, new Date(time))
+
+        if (next === time) {
+            return time / MS_PER_SECOND
+        }
+        time = next
+    }
+
+    throw new Error(
+        `Schedule: No occurrence within ${SEARCH_YEARS} years of ${from}`
+    )
+}
+
+/**
+ * Start of the first month, day, hour or minute after the time that may
+ * match, or the time itself when it matches.
+ */
+function skip(schedule: CronSchedule, time: Date): number {
+    const year = time.getUTCFullYear()
+    const month = time.getUTCMonth()
+    const day = time.getUTCDate()
+    const hour = time.getUTCHours()
+
+    if (!schedule.months.has(month + 1)) {
+        return Date.UTC(year, month + 1)
+    }
+    if (!dayMatches(schedule, time)) {
+        return Date.UTC(year, month, day + 1)
+    }
+    if (!schedule.hours.has(hour)) {
+        return Date.UTC(year, month, day, hour + 1)
+    }
+    if (!schedule.minutes.has(time.getUTCMinutes())) {
+        return Date.UTC(year, month, day, hour, time.getUTCMinutes() + 1)
+    }
+
+    return time.getTime()
+}
+
+function dayMatches(schedule: CronSchedule, time: Date): boolean {
+    const day = schedule.days.has(time.getUTCDate())
+    const weekday = schedule.weekdays.has(time.getUTCDay())
+
+    if (schedule.anyDay || schedule.anyWeekday) {
+        return day && weekday
+    }
+
+    return day || weekday
+}
@@ -0,0 +1,283 @@
+import Logger, {createLogger} from 'bunyan'
+import {existsSync, readFileSync, renameSync, writeFileSync} from 'fs'
+import {BigNumber, BigNumberish, BytesLike, utils} from 'ethers'
+import {DelayedJobs} from '../typechain-types'
+import {DelayedJobsClient} from './client'
+import {AuctionJob, describeAuctionJob} from './job'
+
+// Owner read and write only, the salts keeping the bids sealed
+const SALT_FILE_MODE = 0o600
+
+/**
+ * A bid committed on a sealed auction job, with the salt needed to reveal it.
+ * Amounts are held in wei as decimal strings to survive serialisation.
+ */
+export interface SealedBid {
+    txHash: string
+    target: string
+    // Maximum bid (reward) of the auction job
+    value: string
+    signature: string
+    data: string
+    timeout: string
+    bid: string
+    salt: string
+}
+
+/**
+ * Persists the sealed bids of one bidder until revealed, by txHash.
+ */
+export interface SealedBidStore {
+    load(): Record<string, SealedBid>
+    save(bids: Record<string, SealedBid>): void
+}
+
+/**
+ * Holds the sealed bids in memory, surviving a bidder restart within the
+ * process.
+ */
+export class MemorySealedBidStore implements SealedBidStore {
+    private _bids = '{}'
+
+    public load(): Record<string, SealedBid> {
+        return JSON.parse(this._bids) as Record<string, SealedBid>
+    }
+
+    public save(bids: Record<string, SealedBid>): void {
+        this._bids = JSON.stringify(bids)
+    }
+}
+
+/**
+ * Holds the sealed bids in a JSON file only its owner may read, replacing it
+ * atomically on each save.
+ */
+export class JsonFileSealedBidStore implements SealedBidStore {
+    private readonly _path: string
+
+    constructor(path: string) {
+        this._path = path
+    }
+
+    public load(): Record<string, SealedBid> {
+        if (!existsSync(this._path)) {
+            return {}
+        }
+
+        return JSON.parse(readFileSync(this._path, 'utf8')) as Record<
+            string,
+            SealedBid
+        >
+    }
+
+    public save(bids: Record<string, SealedBid>): void {
+        const staging = `${this._path}.tmp`
+        writeFileSync(staging, JSON.stringify(bids, null, 2), {
+            mode: SALT_FILE_MODE
+        })
+        renameSync(staging, this._path)
+    }
+}
+
+/**
+ * Commitment to the bid of the bidder on a sealed auction job, derived the
+ * same way the contract does: keccak256(abi.encode(txHash, bidder, bid,
+ * salt)).
+ */
+export function bidCommitment(
+    job: AuctionJob,
+    bidder: string,
+    bid: BigNumberish,
+    salt: BytesLike
+): string {
+    return utils.keccak256(
+        utils.defaultAbiCoder.encode(
+            ['bytes32', 'address', 'uint256', 'bytes32'],
+            [job.txHash, bidder, bid, salt]
+        )
+    )
+}
+
+/**
+ * A random 32 byte salt, so the commitment cannot be matched by trying bids.
+ */
+export function randomSalt(): string {
+    return utils.hexlify(utils.randomBytes(32))
+}
+
+/**
+ * Descriptor of the auction job the sealed bid was committed on.
+ */
+export function sealedBidJob(sealed: SealedBid): AuctionJob {
+    return describeAuctionJob(
+        sealed.target,
+        sealed.value,
+        sealed.signature,
+        sealed.data,
+        sealed.timeout
+    )
+}
+
+/**
+ * Options for the sealed bidder.
+ */
+export interface SealedBidderOptions {
+    logger?: Logger
+}
+
+/**
+ * Commits sealed bids, keeping each salt in the store before the commitment
+ * is sent, then reveals every stored bid once its auction is revealing. A bid
+ * left unrevealed past the reveal period forfeits its collateral to the
+ * submitter, so the bidder must step (or run) within every reveal period.
+ */
+export class SealedBidder {
+    private readonly _client: DelayedJobsClient
+    private readonly _bidder: Promise<string>
+    private readonly _store: SealedBidStore
+    private readonly _log: Logger
+    private _queue: Promise<void> = Promise.resolve()
+
+    /**
+     * @param contract connected to the signer committing the bids.
+     * @param store keeping the salts until revealed.
+     */
+    constructor(
+        contract: DelayedJobs,
+        store: SealedBidStore,
+        options: SealedBidderOptions = {}
+    ) {
+        this._client = new DelayedJobsClient(contract)
+        this._bidder = contract.signer.getAddress()
+        this._store = store
+        this._log = options.logger ?? createLogger({name: 'sealed-bidder'})
+    }
+
+    /**
+     * Commits to the bid with a fresh salt, stored first so the bid can be
+     * revealed even should the bidder stop before the commitment confirms.
+     * One bid per auction, as the contract takes one commitment per bidder.
+     */
+    public async commit(
+        job: AuctionJob,
+        bid: BigNumberish
+    ): Promise<SealedBid> {
+        if (job.txHash in this._store.load()) {
+            throw new Error(
+                `SealedBidder: Bid on ${job.txHash} already committed, yet to be revealed`
+            )
+        }
+
+        const bidder = await this._bidder
+        const salt = randomSalt()
+        const commitment = bidCommitment(job, bidder, bid, salt)
+        const sealed: SealedBid = {
+            txHash: job.txHash,
+            target: job.target,
+            value: job.value.toString(),
+            signature: job.signature,
+            data: utils.hexlify(job.data),
+            timeout: job.timeout.toString(),
+            bid: BigNumber.from(bid).toString(),
+            salt
+        }
+
+        this.update((bids) => ({...bids, [job.txHash]: sealed}))
+        try {
+            await this._client.commitBid(job, commitment)
+        } catch (error) {
+            const committed = await this._client.contract.bidCommitmentOf(
+                job.txHash,
+                bidder
+            )
+            if (committed !== commitment) {
+                this.forget(job.txHash)
+            }
+            throw error
+        }
+
+        return sealed
+    }
+
+    /**
+     * Sealed bids yet to be revealed.
+     */
+    public pending(): SealedBid[] {
+        return Object.values(this._store.load())
+    }
+
+    /**
+     * Reveals on every new block, until stopped.
+     */
+    public start(): void {
+        this._client.contract.provider.on('block', this.block)
+    }
+
+    public async stop(): Promise<void> {
+        this._client.contract.provider.off('block', this.block)
+        await this._queue
+    }
+
+    /**
+     * Reveals every stored bid whose auction is revealing, forgetting those
+     * revealed or past their reveal period.
+     */
+    public step(): Promise<void> {
+        this._queue = this._queue.then(async () => {
+            for (const sealed of this.pending()) {
+                if (await this.reveal(sealed)) {
+                    this.forget(sealed.txHash)
+                }
+            }
+        })
+        return this._queue
+    }
+
+    private readonly block = (): void => {
+        this.step().catch((error: unknown) =>
+            this._log.error({error}, 'Failed revealing bids')
+        )
+    }
+
+    /**
+     * Whether the bid is done with: revealed now, or no longer revealable.
+     */
+    private async reveal(sealed: SealedBid): Promise<boolean> {
+        const {txHash} = sealed
+        const {phase} = await this._client.status(sealedBidJob(sealed))
+
+        switch (phase) {
+            case 'bidding':
+                return false
+            case 'revealing':
+                try {
+                    await this._client.revealBid(
+                        sealedBidJob(sealed),
+                        sealed.bid,
+                        sealed.salt
+                    )
+                    this._log.info({txHash, bid: sealed.bid}, 'Bid revealed')
+                    return true
+                } catch (error) {
+                    this._log.warn({txHash, error}, 'Reveal failed')
+                    return false
+                }
+            default:
+                this._log.warn({txHash, phase}, 'Reveal period missed')
+                return true
+        }
+    }
+
+    private forget(txHash: string): void {
+        this.update((bids) => {
+            delete bids[txHash]
+            return bids
+        })
+    }
+
+    private update(
+        change: (bids: Record<string, SealedBid>) => Record<string, SealedBid>
+    ): void {
+        this._store.save(change(this._store.load()))
+    }
+}
@@ -0,0 +1,218 @@
+import {
+    TypedDataDomain,
+    TypedDataField,
+    TypedDataSigner
+} from '@ethersproject/abstract-signer'
+import {BigNumber, BigNumberish, BytesLike, Signer, utils} from 'ethers'
+import {DelayedJobs} from '../typechain-types'
+import {
+    AuctionJob,
+    Job,
+    describeAuctionJob,
+    describeJob,
+    isAuctionJob
+} from './job'
+
+/**
+ * A plain or auction job its submitter signed off-chain, for a relayer to
+ * submit on its behalf by the deadline, sending the reward with it. Each
+ * signature takes the next nonce of the submitter, so is submitted only once.
+ */
+export interface SignedJob {
+    job: Job | AuctionJob
+    submitter: string
+    nonce: BigNumber
+    // Latest block timestamp the job may be submitted at
+    deadline: BigNumber
+    // EIP-712 signature of the submitter
+    sig: string
+}
+
+/**
+ * EIP-712 typed data of a signed job, as hashed by the contract.
+ */
+export interface TypedJob {
+    domain: TypedDataDomain
+    types: Record<string, TypedDataField[]>
+    value: Record<string, unknown>
+}
+
+// Types of the typed data, as the typehashes of the contract
+const SUBMIT_JOB_TYPES: Record<string, TypedDataField[]> = {
+    SubmitJob: [
+        {name: 'target', type: 'address'},
+        {name: 'value', type: 'uint256'},
+        {name: 'signature', type: 'string'},
+        {name: 'data', type: 'bytes'},
+        {name: 'nonce', type: 'uint256'},
+        {name: 'deadline', type: 'uint256'}
+    ]
+}
+const SUBMIT_JOB_AUCTION_TYPES: Record<string, TypedDataField[]> = {
+    SubmitJobAuction: [
+        {name: 'target', type: 'address'},
+        {name: 'maxBid', type: 'uint256'},
+        {name: 'signature', type: 'string'},
+        {name: 'data', type: 'bytes'},
+        {name: 'timeout', type: 'uint256'},
+        {name: 'nonce', type: 'uint256'},
+        {name: 'deadline', type: 'uint256'}
+    ]
+}
+
+/**
+ * The EIP-712 domain of the contract, on the network of its provider.
+ */
+export async function signingDomain(
+    contract: DelayedJobs
+): Promise<TypedDataDomain> {
+    const {chainId} = await contract.provider.getNetwork()
+
+    return {
+        name: 'DelayedJobs',
+        version: '1',
+        chainId,
+        verifyingContract: contract.address
+    }
+}
+
+/**
+ * Builds the typed data the submitter signs for the job, a SubmitJob or, for
+ * an auction job, a SubmitJobAuction.
+ */
+export function typedJob(
+    domain: TypedDataDomain,
+    job: Job,
+    nonce: BigNumberish,
+    deadline: BigNumberish
+): TypedJob {
+    const {target, signature, data} = job
+
+    if (isAuctionJob(job)) {
+        return {
+            domain,
+            types: SUBMIT_JOB_AUCTION_TYPES,
+            value: {
+                target,
+                maxBid: job.value,
+                signature,
+                data,
+                timeout: job.timeout,
+                nonce,
+                deadline
+            }
+        }
+    }
+
+    return {
+        domain,
+        types: SUBMIT_JOB_TYPES,
+        value: {target, value: job.value, signature, data, nonce, deadline}
+    }
+}
+
+/**
+ * Signs the job as the submitter, with its next nonce on the contract unless
+ * given one, e.g. to sign several jobs before relaying any of them.
+ */
+export async function signJob(
+    contract: DelayedJobs,
+    signer: Signer & TypedDataSigner,
+    job: Job,
+    deadline: BigNumberish,
+    nonce?: BigNumberish
+): Promise<SignedJob> {
+    const submitter = await signer.getAddress()
+    const next = BigNumber.from(nonce ?? (await contract.nonces(submitter)))
+    const {domain, types, value} = typedJob(
+        await signingDomain(contract),
+        job,
+        next,
+        deadline
+    )
+
+    return {
+        job,
+        submitter,
+        nonce: next,
+        deadline: BigNumber.from(deadline),
+        sig: await signer._signTypedData(domain, types, value)
+    }
+}
+
+/**
+ * Account that signed the job, whether or not its submitter.
+ */
+export function recoverSigner(
+    domain: TypedDataDomain,
+    signed: SignedJob
+): string {
+    const {
+        domain: typedDomain,
+        types,
+        value
+    } = typedJob(domain, signed.job, signed.nonce, signed.deadline)
+
+    return utils.verifyTypedData(typedDomain, types, value, signed.sig)
+}
+
+/**
+ * Checks the job was signed by its submitter and is still submittable at the
+ * block timestamp, as the contract would, aside from the nonce.
+ */
+export function verifySignedJob(
+    domain: TypedDataDomain,
+    signed: SignedJob,
+    timestamp: number
+): void {
+    let signer: string
+
+    try {
+        signer = recoverSigner(domain, signed)
+    } catch {
+        throw new Error(`Signing: Malformed signature ${signed.sig}`)
+    }
+
+    if (signer.toLowerCase() !== signed.submitter.toLowerCase()) {
+        throw new Error(
+            `Signing: Signed by ${signer}, not the submitter ${signed.submitter}`
+        )
+    }
+    if (signed.deadline.lt(timestamp)) {
+        throw new Error(
+            `Signing: Expired at ${signed.deadline.toString()}, before ${timestamp}`
+        )
+    }
+}
+
+/**
+ * Rebuilds a signed job from its JSON, such as a relayer receives, deriving
+ * the txHash of the job rather than trusting it.
+ */
+export function parseSignedJob(json: string): SignedJob {
+    const parsed = JSON.parse(json) as {
+        job: {
+            target: string
+            value: BigNumberish
+            signature: string
+            data: BytesLike
+            timeout?: BigNumberish
+        }
+        submitter: string
+        nonce: BigNumberish
+        deadline: BigNumberish
+        sig: string
+    }
+    const {target, value, signature, data, timeout} = parsed.job
+
+    return {
+        job:
+            typeof timeout === 'undefined'
+                ? describeJob(target, value, signature, data)
+                : describeAuctionJob(target, value, signature, data, timeout),
+        submitter: utils.getAddress(parsed.submitter),
+        nonce: BigNumber.from(parsed.nonce),
+        deadline: BigNumber.from(parsed.deadline),
+        sig: utils.hexlify(parsed.sig)
+    }
+}
@@ -0,0 +1,194 @@
+import {BigNumber, providers, utils} from 'ethers'
+import {DelayedJobs} from '../typechain-types'
+import {AbiRegistry} from './calldata'
+import {DelayedJobsClient} from './client'
+import {Job, isAuctionJob, isRecurringJob} from './job'
+import {DecodedRevert, decodeRevert} from './revert'
+import {roleId} from './roles'
+
+/**
+ * When and as whom to simulate, where the defaults are the maturity of the
+ * job and its executor: the first executor for plain jobs, the best bidder for
+ * auctions.
+ * Targets in the registry have their custom errors decoded.
+ */
+export interface SimulationOptions {
+    at?: number
+    from?: string
+    registry?: AbiRegistry
+}
+
+/**
+ * Outcome of executing the job, where return data is that of the target
+ * call, and gas estimate is the gas the execution used.
+ */
+export interface Simulation {
+    success: boolean
+    timestamp: number
+    from: string
+    returnData: string | null
+    revert: DecodedRevert | null
+    gasEstimate: BigNumber
+}
+
+/**
+ * The debug_traceTransaction result, less the struct logs.
+ */
+interface Trace {
+    failed: boolean
+    returnValue: string
+}
+
+/**
+ * Simulates executing the job at a future timestamp, before anyone spends
+ * gas on it.
+ *
+ * The execution is mined in a snapshot of the chain, moved forward to the
+ * timestamp and reverted afterwards, with the revert data taken from its
+ * trace. This requires a development network (e.g. HardHat) supporting
+ * evm_snapshot, account impersonation and debug_traceTransaction. A
+ * timestamp that has already passed simulates at the next block.
+ */
+export async function simulateJob(
+    contract: DelayedJobs,
+    job: Job,
+    options: SimulationOptions = {}
+): Promise<Simulation> {
+    const provider = contract.provider as providers.JsonRpcProvider
+    const status = await new DelayedJobsClient(contract).status(job)
+    const from = options.from ?? (await executor(contract, job, status))
+    const snapshot = (await provider.send('evm_snapshot', [])) as string
+
+    try {
+        const latest = await provider.getBlock('latest')
+        const at = options.at ?? status.maturesAt.toNumber()
+
+        if (at > latest.timestamp) {
+            await provider.send('evm_setNextBlockTimestamp', [at])
+        }
+
+        const hash = await impersonated(provider, from, () =>
+            send(provider, {
+                from,
+                to: contract.address,
+                data: executeCall(contract, job),
+                gas: utils.hexValue(latest.gasLimit)
+            })
+        )
+        const receipt = await provider.getTransactionReceipt(hash)
+        const {timestamp} = await provider.getBlock(receipt.blockHash)
+        const trace = (await provider.send('debug_traceTransaction', [
+            hash,
+            {disableStorage: true, disableMemory: true, disableStack: true}
+        ])) as Trace
+        const output = utils.hexlify(`0x${trace.returnValue}`)
+
+        return {
+            success: !trace.failed,
+            timestamp,
+            from,
+            returnData: trace.failed ? null : returnData(contract, job, output),
+            revert: trace.failed
+                ? decodeRevert(output, [
+                      contract.interface,
+                      ...(options.registry?.interfaces() ?? [])
+                  ])
+                : null,
+            gasEstimate: receipt.gasUsed
+        }
+    } finally {
+        await provider.send('evm_revert', [snapshot])
+    }
+}
+async function executor(
+    contract: DelayedJobs,
+    job: Job,
+    status: {bestBidder?: string}
+): Promise<string> {
+    return isAuctionJob(job) && status.bestBidder
+        ? status.bestBidder
+        : contract.getRoleMember(roleId('executor'), 0)
+}
+
+function executeCall(contract: DelayedJobs, job: Job): string {
+    if (isRecurringJob(job)) {
+        return contract.interface.encodeFunctionData('executeRecurringJob', [
+            job.target,
+            job.value,
+            job.signature,
+            job.data,
+            job.interval,
+            job.maxRuns
+        ])
+    }
+
+    return isAuctionJob(job)
+        ? contract.interface.encodeFunctionData('executeJobBid', [
+              job.target,
+              job.value,
+              job.signature,
+              job.data,
+              job.timeout
+          ])
+        : contract.interface.encodeFunctionData('executeJob', [
+              job.target,
+              job.value,
+              job.signature,
+              job.data
+          ])
+}
+
+function returnData(contract: DelayedJobs, job: Job, result: string): string {
+    if (isRecurringJob(job)) {
+        const [data] = contract.interface.decodeFunctionResult(
+            'executeRecurringJob',
+            result
+        )
+        return data as string
+    }
+
+    const [data] = isAuctionJob(job)
+        ? contract.interface.decodeFunctionResult('executeJobBid', result)
+        : contract.interface.decodeFunctionResult('executeJob', result)
+
+    return data as string
+}
+
+async function impersonated<T>(
+    provider: providers.JsonRpcProvider,
+    account: string,
+    action: () => Promise<T>
+): Promise<T> {
+    await provider.send('hardhat_impersonateAccount', [account])
+
+    try {
+        return await action()
+    } finally {
+        await provider.send('hardhat_stopImpersonatingAccount', [account])
+    }
+}
+
+/**
+ * Sends the transaction, returning its hash even when it reverts (as the
+ * HardHat network throws on failed transactions after mining them).
+ */
+async function send(
+    provider: providers.JsonRpcProvider,
+    transaction: {from: string; to: string; data: string; gas: string}
+): Promise<string> {
+    const before = await provider.getBlockNumber()
+
+    try {
+        return (await provider.send('eth_sendTransaction', [
+            transaction
+        ])) as string
+    } catch (error) {
+        const block = await provider.getBlock('latest')
+
+        if (block.number === before || block.transactions.length === 0) {
+            throw error
+        }
+
+        return block.transactions[0]
+    }
+}
@@ -0,0 +1,1453 @@
+import {createLogger} from 'bunyan'
+import {task, types} from 'hardhat/config'
+import {HardhatPluginError} from 'hardhat/plugins'
+import {HardhatRuntimeEnvironment} from 'hardhat/types'
+import {readFileSync} from 'fs'
+import {BigNumber, utils} from 'ethers'
+import {DelayedJobs, IERC20Metadata} from '../typechain-types'
+import {AbiRegistry, buildCall, describeCall} from '../src/calldata'
+import {DelayedJobsClient} from '../src/client'
+import {PlannedJob, dependencyOrder, submitPlan} from '../src/dependencies'
+import {
+    JsonFileDeploymentStore,
+    recordDeployment,
+    recordUpgrade
+} from '../src/deployments'
+import {
+    IndexedJob,
+    JobIndexer,
+    JobState,
+    describeIndexedJob
+} from '../src/indexer'
+import {
+    AuctionJob,
+    Job,
+    describeAuctionJob,
+    describeJob,
+    isAuctionJob,
+    isRecurringJob
+} from '../src/job'
+import {reconcileLedger} from '../src/ledger'
+import {formatRevert, revertReason} from '../src/revert'
+import {JOB_ROLES, JobRole, isJobRole} from '../src/roles'
+import {SchedulePlan, planSchedule} from '../src/schedule'
+import {JsonFileSealedBidStore, SealedBidder} from '../src/sealed-bids'
+import {SignedJob, parseSignedJob, signJob} from '../src/signing'
+import {simulateJob} from '../src/simulator'
+import {Row, print, printJson} from './output'
+
+const PLUGIN = 'jobs'
+const ADMIN = 0
+const EXECUTOR = 1
+const ONE_DAY_SECONDS = 24 * 60 * 60
+const ETHER_DECIMALS = 18
+const PLANNED_RUNS = 5
+const SIGNATURE_VALIDITY = 60 * 60
+const NEXT_NONCE = -1
+const REGISTRY_HELP =
+    'JSON file of known targets, mapping each address to its artifact name'
+const DEPLOYMENTS_HELP = 'JSON file recording the deployment on each network'
+const DEPLOYMENTS = 'deployments.json'
+
+interface ContractArgs {
+    address: string
+    signer: number
+}
+
+interface LookupArgs extends ContractArgs {
+    txHash: string
+    fromBlock: number
+}
+
+interface RegistryArgs {
+    address: string
+    registry?: string
+}
+
+/*
+ * Operator tasks for DelayedJobs, e.g.
+ *
+ * npx hardhat --network local jobs:list --address 0x... --state pending
+ */
+task(
+    'jobs:deploy',
+    'Deploys DelayedJobs behind a UUPS proxy, recording it for the network'
+)
+    .addOptionalParam(
+        'admin',
+        'Admin (and first submitter) address, default first signer'
+    )
+    .addOptionalParam('executor', 'Executor address, default second signer')
+    .addOptionalParam('delay', 'Delay in seconds', ONE_DAY_SECONDS, types.int)
+    .addOptionalParam('deployments', DEPLOYMENTS_HELP, DEPLOYMENTS)
+    .setAction(
+        async (
+            args: {
+                admin?: string
+                executor?: string
+                delay: number
+                deployments: string
+            },
+            hre
+        ) => {
+            const signers = await hre.ethers.getSigners()
+            const factory = await hre.ethers.getContractFactory('DelayedJobs')
+            const contract = await attempt(async () =>
+                (
+                    await hre.upgrades.deployProxy(
+                        factory,
+                        [
+                            args.admin ?? signers[ADMIN].address,
+                            args.executor ?? signers[EXECUTOR].address,
+                            args.delay
+                        ],
+                        {kind: 'uups'}
+                    )
+                ).deployed()
+            )
+            const receipt = await contract.deployTransaction.wait()
+            const deployment = recordDeployment(
+                new JsonFileDeploymentStore(args.deployments),
+                hre.network.name,
+                contract.address,
+                await hre.upgrades.erc1967.getImplementationAddress(
+                    contract.address
+                ),
+                receipt.blockNumber
+            )
+
+            printJson(deployment)
+            return contract.address
+        }
+    )
+
+task(
+    'jobs:upgrade',
+    'Upgrades the DelayedJobs proxy to the compiled contract, keeping its storage'
+)
+    .addOptionalParam(
+        'address',
+        'DelayedJobs proxy address, default the one recorded for the network'
+    )
+    .addOptionalParam(
+        'contract',
+        'Name of the upgraded contract',
+        'DelayedJobs'
+    )
+    .addOptionalParam('signer', 'Signer index (the admin)', ADMIN, types.int)
+    .addOptionalParam('deployments', DEPLOYMENTS_HELP, DEPLOYMENTS)
+    .setAction(
+        async (
+            args: {
+                address?: string
+                contract: string
+                signer: number
+                deployments: string
+            },
+            hre
+        ) => {
+            const store = new JsonFileDeploymentStore(args.deployments)
+            const recorded = store.load()[hre.network.name]
+            const address = args.address ?? recorded?.address
+
+            if (!address) {
+                throw new HardhatPluginError(
+                    PLUGIN,
+                    `No deployment recorded on ${hre.network.name}, give its --address`
+                )
+            }
+
+            const signers = await hre.ethers.getSigners()
+            const factory = await hre.ethers.getContractFactory(
+                args.contract,
+                signers[args.signer]
+            )
+            await attempt(async () =>
+                (await hre.upgrades.upgradeProxy(address, factory)).deployed()
+            )
+            const implementation =
+                await hre.upgrades.erc1967.getImplementationAddress(address)
+
+            printJson(
+                recorded?.address === address
+                    ? recordUpgrade(store, hre.network.name, implementation)
+                    : {address, implementation}
+            )
+            return implementation
+        }
+    )
+
+task(
+    'jobs:submit',
+    'Submits a job, an auction job when given a timeout (sealed with a reveal period), or a recurring job when given an interval or schedule'
+)
+    .addParam('address', 'DelayedJobs contract address')
+    .addParam('target', 'Address of the contract the job calls')
+    .addParam('signature', 'Function to call, e.g. "transfer(address,uint256)"')
+    .addOptionalParam('args', 'Function arguments as JSON', [], types.json)
+    .addParam(
+        'reward',
+        'Reward (maximum bid for auctions, budget of every run for recurring jobs) in ether, or whole tokens'
+    )
+    .addOptionalParam('token', 'ERC-20 token of the reward, default ETH')
+    .addOptionalParam('timeout', 'Auction timeout in seconds', 0, types.int)
+    .addOptionalParam(
+        'revealPeriod',
+        'Seconds revealing the bids of a sealed auction, after its delay',
+        0,
+        types.int
+    )
+    .addOptionalParam(
+        'expiry',
+        'Seconds after maturity the job may execute, default no expiry',
+        0,
+        types.int
+    )
+    .addOptionalParam(
+        'interval',
+        'Seconds between the runs of a recurring job',
+        0,
+        types.int
+    )
+    .addOptionalParam(
+        'schedule',
+        'Cron expression the runs of a recurring job follow, e.g. "0 */6 * * *"'
+    )
+    .addOptionalParam('runs', 'Maximum runs of a recurring job', 0, types.int)
+    .addOptionalParam(
+        'after',
+        'txHashes of the jobs a plain job executes after, as JSON',
+        [],
+        types.json
+    )
+    .addOptionalParam('signer', 'Signer index', ADMIN, types.int)
+    .addOptionalParam('registry', REGISTRY_HELP)
+    .addFlag('unchecked', 'Skip checking the call against the registry')
+    .setAction(
+        async (
+            args: ContractArgs &
+                RegistryArgs & {
+                    target: string
+                    signature: string
+                    args: unknown[]
+                    reward: string
+                    token?: string
+                    timeout: number
+                    revealPeriod: number
+                    expiry: number
+                    interval: number
+                    schedule?: string
+                    runs: number
+                    after: string[]
+                    unchecked: boolean
+                },
+            hre
+        ) => {
+            checkJobKind(args)
+
+            const client = await connect(hre, args)
+            const {signature, data} = await checkedCall(hre, args)
+            const {token} = args
+            const reward = utils.parseUnits(
+                args.reward,
+                await decimals(hre, token)
+            )
+            const interval = args.schedule
+                ? (await plan(client.contract, args.schedule, args.runs))
+                      .interval
+                : args.interval
+            const job = await attempt(() => {
+                if (interval > 0) {
+                    return token
+                        ? client.submitTokenRecurring(
+                              args.target,
+                              signature,
+                              data,
+                              interval,
+                              args.runs,
+                              token,
+                              reward
+                          )
+                        : client.submitRecurring(
+                              args.target,
+                              signature,
+                              data,
+                              interval,
+                              args.runs,
+                              reward
+                          )
+                }
+                if (args.revealPeriod > 0) {
+                    return client.submitSealedAuction(
+                        args.target,
+                        signature,
+                        data,
+                        args.timeout,
+                        args.revealPeriod,
+                        reward
+                    )
+                }
+                if (args.timeout > 0) {
+                    return token
+                        ? client.submitTokenAuction(
+                              args.target,
+                              signature,
+                              data,
+                              args.timeout,
+                              token,
+                              reward
+                          )
+                        : client.submitAuction(
+                              args.target,
+                              signature,
+                              data,
+                              args.timeout,
+                              reward
+                          )
+                }
+                if (args.after.length > 0) {
+                    return token
+                        ? client.submitTokenWithPrerequisites(
+                              args.target,
+                              signature,
+                              data,
+                              args.after,
+                              token,
+                              reward
+                          )
+                        : client.submitWithPrerequisites(
+                              args.target,
+                              signature,
+                              data,
+                              args.after,
+                              reward
+                          )
+                }
+                if (token) {
+                    return args.expiry > 0
+                        ? client.submitToken(
+                              args.target,
+                              signature,
+                              data,
+                              token,
+                              reward,
+                              args.expiry
+                          )
+                        : client.submitToken(
+                              args.target,
+                              signature,
+                              data,
+                              token,
+                              reward
+                          )
+                }
+
+                return args.expiry > 0
+                    ? client.submit(
+                          args.target,
+                          signature,
+                          data,
+                          reward,
+                          args.expiry
+                      )
+                    : client.submit(args.target, signature, data, reward)
+            })
+
+            printJson(job)
+            return job
+        }
+    )
+
+task('jobs:submit-plan', 'Submits jobs in the order of their prerequisites')
+    .addParam('address', 'DelayedJobs contract address')
+    .addParam(
+        'plan',
+        'JSON file of jobs, each {id, target, signature, args, reward, token, after}'
+    )
+    .addOptionalParam('signer', 'Signer index', ADMIN, types.int)
+    .addOptionalParam('registry', REGISTRY_HELP)
+    .addFlag('unchecked', 'Skip checking the calls against the registry')
+    .setAction(
+        async (
+            args: ContractArgs &
+                RegistryArgs & {plan: string; unchecked: boolean},
+            hre
+        ) => {
+            const client = await connect(hre, args)
+            const entries = JSON.parse(
+                readFileSync(args.plan, 'utf8')
+            ) as Array<
+                Omit<PlannedJob, 'data' | 'reward'> & {
+                    args?: unknown[]
+                    reward: string
+                }
+            >
+            const planned: PlannedJob[] = []
+
+            for (const entry of entries) {
+                const call = await checkedCall(hre, {
+                    ...args,
+                    target: entry.target,
+                    signature: entry.signature,
+                    args: entry.args ?? []
+                })
+                planned.push({
+                    ...entry,
+                    ...call,
+                    reward: utils.parseUnits(
+                        entry.reward,
+                        await decimals(hre, entry.token)
+                    )
+                })
+            }
+
+            try {
+                dependencyOrder(planned)
+            } catch (error) {
+                throw new HardhatPluginError(
+                    PLUGIN,
+                    error instanceof Error ? error.message : String(error)
+                )
+            }
+
+            const submitted = await attempt(() => submitPlan(client, planned))
+            const rows = [...submitted.entries()].map(([id, job]) => ({
+                id,
+                txHash: job.txHash
+            }))
+
+            printJson(rows)
+            return submitted
+        }
+    )
+
+task('jobs:blocked', 'Lists pending jobs awaiting their prerequisites')
+    .addParam('address', 'DelayedJobs contract address')
+    .addOptionalParam('fromBlock', 'First block to index', 0, types.int)
+    .addFlag('json', 'Print as JSON instead of a table')
+    .setAction(
+        async (
+            args: {address: string; fromBlock: number; json: boolean},
+            hre
+        ) => {
+            const indexer = await index(hre, args.address, args.fromBlock)
+            const contract = await hre.ethers.getContractAt(
+                'DelayedJobs',
+                args.address
+            )
+            const client = new DelayedJobsClient(contract as DelayedJobs)
+            const rows: Row[] = []
+
+            for (const job of indexer.book.jobs({state: 'pending'})) {
+                const blockedOn = job.prerequisites
+                    ? await client.blockedOn(describeIndexedJob(job))
+                    : []
+
+                if (blockedOn.length > 0) {
+                    rows.push({
+                        txHash: job.txHash,
+                        blockedOn: blockedOn.join(', ')
+                    })
+                }
+            }
+
+            print(rows, args.json)
+            return rows
+        }
+    )
+
+task(
+    'jobs:sign',
+    'Signs a job, an auction job when given a timeout, for a relayer to submit'
+)
+    .addParam('address', 'DelayedJobs contract address')
+    .addParam('target', 'Address of the contract the job calls')
+    .addParam('signature', 'Function to call, e.g. "transfer(address,uint256)"')
+    .addOptionalParam('args', 'Function arguments as JSON', [], types.json)
+    .addParam(
+        'reward',
+        'Reward (maximum bid for auctions) in ether, sent by the relayer'
+    )
+    .addOptionalParam('timeout', 'Auction timeout in seconds', 0, types.int)
+    .addOptionalParam(
+        'validity',
+        'Seconds from the latest block the job may be relayed within',
+        SIGNATURE_VALIDITY,
+        types.int
+    )
+    .addOptionalParam(
+        'nonce',
+        'Nonce to sign with, default the next of the signer',
+        NEXT_NONCE,
+        types.int
+    )
+    .addOptionalParam('signer', 'Signer (submitter) index', ADMIN, types.int)
+    .addOptionalParam('registry', REGISTRY_HELP)
+    .addFlag('unchecked', 'Skip checking the call against the registry')
+    .setAction(
+        async (
+            args: ContractArgs &
+                RegistryArgs & {
+                    target: string
+                    signature: string
+                    args: unknown[]
+                    reward: string
+                    timeout: number
+                    validity: number
+                    nonce: number
+                    unchecked: boolean
+                },
+            hre
+        ) => {
+            const {contract} = await connect(hre, args)
+            const submitter = (await hre.ethers.getSigners())[args.signer]
+            const {signature, data} = await checkedCall(hre, args)
+            const reward = utils.parseEther(args.reward)
+            const job =
+                args.timeout > 0
+                    ? describeAuctionJob(
+                          args.target,
+                          reward,
+                          signature,
+                          data,
+                          args.timeout
+                      )
+                    : describeJob(args.target, reward, signature, data)
+            const block = await contract.provider.getBlock('latest')
+            const deadline = block.timestamp + args.validity
+            const signed = await attempt(() =>
+                args.nonce === NEXT_NONCE
+                    ? signJob(contract, submitter, job, deadline)
+                    : signJob(contract, submitter, job, deadline, args.nonce)
+            )
+
+            printJson(signed)
+            return signed
+        }
+    )
+
+task('jobs:relay', 'Submits a job signed by its submitter, paying the reward')
+    .addParam('address', 'DelayedJobs contract address')
+    .addParam('signed', 'JSON file of the signed job, as printed by jobs:sign')
+    .addOptionalParam('signer', 'Signer (relayer) index', ADMIN, types.int)
+    .setAction(async (args: ContractArgs & {signed: string}, hre) => {
+        const client = await connect(hre, args)
+        let signed: SignedJob
+
+        try {
+            signed = parseSignedJob(readFileSync(args.signed, 'utf8'))
+        } catch (error) {
+            throw new HardhatPluginError(
+                PLUGIN,
+                `Cannot read the signed job in ${args.signed}: ${
+                    error instanceof Error ? error.message : String(error)
+                }`
+            )
+        }
+
+        const job = await attempt(() => client.relay(signed))
+
+        printJson(job)
+        return job
+    })
+
+task('jobs:plan', 'Previews the runs of a cron schedule for a recurring job')
+    .addParam('address', 'DelayedJobs contract address')
+    .addParam('schedule', 'Cron expression, e.g. "0 */6 * * *" or "@daily"')
+    .addOptionalParam('runs', 'Runs to plan', PLANNED_RUNS, types.int)
+    .setAction(
+        async (
+            args: {address: string; schedule: string; runs: number},
+            hre
+        ) => {
+            const contract = await hre.ethers.getContractAt(
+                'DelayedJobs',
+                args.address
+            )
+            const schedule = await plan(
+                contract as DelayedJobs,
+                args.schedule,
+                args.runs
+            )
+
+            printJson({
+                schedule: args.schedule,
+                interval: schedule.interval,
+                submitAt: isoTime(schedule.submitAt),
+                runs: schedule.runs.map((timestamp) => ({
+                    timestamp,
+                    maturesAt: isoTime(timestamp)
+                }))
+            })
+            return schedule
+        }
+    )
+
+task('jobs:list', 'Lists jobs, rebuilt from the contract events')
+    .addParam('address', 'DelayedJobs contract address')
+    .addOptionalParam('state', 'pending, executed, cancelled or reclaimed')
+    .addOptionalParam('target', 'Only jobs calling this address')
+    .addOptionalParam('submitter', 'Only jobs submitted by this address')
+    .addOptionalParam('bidder', 'Only auctions bid on by this address')
+    .addOptionalParam('fromBlock', 'First block to index', 0, types.int)
+    .addOptionalParam('registry', REGISTRY_HELP)
+    .addFlag('json', 'Print as JSON instead of a table')
+    .setAction(
+        async (
+            args: RegistryArgs & {
+                state?: JobState
+                target?: string
+                submitter?: string
+                bidder?: string
+                fromBlock: number
+                json: boolean
+            },
+            hre
+        ) => {
+            const indexer = await index(hre, args.address, args.fromBlock)
+            const jobs = indexer.book.jobs({
+                state: args.state,
+                target: args.target,
+                submitter: args.submitter,
+                bidder: args.bidder
+            })
+            const calls = await registry(hre, args)
+            const units = await tokenDecimals(hre, jobs)
+
+            print(
+                jobs.map((job) => summary(job, calls, units)),
+                args.json
+            )
+            return jobs
+        }
+    )
+
+task('jobs:show', 'Shows a single job, rebuilt from the contract events')
+    .addParam('address', 'DelayedJobs contract address')
+    .addParam('txHash', 'Job txHash')
+    .addOptionalParam('fromBlock', 'First block to index', 0, types.int)
+    .addOptionalParam('registry', REGISTRY_HELP)
+    .addFlag('json', 'Print as JSON instead of a table')
+    .setAction(
+        async (
+            args: RegistryArgs & {
+                txHash: string
+                fromBlock: number
+                json: boolean
+            },
+            hre
+        ) => {
+            const indexer = await index(hre, args.address, args.fromBlock)
+            const job = found(indexer.book.job(args.txHash), args.txHash)
+
+            if (args.json) {
+                printJson(job)
+            } else {
+                print(
+                    Object.entries(
+                        detail(
+                            job,
+                            await registry(hre, args),
+                            await tokenDecimals(hre, [job])
+                        )
+                    ).map(([field, value]) => ({
+                        field,
+                        value
+                    })),
+                    false
+                )
+            }
+            return job
+        }
+    )
+
+task('jobs:execute', 'Executes a matured job, or an auction won by the signer')
+    .addParam('address', 'DelayedJobs contract address')
+    .addParam('txHash', 'Job txHash')
+    .addOptionalParam('fromBlock', 'First block to index', 0, types.int)
+    .addOptionalParam('signer', 'Signer index', EXECUTOR, types.int)
+    .setAction(async (args: LookupArgs, hre) => {
+        const {client, job} = await lookup(hre, args)
+        const receipt = await attempt(() => client.execute(job))
+
+        printJson({txHash: job.txHash, transaction: receipt.transactionHash})
+        return receipt
+    })
+
+task(
+    'jobs:execute-batch',
+    'Executes matured plain jobs in as few transactions as fit a block'
+)
+    .addParam('address', 'DelayedJobs contract address')
+    .addOptionalParam(
+        'txHashes',
+        'Job txHashes as JSON, default every pending plain job',
+        [],
+        types.json
+    )
+    .addOptionalParam(
+        'blockGasShare',
+        'Share of the block gas limit each transaction may use, default half',
+        0,
+        types.float
+    )
+    .addOptionalParam('fromBlock', 'First block to index', 0, types.int)
+    .addOptionalParam('signer', 'Signer index', EXECUTOR, types.int)
+    .setAction(
+        async (
+            args: ContractArgs & {
+                txHashes: string[]
+                blockGasShare: number
+                fromBlock: number
+            },
+            hre
+        ) => {
+            const indexer = await index(hre, args.address, args.fromBlock)
+            const jobs =
+                args.txHashes.length > 0
+                    ? args.txHashes.map((txHash) =>
+                          describeIndexedJob(
+                              found(indexer.book.job(txHash), txHash)
+                          )
+                      )
+                    : indexer.book
+                          .jobs({state: 'pending'})
+                          .map(describeIndexedJob)
+                          .filter(
+                              (job) =>
+                                  !isAuctionJob(job) && !isRecurringJob(job)
+                          )
+            const client = await connect(hre, args)
+            const results = await attempt(() =>
+                client.executeBatch(
+                    jobs,
+                    args.blockGasShare > 0
+                        ? {blockGasShare: args.blockGasShare}
+                        : {}
+                )
+            )
+
+            printJson(
+                results.map(({job, success, error, transactionHash}) => ({
+                    txHash: job.txHash,
+                    success,
+                    error,
+                    transaction: transactionHash
+                }))
+            )
+            return results
+        }
+    )
+
+task('jobs:simulate', 'Simulates executing a job, by default at its maturity')
+    .addParam('address', 'DelayedJobs contract address')
+    .addParam('txHash', 'Job txHash')
+    .addOptionalParam('at', 'Timestamp to simulate at', 0, types.int)
+    .addOptionalParam('from', 'Executor, default first executor or best bidder')
+    .addOptionalParam('fromBlock', 'First block to index', 0, types.int)
+    .addOptionalParam('registry', REGISTRY_HELP)
+    .addFlag('json', 'Print as JSON instead of a table')
+    .setAction(
+        async (
+            args: RegistryArgs & {
+                txHash: string
+                at: number
+                from?: string
+                fromBlock: number
+                json: boolean
+            },
+            hre
+        ) => {
+            const indexer = await index(hre, args.address, args.fromBlock)
+            const job = found(indexer.book.job(args.txHash), args.txHash)
+            const contract = await hre.ethers.getContractAt(
+                'DelayedJobs',
+                args.address
+            )
+            const simulation = await attempt(async () =>
+                simulateJob(contract as DelayedJobs, describeIndexedJob(job), {
+                    ...(args.at > 0 ? {at: args.at} : {}),
+                    from: args.from,
+                    registry: await registry(hre, args)
+                })
+            )
+
+            print(
+                [
+                    {
+                        txHash: job.txHash,
+                        success: String(simulation.success),
+                        timestamp: String(simulation.timestamp),
+                        from: simulation.from,
+                        result: simulation.revert
+                            ? formatRevert(simulation.revert)
+                            : simulation.returnData ?? '',
+                        gasEstimate: simulation.gasEstimate.toString()
+                    }
+                ],
+                args.json
+            )
+            return simulation
+        }
+    )
+
+task('jobs:bid', 'Places a bid on an auction job')
+    .addParam('address', 'DelayedJobs contract address')
+    .addParam('txHash', 'Job txHash')
+    .addParam('amount', 'Bid in ether, or whole tokens')
+    .addOptionalParam('fromBlock', 'First block to index', 0, types.int)
+    .addOptionalParam('signer', 'Signer index', EXECUTOR, types.int)
+    .setAction(async (args: LookupArgs & {amount: string}, hre) => {
+        const {client, job, token} = await lookup(hre, args)
+        const amount = utils.parseUnits(args.amount, await decimals(hre, token))
+        const auctionJob = auction(job)
+        const receipt = await attempt(() => client.bid(auctionJob, amount))
+
+        printJson({
+            txHash: job.txHash,
+            bid: amount,
+            collateral: job.value.sub(amount),
+            transaction: receipt.transactionHash
+        })
+        return receipt
+    })
+
+task(
+    'jobs:commit-bid',
+    'Commits a sealed bid on an auction job, keeping its salt in the bids file'
+)
+    .addParam('address', 'DelayedJobs contract address')
+    .addParam('txHash', 'Job txHash')
+    .addParam('amount', 'Bid in ether')
+    .addParam('bids', 'JSON file of the sealed bids of the signer to reveal')
+    .addOptionalParam('fromBlock', 'First block to index', 0, types.int)
+    .addOptionalParam('signer', 'Signer index', EXECUTOR, types.int)
+    .setAction(
+        async (args: LookupArgs & {amount: string; bids: string}, hre) => {
+            const {client, job} = await lookup(hre, args)
+            const amount = utils.parseUnits(args.amount, ETHER_DECIMALS)
+            const bidder = sealedBidder(client, args.bids)
+            const auctionJob = auction(job)
+            await attempt(() => bidder.commit(auctionJob, amount))
+
+            printJson({
+                txHash: job.txHash,
+                bid: amount,
+                collateral: job.value,
+                bids: args.bids
+            })
+            return amount
+        }
+    )
+
+task(
+    'jobs:reveal-bids',
+    'Reveals the sealed bids in the bids file whose auctions are revealing'
+)
+    .addParam('address', 'DelayedJobs contract address')
+    .addParam('bids', 'JSON file of the sealed bids of the signer to reveal')
+    .addOptionalParam('signer', 'Signer index', EXECUTOR, types.int)
+    .setAction(async (args: ContractArgs & {bids: string}, hre) => {
+        const client = await connect(hre, args)
+        const bidder = sealedBidder(client, args.bids)
+        const before = bidder.pending().map(({txHash}) => txHash)
+        await attempt(() => bidder.step())
+        const pending = bidder.pending().map(({txHash}) => txHash)
+
+        printJson({
+            done: before.filter((txHash) => !pending.includes(txHash)),
+            pending
+        })
+        return pending
+    })
+
+task('jobs:cancel', 'Cancels a job, refunding the reward to its submitter')
+    .addParam('address', 'DelayedJobs contract address')
+    .addParam('txHash', 'Job txHash')
+    .addOptionalParam('fromBlock', 'First block to index', 0, types.int)
+    .addOptionalParam('signer', 'Signer index', ADMIN, types.int)
+    .setAction(async (args: LookupArgs, hre) => {
+        const {client, job} = await lookup(hre, args)
+        const receipt = await attempt(() => client.cancel(job))
+
+        printJson({txHash: job.txHash, transaction: receipt.transactionHash})
+        return receipt
+    })
+
+task('jobs:reclaim', 'Reclaims the reward of an expired job')
+    .addParam('address', 'DelayedJobs contract address')
+    .addParam('txHash', 'Job txHash')
+    .addOptionalParam('fromBlock', 'First block to index', 0, types.int)
+    .addOptionalParam('signer', 'Signer index', ADMIN, types.int)
+    .setAction(async (args: LookupArgs, hre) => {
+        const {client, job} = await lookup(hre, args)
+
+        if (isAuctionJob(job)) {
+            throw new HardhatPluginError(
+                PLUGIN,
+                `Job ${job.txHash} is an auction job, cancel it once expired`
+            )
+        }
+        if (isRecurringJob(job)) {
+            throw new HardhatPluginError(
+                PLUGIN,
+                `Job ${job.txHash} is a recurring job, cancel its remaining runs`
+            )
+        }
+
+        const receipt = await attempt(() => client.reclaim(job))
+
+        printJson({
+            txHash: job.txHash,
+            reclaimed: job.value,
+            transaction: receipt.transactionHash
+        })
+        return receipt
+    })
+
+task(
+    'jobs:withdraw',
+    'Withdraws the rewards and refunds credited to the signer'
+)
+    .addParam('address', 'DelayedJobs contract address')
+    .addOptionalParam('to', 'Recipient, default the signer')
+    .addOptionalParam('token', 'ERC-20 token to withdraw, default ETH')
+    .addOptionalParam('signer', 'Signer index', EXECUTOR, types.int)
+    .setAction(
+        async (args: ContractArgs & {to?: string; token?: string}, hre) => {
+            const client = await connect(hre, args)
+            const account = await client.contract.signer.getAddress()
+            const {to, token} = args
+            const amount = await client.claimable(account, token)
+            const receipt = await attempt(() =>
+                token ? client.withdrawToken(token, to) : client.withdraw(to)
+            )
+
+            printJson({
+                account,
+                recipient: to ?? account,
+                token: token ?? 'ETH',
+                amount,
+                transaction: receipt.transactionHash
+            })
+            return receipt
+        }
+    )
+
+task(
+    'jobs:reconcile',
+    'Checks each claimable balance against the Credited and Withdrawn events'
+)
+    .addParam('address', 'DelayedJobs contract address')
+    .addOptionalParam('token', 'ERC-20 token of the balances, default ETH')
+    .addOptionalParam(
+        'fromBlock',
+        'First block of the events, no later than deployment',
+        0,
+        types.int
+    )
+    .addFlag('json', 'Print as JSON instead of a table')
+    .setAction(
+        async (
+            args: {
+                address: string
+                token?: string
+                fromBlock: number
+                json: boolean
+            },
+            hre
+        ) => {
+            const contract = await hre.ethers.getContractAt(
+                'DelayedJobs',
+                args.address
+            )
+            const reconciliation = await attempt(() =>
+                reconcileLedger(contract as DelayedJobs, {
+                    token: args.token,
+                    fromBlock: args.fromBlock
+                })
+            )
+            const units = await decimals(hre, args.token)
+            const format = (amount: BigNumber) =>
+                utils.formatUnits(amount, units)
+
+            print(
+                reconciliation.balances.map((balance) => ({
+                    account: balance.account,
+                    credited: format(balance.credited),
+                    withdrawn: format(balance.withdrawn),
+                    expected: format(balance.expected),
+                    actual: format(balance.actual),
+                    status: balance.expected.eq(balance.actual)
+                        ? 'ok'
+                        : 'mismatch'
+                })),
+                args.json
+            )
+
+            const {mismatches, solvent, blockNumber} = reconciliation
+
+            if (mismatches.length > 0 || !solvent) {
+                throw new HardhatPluginError(
+                    PLUGIN,
+                    `Ledger does not reconcile at block ${blockNumber}: ${
+                        mismatches.length
+                    } mismatched accounts, ${solvent ? '' : 'in'}solvent`
+                )
+            }
+            return reconciliation
+        }
+    )
+
+task('jobs:update-delay', 'Updates the delay before jobs may execute')
+    .addParam('address', 'DelayedJobs contract address')
+    .addParam('delay', 'Delay in seconds')
+    .addOptionalParam('signer', 'Signer index', ADMIN, types.int)
+    .setAction(async (args: ContractArgs & {delay: string}, hre) => {
+        const client = await connect(hre, args)
+        const receipt = await attempt(async () =>
+            (await client.contract.updateDelay(args.delay)).wait()
+        )
+
+        printJson({delay: args.delay, transaction: receipt.transactionHash})
+        return receipt
+    })
+
+task('jobs:roles', 'Lists the accounts holding each role')
+    .addParam('address', 'DelayedJobs contract address')
+    .addFlag('json', 'Print as JSON instead of a table')
+    .setAction(async (args: {address: string; json: boolean}, hre) => {
+        const contract = await hre.ethers.getContractAt(
+            'DelayedJobs',
+            args.address
+        )
+        const client = new DelayedJobsClient(contract as DelayedJobs)
+        const rows: Row[] = []
+
+        for (const role of JOB_ROLES) {
+            for (const account of await attempt(() =>
+                client.roleMembers(role)
+            )) {
+                rows.push({role, account})
+            }
+        }
+
+        print(rows, args.json)
+        return rows
+    })
+
+task('jobs:grant-role', 'Grants a role (admin, submitter or executor)')
+    .addParam('address', 'DelayedJobs contract address')
+    .addParam('role', 'admin, submitter or executor')
+    .addParam('account', 'Account to grant the role')
+    .addOptionalParam('signer', 'Signer index', ADMIN, types.int)
+    .setAction(
+        async (args: ContractArgs & {role: string; account: string}, hre) => {
+            const client = await connect(hre, args)
+            const receipt = await attempt(() =>
+                client.grantRole(parseRole(args.role), args.account)
+            )
+
+            printJson({
+                role: args.role,
+                account: args.account,
+                transaction: receipt.transactionHash
+            })
+            return receipt
+        }
+    )
+
+task('jobs:revoke-role', 'Revokes a role (admin, submitter or executor)')
+    .addParam('address', 'DelayedJobs contract address')
+    .addParam('role', 'admin, submitter or executor')
+    .addParam('account', 'Account to revoke the role from')
+    .addOptionalParam('signer', 'Signer index', ADMIN, types.int)
+    .setAction(
+        async (args: ContractArgs & {role: string; account: string}, hre) => {
+            const client = await connect(hre, args)
+            const receipt = await attempt(() =>
+                client.revokeRole(parseRole(args.role), args.account)
+            )
+
+            printJson({
+                role: args.role,
+                account: args.account,
+                transaction: receipt.transactionHash
+            })
+            return receipt
+        }
+    )
+
+task(
+    'jobs:rotate-role',
+    'Moves a role to another account, with the pending jobs of a submitter'
+)
+    .addParam('address', 'DelayedJobs contract address')
+    .addParam('role', 'admin, submitter or executor')
+    .addParam('from', 'Account holding the role')
+    .addParam('to', 'Account to receive the role')
+    .addOptionalParam('signer', 'Signer index', ADMIN, types.int)
+    .setAction(
+        async (
+            args: ContractArgs & {role: string; from: string; to: string},
+            hre
+        ) => {
+            const client = await connect(hre, args)
+            const receipt = await attempt(() =>
+                client.rotateRole(parseRole(args.role), args.from, args.to)
+            )
+
+            printJson({
+                role: args.role,
+                from: args.from,
+                to: args.to,
+                transaction: receipt.transactionHash
+            })
+            return receipt
+        }
+    )
+
+async function connect(
+    hre: HardhatRuntimeEnvironment,
+    args: ContractArgs
+): Promise<DelayedJobsClient> {
+    const signers = await hre.ethers.getSigners()
+
+    if (args.signer >= signers.length) {
+        throw new HardhatPluginError(
+            PLUGIN,
+            `No signer at index ${args.signer}, there are ${signers.length}`
+        )
+    }
+
+    const contract = await hre.ethers.getContractAt(
+        'DelayedJobs',
+        args.address,
+        signers[args.signer]
+    )
+    return new DelayedJobsClient(contract as DelayedJobs)
+}
+
+async function index(
+    hre: HardhatRuntimeEnvironment,
+    address: string,
+    fromBlock: number
+): Promise<JobIndexer> {
+    const contract = await hre.ethers.getContractAt('DelayedJobs', address)
+    const indexer = new JobIndexer(contract as DelayedJobs, {
+        startBlock: fromBlock
+    })
+    await attempt(() => indexer.sync())
+    return indexer
+}
+
+async function lookup(
+    hre: HardhatRuntimeEnvironment,
+    args: LookupArgs
+): Promise<{client: DelayedJobsClient; job: Job; token?: string}> {
+    const indexer = await index(hre, args.address, args.fromBlock)
+    const job = found(indexer.book.job(args.txHash), args.txHash)
+
+    return {
+        client: await connect(hre, args),
+        job: describeIndexedJob(job),
+        token: job.token
+    }
+}
+
+/**
+ * Decimals of the ERC-20 token, or of ether when none.
+ */
+async function decimals(
+    hre: HardhatRuntimeEnvironment,
+    token?: string
+): Promise<number> {
+    if (!token) {
+        return ETHER_DECIMALS
+    }
+
+    const metadata = await hre.ethers.getContractAt('IERC20Metadata', token)
+    return attempt(() => (metadata as IERC20Metadata).decimals())
+}
+
+/**
+ * Decimals of the reward token of each of the jobs, by token address.
+ */
+async function tokenDecimals(
+    hre: HardhatRuntimeEnvironment,
+    jobs: IndexedJob[]
+): Promise<Map<string, number>> {
+    const tokens = new Set(
+        jobs.flatMap((job) => (job.token ? [job.token] : []))
+    )
+
+    return new Map(
+        await Promise.all(
+            [...tokens].map(
+                async (token) => [token, await decimals(hre, token)] as const
+            )
+        )
+    )
+}
+
+/**
+ * Checks the submit arguments describe a single kind of job: an auction
+ * (timeout, sealed for ETH with a reveal period), a recurring job (interval or schedule, with runs), or a plain
+ * job (optionally with an expiry).
+ */
+function checkJobKind(args: {
+    timeout: number
+    revealPeriod: number
+    token?: string
+    expiry: number
+    interval: number
+    schedule?: string
+    runs: number
+    after: string[]
+}): void {
+    const recurring = args.interval > 0 || Boolean(args.schedule)
+    const limited = args.runs > 0
+
+    if (args.revealPeriod > 0 && (args.timeout === 0 || args.token)) {
+        throw new HardhatPluginError(
+            PLUGIN,
+            'A reveal period applies to auctions with an ETH reward, sealing their bids'
+        )
+    }
+    if (args.timeout > 0 && args.expiry > 0) {
+        throw new HardhatPluginError(
+            PLUGIN,
+            'An expiry applies to plain jobs, auctions have a timeout'
+        )
+    }
+    if (recurring && (args.timeout > 0 || args.expiry > 0)) {
+        throw new HardhatPluginError(
+            PLUGIN,
+            'A recurring job has neither a timeout nor an expiry'
+        )
+    }
+    if (args.interval > 0 && args.schedule) {
+        throw new HardhatPluginError(
+            PLUGIN,
+            'A recurring job has either an interval or a schedule'
+        )
+    }
+    if (recurring !== limited) {
+        throw new HardhatPluginError(
+            PLUGIN,
+            'Maximum runs apply to recurring jobs, which need them'
+        )
+    }
+    if (
+        args.after.length > 0 &&
+        (recurring || args.timeout > 0 || args.expiry > 0)
+    ) {
+        throw new HardhatPluginError(
+            PLUGIN,
+            'Prerequisites apply to plain jobs without an expiry'
+        )
+    }
+}
+
+/**
+ * Plans the schedule for a recurring job submitted now, with the delay of
+ * the contract.
+ */
+async function plan(
+    contract: DelayedJobs,
+    schedule: string,
+    maxRuns: number
+): Promise<SchedulePlan> {
+    const [delay, block] = await Promise.all([
+        contract.delay(),
+        contract.provider.getBlock('latest')
+    ])
+
+    try {
+        return planSchedule(schedule, {
+            from: block.timestamp,
+            delay: delay.toNumber(),
+            maxRuns
+        })
+    } catch (error) {
+        throw new HardhatPluginError(
+            PLUGIN,
+            error instanceof Error ? error.message : String(error)
+        )
+    }
+}
+
+function isoTime(timestamp: number): string {
+    return new Date(timestamp * 1000).toISOString()
+}
+
+function found(job: IndexedJob | null, txHash: string): IndexedJob {
+    if (!job) {
+        throw new HardhatPluginError(PLUGIN, `No job found with ${txHash}`)
+    }
+
+    return job
+}
+
+function parseRole(name: string): JobRole {
+    if (!isJobRole(name)) {
+        throw new HardhatPluginError(
+            PLUGIN,
+            `Unknown role ${name}, expecting one of ${JOB_ROLES.join(', ')}`
+        )
+    }
+
+    return name
+}
+
+/**
+ * Bidder keeping its salts in the bids file, logging to stderr so only the
+ * task output goes to stdout.
+ */
+function sealedBidder(client: DelayedJobsClient, bids: string): SealedBidder {
+    return new SealedBidder(client.contract, new JsonFileSealedBidStore(bids), {
+        logger: createLogger({name: 'sealed-bidder', stream: process.stderr})
+    })
+}
+
+function auction(job: Job): AuctionJob {
+    if (!isAuctionJob(job)) {
+        throw new HardhatPluginError(
+            PLUGIN,
+            `Job ${job.txHash} is not an auction job`
+        )
+    }
+
+    return job
+}
+
+/**
+ * Targets known to the task: the DelayedJobs contract itself, plus those in
+ * the registry file.
+ */
+async function registry(
+    hre: HardhatRuntimeEnvironment,
+    args: RegistryArgs
+): Promise<AbiRegistry> {
+    const known = new AbiRegistry().register(
+        args.address,
+        'DelayedJobs',
+        (await hre.artifacts.readArtifact('DelayedJobs')).abi
+    )
+    const targets = args.registry
+        ? (JSON.parse(readFileSync(args.registry, 'utf8')) as Record<
+              string,
+              string
+          >)
+        : {}
+
+    for (const [address, name] of Object.entries(targets)) {
+        known.register(
+            address,
+            name,
+            (await hre.artifacts.readArtifact(name)).abi
+        )
+    }
+
+    return known
+}
+
+/**
+ * Canonical signature and ABI encoded arguments of the job call, checked
+ * against the registry when its target is known.
+ */
+async function checkedCall(
+    hre: HardhatRuntimeEnvironment,
+    args: RegistryArgs & {
+        target: string
+        signature: string
+        args: unknown[]
+        unchecked: boolean
+    }
+): Promise<{signature: string; data: string}> {
+    try {
+        const call = buildCall(args.target, args.signature, args.args)
+        const known = await registry(hre, args)
+
+        if (!args.unchecked && known.has(call.target)) {
+            known.validate(call)
+        }
+        return call
+    } catch (error) {
+        throw new HardhatPluginError(
+            PLUGIN,
+            `Cannot encode ${args.signature} with ${JSON.stringify(
+                args.args
+            )}: ${error instanceof Error ? error.message : String(error)}`
+        )
+    }
+}
+
+/**
+ * Runs the contract interaction, reporting any revert by its reason.
+ */
+async function attempt<T>(action: () => Promise<T>): Promise<T> {
+    try {
+        return await action()
+    } catch (error) {
+        throw new HardhatPluginError(
+            PLUGIN,
+            `Transaction failed: ${revertReason(error)}`
+        )
+    }
+}
+
+/**
+ * @param units decimals of each ERC-20 reward token, by token address.
+ */
+function summary(
+    job: IndexedJob,
+    calls: AbiRegistry,
+    units: Map<string, number>
+): Row {
+    const format = (amount: BigNumber) =>
+        utils.formatUnits(
+            amount,
+            job.token ? units.get(job.token) : ETHER_DECIMALS
+        )
+
+    return {
+        txHash: job.txHash,
+        kind: job.kind,
+        state: job.state,
+        target: job.target,
+        call: describeCall(calls, job),
+        value: format(job.value),
+        token: job.token ?? 'ETH',
+        bestBid: job.bestBid ? format(job.bestBid) : '',
+        submittedAt: isoTime(job.submittedAt)
+    }
+}
+
+function detail(
+    job: IndexedJob,
+    calls: AbiRegistry,
+    units: Map<string, number>
+): Row {
+    return {
+        ...summary(job, calls, units),
+        signature: job.signature,
+        data: job.data,
+        timeout: job.timeout ? job.timeout.toString() : '',
+        revealPeriod: job.revealPeriod ? job.revealPeriod.toString() : '',
+        unrevealedBids:
+            typeof job.unrevealedBids === 'number'
+                ? String(job.unrevealedBids)
+                : '',
+        expiry: job.expiry ? job.expiry.toString() : '',
+        interval: job.interval ? job.interval.toString() : '',
+        runs: job.maxRuns ? `${job.runs ?? 0}/${job.maxRuns.toString()}` : '',
+        prerequisites: job.prerequisites?.join(', ') ?? '',
+        submitter: job.submitter,
+        relayer: job.relayer ?? '',
+        submittedBlock: String(job.submittedBlock),
+        bestBidder: job.bestBidder ?? '',
+        bidders: job.bidders.join(', '),
+        executor: job.executor ?? ''
+    }
+}
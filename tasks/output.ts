@@ -0,0 +1,59 @@
+import {BigNumber} from 'ethers'
+
+/**
+ * A single row of output, keyed by column heading.
+ */
+export type Row = Record<string, string>
+
+/**
+ * Writes the rows as JSON, or as an aligned plain text table.
+ */
+export function print(rows: Row[], json: boolean): void {
+    if (json) {
+        printJson(rows)
+    } else {
+        printTable(rows)
+    }
+}
+
+export function printJson(value: unknown): void {
+    process.stdout.write(`${JSON.stringify(value, replacer, 2)}\n`)
+}
+
+export function printTable(rows: Row[]): void {
+    if (rows.length === 0) {
+        process.stdout.write('(none)\n')
+        return
+    }
+
+    const columns = Object.keys(rows[0])
+    const widths = columns.map((column) =>
+        Math.max(column.length, ...rows.map((row) => row[column].length))
+    )
+    const line = (cells: string[]) =>
+        `${cells
+            .map((cell, index) => cell.padEnd(widths[index]))
+            .join('  ')
+            .trimEnd()}\n`
+
+    process.stdout.write(line(columns))
+    process.stdout.write(line(widths.map((width) => '-'.repeat(width))))
+    rows.forEach((row) =>
+        process.stdout.write(line(columns.map((column) => row[column])))
+    )
+}
+
+/**
+ * Writes BigNumbers as decimal strings, rather than their internal hex.
+ */
+function replacer(_key: string, value: unknown): unknown {
+    if (
+        typeof value === 'object' &&
+        value !== null &&
+        (value as {type?: unknown}).type === 'BigNumber'
+    ) {
+        return BigNumber.from(value).toString()
+    }
+
+    return value
+}
@@ -0,0 +1,654 @@
+// Start - Support direct Mocha run & debug
+import {ethers} from 'hardhat'
+import '@nomiclabs/hardhat-ethers'
+// End - Support direct Mocha run & debug
+import chai, {expect} from 'chai'
+import chaiAsPromised from 'chai-as-promised'
+import {before} from 'mocha'
+import {solidity} from 'ethereum-waffle'
+import {BigNumber, utils} from 'ethers'
+import {SignerWithAddress} from '@nomiclabs/hardhat-ethers/signers'
+import {DelayedJobs, Reverter} from '../typechain-types'
+import {packBatches} from '../src/batches'
+import {BatchSubmission, DelayedJobsClient} from '../src/client'
+import {Job, describeJob} from '../src/job'
+import {
+    FIXTURE_REWARD,
+    FIXTURE_TIMEOUT,
+    deployContract,
+    deployed,
+    signer
+} from './framework/contracts'
+import {
+    TransactionSender,
+    expectBalanceDeltas,
+    expectClaimableDeltas
+} from './framework/balances'
+import {DelayedJobsError} from './framework/errors'
+import {events} from './framework/events'
+import {expectRevert, successfulTransaction} from './framework/transaction'
+import {advanceToMaturity, mine} from './framework/time'
+
+// Wires up Waffle with Chai
+chai.use(solidity)
+chai.use(chaiAsPromised)
+
+const BATCH_SIZE = 5
+
+describe('DelayedJobs batches', () => {
+    before(async () => {
+        userA = await signer(0)
+        userB = await signer(1)
+    })
+
+    beforeEach(async () => {
+        ;({jobs} = await deployed())
+        client = new DelayedJobsClient(jobs).connect(userA)
+        executor = client.connect(userB)
+    })
+
+    describe('submitJobs()', () => {
+        it('takes the combined reward', async () => {
+            const batch = identities(BATCH_SIZE)
+
+            await expectBalanceDeltas(
+                [
+                    [userA, FIXTURE_REWARD.mul(-BATCH_SIZE)],
+                    [jobs.address, FIXTURE_REWARD.mul(BATCH_SIZE)]
+                ],
+                () => submitJobs(batch)
+            )
+        })
+
+        it('emits JobSubmitted and JobBatchResult for each job', async () => {
+            const batch = identities(2)
+            const receipt = await successfulTransaction(submitJobs(batch))
+
+            const results = events(
+                jobs,
+                jobs.filters.JobBatchResult(),
+                receipt
+            ).map(({args}) => [
+                args.txHash,
+                args.index.toNumber(),
+                args.success
+            ])
+            expect(results).deep.equals(
+                described(batch).map((job, index) => [job.txHash, index, true])
+            )
+            expect(
+                events(jobs, jobs.filters.JobSubmitted(), receipt).length
+            ).equals(2)
+            for (const job of described(batch)) {
+                expect(await jobs.submittedTxs(job.txHash)).is.true
+                expect(await jobs.submittedBy(job.txHash)).equals(userA.address)
+            }
+        })
+
+        it('a job without reward fails alone, crediting nothing back', async () => {
+            const batch = [identity('0x01'), {...identity('0x02'), reward: 0}]
+
+            const [receipt] = await expectClaimableDeltas(
+                jobs,
+                [[userA, 0]],
+                () => submitJobs(batch)
+            )
+
+            const [first, second] = described(batch)
+            const results = events(jobs, jobs.filters.JobBatchResult(), receipt)
+            expect(results[1].args.success).is.false
+            expect(results[1].args.result).equals(
+                jobs.interface.encodeErrorResult('MissingReward')
+            )
+            expect(await jobs.submittedTxs(first.txHash)).is.true
+            expect(await jobs.submittedTxs(second.txHash)).is.false
+        })
+
+        it('a job listed twice fails the second time, crediting it back', async () => {
+            const batch = [identity('0x01'), identity('0x01')]
+
+            const [receipt] = await expectClaimableDeltas(
+                jobs,
+                [[userA, FIXTURE_REWARD]],
+                () => submitJobs(batch)
+            )
+
+            const [job] = described(batch)
+            const results = events(jobs, jobs.filters.JobBatchResult(), receipt)
+            expect(results[0].args.success).is.true
+            expect(results[1].args.success).is.false
+            expect(results[1].args.result).equals(
+                jobs.interface.encodeErrorResult('JobAlreadySubmitted', [
+                    job.txHash
+                ])
+            )
+            expect(await ethers.provider.getBalance(jobs.address)).equals(
+                FIXTURE_REWARD.mul(2)
+            )
+        })
+
+        it('a job already pending fails alone, crediting it back', async () => {
+            const [pending] = await submitted([identity('0x01')])
+
+            await expectClaimableDeltas(jobs, [[userA, FIXTURE_REWARD]], () =>
+                submitJobs([identity('0x01'), identity('0x02')])
+            )
+
+            expect(await jobs.submittedTxs(pending.txHash)).is.true
+            expect(
+                await jobs.submittedTxs(described([identity('0x02')])[0].txHash)
+            ).is.true
+        })
+
+        it('not userB', async () => {
+            await expectRevert(
+                submitJobs(identities(1), userB),
+                DelayedJobsError.MissingRole
+            )
+        })
+
+        it('not with a reward other than the combined', async () => {
+            const batch = identities(2)
+
+            await expectRevert(
+                jobs
+                    .connect(userA)
+                    .submitJobs(...batchArgs(batch), {value: FIXTURE_REWARD}),
+                DelayedJobsError.WrongBatchReward,
+                FIXTURE_REWARD,
+                FIXTURE_REWARD.mul(2)
+            )
+        })
+
+        it('not with arrays of different lengths', async () => {
+            const [targets, values, signatures] = batchArgs(identities(2))
+
+            await expectRevert(
+                jobs
+                    .connect(userA)
+                    .submitJobs(targets, values, signatures, ['0x01'], {
+                        value: FIXTURE_REWARD.mul(2)
+                    }),
+                DelayedJobsError.BatchLengthMismatch
+            )
+        })
+    })
+
+    describe('executeJobs()', () => {
+        beforeEach(async () => {
+            batch = await submitted(identities(BATCH_SIZE))
+            await advanceToMaturity(jobs, batch[BATCH_SIZE - 1])
+            await mine()
+        })
+
+        it('credits the executor with each reward', async () => {
+            await expectClaimableDeltas(
+                jobs,
+                [[userB, FIXTURE_REWARD.mul(BATCH_SIZE)]],
+                () => executeJobs(batch)
+            )
+
+            for (const job of batch) {
+                expect(await jobs.executedTxs(job.txHash)).is.true
+            }
+        })
+
+        it('emits JobExecuted and JobBatchResult for each job', async () => {
+            const receipt = await successfulTransaction(executeJobs(batch))
+
+            const results = events(
+                jobs,
+                jobs.filters.JobBatchResult(),
+                receipt
+            ).map(({args}) => [
+                args.txHash,
+                args.index.toNumber(),
+                args.success
+            ])
+            expect(results).deep.equals(
+                batch.map((job, index) => [job.txHash, index, true])
+            )
+            expect(
+                events(jobs, jobs.filters.JobExecuted(), receipt).length
+            ).equals(BATCH_SIZE)
+        })
+
+        it('an immature job fails alone', async () => {
+            const [immature] = await submitted([identity('0x10')])
+            const {maturesAt} = await client.status(immature)
+
+            const receipt = await successfulTransaction(
+                executeJobs([batch[0], immature])
+            )
+
+            const [first, second] = events(
+                jobs,
+                jobs.filters.JobBatchResult(),
+                receipt
+            )
+            expect(first.args.success).is.true
+            expect(second.args.success).is.false
+            expect(second.args.result).equals(
+                jobs.interface.encodeErrorResult('DelayNotElapsed', [
+                    immature.txHash,
+                    maturesAt
+                ])
+            )
+            expect(await jobs.executedTxs(batch[0].txHash)).is.true
+            expect(await jobs.submittedTxs(immature.txHash)).is.true
+        })
+
+        it('a reverting target fails alone, leaving its job pending', async () => {
+            const reverter = await deployContract<Reverter>('Reverter')
+            const failData = utils.defaultAbiCoder.encode(
+                ['string'],
+                ['Target says no']
+            )
+            const [failing] = await submitted([
+                {
+                    target: reverter.address,
+                    signature: 'failWithReason(string)',
+                    data: failData,
+                    reward: FIXTURE_REWARD
+                }
+            ])
+            await advanceToMaturity(jobs, failing)
+            await mine()
+
+            await expectClaimableDeltas(jobs, [[userB, FIXTURE_REWARD]], () =>
+                executeJobs([failing, batch[0]])
+            )
+
+            expect(await jobs.executedTxs(failing.txHash)).is.false
+            expect(await jobs.submittedTxs(failing.txHash)).is.true
+            expect(await jobs.executedTxs(batch[0].txHash)).is.true
+        })
+
+        it('a prerequisite earlier in the batch executes first', async () => {
+            const dependent = await client.submitWithPrerequisites(
+                jobs.address,
+                'identity()',
+                '0x20',
+                [batch[0].txHash],
+                FIXTURE_REWARD
+            )
+            await advanceToMaturity(jobs, dependent)
+            await mine()
+
+            await executeJobs([batch[0], dependent])
+
+            expect(await jobs.executedTxs(dependent.txHash)).is.true
+        })
+
+        it('not userA', async () => {
+            await expectRevert(
+                jobs.connect(userA).executeJobs(...batchArgs(batch)),
+                DelayedJobsError.MissingRole
+            )
+        })
+
+        it('not with arrays of different lengths', async () => {
+            const [targets, values, signatures, datas] = batchArgs(batch)
+
+            await expectRevert(
+                jobs
+                    .connect(userB)
+                    .executeJobs(targets, values.slice(1), signatures, datas),
+                DelayedJobsError.BatchLengthMismatch
+            )
+        })
+
+        let batch: Job[]
+    })
+
+    describe('batched jobs', () => {
+        it('submitBatchedJob() only by the contract', async () => {
+            await expectRevert(
+                jobs
+                    .connect(userA)
+                    .submitBatchedJob(
+                        userA.address,
+                        jobs.address,
+                        FIXTURE_REWARD,
+                        'identity()',
+                        '0x'
+                    ),
+                DelayedJobsError.CallerNotSelf,
+                userA.address
+            )
+        })
+
+        it('executeBatchedJob() only by the contract', async () => {
+            await expectRevert(
+                jobs
+                    .connect(userB)
+                    .executeBatchedJob(
+                        userB.address,
+                        jobs.address,
+                        FIXTURE_REWARD,
+                        'identity()',
+                        '0x'
+                    ),
+                DelayedJobsError.CallerNotSelf,
+                userB.address
+            )
+        })
+
+        it('submitBatchedJob() not as the call of a job', async () => {
+            const forged = describeJob(
+                jobs.address,
+                FIXTURE_REWARD.mul(10),
+                '',
+                '0x'
+            )
+            const [job] = await submitted([
+                {
+                    target: jobs.address,
+                    signature: '',
+                    data: jobs.interface.encodeFunctionData(
+                        'submitBatchedJob',
+                        [
+                            userA.address,
+                            forged.target,
+                            forged.value,
+                            forged.signature,
+                            forged.data
+                        ]
+                    ),
+                    reward: 1
+                }
+            ])
+            await advanceToMaturity(jobs, job)
+            await mine()
+
+            await expectRevert(
+                jobs
+                    .connect(userB)
+                    .executeJob(job.target, job.value, job.signature, job.data),
+                DelayedJobsError.ForbiddenCall,
+                job.txHash,
+                jobs.interface.getSighash('submitBatchedJob')
+            )
+            expect(await jobs.submittedTxs(forged.txHash)).is.false
+        })
+
+        it('executeBatchedJob() not as the call of a batched job', async () => {
+            const [pending, job] = await submitted([
+                identity('0x01'),
+                {
+                    target: jobs.address,
+                    signature:
+                        'executeBatchedJob(address,address,uint256,string,bytes)',
+                    data: utils.defaultAbiCoder.encode(
+                        ['address', 'address', 'uint256', 'string', 'bytes'],
+                        [
+                            userA.address,
+                            jobs.address,
+                            FIXTURE_REWARD,
+                            'identity()',
+                            '0x01'
+                        ]
+                    ),
+                    reward: 1
+                }
+            ])
+            await advanceToMaturity(jobs, job)
+            await mine()
+
+            const receipt = await successfulTransaction(executeJobs([job]))
+
+            expect(
+                events(jobs, jobs.filters.JobBatchResult(), receipt).map(
+                    ({args}) => args.success
+                )
+            ).deep.equals([false])
+            expect(await jobs.submittedTxs(job.txHash)).is.true
+            expect(await jobs.submittedTxs(pending.txHash)).is.true
+        })
+    })
+
+    describe('gas', () => {
+        it('a batch submission uses less than single submissions', async () => {
+            const single = await gasUsed(
+                identities(BATCH_SIZE).map(
+                    ({target, signature, data}) =>
+                        () =>
+                            jobs
+                                .connect(userA)
+                                .submitJob(target, signature, data, {
+                                    value: FIXTURE_REWARD
+                                })
+                )
+            )
+            const batched = await gasUsed([
+                () => submitJobs(identities(BATCH_SIZE, 0x40))
+            ])
+
+            expect(
+                batched.lt(single),
+                `${batched.toString()} < ${single.toString()}`
+            ).is.true
+        })
+
+        it('a batch execution uses less than single executions', async () => {
+            const singles = await submitted(identities(BATCH_SIZE))
+            const batch = await submitted(identities(BATCH_SIZE, 0x40))
+            await advanceToMaturity(jobs, batch[BATCH_SIZE - 1])
+            await mine()
+
+            const single = await gasUsed(
+                singles.map(
+                    (job) => () =>
+                        jobs
+                            .connect(userB)
+                            .executeJob(
+                                job.target,
+                                job.value,
+                                job.signature,
+                                job.data
+                            )
+                )
+            )
+            const batched = await gasUsed([() => executeJobs(batch)])
+
+            expect(
+                batched.lt(single),
+                `${batched.toString()} < ${single.toString()}`
+            ).is.true
+        })
+
+        /**
+         * Total gas of the transactions, sent in order.
+         */
+        async function gasUsed(
+            transactions: TransactionSender[]
+        ): Promise<BigNumber> {
+            let total = BigNumber.from(0)
+
+            for (const transaction of transactions) {
+                const receipt = await successfulTransaction(transaction())
+                total = total.add(receipt.gasUsed)
+            }
+            return total
+        }
+    })
+
+    describe('DelayedJobsClient', () => {
+        it('submitBatch() reports the result of each job', async () => {
+            const batch = [identity('0x01'), {...identity('0x02'), reward: 0}]
+
+            const results = await client.submitBatch(batch)
+
+            expect(results.map(({job}) => job)).deep.equals(described(batch))
+            expect(results.map(({success}) => success)).deep.equals([
+                true,
+                false
+            ])
+            expect(results[1].error).equals('MissingReward()')
+            expect(results[0].transactionHash).equals(
+                results[1].transactionHash
+            )
+        })
+
+        it('executeBatch() splits the jobs to fit the block gas share', async () => {
+            const batch = await submitted(identities(BATCH_SIZE))
+            await advanceToMaturity(jobs, batch[BATCH_SIZE - 1])
+            await mine()
+
+            const results = await executor.executeBatch(batch, {
+                blockGasShare: 0.01
+            })
+
+            expect(results.every(({success}) => success)).is.true
+            expect(
+                new Set(results.map(({transactionHash}) => transactionHash))
+                    .size
+            ).is.greaterThan(1)
+            for (const job of batch) {
+                expect(await jobs.executedTxs(job.txHash)).is.true
+            }
+        })
+
+        it('executeBatch() reports a job that would fail without sending it', async () => {
+            const [matured] = await submitted([identity('0x01')])
+            await advanceToMaturity(jobs, matured)
+            await mine()
+            const [immature] = await submitted([identity('0x02')])
+            const {maturesAt} = await client.status(immature)
+
+            const [first, second] = await executor.executeBatch([
+                matured,
+                immature
+            ])
+
+            expect(first.success).is.true
+            expect(second).deep.equals({
+                job: immature,
+                success: false,
+                result: '0x',
+                error: `DelayNotElapsed(${
+                    immature.txHash
+                }, ${maturesAt.toString()})`
+            })
+        })
+
+        it('executeBatch() not auction jobs', async () => {
+            const auction = await client.submitAuction(
+                jobs.address,
+                'identity()',
+                '0x',
+                FIXTURE_TIMEOUT,
+                FIXTURE_REWARD
+            )
+
+            await expect(executor.executeBatch([auction])).to.be.rejectedWith(
+                `Only plain jobs execute in batches, not ${auction.txHash}`
+            )
+        })
+    })
+
+    /**
+     * Submits the jobs as a batch sending their combined reward.
+     */
+    function submitJobs(batch: BatchSubmission[], sender = userA) {
+        return jobs.connect(sender).submitJobs(...batchArgs(batch), {
+            value: batch.reduce(
+                (total, {reward}) => total.add(reward),
+                BigNumber.from(0)
+            )
+        })
+    }
+
+    /**
+     * Executes the jobs as a batch by userB.
+     */
+    function executeJobs(batch: Job[]) {
+        return jobs.connect(userB).executeJobs(...batchArgs(batch))
+    }
+
+    /**
+     * Submits the jobs as a batch, which are expected to all succeed.
+     */
+    async function submitted(batch: BatchSubmission[]): Promise<Job[]> {
+        await successfulTransaction(submitJobs(batch))
+        return described(batch)
+    }
+
+    /**
+     * Plain identity() jobs with the fixture reward, made distinct by their data.
+     */
+    function identities(count: number, first = 1): BatchSubmission[] {
+        return Array.from({length: count}, (_, i) =>
+            identity(utils.hexlify(first + i))
+        )
+    }
+
+    function identity(data: string): BatchSubmission {
+        return {
+            target: jobs.address,
+            signature: 'identity()',
+            data,
+            reward: FIXTURE_REWARD
+        }
+    }
+
+    let userA: SignerWithAddress
+    let userB: SignerWithAddress
+    let jobs: DelayedJobs
+    let client: DelayedJobsClient
+    let executor: DelayedJobsClient
+})
+
+describe('packBatches()', () => {
+    it('keeps items together within the limit', () => {
+        expect(packBatches([1, 2, 3], (item) => item, 6)).deep.equals([
+            [1, 2, 3]
+        ])
+    })
+
+    it('starts the next batch once an item no longer fits', () => {
+        expect(packBatches([3, 3, 1, 4, 2], (item) => item, 6)).deep.equals([
+            [3, 3],
+            [1, 4],
+            [2]
+        ])
+    })
+
+    it('gives an item over the limit a batch of its own', () => {
+        expect(packBatches([2, 9, 2], (item) => item, 6)).deep.equals([
+            [2],
+            [9],
+            [2]
+        ])
+    })
+
+    it('no batches without items', () => {
+        expect(packBatches([], () => 1, 6)).deep.equals([])
+    })
+})
+
+function described(batch: BatchSubmission[]): Job[] {
+    return batch.map(({target, signature, data, reward}) =>
+        describeJob(target, reward, signature, data)
+    )
+}
+
+/**
+ * Arguments of submitJobs() and executeJobs() for the jobs.
+ */
+function batchArgs(
+    batch: Array<BatchSubmission | Job>
+): [string[], BigNumber[], string[], string[]] {
+    const jobs = batch.map((job) =>
+        'txHash' in job
+            ? job
+            : describeJob(job.target, job.reward, job.signature, job.data)
+    )
+
+    return [
+        jobs.map((job) => job.target),
+        jobs.map((job) => BigNumber.from(job.value)),
+        jobs.map((job) => job.signature),
+        jobs.map((job) => utils.hexlify(job.data))
+    ]
+}
@@ -0,0 +1,283 @@
+// Start - Support direct Mocha run & debug
+import 'hardhat'
+import '@nomiclabs/hardhat-ethers'
+// End - Support direct Mocha run & debug
+import {expect} from 'chai'
+import {before} from 'mocha'
+import {createLogger} from 'bunyan'
+import {BigNumber, utils} from 'ethers'
+import {SignerWithAddress} from '@nomiclabs/hardhat-ethers/signers'
+import {DelayedJobs} from '../typechain-types'
+import {BiddingAgent} from '../src/bidding-agent'
+import {
+    BidContext,
+    BiddingStrategy,
+    fixedFloor,
+    gasAwareMargin,
+    undercut
+} from '../src/bidding-strategy'
+import {DelayedJobsClient} from '../src/client'
+import {AuctionJob, describeAuctionJob} from '../src/job'
+import {simulateAuction} from './framework/auction'
+import {deployContractWithProxy, signer} from './framework/contracts'
+import {advanceBy} from './framework/time'
+
+function ether(amount: string): BigNumber {
+    return utils.parseUnits(amount, 'ether')
+}
+
+describe('Bidding', () => {
+    before(async () => {
+        userA = await signer(0)
+        userB = await signer(1)
+        userC = await signer(2)
+        userD = await signer(3)
+        reward = ether('1')
+        delay = 10000
+        timeout = 3601
+        revealPeriod = 7200
+    })
+
+    describe('strategies', () => {
+        function context(bestBid: BigNumber): BidContext {
+            return {
+                job: describeAuctionJob(
+                    userA.address,
+                    reward,
+                    'identity()',
+                    '0x',
+                    timeout
+                ),
+                bestBid,
+                ourBid: null,
+                gasPrice: BigNumber.from(1000000000),
+                gasUnits: BigNumber.from(200000),
+                gasCost: ether('0.0002')
+            }
+        }
+
+        it('fixed floor bids floor', () => {
+            expect(fixedFloor(ether('0.4')).nextBid(context(reward))).equals(
+                ether('0.4')
+            )
+        })
+
+        it('fixed floor stays out at floor', () => {
+            expect(fixedFloor(ether('0.4')).nextBid(context(ether('0.4')))).is
+                .null
+        })
+
+        it('undercut by step', () => {
+            const strategy = undercut(ether('0.1'), ether('0.5'))
+
+            expect(strategy.nextBid(context(reward))).equals(ether('0.9'))
+        })
+
+        it('undercut stays out below floor', () => {
+            const strategy = undercut(ether('0.1'), ether('0.5'))
+
+            expect(strategy.nextBid(context(ether('0.55')))).is.null
+        })
+
+        it('gas aware covers gas and margin', () => {
+            // Gas cost is 1 gwei * 200000 = 0.0002 ether
+            const strategy = gasAwareMargin(ether('0.0008'), ether('0.0005'))
+
+            expect(strategy.nextBid(context(ether('0.0015')))).equals(
+                ether('0.001')
+            )
+            expect(strategy.nextBid(context(ether('0.001')))).is.null
+        })
+
+        it('gas aware keeps the margin alone for unpriced token', () => {
+            const strategy = gasAwareMargin(ether('0.0008'), ether('0.0005'))
+            const unpriced = {...context(ether('0.0014')), gasCost: null}
+
+            expect(strategy.nextBid(context(ether('0.0014')))).is.null
+            expect(strategy.nextBid(unpriced)).equals(ether('0.0009'))
+            expect(strategy.nextBid({...unpriced, bestBid: ether('0.0012')})).is
+                .null
+        })
+    })
+
+    describe('BiddingAgent', () => {
+        beforeEach(async () => {
+            jobs = await deployContractWithProxy<DelayedJobs>(
+                'DelayedJobs',
+                userA.address,
+                userB.address,
+                delay
+            )
+            job = await new DelayedJobsClient(jobs)
+                .connect(userA)
+                .submitAuction(
+                    jobs.address,
+                    'identity()',
+                    '0x',
+                    timeout,
+                    reward
+                )
+        })
+
+        function agent(bidder: SignerWithAddress, strategy: BiddingStrategy) {
+            return new BiddingAgent(jobs.connect(bidder), strategy, {
+                logger: createLogger({name: 'bidding-agent', streams: []})
+            })
+        }
+
+        it('bids then executes', async () => {
+            const bidder = agent(userB, fixedFloor(ether('0.4')))
+            bidder.track(job)
+
+            await bidder.step()
+
+            expect(bidder.position(job.txHash)?.state).equals('leading')
+            expect(bidder.position(job.txHash)?.ourBid).equals(ether('0.4'))
+
+            await advanceBy(delay)
+            await bidder.step()
+
+            expect(bidder.position(job.txHash)?.state).equals('executed')
+            expect(bidder.openPositions()).length(0)
+            expect(await jobs.submittedTxs(job.txHash)).equals(false)
+        })
+
+        it('re-bids when outbid', async () => {
+            const bidder = agent(userB, undercut(ether('0.1'), ether('0.1')))
+            bidder.track(job)
+            await bidder.step()
+            await new DelayedJobsClient(jobs)
+                .connect(userC)
+                .bid(job, ether('0.8'))
+
+            await bidder.step()
+
+            const position = bidder.position(job.txHash)
+            expect(position?.state).equals('leading')
+            expect(position?.ourBid).equals(ether('0.7'))
+            expect(position?.bids).equals(2)
+            expect(await jobs.submittedBestBidder(job.txHash)).equals(
+                userB.address
+            )
+        })
+
+        it('lost when outbid at maturity', async () => {
+            const bidder = agent(userB, fixedFloor(ether('0.4')))
+            bidder.track(job)
+            await bidder.step()
+            await new DelayedJobsClient(jobs)
+                .connect(userC)
+                .bid(job, ether('0.3'))
+            await advanceBy(delay)
+
+            await bidder.step()
+
+            expect(bidder.position(job.txHash)?.state).equals('lost')
+        })
+
+        it('simulated competition', async () => {
+            const coarse = agent(userB, undercut(ether('0.1'), ether('0.5')))
+            const fine = agent(userC, undercut(ether('0.05'), ether('0.3')))
+            const floor = agent(userD, fixedFloor(ether('0.4')))
+
+            await simulateAuction(jobs, job, [coarse, fine, floor], {
+                rounds: 3,
+                secondsPerRound: 100
+            })
+
+            expect(fine.position(job.txHash)?.state).equals('executed')
+            expect(fine.position(job.txHash)?.ourBid).equals(ether('0.35'))
+            expect(coarse.position(job.txHash)?.state).equals('lost')
+            expect(floor.position(job.txHash)?.state).equals('lost')
+        })
+
+        describe('on sealed auction', () => {
+            beforeEach(async () => {
+                sealed = await new DelayedJobsClient(jobs)
+                    .connect(userA)
+                    .submitSealedAuction(
+                        jobs.address,
+                        'identity()',
+                        '0x',
+                        timeout * 2,
+                        revealPeriod,
+                        reward
+                    )
+            })
+
+            it('commits, reveals then executes', async () => {
+                const bidder = agent(userB, fixedFloor(ether('0.4')))
+                bidder.track(sealed)
+
+                await bidder.step()
+
+                expect(bidder.position(sealed.txHash)?.state).equals(
+                    'committed'
+                )
+                expect(bidder.position(sealed.txHash)?.ourBid).equals(
+                    ether('0.4')
+                )
+
+                await advanceBy(delay)
+                await bidder.step()
+
+                expect(bidder.position(sealed.txHash)?.state).equals('leading')
+                expect(await jobs.submittedBestBid(sealed.txHash)).equals(
+                    ether('0.4')
+                )
+
+                await advanceBy(revealPeriod)
+                await bidder.step()
+
+                expect(bidder.position(sealed.txHash)?.state).equals('executed')
+                expect(await jobs.submittedTxs(sealed.txHash)).equals(false)
+            })
+
+            it('lost when a lower bid is revealed', async () => {
+                const bidder = agent(userB, fixedFloor(ether('0.4')))
+                const rival = agent(userC, fixedFloor(ether('0.3')))
+                bidder.track(sealed)
+                rival.track(sealed)
+                await bidder.step()
+                await rival.step()
+                await advanceBy(delay)
+
+                await bidder.step()
+                await rival.step()
+                await bidder.step()
+
+                expect(bidder.position(sealed.txHash)?.state).equals('outbid')
+                expect(rival.position(sealed.txHash)?.state).equals('leading')
+
+                await advanceBy(revealPeriod)
+                await bidder.step()
+
+                expect(bidder.position(sealed.txHash)?.state).equals('lost')
+            })
+
+            it('lost when reveals open before a commitment', async () => {
+                const bidder = agent(userB, fixedFloor(ether('0.4')))
+                bidder.track(sealed)
+                await advanceBy(delay)
+
+                await bidder.step()
+
+                expect(bidder.position(sealed.txHash)?.state).equals('lost')
+                expect(bidder.position(sealed.txHash)?.bids).equals(0)
+            })
+
+            let sealed: AuctionJob
+        })
+    })
+
+    let userA: SignerWithAddress
+    let userB: SignerWithAddress
+    let userC: SignerWithAddress
+    let userD: SignerWithAddress
+    let jobs: DelayedJobs
+    let job: AuctionJob
+    let reward: BigNumber
+    let revealPeriod: number
+    let delay: number
+    let timeout: number
+})
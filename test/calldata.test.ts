@@ -0,0 +1,171 @@
+// Start - Support direct Mocha run & debug
+import 'hardhat'
+import '@nomiclabs/hardhat-ethers'
+// End - Support direct Mocha run & debug
+import {expect} from 'chai'
+import {before} from 'mocha'
+import {utils} from 'ethers'
+import {SignerWithAddress} from '@nomiclabs/hardhat-ethers/signers'
+import {DelayedJobs} from '../typechain-types'
+import {
+    AbiRegistry,
+    buildCall,
+    contractCall,
+    describeCall,
+    formatCall
+} from '../src/calldata'
+import {DelayedJobsClient} from '../src/client'
+import {deployContractWithProxy, signer} from './framework/contracts'
+import {advanceBy} from './framework/time'
+
+const DELAY = 10000
+
+describe('Calldata', () => {
+    before(async () => {
+        userA = await signer(0)
+        userB = await signer(1)
+    })
+
+    beforeEach(async () => {
+        jobs = await deployContractWithProxy<DelayedJobs>(
+            'DelayedJobs',
+            userA.address,
+            userB.address,
+            DELAY
+        )
+        registry = new AbiRegistry().registerContract('DelayedJobs', jobs)
+    })
+
+    it('builds canonical signature and data', () => {
+        const call = buildCall(
+            userA.address,
+            'transfer(address to, uint amount)',
+            [userB.address, 7]
+        )
+
+        expect(call.signature).equals('transfer(address,uint256)')
+        expect(call.data).equals(
+            utils.defaultAbiCoder.encode(
+                ['address', 'uint256'],
+                [userB.address, 7]
+            )
+        )
+    })
+
+    it('rejects wrong argument count', () => {
+        expect(() =>
+            buildCall(userA.address, 'updateDelay(uint256)', [])
+        ).throws('Calldata: updateDelay(uint256) expects 1 arguments, given 0')
+    })
+
+    it('builds from contract function', () => {
+        const call = contractCall(jobs, 'updateDelay', DELAY * 2)
+
+        expect(call).deep.equals({
+            target: jobs.address,
+            signature: 'updateDelay(uint256)',
+            data: utils.defaultAbiCoder.encode(['uint256'], [DELAY * 2])
+        })
+    })
+
+    it('validates known function', () => {
+        expect(() =>
+            registry.validate(contractCall(jobs, 'updateDelay', DELAY))
+        ).not.throws()
+    })
+
+    it('rejects misspelt signature', () => {
+        const call = buildCall(jobs.address, 'updateDelay(uint128)', [DELAY])
+
+        expect(() => registry.validate(call)).throws(
+            /DelayedJobs at 0x[0-9a-fA-F]{40} has no function updateDelay\(uint128\), it has .*updateDelay\(uint256\)/
+        )
+    })
+
+    it('rejects unknown target', () => {
+        const call = buildCall(userB.address, 'identity()', [])
+
+        expect(() => registry.validate(call)).throws(
+            `Calldata: Unknown target ${userB.address}`
+        )
+    })
+
+    it('decodes named arguments of known target', () => {
+        const decoded = registry.decodeJob(
+            contractCall(jobs, 'updateDelay', DELAY)
+        )
+
+        expect(decoded.contract).equals('DelayedJobs')
+        expect(decoded.args).length(1)
+        expect(decoded.args[0].name).equals('delay_')
+        expect(formatCall(decoded)).equals(
+            `DelayedJobs.updateDelay(delay_=${DELAY})`
+        )
+    })
+
+    it('decodes positional arguments of unknown target', () => {
+        const call = buildCall(userB.address, 'transfer(address,uint256)', [
+            userA.address,
+            7
+        ])
+
+        expect(formatCall(registry.decodeJob(call))).equals(
+            `transfer(arg0=${userA.address}, arg1=7)`
+        )
+    })
+
+    it('decodes raw calldata of known target', () => {
+        const data = jobs.interface.encodeFunctionData('updateDelay', [DELAY])
+
+        expect(formatCall(registry.decode(jobs.address, '', data))).equals(
+            `DelayedJobs.updateDelay(delay_=${DELAY})`
+        )
+    })
+
+    it('describes undecodable call by signature', () => {
+        expect(
+            describeCall(registry, {
+                target: jobs.address,
+                signature: 'updateDelay(uint256)',
+                data: '0x01'
+            })
+        ).equals('updateDelay(uint256)')
+    })
+
+    it('decodes submitted event', async () => {
+        const call = contractCall(jobs, 'updateDelay', DELAY * 2)
+        const job = await new DelayedJobsClient(jobs)
+            .connect(userA)
+            .submit(call.target, call.signature, call.data, 1)
+
+        const [submitted] = await jobs.queryFilter(
+            jobs.filters.JobSubmitted(job.txHash)
+        )
+
+        expect(formatCall(registry.decodeJob(submitted.args))).equals(
+            `DelayedJobs.updateDelay(delay_=${DELAY * 2})`
+        )
+    })
+
+    it('decodes executed event', async () => {
+        const call = contractCall(jobs, 'identity')
+        const job = await new DelayedJobsClient(jobs)
+            .connect(userA)
+            .submit(call.target, call.signature, call.data, 1)
+        await advanceBy(DELAY)
+        await new DelayedJobsClient(jobs).connect(userB).execute(job)
+
+        const [executed] = await jobs.queryFilter(
+            jobs.filters.JobExecuted(job.txHash)
+        )
+
+        expect(formatCall(registry.decodeJob(executed.args))).equals(
+            'DelayedJobs.identity()'
+        )
+    })
+
+    let userA: SignerWithAddress
+    let userB: SignerWithAddress
+    let jobs: DelayedJobs
+    let registry: AbiRegistry
+})
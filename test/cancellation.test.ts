@@ -0,0 +1,332 @@
+// Start - Support direct Mocha run & debug
+import 'hardhat'
+import '@nomiclabs/hardhat-ethers'
+// End - Support direct Mocha run & debug
+import chai, {expect} from 'chai'
+import {before} from 'mocha'
+import {solidity} from 'ethereum-waffle'
+import {constants} from 'ethers'
+import {SignerWithAddress} from '@nomiclabs/hardhat-ethers/signers'
+import {DelayedJobs} from '../typechain-types'
+import {DelayedJobsClient} from '../src/client'
+import {Job, describeJob} from '../src/job'
+import {
+    FIXTURE_DELAY,
+    FIXTURE_REWARD,
+    deployed,
+    signer
+} from './framework/contracts'
+import {expectClaimableDeltas} from './framework/balances'
+import {DelayedJobsError} from './framework/errors'
+import {CANCEL_GRACE_PERIOD, MIN_DELAY} from './framework/model'
+import {expectRevert} from './framework/transaction'
+import {
+    advanceBy,
+    advanceToExpiry,
+    advanceToMaturity,
+    mine
+} from './framework/time'
+
+// Wires up Waffle with Chai
+chai.use(solidity)
+
+const EXPIRY = 2 * MIN_DELAY
+
+describe('DelayedJobs cancellation and expiry', () => {
+    before(async () => {
+        userA = await signer(0)
+        userB = await signer(1)
+        userC = await signer(2)
+    })
+
+    beforeEach(async () => {
+        jobs = (await deployed()).jobs
+        client = new DelayedJobsClient(jobs).connect(userA)
+    })
+
+    describe('cancelJob()', () => {
+        beforeEach(async () => {
+            job = await client.submit(
+                jobs.address,
+                'identity()',
+                '0x',
+                FIXTURE_REWARD
+            )
+        })
+
+        it('refunds the submitter before maturity', async () => {
+            await expectClaimableDeltas(jobs, [[userA, FIXTURE_REWARD]], () =>
+                cancelJob(userA)
+            )
+
+            expect(await jobs.submittedTxs(job.txHash)).is.false
+            expect(await jobs.submittedBy(job.txHash)).equals(
+                constants.AddressZero
+            )
+        })
+
+        it('emits JobCancelled', async () => {
+            await expect(cancelJob(userA))
+                .to.emit(jobs, 'JobCancelled')
+                .withArgs(job.txHash)
+        })
+
+        it('only by the submitter', async () => {
+            await expectRevert(
+                cancelJob(userB),
+                DelayedJobsError.CallerNotSubmitter,
+                userB.address,
+                userA.address
+            )
+        })
+
+        it('rotated submitter is refunded', async () => {
+            await client.rotateRole('submitter', userA.address, userC.address)
+
+            await expectClaimableDeltas(
+                jobs,
+                [
+                    [userA, 0],
+                    [userC, FIXTURE_REWARD]
+                ],
+                () => cancelJob(userC)
+            )
+        })
+
+        it('locked through the grace period after maturity', async () => {
+            const maturesAt = await advanceToMaturity(jobs, job)
+            const unlocksAt = maturesAt + CANCEL_GRACE_PERIOD
+
+            await expectRevert(
+                cancelJob(userA),
+                DelayedJobsError.CancellationLocked,
+                job.txHash,
+                unlocksAt
+            )
+            await advanceToMaturity(jobs, job, CANCEL_GRACE_PERIOD - 1)
+            await expectRevert(
+                cancelJob(userA),
+                DelayedJobsError.CancellationLocked,
+                job.txHash,
+                unlocksAt
+            )
+        })
+
+        it('refunds the submitter after the grace period', async () => {
+            await advanceToMaturity(jobs, job, CANCEL_GRACE_PERIOD)
+            await mine()
+
+            await expectClaimableDeltas(jobs, [[userA, FIXTURE_REWARD]], () =>
+                cancelJob(userA)
+            )
+        })
+
+        it('cancelled job cannot execute', async () => {
+            await cancelJob(userA)
+            await advanceBy(FIXTURE_DELAY)
+
+            await expectRevert(
+                executeJob(userB),
+                DelayedJobsError.JobNotSubmitted,
+                job.txHash
+            )
+        })
+
+        it('executed job cannot be cancelled', async () => {
+            await advanceBy(FIXTURE_DELAY)
+            await executeJob(userB)
+
+            await expectRevert(
+                cancelJob(userA),
+                DelayedJobsError.JobNotSubmitted,
+                job.txHash
+            )
+        })
+    })
+
+    describe('submitJobWithExpiry()', () => {
+        it('emits JobSubmitted and JobExpiring', async () => {
+            const expiring = describeJob(
+                jobs.address,
+                FIXTURE_REWARD,
+                'identity()',
+                '0x'
+            )
+            const submission = jobs
+                .connect(userA)
+                .submitJobWithExpiry(
+                    expiring.target,
+                    expiring.signature,
+                    expiring.data,
+                    EXPIRY,
+                    {value: expiring.value}
+                )
+
+            await expect(submission)
+                .to.emit(jobs, 'JobSubmitted')
+                .withArgs(
+                    expiring.txHash,
+                    expiring.target,
+                    expiring.value,
+                    expiring.signature,
+                    expiring.data
+                )
+            await expect(submission)
+                .to.emit(jobs, 'JobExpiring')
+                .withArgs(expiring.txHash, EXPIRY)
+            expect(await jobs.submittedExpiry(expiring.txHash)).equals(EXPIRY)
+        })
+
+        it('rejects an expiry below the minimum delay', async () => {
+            await expectRevert(
+                jobs
+                    .connect(userA)
+                    .submitJobWithExpiry(
+                        jobs.address,
+                        'identity()',
+                        '0x',
+                        MIN_DELAY - 1,
+                        {value: FIXTURE_REWARD}
+                    ),
+                DelayedJobsError.ExpiryTooShort,
+                MIN_DELAY - 1,
+                MIN_DELAY
+            )
+        })
+    })
+
+    describe('with expiring job', () => {
+        beforeEach(async () => {
+            job = await client.submit(
+                jobs.address,
+                'identity()',
+                '0x',
+                FIXTURE_REWARD,
+                EXPIRY
+            )
+        })
+
+        it('executes until expiry', async () => {
+            await advanceToExpiry(jobs, job, -1)
+
+            await expectClaimableDeltas(jobs, [[userB, FIXTURE_REWARD]], () =>
+                executeJob(userB)
+            )
+            expect(await jobs.submittedExpiry(job.txHash)).equals(0)
+        })
+
+        it('cannot execute once expired', async () => {
+            const expiresAt = await advanceToExpiry(jobs, job)
+
+            await expectRevert(
+                executeJob(userB),
+                DelayedJobsError.JobExpired,
+                job.txHash,
+                expiresAt
+            )
+        })
+
+        it('reclaims once expired', async () => {
+            await advanceToExpiry(jobs, job)
+
+            await expectClaimableDeltas(jobs, [[userA, FIXTURE_REWARD]], () =>
+                reclaimJob(userA)
+            )
+            expect(await jobs.submittedTxs(job.txHash)).is.false
+            expect(await jobs.submittedExpiry(job.txHash)).equals(0)
+        })
+
+        it('emits JobReclaimed', async () => {
+            await advanceToExpiry(jobs, job)
+
+            await expect(reclaimJob(userA))
+                .to.emit(jobs, 'JobReclaimed')
+                .withArgs(job.txHash)
+        })
+
+        it('reclaims not before expiry', async () => {
+            const expiresAt = await advanceToExpiry(jobs, job, -1)
+
+            await expectRevert(
+                reclaimJob(userA),
+                DelayedJobsError.JobNotExpired,
+                job.txHash,
+                expiresAt + 1
+            )
+        })
+
+        it('reclaims only by the submitter', async () => {
+            await advanceToExpiry(jobs, job)
+
+            await expectRevert(
+                reclaimJob(userB),
+                DelayedJobsError.CallerNotSubmitter,
+                userB.address,
+                userA.address
+            )
+        })
+
+        it('cancels after expiry too', async () => {
+            await advanceToExpiry(jobs, job)
+
+            await expectClaimableDeltas(jobs, [[userA, FIXTURE_REWARD]], () =>
+                cancelJob(userA)
+            )
+        })
+
+        it('expires later when the delay is raised', async () => {
+            const expiresAt = await advanceToExpiry(jobs, job, -1)
+            await jobs.connect(userA).updateDelay(FIXTURE_DELAY * 2)
+
+            await expectRevert(
+                reclaimJob(userA),
+                DelayedJobsError.JobNotExpired,
+                job.txHash,
+                expiresAt + 1 + FIXTURE_DELAY
+            )
+        })
+    })
+
+    describe('without expiry', () => {
+        it('cannot be reclaimed', async () => {
+            job = await client.submit(
+                jobs.address,
+                'identity()',
+                '0x',
+                FIXTURE_REWARD
+            )
+            await advanceBy(FIXTURE_DELAY + EXPIRY)
+
+            await expectRevert(
+                reclaimJob(userA),
+                DelayedJobsError.JobWithoutExpiry,
+                job.txHash
+            )
+        })
+    })
+
+    function executeJob(from: SignerWithAddress) {
+        return jobs
+            .connect(from)
+            .executeJob(job.target, job.value, job.signature, job.data)
+    }
+
+    function cancelJob(from: SignerWithAddress) {
+        return jobs
+            .connect(from)
+            .cancelJob(job.target, job.value, job.signature, job.data)
+    }
+
+    function reclaimJob(from: SignerWithAddress) {
+        return jobs
+            .connect(from)
+            .reclaimJob(job.target, job.value, job.signature, job.data)
+    }
+
+    let userA: SignerWithAddress
+    let userB: SignerWithAddress
+    let userC: SignerWithAddress
+    let jobs: DelayedJobs
+    let client: DelayedJobsClient
+    let job: Job
+})
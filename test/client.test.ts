@@ -0,0 +1,190 @@
+// Start - Support direct Mocha run & debug
+import 'hardhat'
+import '@nomiclabs/hardhat-ethers'
+// End - Support direct Mocha run & debug
+import chai, {expect} from 'chai'
+import {before} from 'mocha'
+import {solidity} from 'ethereum-waffle'
+import {BigNumber, utils} from 'ethers'
+import {SignerWithAddress} from '@nomiclabs/hardhat-ethers/signers'
+import {DelayedJobs} from '../typechain-types'
+import {DelayedJobsClient} from '../src/client'
+import {describeAuctionJob, describeJob} from '../src/job'
+import {deployContractWithProxy, signer} from './framework/contracts'
+import {advanceBy} from './framework/time'
+
+// Wires up Waffle with Chai
+chai.use(solidity)
+
+describe('DelayedJobsClient', () => {
+    before(async () => {
+        userA = await signer(0)
+        userB = await signer(1)
+        userC = await signer(2)
+        reward = utils.parseUnits('1', 'ether')
+        signature = 'identity()'
+        data = '0x'
+        delay = 10000
+        timeout = 3601
+        expiry = 7200
+    })
+
+    beforeEach(async () => {
+        jobs = await deployContractWithProxy<DelayedJobs>(
+            'DelayedJobs',
+            userA.address,
+            userB.address,
+            delay
+        )
+        client = new DelayedJobsClient(jobs)
+    })
+
+    describe('describeJob()', () => {
+        it('txHash matches contract', async () => {
+            const job = describeJob(jobs.address, reward, signature, data)
+
+            await client
+                .connect(userA)
+                .submit(jobs.address, signature, data, reward)
+
+            expect(await jobs.submittedTxs(job.txHash)).equals(true)
+        })
+
+        it('auction txHash matches contract', async () => {
+            const job = describeAuctionJob(
+                jobs.address,
+                reward,
+                signature,
+                data,
+                timeout
+            )
+
+            await client
+                .connect(userA)
+                .submitAuction(jobs.address, signature, data, timeout, reward)
+
+            expect(await jobs.submittedTxs(job.txHash)).equals(true)
+        })
+    })
+
+    describe('submit()', () => {
+        it('delayed job', async () => {
+            const job = await client
+                .connect(userA)
+                .submit(jobs.address, signature, data, reward)
+
+            const status = await client.status(job)
+
+            expect(status.phase).equals('delayed')
+            expect(status.maturesAt).equals(status.submittedAt.add(delay))
+        })
+    })
+
+    describe('execute()', () => {
+        it('executable after delay', async () => {
+            const job = await client
+                .connect(userA)
+                .submit(jobs.address, signature, data, reward)
+            await advanceBy(delay)
+
+            expect((await client.status(job)).phase).equals('executable')
+
+            await client.connect(userB).execute(job)
+
+            expect((await client.status(job)).phase).equals('unsubmitted')
+        })
+
+        it('auction job by best bidder', async () => {
+            const job = await client
+                .connect(userA)
+                .submitAuction(jobs.address, signature, data, timeout, reward)
+            await client.connect(userB).bid(job, reward.div(2))
+            await advanceBy(delay)
+
+            await client.connect(userB).execute(job)
+
+            expect((await client.status(job)).phase).equals('unsubmitted')
+        })
+    })
+
+    describe('bid()', () => {
+        it('outbid updates best bid', async () => {
+            const job = await client
+                .connect(userA)
+                .submitAuction(jobs.address, signature, data, timeout, reward)
+            const firstBid = reward.div(2)
+            const secondBid = reward.div(4)
+
+            await client.connect(userB).bid(job, firstBid)
+            await client.connect(userC).bid(job, secondBid)
+
+            const status = await client.status(job)
+            expect(status.phase).equals('bidding')
+            expect(status.bestBid).equals(secondBid)
+            expect(status.bestBidder).equals(userC.address)
+        })
+    })
+
+    describe('cancel()', () => {
+        it('expired auction', async () => {
+            const job = await client
+                .connect(userA)
+                .submitAuction(jobs.address, signature, data, timeout, reward)
+            await advanceBy(delay + timeout)
+
+            const status = await client.status(job)
+            expect(status.phase).equals('expired')
+            expect(status.expiresAt).equals(
+                status.submittedAt.add(delay).add(timeout)
+            )
+
+            await client.connect(userA).cancel(job)
+
+            expect((await client.status(job)).phase).equals('unsubmitted')
+        })
+
+        it('plain job before maturity', async () => {
+            const job = await client
+                .connect(userA)
+                .submit(jobs.address, signature, data, reward)
+
+            await client.connect(userA).cancel(job)
+
+            expect((await client.status(job)).phase).equals('unsubmitted')
+        })
+    })
+
+    describe('reclaim()', () => {
+        it('expired job', async () => {
+            const job = await client
+                .connect(userA)
+                .submit(jobs.address, signature, data, reward, expiry)
+
+            const status = await client.status(job)
+            expect(status.phase).equals('delayed')
+            expect(status.expiresAt).equals(status.maturesAt.add(expiry))
+
+            await advanceBy(delay)
+            expect((await client.status(job)).phase).equals('executable')
+
+            await advanceBy(expiry)
+            expect((await client.status(job)).phase).equals('expired')
+
+            await client.connect(userA).reclaim(job)
+
+            expect((await client.status(job)).phase).equals('unsubmitted')
+        })
+    })
+
+    let userA: SignerWithAddress
+    let userB: SignerWithAddress
+    let userC: SignerWithAddress
+    let jobs: DelayedJobs
+    let client: DelayedJobsClient
+    let reward: BigNumber
+    let signature: string
+    let data: string
+    let delay: number
+    let timeout: number
+    let expiry: number
+})
@@ -5,35 +5,37 @@ import '@nomiclabs/hardhat-ethers'
 import chai, {expect} from 'chai'
 import {before} from 'mocha'
 import {solidity} from 'ethereum-waffle'
-import {DelayedJobs} from '../typechain-types'
-import {deployContract, signer} from './framework/contracts'
+import {DelayedJobs, Reverter} from '../typechain-types'
+import {
+    FIXTURE_BID,
+    FIXTURE_DELAY,
+    FIXTURE_REWARD,
+    DeployedFixture,
+    Fixture,
+    auctionSubmitted,
+    bidPlaced,
+    deployContract,
+    deployed,
+    matured,
+    signer
+} from './framework/contracts'
 import {SignerWithAddress} from '@nomiclabs/hardhat-ethers/signers'
-import {successfulTransaction} from './framework/transaction'
-import { Wallet, BigNumber, constants, utils, ethers, providers } from 'ethers'
+import {expectRevert, successfulTransaction} from './framework/transaction'
+import {expectBalanceDeltas, expectClaimableDeltas} from './framework/balances'
+import {DelayedJobsError} from './framework/errors'
+import {describeAuctionJob, describeJob} from '../src/job'
+import {
+    advanceBy,
+    advanceToAuctionExpiry,
+    advanceToMaturity
+} from './framework/time'
+import {BigNumber, constants, utils, ethers} from 'ethers'
 
 // Wires up Waffle with Chai
 chai.use(solidity)
 
 const oneWeekInSeconds = 7 * 24 * 60 * 60 // etherUnsigned(7 * 24 * 60 * 60);
 
-async function mineBlock(wallet: SignerWithAddress) {
-    return wallet.sendTransaction({to: constants.AddressZero, value: 1})
-}
-
-async function mineBlocks(wallet: SignerWithAddress, n: number) {
-    for (let i = 0; i < n; i++) {
-        await mineBlock(wallet)
-    }
-}
-
-async function increaseTime(wallet: SignerWithAddress, seconds?: number) {
-    await (wallet.provider as providers.JsonRpcProvider).send(
-        'evm_increaseTime',
-        [seconds || 1]
-    )
-    await mineBlock(wallet)
-}
-
 // Start with the contract name as the top level descriptor
 describe('DelayedJobs', () => {
     /*
@@ -43,263 +45,754 @@ describe('DelayedJobs', () => {
     before(async () => {
         userA = await signer(0)
         userB = await signer(1)
-        reward = utils.parseUnits('1', 'ether') // 1 eth
+        reward = FIXTURE_REWARD // 1 eth
         signature = 'identity()'
-        delay = ethers.BigNumber.from(10000)
+        delay = ethers.BigNumber.from(FIXTURE_DELAY)
         newDelay = ethers.BigNumber.from(20000)
         data = new Uint8Array([]) // ethers.utils.BytesLike.from('')
     })
 
-    // Before each test, deploy a fresh box (clean starting state)
-    beforeEach(async () => {
-        jobs = await deployContract<DelayedJobs>('DelayedJobs', userA.address, userB.address, delay)
+    /*
+     * Reverts to the fixture snapshot (deploying only on the first load), where later
+     * fixtures of the same chain are only kept while no earlier one is loaded in between
+     */
+    async function load(fixture: Fixture<DeployedFixture>) {
+        jobs = (await fixture()).jobs
         target = jobs.address
-    })
+    }
 
     describe('constructor', () => {
-        it('userA', async () => {
-            expect(await jobs.userA()).equals(userA.address)
+        beforeEach(async () => {
+            await load(deployed)
         })
 
-        it('userB', async () => {
-            expect(await jobs.userB()).equals(userB.address)
+        it('userA admin and submitter', async () => {
+            expect(
+                await jobs.hasRole(
+                    await jobs.DEFAULT_ADMIN_ROLE(),
+                    userA.address
+                )
+            ).is.true
+            expect(
+                await jobs.hasRole(await jobs.SUBMITTER_ROLE(), userA.address)
+            ).is.true
+            expect(
+                await jobs.hasRole(await jobs.EXECUTOR_ROLE(), userA.address)
+            ).is.false
+        })
+
+        it('userB executor', async () => {
+            expect(
+                await jobs.getRoleMember(await jobs.EXECUTOR_ROLE(), 0)
+            ).equals(userB.address)
+            expect(
+                await jobs.getRoleMemberCount(await jobs.EXECUTOR_ROLE())
+            ).equals(BigNumber.from(1))
+            expect(
+                await jobs.hasRole(await jobs.SUBMITTER_ROLE(), userB.address)
+            ).is.false
         })
     })
 
     describe('updateDelay()', () => {
+        beforeEach(async () => {
+            await load(deployed)
+        })
+
         it('delay updated', async () => {
-            const receipt = await successfulTransaction(jobs.updateDelay(newDelay))
+            await successfulTransaction(jobs.updateDelay(newDelay))
 
             expect(await jobs.delay()).equals(BigNumber.from(20000))
         })
 
         // Modifier checks contain the flattened and spaced modifier name
-        it('only userA', async () => {
-            await expect(jobs.connect(userB).updateDelay(newDelay)).to.be.revertedWith(
-                'DelayedJobs::updateDelay: Call must come from userA.'
+        it('only admin', async () => {
+            await expectRevert(
+                jobs.connect(userB).updateDelay(newDelay),
+                DelayedJobsError.MissingRole
+            )
+        })
+
+        it('below minimum', async () => {
+            await expectRevert(
+                jobs.updateDelay(60),
+                DelayedJobsError.DelayBelowMinimum,
+                60,
+                3600
+            )
+        })
+
+        it('above maximum', async () => {
+            await expectRevert(
+                jobs.updateDelay(oneWeekInSeconds),
+                DelayedJobsError.DelayAboveMaximum,
+                oneWeekInSeconds,
+                48 * 3600
             )
         })
     })
 
     describe('submitJob()', () => {
+        beforeEach(async () => {
+            await load(deployed)
+        })
+
         it('not userB', async () => {
-            await expect(jobs.connect(userB).submitJob(target, signature, data, {value:reward})).to.be.revertedWith(
-                 'DelayedJobs::submitJob: Call must come from userA.'
+            await expectRevert(
+                jobs
+                    .connect(userB)
+                    .submitJob(target, signature, data, {value: reward}),
+                DelayedJobsError.MissingRole
+            )
+        })
+
+        it('without reward', async () => {
+            await expectRevert(
+                jobs.connect(userA).submitJob(target, signature, data),
+                DelayedJobsError.MissingReward
             )
         })
 
         it('userA ok', async () => {
-            const receipt = await successfulTransaction(jobs.connect(userA).submitJob(target, signature, data, {value:reward}))
+            const receipt = await successfulTransaction(
+                jobs
+                    .connect(userA)
+                    .submitJob(target, signature, data, {value: reward})
+            )
             expect(receipt.logs.length).equals(1)
         })
+
+        it('not while already pending', async () => {
+            const job = describeJob(target, reward, signature, data)
+            await successfulTransaction(
+                jobs
+                    .connect(userA)
+                    .submitJob(target, signature, data, {value: reward})
+            )
+            await expectRevert(
+                jobs
+                    .connect(userA)
+                    .submitJob(target, signature, data, {value: reward}),
+                DelayedJobsError.JobAlreadySubmitted,
+                job.txHash
+            )
+        })
     })
 
     describe('executeJob()', () => {
+        beforeEach(async () => {
+            await load(deployed)
+        })
+
         it('not userA', async () => {
-            await expect(jobs.connect(userA).executeJob(target, reward, signature, data)).to.be.revertedWith(
-                 'DelayedJobs::executeJob: Call must come from userB.'
+            await expectRevert(
+                jobs.connect(userA).executeJob(target, reward, signature, data),
+                DelayedJobsError.MissingRole
+            )
+        })
+
+        it('unsubmitted tx', async () => {
+            const job = describeJob(target, reward, signature, data)
+            await expectRevert(
+                jobs.connect(userB).executeJob(target, reward, signature, data),
+                DelayedJobsError.JobNotSubmitted,
+                job.txHash
             )
         })
 
         it('userB gets reward', async () => {
-            const receipt = await successfulTransaction(jobs.connect(userA).submitJob(target, signature, data, {value:reward}))
+            const receipt = await successfulTransaction(
+                jobs
+                    .connect(userA)
+                    .submitJob(target, signature, data, {value: reward})
+            )
             expect(receipt.logs.length).equals(1)
-            await increaseTime(userB, delay.toNumber())
-            const initBalance = await userB.getBalance()
-            const receipt2 = await successfulTransaction(jobs.connect(userB).executeJob(target, reward, signature, data))
-            expect(receipt2.logs.length).equals(1)
-            // userB gets rewards 1 ether, minus gas consumed.
-            expect((await userB.getBalance()).gte( initBalance.add(reward).sub(BigNumber.from('47780257489784')) )).equals(true)
+            await advanceBy(delay.toNumber())
+            // userB is credited the reward of 1 ether
+            const [receipt2] = await expectClaimableDeltas(
+                jobs,
+                [
+                    [userB, reward],
+                    [userA, 0]
+                ],
+                () =>
+                    jobs
+                        .connect(userB)
+                        .executeJob(target, reward, signature, data)
+            )
+            expect(receipt2.logs.length).equals(2)
+        })
+
+        it('exactly at maturity', async () => {
+            const job = describeJob(target, reward, signature, data)
+            await successfulTransaction(
+                jobs
+                    .connect(userA)
+                    .submitJob(target, signature, data, {value: reward})
+            )
+            await advanceToMaturity(jobs, job)
+            await expect(
+                jobs.connect(userB).executeJob(target, reward, signature, data)
+            ).to.be.not.reverted
+        })
+
+        it('one second before maturity', async () => {
+            const job = describeJob(target, reward, signature, data)
+            await successfulTransaction(
+                jobs
+                    .connect(userA)
+                    .submitJob(target, signature, data, {value: reward})
+            )
+            const maturesAt = await advanceToMaturity(jobs, job, -1)
+            await expectRevert(
+                jobs.connect(userB).executeJob(target, reward, signature, data),
+                DelayedJobsError.DelayNotElapsed,
+                job.txHash,
+                maturesAt + 1
+            )
+        })
+
+        it('bubbles up target revert reason', async () => {
+            const reverter = await deployContract<Reverter>('Reverter')
+            const failData = utils.defaultAbiCoder.encode(
+                ['string'],
+                ['Target says no']
+            )
+            await successfulTransaction(
+                jobs
+                    .connect(userA)
+                    .submitJob(
+                        reverter.address,
+                        'failWithReason(string)',
+                        failData,
+                        {value: reward}
+                    )
+            )
+            await advanceBy(delay.toNumber())
+            await expect(
+                jobs
+                    .connect(userB)
+                    .executeJob(
+                        reverter.address,
+                        reward,
+                        'failWithReason(string)',
+                        failData
+                    )
+            ).to.be.revertedWith('Target says no')
+        })
+
+        it('generic revert when target gives no reason', async () => {
+            const reverter = await deployContract<Reverter>('Reverter')
+            await successfulTransaction(
+                jobs
+                    .connect(userA)
+                    .submitJob(reverter.address, 'failSilently()', data, {
+                        value: reward
+                    })
+            )
+            await advanceBy(delay.toNumber())
+            await expectRevert(
+                jobs
+                    .connect(userB)
+                    .executeJob(
+                        reverter.address,
+                        reward,
+                        'failSilently()',
+                        data
+                    ),
+                DelayedJobsError.ExecutionReverted
+            )
         })
     })
 
     describe('submitJobAuction()', () => {
+        beforeEach(async () => {
+            await load(deployed)
+        })
+
         it('not userB', async () => {
             const timeout = BigNumber.from(3601)
-            await expect(jobs.connect(userB).submitJobAuction(target, signature, data, timeout, {value:reward})).to.be.revertedWith(
-                 'DelayedJobs::submitJobAuction: Call must come from userA.'
+            await expectRevert(
+                jobs
+                    .connect(userB)
+                    .submitJobAuction(target, signature, data, timeout, {
+                        value: reward
+                    }),
+                DelayedJobsError.MissingRole
+            )
+        })
+
+        it('not while already pending', async () => {
+            const timeout = BigNumber.from(3601)
+            const job = describeAuctionJob(
+                target,
+                reward,
+                signature,
+                data,
+                timeout
+            )
+            await successfulTransaction(
+                jobs
+                    .connect(userA)
+                    .submitJobAuction(target, signature, data, timeout, {
+                        value: reward
+                    })
+            )
+            await expectRevert(
+                jobs
+                    .connect(userA)
+                    .submitJobAuction(target, signature, data, timeout, {
+                        value: reward
+                    }),
+                DelayedJobsError.JobAlreadySubmitted,
+                job.txHash
             )
         })
 
         it('timeout too small', async () => {
             const timeout = BigNumber.from(3600)
-            await expect(jobs.connect(userA).submitJobAuction(target, signature, data, timeout, {value:reward})).to.be.revertedWith(
-                 'DelayedJobs::submitJobAuction: Timeout must be great than 1 hour'
+            await expectRevert(
+                jobs
+                    .connect(userA)
+                    .submitJobAuction(target, signature, data, timeout, {
+                        value: reward
+                    }),
+                DelayedJobsError.TimeoutTooShort
             )
         })
 
         it('userA ok', async () => {
             const timeout = BigNumber.from(3601)
-            const receipt = await successfulTransaction(jobs.connect(userA).submitJobAuction(target, signature, data, timeout, {value:reward}))
-            expect(receipt.logs.length).equals(1)
+            const receipt = await successfulTransaction(
+                jobs
+                    .connect(userA)
+                    .submitJobAuction(target, signature, data, timeout, {
+                        value: reward
+                    })
+            )
+            expect(receipt.logs.length).equals(2)
+        })
+
+        it('emits JobAuctionStarted', async () => {
+            const timeout = BigNumber.from(3601)
+            const job = describeAuctionJob(
+                target,
+                reward,
+                signature,
+                data,
+                timeout
+            )
+            await expect(
+                jobs
+                    .connect(userA)
+                    .submitJobAuction(target, signature, data, timeout, {
+                        value: reward
+                    })
+            )
+                .to.emit(jobs, 'JobAuctionStarted')
+                .withArgs(job.txHash, timeout)
         })
     })
 
     describe('placeJobBid()', () => {
         it('not userA', async () => {
             const timeout = BigNumber.from(3601)
-            const receipt = await successfulTransaction(jobs.connect(userA).submitJobAuction(target, signature, data, timeout, {value:reward}))
-            expect(receipt.logs.length).equals(1)
+            await load(auctionSubmitted)
             const bid = reward.sub(utils.parseUnits('10', 'gwei'))
             const diff = reward.sub(bid)
-            await expect(jobs.connect(userA).placeJobBid(target, reward, bid, signature, data, timeout, {value:diff})).to.be.revertedWith(
-                 'DelayedJobs::placeJobBid: Call must not come from userA.'
+            await expectRevert(
+                jobs
+                    .connect(userA)
+                    .placeJobBid(
+                        target,
+                        reward,
+                        bid,
+                        signature,
+                        data,
+                        timeout,
+                        {value: diff}
+                    ),
+                DelayedJobsError.CallerIsSubmitter
             )
         })
 
         it('bid too large', async () => {
             const timeout = BigNumber.from(3601)
-            const receipt = await successfulTransaction(jobs.connect(userA).submitJobAuction(target, signature, data, timeout, {value:reward}))
-            expect(receipt.logs.length).equals(1)
+            await load(auctionSubmitted)
             const bid = reward
             const diff = reward.sub(bid)
-            await expect(jobs.connect(userB).placeJobBid(target, reward, bid, signature, data, timeout, {value:diff})).to.be.revertedWith(
-                 'DelayedJobs::placeJobBid: Bid must be positive and smaller than best bid'
+            await expectRevert(
+                jobs
+                    .connect(userB)
+                    .placeJobBid(
+                        target,
+                        reward,
+                        bid,
+                        signature,
+                        data,
+                        timeout,
+                        {value: diff}
+                    ),
+                DelayedJobsError.BidNotLower
             )
         })
         it('too late after delay', async () => {
             const timeout = BigNumber.from(3601)
-            const receipt = await successfulTransaction(jobs.connect(userA).submitJobAuction(target, signature, data, timeout, {value:reward}))
-            expect(receipt.logs.length).equals(1)
-            await increaseTime(userB, delay.toNumber())
+            await load(auctionSubmitted)
+            await advanceBy(delay.toNumber())
             const bid = reward
             const diff = reward.sub(bid)
-            await expect(jobs.connect(userB).placeJobBid(target, reward, bid, signature, data, timeout, {value:diff})).to.be.revertedWith(
-                 'DelayedJobs::placeJobBid: Transaction cannot surpass delay time.'
+            await expectRevert(
+                jobs
+                    .connect(userB)
+                    .placeJobBid(
+                        target,
+                        reward,
+                        bid,
+                        signature,
+                        data,
+                        timeout,
+                        {value: diff}
+                    ),
+                DelayedJobsError.BiddingClosed
             )
         })
         it('unsubmitted tx', async () => {
             const timeout = BigNumber.from(3601)
+            await load(deployed)
             const bid = reward.sub(utils.parseUnits('10', 'gwei'))
             const diff = reward.sub(bid)
-            await expect(jobs.connect(userB).placeJobBid(target, reward, bid, signature, data, timeout, {value:diff})).to.be.revertedWith(
-                 'DelayedJobs::placeJobBid: Transaction has not been submitted.'
+            await expectRevert(
+                jobs
+                    .connect(userB)
+                    .placeJobBid(
+                        target,
+                        reward,
+                        bid,
+                        signature,
+                        data,
+                        timeout,
+                        {value: diff}
+                    ),
+                DelayedJobsError.JobNotSubmitted
+            )
+        })
+        it('wrong collateral', async () => {
+            const timeout = BigNumber.from(3601)
+            await load(auctionSubmitted)
+            const bid = reward.sub(utils.parseUnits('10', 'gwei'))
+            const diff = reward.sub(bid)
+            await expectRevert(
+                jobs
+                    .connect(userB)
+                    .placeJobBid(
+                        target,
+                        reward,
+                        bid,
+                        signature,
+                        data,
+                        timeout,
+                        {value: diff.sub(1)}
+                    ),
+                DelayedJobsError.WrongCollateral,
+                diff.sub(1),
+                diff
             )
         })
         it('good bid', async () => {
             const timeout = BigNumber.from(3601)
-            const receipt = await successfulTransaction(jobs.connect(userA).submitJobAuction(target, signature, data, timeout, {value:reward}))
-            expect(receipt.logs.length).equals(1)
-            //await increaseTime(userB, delay.toNumber() - 1)
+            await load(auctionSubmitted)
+            const bid = reward.sub(utils.parseUnits('10', 'gwei'))
+            const diff = reward.sub(bid)
+            await expectBalanceDeltas(
+                [
+                    [userB, diff.mul(-1)],
+                    [jobs, diff]
+                ],
+                () =>
+                    jobs
+                        .connect(userB)
+                        .placeJobBid(
+                            target,
+                            reward,
+                            bid,
+                            signature,
+                            data,
+                            timeout,
+                            {value: diff}
+                        )
+            )
+        })
+
+        it('lower bid refunds previous bidder', async () => {
+            const timeout = BigNumber.from(3601)
+            await load(bidPlaced)
+            const userC = await signer(2)
+            const bid = FIXTURE_BID.sub(utils.parseUnits('10', 'gwei'))
+            await expectBalanceDeltas(
+                [
+                    [userB, 0],
+                    [userC, reward.sub(bid).mul(-1)],
+                    [jobs, reward.sub(bid)]
+                ],
+                () =>
+                    jobs
+                        .connect(userC)
+                        .placeJobBid(
+                            target,
+                            reward,
+                            bid,
+                            signature,
+                            data,
+                            timeout,
+                            {value: reward.sub(bid)}
+                        )
+            )
+            expect(await jobs.claimable(userB.address)).equals(
+                reward.sub(FIXTURE_BID)
+            )
+            expect(
+                await jobs.submittedBestBidder(
+                    describeAuctionJob(target, reward, signature, data, timeout)
+                        .txHash
+                )
+            ).equals(userC.address)
+        })
+
+        it('emits JobBidPlaced', async () => {
+            const timeout = BigNumber.from(3601)
+            const job = describeAuctionJob(
+                target,
+                reward,
+                signature,
+                data,
+                timeout
+            )
+            await load(auctionSubmitted)
             const bid = reward.sub(utils.parseUnits('10', 'gwei'))
             const diff = reward.sub(bid)
-            await expect(jobs.connect(userB).placeJobBid(target, reward, bid, signature, data, timeout, {value:diff})).to.be.not.revertedWith(
-                'DelayedJobs::placeJobBid: Transaction has not been submitted.'
-            ) 
-            // const receipt2 = await successfulTransaction(jobs.connect(userB).placeJobBid(target, reward, bid, signature, data, timeout, {value:diff}))
-            // expect(receipt2.logs.length).equals(1)
+            await expect(
+                jobs
+                    .connect(userB)
+                    .placeJobBid(
+                        target,
+                        reward,
+                        bid,
+                        signature,
+                        data,
+                        timeout,
+                        {value: diff}
+                    )
+            )
+                .to.emit(jobs, 'JobBidPlaced')
+                .withArgs(job.txHash, userB.address, bid)
         })
     })
 
     describe('executeJobBid()', () => {
         it('not userA', async () => {
             const timeout = BigNumber.from(3601)
-            const receipt = await successfulTransaction(jobs.connect(userA).submitJobAuction(target, signature, data, timeout, {value:reward}))
-            expect(receipt.logs.length).equals(1)
-            //await increaseTime(userB, delay.toNumber() - 1)
-            const bid = reward.sub(utils.parseUnits('10', 'gwei'))
-            const diff = reward.sub(bid)
-            await expect(jobs.connect(userB).placeJobBid(target, reward, bid, signature, data, timeout, {value:diff})).to.be.not.revertedWith(
-                'DelayedJobs::placeJobBid: Transaction has not been submitted.'
-            ) 
-            await increaseTime(userB, delay.toNumber() + 1)
-            await expect(jobs.connect(userA).executeJobBid(target, reward, signature, data, timeout)).to.be.revertedWith(
-                'DelayedJobs::executeJobBid: Call must not come from userA.'
-           )
+            await load(matured)
+            await expectRevert(
+                jobs
+                    .connect(userA)
+                    .executeJobBid(target, reward, signature, data, timeout),
+                DelayedJobsError.CallerIsSubmitter
+            )
+        })
+        it('not best bidder', async () => {
+            const timeout = BigNumber.from(3601)
+            await load(auctionSubmitted)
+            await advanceBy(delay.toNumber() + 1)
+            await expectRevert(
+                jobs
+                    .connect(userB)
+                    .executeJobBid(target, reward, signature, data, timeout),
+                DelayedJobsError.NotBestBidder,
+                userB.address,
+                constants.AddressZero
+            )
         })
         it('too late', async () => {
             const timeout = BigNumber.from(3601)
-            const receipt = await successfulTransaction(jobs.connect(userA).submitJobAuction(target, signature, data, timeout, {value:reward}))
-            expect(receipt.logs.length).equals(1)
-            //await increaseTime(userB, delay.toNumber() - 1)
-            const bid = reward.sub(utils.parseUnits('10', 'gwei'))
-            const diff = reward.sub(bid)
-            await expect(jobs.connect(userB).placeJobBid(target, reward, bid, signature, data, timeout, {value:diff})).to.be.not.revertedWith(
-                'DelayedJobs::placeJobBid: Transaction has not been submitted.'
-            ) 
-            await increaseTime(userB, delay.toNumber() + timeout.toNumber() + 1)
-            await expect(jobs.connect(userB).executeJobBid(target, reward, signature, data, timeout)).to.be.revertedWith(
-                'DelayedJobs::executeJobBid: Transaction has surpassed delay+timeout time.'
-           )
+            await load(bidPlaced)
+            await advanceBy(delay.toNumber() + timeout.toNumber() + 1)
+            await expectRevert(
+                jobs
+                    .connect(userB)
+                    .executeJobBid(target, reward, signature, data, timeout),
+                DelayedJobsError.AuctionExpired
+            )
         })
         it('too early', async () => {
             const timeout = BigNumber.from(3601)
-            const receipt = await successfulTransaction(jobs.connect(userA).submitJobAuction(target, signature, data, timeout, {value:reward}))
-            expect(receipt.logs.length).equals(1)
-            //await increaseTime(userB, delay.toNumber() - 1)
-            const bid = reward.sub(utils.parseUnits('10', 'gwei'))
-            const diff = reward.sub(bid)
-            await expect(jobs.connect(userB).placeJobBid(target, reward, bid, signature, data, timeout, {value:diff})).to.be.not.revertedWith(
-                'DelayedJobs::placeJobBid: Transaction has not been submitted.'
-            ) 
-            await increaseTime(userB, delay.toNumber() - 100)
-            await expect(jobs.connect(userB).executeJobBid(target, reward, signature, data, timeout)).to.be.revertedWith(
-                'DelayedJobs::executeJobBid: Transaction has not surpassed delay time.'
-           )
+            await load(bidPlaced)
+            await advanceToMaturity(
+                jobs,
+                describeAuctionJob(target, reward, signature, data, timeout),
+                -1
+            )
+            await expectRevert(
+                jobs
+                    .connect(userB)
+                    .executeJobBid(target, reward, signature, data, timeout),
+                DelayedJobsError.DelayNotElapsed
+            )
         })
         it('execution', async () => {
             const timeout = BigNumber.from(3601)
-            const receipt = await successfulTransaction(jobs.connect(userA).submitJobAuction(target, signature, data, timeout, {value:reward}))
-            expect(receipt.logs.length).equals(1)
+            await load(matured)
+            // best bidder is credited collateral and bid (the reward), userA the remainder
+            await expectClaimableDeltas(
+                jobs,
+                [
+                    [userB, reward],
+                    [userA, reward.sub(FIXTURE_BID)]
+                ],
+                () =>
+                    jobs
+                        .connect(userB)
+                        .executeJobBid(target, reward, signature, data, timeout)
+            )
+        })
+
+        it('bubbles up target revert reason', async () => {
+            const timeout = BigNumber.from(3601)
+            await load(deployed)
+            const reverter = await deployContract<Reverter>('Reverter')
+            const failData = utils.defaultAbiCoder.encode(
+                ['string'],
+                ['Target says no']
+            )
+            await successfulTransaction(
+                jobs
+                    .connect(userA)
+                    .submitJobAuction(
+                        reverter.address,
+                        'failWithReason(string)',
+                        failData,
+                        timeout,
+                        {value: reward}
+                    )
+            )
             const bid = reward.sub(utils.parseUnits('10', 'gwei'))
-            const diff = reward.sub(bid)
-            await expect(jobs.connect(userB).placeJobBid(target, reward, bid, signature, data, timeout, {value:diff})).to.be.not.revertedWith(
-                'DelayedJobs::placeJobBid: Transaction has not been submitted.'
-            ) 
-            await increaseTime(userB, delay.toNumber() + 1)
-            await expect(jobs.connect(userB).executeJobBid(target, reward, signature, data, timeout)).to.be.not.revertedWith(
-                'DelayedJobs::executeJobBid: Transaction execution reverted.'
-           )
+            await successfulTransaction(
+                jobs
+                    .connect(userB)
+                    .placeJobBid(
+                        reverter.address,
+                        reward,
+                        bid,
+                        'failWithReason(string)',
+                        failData,
+                        timeout,
+                        {value: reward.sub(bid)}
+                    )
+            )
+            await advanceBy(delay.toNumber() + 1)
+            await expect(
+                jobs
+                    .connect(userB)
+                    .executeJobBid(
+                        reverter.address,
+                        reward,
+                        'failWithReason(string)',
+                        failData,
+                        timeout
+                    )
+            ).to.be.revertedWith('Target says no')
+        })
+
+        it('emits JobAuctionExecuted', async () => {
+            const timeout = BigNumber.from(3601)
+            const job = describeAuctionJob(
+                target,
+                reward,
+                signature,
+                data,
+                timeout
+            )
+            await load(matured)
+            await expect(
+                jobs
+                    .connect(userB)
+                    .executeJobBid(target, reward, signature, data, timeout)
+            )
+                .to.emit(jobs, 'JobAuctionExecuted')
+                .withArgs(job.txHash, userB.address, FIXTURE_BID)
         })
     })
 
     describe('cancelJobAuction()', () => {
-        it('only userA', async () => {
+        it('only submitter', async () => {
             const timeout = BigNumber.from(3601)
-            const receipt = await successfulTransaction(jobs.connect(userA).submitJobAuction(target, signature, data, timeout, {value:reward}))
-            expect(receipt.logs.length).equals(1)
-            //await increaseTime(userB, delay.toNumber() - 1)
-            const bid = reward.sub(utils.parseUnits('10', 'gwei'))
-            const diff = reward.sub(bid)
-            await expect(jobs.connect(userB).placeJobBid(target, reward, bid, signature, data, timeout, {value:diff})).to.be.not.revertedWith(
-                'DelayedJobs::placeJobBid: Transaction has not been submitted.'
-            ) 
-            await increaseTime(userB, delay.toNumber() + 1)
-            await expect(jobs.connect(userB).cancelJobAuction(target, reward, signature, data, timeout)).to.be.revertedWith(
-                'DelayedJobs::submitJobAuction: Call must come from userA.'
-           )
+            await load(matured)
+            await expectRevert(
+                jobs
+                    .connect(userB)
+                    .cancelJobAuction(target, reward, signature, data, timeout),
+                DelayedJobsError.CallerNotSubmitter
+            )
         })
         it('too early', async () => {
             const timeout = BigNumber.from(3601)
-            const receipt = await successfulTransaction(jobs.connect(userA).submitJobAuction(target, signature, data, timeout, {value:reward}))
-            expect(receipt.logs.length).equals(1)
-            //await increaseTime(userB, delay.toNumber() - 1)
-            const bid = reward.sub(utils.parseUnits('10', 'gwei'))
-            const diff = reward.sub(bid)
-            await expect(jobs.connect(userB).placeJobBid(target, reward, bid, signature, data, timeout, {value:diff})).to.be.not.revertedWith(
-                'DelayedJobs::placeJobBid: Transaction has not been submitted.'
-            ) 
-            await increaseTime(userB, delay.toNumber())
-            await expect(jobs.connect(userA).cancelJobAuction(target, reward, signature, data, timeout)).to.be.revertedWith(
-                'DelayedJobs::cancelJobAuction: Cancelling only after delay+timeout'
-           )
+            await load(bidPlaced)
+            await advanceToAuctionExpiry(
+                jobs,
+                describeAuctionJob(target, reward, signature, data, timeout),
+                -1
+            )
+            await expectRevert(
+                jobs
+                    .connect(userA)
+                    .cancelJobAuction(target, reward, signature, data, timeout),
+                DelayedJobsError.AuctionNotExpired
+            )
         })
         it('cancelled', async () => {
             const timeout = BigNumber.from(3601)
-            const receipt = await successfulTransaction(jobs.connect(userA).submitJobAuction(target, signature, data, timeout, {value:reward}))
-            expect(receipt.logs.length).equals(1)
-            const bid = reward.sub(utils.parseUnits('10', 'gwei'))
-            const diff = reward.sub(bid)
-            await expect(jobs.connect(userB).placeJobBid(target, reward, bid, signature, data, timeout, {value:diff})).to.be.not.revertedWith(
-                'DelayedJobs::placeJobBid: Transaction has not been submitted.'
-            ) 
-            await increaseTime(userB, delay.toNumber() + timeout.toNumber() + 1)
-            await expect(jobs.connect(userA).cancelJobAuction(target, reward, signature, data, timeout)).to.be.not.revertedWith(
-                'DelayedJobs::executeJobBid: Transaction execution reverted.'
+            await load(bidPlaced)
+            await advanceBy(delay.toNumber() + timeout.toNumber() + 1)
+            // best bidder is credited its collateral back
+            await expectClaimableDeltas(
+                jobs,
+                [
+                    [userA, reward],
+                    [userB, reward.sub(FIXTURE_BID)]
+                ],
+                () =>
+                    jobs
+                        .connect(userA)
+                        .cancelJobAuction(
+                            target,
+                            reward,
+                            signature,
+                            data,
+                            timeout
+                        )
             )
         })
-    })
 
+        it('emits JobAuctionCancelled', async () => {
+            const timeout = BigNumber.from(3601)
+            const job = describeAuctionJob(
+                target,
+                reward,
+                signature,
+                data,
+                timeout
+            )
+            await load(auctionSubmitted)
+            await advanceBy(delay.toNumber() + timeout.toNumber() + 1)
+            await expect(
+                jobs
+                    .connect(userA)
+                    .cancelJobAuction(target, reward, signature, data, timeout)
+            )
+                .to.emit(jobs, 'JobAuctionCancelled')
+                .withArgs(job.txHash)
+        })
+    })
 
     let userA: SignerWithAddress
     let userB: SignerWithAddress
@@ -310,5 +803,4 @@ describe('DelayedJobs', () => {
     let newDelay: ethers.BigNumber
     let data: Uint8Array
     let target: string
-    let eta: ethers.BigNumber
 })
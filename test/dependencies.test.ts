@@ -0,0 +1,436 @@
+// Start - Support direct Mocha run & debug
+import 'hardhat'
+import '@nomiclabs/hardhat-ethers'
+// End - Support direct Mocha run & debug
+import chai, {expect} from 'chai'
+import chaiAsPromised from 'chai-as-promised'
+import {before} from 'mocha'
+import {solidity} from 'ethereum-waffle'
+import {utils} from 'ethers'
+import {SignerWithAddress} from '@nomiclabs/hardhat-ethers/signers'
+import {DelayedJobs, MockERC20} from '../typechain-types'
+import {DelayedJobsClient} from '../src/client'
+import {
+    PlannedJob,
+    blockedJobs,
+    dependencyOrder,
+    submitPlan
+} from '../src/dependencies'
+import {JobIndexer} from '../src/indexer'
+import {Job, describeJob} from '../src/job'
+import {
+    FIXTURE_REWARD,
+    FIXTURE_TIMEOUT,
+    FIXTURE_TOKEN_DECIMALS,
+    signer,
+    tokenDeployed
+} from './framework/contracts'
+import {expectClaimableDeltas} from './framework/balances'
+import {DelayedJobsError} from './framework/errors'
+import {expectRevert} from './framework/transaction'
+import {advanceToMaturity} from './framework/time'
+
+// Wires up Waffle with Chai
+chai.use(solidity)
+chai.use(chaiAsPromised)
+
+describe('DelayedJobs dependencies', () => {
+    before(async () => {
+        userA = await signer(0)
+        userB = await signer(1)
+    })
+
+    beforeEach(async () => {
+        ;({jobs, token} = await tokenDeployed())
+        client = new DelayedJobsClient(jobs).connect(userA)
+        executor = client.connect(userB)
+        first = await client.submit(
+            jobs.address,
+            'identity()',
+            '0x',
+            FIXTURE_REWARD
+        )
+    })
+
+    describe('submitJobWithPrerequisites()', () => {
+        it('emits JobSubmitted and JobPrerequisites', async () => {
+            const job = describeJob(
+                jobs.address,
+                FIXTURE_REWARD,
+                'identity()',
+                '0x01'
+            )
+            const submission = submitJobWithPrerequisites('0x01', [
+                first.txHash
+            ])
+
+            await expect(submission)
+                .to.emit(jobs, 'JobSubmitted')
+                .withArgs(
+                    job.txHash,
+                    job.target,
+                    FIXTURE_REWARD,
+                    job.signature,
+                    '0x01'
+                )
+            await expect(submission)
+                .to.emit(jobs, 'JobPrerequisites')
+                .withArgs(job.txHash, [first.txHash])
+            expect(await jobs.prerequisitesOf(job.txHash)).deep.equals([
+                first.txHash
+            ])
+        })
+
+        it('not after a job never submitted', async () => {
+            const unknown = utils.id('unknown')
+
+            await expectRevert(
+                submitJobWithPrerequisites('0x01', [first.txHash, unknown]),
+                DelayedJobsError.UnknownPrerequisite,
+                unknown
+            )
+        })
+
+        it('not after a cancelled job', async () => {
+            await client.cancel(first)
+
+            await expectRevert(
+                submitJobWithPrerequisites('0x01', [first.txHash]),
+                DelayedJobsError.UnknownPrerequisite,
+                first.txHash
+            )
+        })
+
+        it('not after itself', async () => {
+            await advanceToMaturity(jobs, first)
+            await executor.execute(first)
+
+            await expectRevert(
+                submitJobWithPrerequisites('0x', [first.txHash]),
+                DelayedJobsError.UnknownPrerequisite,
+                first.txHash
+            )
+        })
+
+        it('after an executed job', async () => {
+            await advanceToMaturity(jobs, first)
+            await executor.execute(first)
+
+            const job = await client.submitWithPrerequisites(
+                jobs.address,
+                'identity()',
+                '0x01',
+                [first.txHash],
+                FIXTURE_REWARD
+            )
+
+            expect(await jobs.executedTxs(first.txHash)).is.true
+            expect((await client.status(job)).blockedOn).is.undefined
+        })
+
+        it('after a job submitted again, only once it executes again', async () => {
+            await advanceToMaturity(jobs, first)
+            await executor.execute(first)
+            const again = await client.submit(
+                jobs.address,
+                'identity()',
+                '0x',
+                FIXTURE_REWARD
+            )
+
+            const job = await client.submitWithPrerequisites(
+                jobs.address,
+                'identity()',
+                '0x01',
+                [first.txHash],
+                FIXTURE_REWARD
+            )
+            await advanceToMaturity(jobs, job)
+
+            expect(await jobs.prerequisitesExecuted(job.txHash)).deep.equals([
+                false
+            ])
+            await expectRevert(
+                executeJob(job),
+                DelayedJobsError.PrerequisiteNotExecuted,
+                job.txHash,
+                first.txHash
+            )
+            await executor.execute(again)
+            await executeJob(job)
+            expect(await jobs.executedTxs(job.txHash)).is.true
+        })
+
+        it('after an executed job, whoever submits it again', async () => {
+            const userC = await signer(2)
+            await client.grantRole('submitter', userC.address)
+            await advanceToMaturity(jobs, first)
+            await executor.execute(first)
+            const job = await client.submitWithPrerequisites(
+                jobs.address,
+                'identity()',
+                '0x01',
+                [first.txHash],
+                FIXTURE_REWARD
+            )
+            const again = await client
+                .connect(userC)
+                .submit(jobs.address, 'identity()', '0x', FIXTURE_REWARD)
+            await client.connect(userC).cancel(again)
+            await advanceToMaturity(jobs, job)
+
+            expect((await client.status(job)).blockedOn).is.undefined
+            await executeJob(job)
+            expect(await jobs.executedTxs(job.txHash)).is.true
+        })
+    })
+
+    describe('with prerequisite', () => {
+        beforeEach(async () => {
+            job = await client.submitWithPrerequisites(
+                jobs.address,
+                'identity()',
+                '0x01',
+                [first.txHash],
+                FIXTURE_REWARD
+            )
+        })
+
+        it('blocked until the prerequisite executes', async () => {
+            await advanceToMaturity(jobs, job)
+
+            await expectRevert(
+                executeJob(job),
+                DelayedJobsError.PrerequisiteNotExecuted,
+                job.txHash,
+                first.txHash
+            )
+            expect(await client.status(job)).to.include({phase: 'blocked'})
+            expect((await client.status(job)).blockedOn).deep.equals([
+                first.txHash
+            ])
+
+            await executor.execute(first)
+
+            expect((await client.status(job)).phase).equals('executable')
+            await expectClaimableDeltas(jobs, [[userB, FIXTURE_REWARD]], () =>
+                executeJob(job)
+            )
+            expect(await jobs.executedTxs(job.txHash)).is.true
+        })
+
+        it('delayed while blocked before maturity', async () => {
+            const status = await client.status(job)
+
+            expect(status.phase).equals('delayed')
+            expect(status.blockedOn).deep.equals([first.txHash])
+        })
+
+        it('cancellation clears the prerequisites', async () => {
+            await client.cancel(job)
+
+            expect(await jobs.prerequisitesOf(job.txHash)).is.empty
+        })
+
+        it('execution clears the prerequisites', async () => {
+            await advanceToMaturity(jobs, job)
+            await executor.execute(first)
+            await executor.execute(job)
+
+            expect(await jobs.prerequisitesOf(job.txHash)).is.empty
+        })
+
+        it('is indexed with its prerequisites', async () => {
+            const indexer = new JobIndexer(jobs)
+            await indexer.sync()
+
+            expect(indexer.book.job(job.txHash)?.prerequisites).deep.equals([
+                first.txHash
+            ])
+        })
+    })
+
+    it('after an auction executed', async () => {
+        const auction = await client.submitAuction(
+            jobs.address,
+            'identity()',
+            '0x02',
+            FIXTURE_TIMEOUT,
+            FIXTURE_REWARD
+        )
+        const job = await client.submitWithPrerequisites(
+            jobs.address,
+            'identity()',
+            '0x01',
+            [auction.txHash],
+            FIXTURE_REWARD
+        )
+        await executor.bid(auction, FIXTURE_REWARD.div(2))
+        await advanceToMaturity(jobs, job)
+        await executor.execute(auction)
+
+        await executor.execute(job)
+
+        expect(await jobs.executedTxs(job.txHash)).is.true
+    })
+
+    it('token reward after a prerequisite', async () => {
+        const reward = utils.parseUnits('5', FIXTURE_TOKEN_DECIMALS)
+        const job = await client.submitTokenWithPrerequisites(
+            jobs.address,
+            'identity()',
+            '0x01',
+            [first.txHash],
+            token.address,
+            reward
+        )
+        await advanceToMaturity(jobs, job)
+        await executor.execute(first)
+
+        await expectClaimableDeltas(
+            {
+                claimable: (account) =>
+                    jobs.claimableToken(account, token.address)
+            },
+            [[userB, reward]],
+            () => executeJob(job)
+        )
+    })
+
+    describe('dependencyOrder()', () => {
+        it('orders each job after its prerequisites', () => {
+            const ordered = dependencyOrder([
+                planned('stake', ['deposit']),
+                planned('deposit', ['approve']),
+                planned('approve'),
+                planned('report')
+            ])
+
+            expect(ordered.map(({id}) => id)).deep.equals([
+                'approve',
+                'deposit',
+                'stake',
+                'report'
+            ])
+        })
+
+        it('rejects a cycle', () => {
+            expect(() =>
+                dependencyOrder([
+                    planned('approve'),
+                    planned('swap', ['approve', 'stake']),
+                    planned('stake', ['swap'])
+                ])
+            ).throws('Dependencies: Cycle swap -> stake -> swap')
+        })
+
+        it('rejects an unknown prerequisite', () => {
+            expect(() =>
+                dependencyOrder([planned('swap', ['approve'])])
+            ).throws('Dependencies: "swap" runs after unknown "approve"')
+        })
+
+        it('rejects a duplicate id', () => {
+            expect(() =>
+                dependencyOrder([planned('swap'), planned('swap')])
+            ).throws('Dependencies: Duplicate job id "swap"')
+        })
+    })
+
+    describe('submitPlan()', () => {
+        it('submits in dependency order', async () => {
+            const plan = await submitPlan(client, [
+                planned('swap', ['approve']),
+                planned('approve')
+            ])
+
+            expect([...plan.keys()]).deep.equals(['approve', 'swap'])
+            expect(
+                await jobs.prerequisitesOf(plan.get('swap')?.txHash ?? '')
+            ).deep.equals([plan.get('approve')?.txHash])
+        })
+
+        it('reports the jobs blocked on others', async () => {
+            const plan = await submitPlan(client, [
+                planned('approve'),
+                planned('swap', ['approve']),
+                planned('stake', ['approve', 'swap'])
+            ])
+
+            expect(await blockedJobs(client, plan)).deep.equals([
+                {
+                    id: 'swap',
+                    txHash: plan.get('swap')?.txHash,
+                    blockedOn: ['approve']
+                },
+                {
+                    id: 'stake',
+                    txHash: plan.get('stake')?.txHash,
+                    blockedOn: ['approve', 'swap']
+                }
+            ])
+
+            await advanceToMaturity(jobs, plan.get('approve') as Job)
+            await executor.execute(plan.get('approve') as Job)
+
+            expect(
+                (await blockedJobs(client, plan)).map(({id}) => id)
+            ).deep.equals(['stake'])
+        })
+
+        it('submits nothing when the plan has a cycle', async () => {
+            await expect(
+                submitPlan(client, [
+                    planned('approve'),
+                    planned('swap', ['swap'])
+                ])
+            ).to.be.rejectedWith('Dependencies: Cycle swap -> swap')
+        })
+    })
+
+    /**
+     * A distinct call of identity() named by the id.
+     */
+    function planned(id: string, after?: string[]): PlannedJob {
+        return {
+            id,
+            target: jobs.address,
+            signature: 'identity()',
+            data: utils.hexlify(utils.toUtf8Bytes(id)),
+            reward: FIXTURE_REWARD,
+            after
+        }
+    }
+
+    function submitJobWithPrerequisites(data: string, prerequisites: string[]) {
+        return jobs
+            .connect(userA)
+            .submitJobWithPrerequisites(
+                jobs.address,
+                'identity()',
+                data,
+                prerequisites,
+                {value: FIXTURE_REWARD}
+            )
+    }
+
+    function executeJob(submitted: Job) {
+        return jobs
+            .connect(userB)
+            .executeJob(
+                submitted.target,
+                submitted.value,
+                submitted.signature,
+                submitted.data
+            )
+    }
+
+    let userA: SignerWithAddress
+    let userB: SignerWithAddress
+    let jobs: DelayedJobs
+    let token: MockERC20
+    let client: DelayedJobsClient
+    let executor: DelayedJobsClient
+    let first: Job
+    let job: Job
+})
@@ -0,0 +1,279 @@
+// Start - Support direct Mocha run & debug
+import 'hardhat'
+import '@nomiclabs/hardhat-ethers'
+// End - Support direct Mocha run & debug
+import chai, {expect} from 'chai'
+import chaiAsPromised from 'chai-as-promised'
+import {before} from 'mocha'
+import {BigNumber, utils} from 'ethers'
+import {SignerWithAddress} from '@nomiclabs/hardhat-ethers/signers'
+import {DelayedJobs} from '../typechain-types'
+import {TypedEventFilter} from '../typechain-types/common'
+import {JobSubmittedEvent} from '../typechain-types/DelayedJobs'
+import {DelayedJobsClient} from '../src/client'
+import {DelayedJobsEvent, EventStream, waitFor} from '../src/events'
+import {Job} from '../src/job'
+import {deployContractWithProxy, signer} from './framework/contracts'
+import {event, events, pollingProvider} from './framework/events'
+import {advanceBy, mine} from './framework/time'
+
+chai.use(chaiAsPromised)
+
+const WAIT_MS = 5000
+
+describe('Events', () => {
+    before(async () => {
+        userA = await signer(0)
+        userB = await signer(1)
+        reward = utils.parseUnits('1', 'ether')
+        signature = 'identity()'
+        delay = 10000
+    })
+
+    beforeEach(async () => {
+        jobs = await deployContractWithProxy<DelayedJobs>(
+            'DelayedJobs',
+            userA.address,
+            userB.address,
+            delay
+        )
+        listened = jobs.connect(pollingProvider())
+        client = new DelayedJobsClient(jobs).connect(userA)
+    })
+
+    afterEach(() => {
+        streams.forEach((opened) => opened.dispose())
+        streams = []
+    })
+
+    function submit(data: string): Promise<Job> {
+        return client.submit(jobs.address, signature, data, reward)
+    }
+
+    function stream(
+        filter: TypedEventFilter<JobSubmittedEvent>,
+        fromBlock?: number
+    ): EventStream<JobSubmittedEvent> {
+        const opened = new EventStream(listened, filter, fromBlock)
+        streams.push(opened)
+        return opened
+    }
+
+    /**
+     * Returns once waitFor() has read its starting block, being queued behind.
+     */
+    async function started(): Promise<void> {
+        await listened.provider.getBlockNumber()
+    }
+
+    describe('EventStream', () => {
+        it('iterates events in order', async () => {
+            const submissions = stream(listened.filters.JobSubmitted())
+            const first = await submit('0x01')
+            const second = await submit('0x02')
+            const received: string[] = []
+
+            for await (const submitted of submissions) {
+                received.push(submitted.args.txHash)
+
+                if (received.length === 2) {
+                    break
+                }
+            }
+
+            expect(received).deep.equals([first.txHash, second.txHash])
+        })
+
+        it('filters by indexed args', async () => {
+            const first = await submit('0x01')
+            const second = await submit('0x02')
+            const submissions = stream(
+                listened.filters.JobSubmitted(second.txHash),
+                jobs.deployTransaction.blockNumber
+            )
+
+            const {value} = await submissions.next()
+
+            expect(value?.args.txHash).equals(second.txHash)
+            expect(submissions.events().map(({args}) => args.txHash))
+                .to.include(second.txHash)
+                .and.not.include(first.txHash)
+        })
+
+        it('delivers past events from the block first', async () => {
+            const past = await submit('0x01')
+            const submissions = stream(
+                listened.filters.JobSubmitted(),
+                jobs.deployTransaction.blockNumber
+            )
+            const live = await submit('0x02')
+
+            const first = await submissions.next()
+            const second = await submissions.next()
+
+            expect(first.value?.args.txHash).equals(past.txHash)
+            expect(second.value?.args.txHash).equals(live.txHash)
+        })
+
+        it('dispose ends iteration and unsubscribes', async () => {
+            const filter = listened.filters.JobSubmitted()
+            const submissions = stream(filter)
+            const pending = submissions.next()
+
+            submissions.dispose()
+
+            expect((await pending).done).is.true
+            expect((await submissions.next()).done).is.true
+            expect(listened.listenerCount(filter)).equals(0)
+        })
+
+        it('breaking out of iteration disposes', async () => {
+            const filter = listened.filters.JobSubmitted()
+            const submissions = stream(filter)
+            const job = await submit('0x01')
+
+            for await (const submitted of submissions) {
+                if (submitted.args.txHash === job.txHash) {
+                    break
+                }
+            }
+
+            expect(listened.listenerCount(filter)).equals(0)
+        })
+    })
+
+    describe('waitFor()', () => {
+        it('resolves with the typed event', async () => {
+            const job = await submit('0x01')
+            await advanceBy(delay)
+            const waiting = waitFor(
+                listened,
+                listened.filters.JobExecuted(job.txHash),
+                {timeoutMs: WAIT_MS}
+            )
+
+            await client.connect(userB).execute(job)
+            const executed: DelayedJobsEvent<'JobExecuted'> = await waiting
+
+            expect(executed.args.txHash).equals(job.txHash)
+            expect(executed.args.target).equals(jobs.address)
+        })
+
+        it('matches the where predicate', async () => {
+            const waiting = waitFor(
+                listened,
+                listened.filters.JobSubmitted(null, jobs.address),
+                {
+                    timeoutMs: WAIT_MS,
+                    where: ({args}) => args.data === '0x02'
+                }
+            )
+            await submit('0x01')
+            const second = await submit('0x02')
+
+            expect((await waiting).args.txHash).equals(second.txHash)
+        })
+
+        it('includes past events from the block', async () => {
+            const job = await submit('0x01')
+
+            const submitted = await waitFor(
+                listened,
+                listened.filters.JobSubmitted(job.txHash),
+                {fromBlock: jobs.deployTransaction.blockNumber}
+            )
+
+            expect(submitted.args.txHash).equals(job.txHash)
+        })
+
+        it('fails after the timeout', async () => {
+            const filter = listened.filters.DelayUpdate()
+
+            await expect(
+                waitFor(listened, filter, {timeoutMs: 200})
+            ).to.be.rejectedWith('Events: No DelayUpdate within 200ms')
+            expect(listened.listenerCount(filter)).equals(0)
+        })
+
+        it('fails after the block limit', async () => {
+            const waiting = waitFor(listened, listened.filters.DelayUpdate(), {
+                blocks: 3
+            })
+            await started()
+            await mine(3)
+
+            await expect(waiting).to.be.rejectedWith(
+                'Events: No DelayUpdate within 3 blocks'
+            )
+        })
+
+        it('resolves with an event in the last block', async () => {
+            const waiting = waitFor(listened, listened.filters.DelayUpdate(), {
+                blocks: 2
+            })
+            await started()
+            await mine()
+            await jobs.connect(userA).updateDelay(delay * 2)
+
+            const updated = await waiting
+
+            expect(updated.args.newDelay).deep.equals(BigNumber.from(delay * 2))
+        })
+    })
+
+    describe('receipt events', () => {
+        it('match by indexed args', async () => {
+            const receipt = await (
+                await jobs
+                    .connect(userA)
+                    .submitJob(jobs.address, signature, '0x', {value: reward})
+            ).wait()
+
+            const submitted = event(
+                jobs,
+                jobs.filters.JobSubmitted(null, jobs.address),
+                receipt
+            )
+
+            expect(submitted.args.data).equals('0x')
+            expect(
+                events(jobs, jobs.filters.JobSubmitted(), receipt)
+            ).deep.equals([submitted])
+            expect(
+                events.bind(
+                    null,
+                    jobs,
+                    jobs.filters.JobSubmitted(null, userA.address),
+                    receipt
+                )
+            ).to.throw('Failed to find any matching event')
+        })
+    })
+
+    describe('DelayedJobsClient.waitForExecution()', () => {
+        it('resolves once the job is executed', async () => {
+            const job = await submit('0x01')
+            await advanceBy(delay)
+            const waiting = new DelayedJobsClient(listened).waitForExecution(
+                job,
+                {timeoutMs: WAIT_MS}
+            )
+
+            const receipt = await client.connect(userB).execute(job)
+
+            expect((await waiting).transactionHash).equals(
+                receipt.transactionHash
+            )
+        })
+    })
+
+    let userA: SignerWithAddress
+    let userB: SignerWithAddress
+    let jobs: DelayedJobs
+    let listened: DelayedJobs
+    let client: DelayedJobsClient
+    let reward: BigNumber
+    let signature: string
+    let delay: number
+    let streams: Array<EventStream<JobSubmittedEvent>> = []
+})
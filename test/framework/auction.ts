@@ -0,0 +1,49 @@
+import {DelayedJobs} from '../../typechain-types'
+import {BiddingAgent} from '../../src/bidding-agent'
+import {DelayedJobsClient} from '../../src/client'
+import {AuctionJob} from '../../src/job'
+import {advanceBy, advanceTo, now} from './time'
+
+/**
+ * Shape of a simulated auction: the agents step in turn (rotating who goes
+ * first) each round, then chain time moves on by the seconds per round.
+ */
+export interface AuctionSimulation {
+    rounds: number
+    secondsPerRound: number
+}
+
+/**
+ * Runs the agents against each other in the auction, then moves chain time
+ * to the job maturity and steps every agent once more, letting the winner
+ * execute.
+ *
+ * @param contract the auction job was submitted to.
+ * @param job tracked by every agent.
+ */
+export async function simulateAuction(
+    contract: DelayedJobs,
+    job: AuctionJob,
+    agents: BiddingAgent[],
+    simulation: AuctionSimulation
+): Promise<void> {
+    agents.forEach((agent) => agent.track(job))
+
+    for (let round = 0; round < simulation.rounds; round++) {
+        for (let turn = 0; turn < agents.length; turn++) {
+            await agents[(round + turn) % agents.length].step()
+        }
+
+        await advanceBy(simulation.secondsPerRound)
+    }
+
+    const {maturesAt} = await new DelayedJobsClient(contract).status(job)
+
+    if (maturesAt.gt(await now())) {
+        await advanceTo(maturesAt.toNumber())
+    }
+
+    for (const agent of agents) {
+        await agent.step()
+    }
+}
@@ -0,0 +1,207 @@
+import {ethers} from 'hardhat'
+import {expect} from 'chai'
+import {
+    BigNumber,
+    BigNumberish,
+    ContractReceipt,
+    ContractTransaction,
+    utils
+} from 'ethers'
+
+/**
+ * An account by its address, or anything having one e.g. signer, contract.
+ */
+export type Account = string | {address: string}
+
+/**
+ * The exact change expected in the balance of the account, net of the gas
+ * it paid for its transactions.
+ */
+export type BalanceDelta = [Account, BigNumberish]
+
+/**
+ * Sends a transaction, only once the balances before it are recorded.
+ */
+export interface TransactionSender {
+    (): Promise<ContractTransaction>
+}
+
+/**
+ * Changes in the balances of the accounts across the transactions, net of
+ * gas, with the receipts of the transactions.
+ */
+export interface BalanceChanges {
+    deltas: BigNumber[]
+    receipts: ContractReceipt[]
+}
+
+/**
+ * Records the balances of the accounts, sends the transactions one after the
+ * other, then takes the difference adding back the gas each account spent as
+ * the sender of the transactions (from gas used and effective gas price).
+ *
+ * @param accounts whose balances to compare, including any contracts.
+ * @param transactions sent in order, each waited on for its receipt.
+ */
+export async function balanceChanges(
+    accounts: Account[],
+    ...transactions: TransactionSender[]
+): Promise<BalanceChanges> {
+    const addresses = accounts.map(address)
+    const before = await balances(addresses)
+    const receipts: ContractReceipt[] = []
+
+    for (const send of transactions) {
+        receipts.push(await (await send()).wait())
+    }
+
+    const after = await balances(addresses)
+
+    return {
+        deltas: addresses.map((account, i) =>
+            after[i].sub(before[i]).add(gasPaid(account, receipts))
+        ),
+        receipts
+    }
+}
+
+/**
+ * The expectation is the balances of the accounts change by exactly their
+ * deltas across the transactions, gas aside.
+ *
+ * @param deltas expected change for each account, negative for a decrease.
+ * @param transactions sent in order, each waited on for its receipt.
+ */
+export async function expectBalanceDeltas(
+    deltas: BalanceDelta[],
+    ...transactions: TransactionSender[]
+): Promise<ContractReceipt[]> {
+    const changes = await balanceChanges(
+        deltas.map(([account]) => account),
+        ...transactions
+    )
+
+    deltas.forEach(([account, delta], i) =>
+        expect(
+            changes.deltas[i].toString(),
+            `Balance delta of ${address(account)}`
+        ).equals(BigNumber.from(delta).toString())
+    )
+
+    return changes.receipts
+}
+
+/**
+ * Contract crediting accounts with balances they withdraw later, e.g.
+ * DelayedJobs.
+ */
+export interface Ledger {
+    claimable(account: string): Promise<BigNumber>
+}
+
+/**
+ * The expectation is the claimable balances of the accounts on the ledger
+ * change by exactly their deltas across the transactions.
+ *
+ * @param ledger contract holding the claimable balances.
+ * @param deltas expected change for each account, negative for a decrease.
+ * @param transactions sent in order, each waited on for its receipt.
+ */
+export function expectClaimableDeltas(
+    ledger: Ledger,
+    deltas: BalanceDelta[],
+    ...transactions: TransactionSender[]
+): Promise<ContractReceipt[]> {
+    return expectDeltas(
+        'Claimable',
+        (account) => ledger.claimable(account),
+        deltas,
+        transactions
+    )
+}
+
+/**
+ * An ERC-20 token, or anything else with balances.
+ */
+export interface Token {
+    balanceOf(account: string): Promise<BigNumber>
+}
+
+/**
+ * The expectation is the token balances of the accounts change by exactly
+ * their deltas across the transactions.
+ *
+ * @param token whose balances to compare.
+ * @param deltas expected change for each account, negative for a decrease.
+ * @param transactions sent in order, each waited on for its receipt.
+ */
+export function expectTokenDeltas(
+    token: Token,
+    deltas: BalanceDelta[],
+    ...transactions: TransactionSender[]
+): Promise<ContractReceipt[]> {
+    return expectDeltas(
+        'Token balance',
+        (account) => token.balanceOf(account),
+        deltas,
+        transactions
+    )
+}
+
+async function expectDeltas(
+    label: string,
+    read: (account: string) => Promise<BigNumber>,
+    deltas: BalanceDelta[],
+    transactions: TransactionSender[]
+): Promise<ContractReceipt[]> {
+    const addresses = deltas.map(([account]) => address(account))
+    const current = () => Promise.all(addresses.map(read))
+    const before = await current()
+    const receipts: ContractReceipt[] = []
+
+    for (const send of transactions) {
+        receipts.push(await (await send()).wait())
+    }
+
+    const after = await current()
+
+    deltas.forEach(([, delta], i) =>
+        expect(
+            after[i].sub(before[i]).toString(),
+            `${label} delta of ${addresses[i]}`
+        ).equals(BigNumber.from(delta).toString())
+    )
+
+    return receipts
+}
+
+function address(account: Account): string {
+    return utils.getAddress(
+        typeof account === 'string' ? account : account.address
+    )
+}
+
+/**
+ * Balances of the accounts at the latest block.
+ */
+export async function balances(addresses: string[]): Promise<BigNumber[]> {
+    return Promise.all(
+        addresses.map((account) => ethers.provider.getBalance(account))
+    )
+}
+
+/**
+ * Gas cost paid by the account as the sender of any of the transactions.
+ */
+export function gasPaid(
+    account: string,
+    receipts: ContractReceipt[]
+): BigNumber {
+    return receipts
+        .filter((receipt) => receipt.from === account)
+        .reduce(
+            (sum, receipt) =>
+                sum.add(receipt.gasUsed.mul(receipt.effectiveGasPrice)),
+            BigNumber.from(0)
+        )
+}
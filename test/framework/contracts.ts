@@ -1,7 +1,28 @@
 import {SignerWithAddress} from '@nomiclabs/hardhat-ethers/signers'
 import {ethers, upgrades} from 'hardhat'
 import {expect} from 'chai'
-import {ContractReceipt, ContractTransaction} from 'ethers'
+import {BigNumber, ContractReceipt, ContractTransaction, utils} from 'ethers'
+import {DelayedJobs, MockERC20} from '../../typechain-types'
+import {AuctionJob, describeAuctionJob} from '../../src/job'
+import {advanceToMaturity, mine} from './time'
+
+// Delay, reward and timeout of the DelayedJobs fixtures
+export const FIXTURE_DELAY = 10000
+export const FIXTURE_REWARD = utils.parseUnits('1', 'ether')
+export const FIXTURE_TIMEOUT = 3601
+
+// Winning bid of the bid placed fixture
+export const FIXTURE_BID = FIXTURE_REWARD.sub(utils.parseUnits('10', 'gwei'))
+
+// Decimals of the token deployed fixture (as stablecoins) and what it mints
+export const FIXTURE_TOKEN_DECIMALS = 6
+export const FIXTURE_TOKENS = utils.parseUnits('1000', FIXTURE_TOKEN_DECIMALS)
+
+// Signers minted tokens by the token deployed fixture
+const TOKEN_HOLDERS = 4
+
+// Chain snapshot and setup result of each loaded fixture, by name
+const snapshots = new Map<string, {id: string; value: unknown}>()
 
 interface DeployableContract<T> {
     deployed(): Promise<T>
@@ -23,8 +44,8 @@ export async function deployContract<T extends DeployableContract<T>>(
 }
 
 /**
- * Deploys an admin proxy with the contract as the implementation behind.
- * The contract may or may not have constructor parameters.
+ * Deploys a UUPS proxy with the contract as the implementation behind,
+ * initialized with the arguments (if any) by its initialize function.
  *
  * @param name the case sensitive name of the contract in the Solidity file.
  */
@@ -76,3 +97,163 @@ export async function signer(index: number): Promise<SignerWithAddress> {
     expect(signers.length).is.greaterThan(index)
     return signers[index]
 }
+
+/**
+ * Loads the chain state of a fixture, returning its setup result.
+ */
+export interface Fixture<T> {
+    (): Promise<T>
+}
+
+/**
+ * Names a setup that runs only on the first load, after which the chain is
+ * snapshot and each later load reverts to that snapshot, which is far
+ * quicker than repeating the setup (e.g. deploying) before every test.
+ *
+ * Fixtures compose by loading another fixture first in their setup. When a
+ * snapshot no longer exists (reverting to an earlier snapshot discards the
+ * later ones) the setup runs again.
+ *
+ * @param name unique name of the fixture.
+ * @param setup transactions bringing the chain into the fixture state.
+ */
+export function fixture<T>(name: string, setup: () => Promise<T>): Fixture<T> {
+    return async () => {
+        const loaded = snapshots.get(name)
+
+        if (loaded && (await ethers.provider.send('evm_revert', [loaded.id]))) {
+            snapshots.set(name, {id: await snapshot(), value: loaded.value})
+            return loaded.value as T
+        }
+
+        const value = await setup()
+        snapshots.set(name, {id: await snapshot(), value})
+        return value
+    }
+}
+
+/**
+ * DelayedJobs deployed with signer 0 as userA (admin and submitter) and signer 1
+ * as userB (executor).
+ */
+export interface DeployedFixture {
+    userA: SignerWithAddress
+    userB: SignerWithAddress
+    jobs: DelayedJobs
+}
+
+/**
+ * An auction job calling identity() on DelayedJobs, submitted by userA.
+ */
+export interface AuctionFixture extends DeployedFixture {
+    job: AuctionJob
+}
+
+/**
+ * The auction job with userB as the best bidder.
+ */
+export interface BidFixture extends AuctionFixture {
+    bid: BigNumber
+}
+
+/**
+ * DelayedJobs with a mock ERC-20 token, minted to each of the first signers
+ * and approved for none.
+ */
+export interface TokenFixture extends DeployedFixture {
+    token: MockERC20
+}
+
+export const deployed = fixture<DeployedFixture>('deployed', async () => {
+    const userA = await signer(0)
+    const userB = await signer(1)
+    const jobs = await deployContractWithProxy<DelayedJobs>(
+        'DelayedJobs',
+        userA.address,
+        userB.address,
+        FIXTURE_DELAY
+    )
+
+    return {userA, userB, jobs}
+})
+
+export const tokenDeployed = fixture<TokenFixture>(
+    'token deployed',
+    async () => {
+        const loaded = await deployed()
+        const token = await deployContract<MockERC20>(
+            'MockERC20',
+            'Mock USD',
+            'MUSD',
+            FIXTURE_TOKEN_DECIMALS
+        )
+
+        for (let i = 0; i < TOKEN_HOLDERS; i++) {
+            await execute(token.mint((await signer(i)).address, FIXTURE_TOKENS))
+        }
+
+        return {...loaded, token}
+    }
+)
+
+export const auctionSubmitted = fixture<AuctionFixture>(
+    'auction submitted',
+    async () => {
+        const loaded = await deployed()
+        const job = describeAuctionJob(
+            loaded.jobs.address,
+            FIXTURE_REWARD,
+            'identity()',
+            '0x',
+            FIXTURE_TIMEOUT
+        )
+        await execute(
+            loaded.jobs
+                .connect(loaded.userA)
+                .submitJobAuction(
+                    job.target,
+                    job.signature,
+                    job.data,
+                    job.timeout,
+                    {value: job.value}
+                )
+        )
+
+        return {...loaded, job}
+    }
+)
+
+export const bidPlaced = fixture<BidFixture>('bid placed', async () => {
+    const loaded = await auctionSubmitted()
+    const {job} = loaded
+    await execute(
+        loaded.jobs
+            .connect(loaded.userB)
+            .placeJobBid(
+                job.target,
+                job.value,
+                FIXTURE_BID,
+                job.signature,
+                job.data,
+                job.timeout,
+                {value: job.value.sub(FIXTURE_BID)}
+            )
+    )
+
+    return {...loaded, bid: FIXTURE_BID}
+})
+
+/**
+ * The latest block is at the maturity of the bid placed auction job.
+ */
+export const matured = fixture<BidFixture>('matured', async () => {
+    const loaded = await bidPlaced()
+    await advanceToMaturity(loaded.jobs, loaded.job)
+    await mine()
+
+    return loaded
+})
+
+async function snapshot(): Promise<string> {
+    return (await ethers.provider.send('evm_snapshot', [])) as string
+}
@@ -0,0 +1,233 @@
+/*
+ * Generated by scripts/generate-errors.ts from the DelayedJobs ABI, do not
+ * edit by hand: npm run generate-errors
+ */
+
+/**
+ * A custom error of a contract, by its name, signature and selector.
+ */
+export interface ContractError {
+    name: string
+    signature: string
+    selector: string
+}
+
+export const DelayedJobsError = {
+    AlreadyCommitted: {
+        name: 'AlreadyCommitted',
+        signature: 'AlreadyCommitted(bytes32,address)',
+        selector: '0x83850ec6'
+    },
+    AuctionExpired: {
+        name: 'AuctionExpired',
+        signature: 'AuctionExpired(bytes32,uint256)',
+        selector: '0x7e084355'
+    },
+    AuctionNotExpired: {
+        name: 'AuctionNotExpired',
+        signature: 'AuctionNotExpired(bytes32,uint256)',
+        selector: '0x20ad4933'
+    },
+    BatchLengthMismatch: {
+        name: 'BatchLengthMismatch',
+        signature: 'BatchLengthMismatch()',
+        selector: '0x17e37b5c'
+    },
+    BiddingClosed: {
+        name: 'BiddingClosed',
+        signature: 'BiddingClosed(bytes32,uint256)',
+        selector: '0x00eca519'
+    },
+    BidNotLower: {
+        name: 'BidNotLower',
+        signature: 'BidNotLower(uint256,uint256)',
+        selector: '0x1ccda2a2'
+    },
+    CallerIsSubmitter: {
+        name: 'CallerIsSubmitter',
+        signature: 'CallerIsSubmitter()',
+        selector: '0x96bcda9c'
+    },
+    CallerNotSelf: {
+        name: 'CallerNotSelf',
+        signature: 'CallerNotSelf(address)',
+        selector: '0x0f00664c'
+    },
+    CallerNotSubmitter: {
+        name: 'CallerNotSubmitter',
+        signature: 'CallerNotSubmitter(address,address)',
+        selector: '0xf0824515'
+    },
+    CancellationLocked: {
+        name: 'CancellationLocked',
+        signature: 'CancellationLocked(bytes32,uint256)',
+        selector: '0xa0cd4399'
+    },
+    CommitmentMismatch: {
+        name: 'CommitmentMismatch',
+        signature: 'CommitmentMismatch(bytes32,address)',
+        selector: '0x905cc00c'
+    },
+    DelayAboveMaximum: {
+        name: 'DelayAboveMaximum',
+        signature: 'DelayAboveMaximum(uint256,uint256)',
+        selector: '0x4b94aaed'
+    },
+    DelayBelowMinimum: {
+        name: 'DelayBelowMinimum',
+        signature: 'DelayBelowMinimum(uint256,uint256)',
+        selector: '0x00ed209a'
+    },
+    DelayNotElapsed: {
+        name: 'DelayNotElapsed',
+        signature: 'DelayNotElapsed(bytes32,uint256)',
+        selector: '0x98807d2b'
+    },
+    ExecutionReverted: {
+        name: 'ExecutionReverted',
+        signature: 'ExecutionReverted(bytes32)',
+        selector: '0x94b096bd'
+    },
+    ExpiryTooShort: {
+        name: 'ExpiryTooShort',
+        signature: 'ExpiryTooShort(uint256,uint256)',
+        selector: '0x90c0614e'
+    },
+    ForbiddenCall: {
+        name: 'ForbiddenCall',
+        signature: 'ForbiddenCall(bytes32,bytes4)',
+        selector: '0x1bbeb9a0'
+    },
+    IntervalTooShort: {
+        name: 'IntervalTooShort',
+        signature: 'IntervalTooShort(uint256,uint256)',
+        selector: '0x4d5a7090'
+    },
+    InvalidSignature: {
+        name: 'InvalidSignature',
+        signature: 'InvalidSignature(address)',
+        selector: '0xd855c4f4'
+    },
+    JobAlreadySubmitted: {
+        name: 'JobAlreadySubmitted',
+        signature: 'JobAlreadySubmitted(bytes32)',
+        selector: '0x657ec274'
+    },
+    JobExpired: {
+        name: 'JobExpired',
+        signature: 'JobExpired(bytes32,uint256)',
+        selector: '0xf452a844'
+    },
+    JobNotExpired: {
+        name: 'JobNotExpired',
+        signature: 'JobNotExpired(bytes32,uint256)',
+        selector: '0xe17b7287'
+    },
+    JobNotSubmitted: {
+        name: 'JobNotSubmitted',
+        signature: 'JobNotSubmitted(bytes32)',
+        selector: '0xd4e67599'
+    },
+    JobWithoutExpiry: {
+        name: 'JobWithoutExpiry',
+        signature: 'JobWithoutExpiry(bytes32)',
+        selector: '0x0956b694'
+    },
+    MissingCommitment: {
+        name: 'MissingCommitment',
+        signature: 'MissingCommitment()',
+        selector: '0xfea37597'
+    },
+    MissingReward: {
+        name: 'MissingReward',
+        signature: 'MissingReward()',
+        selector: '0xafc4637d'
+    },
+    MissingRole: {
+        name: 'MissingRole',
+        signature: 'MissingRole(bytes32,address)',
+        selector: '0x75000dc0'
+    },
+    MissingRuns: {
+        name: 'MissingRuns',
+        signature: 'MissingRuns()',
+        selector: '0xd914b0c5'
+    },
+    NotBestBidder: {
+        name: 'NotBestBidder',
+        signature: 'NotBestBidder(address,address)',
+        selector: '0x97c92413'
+    },
+    NothingToWithdraw: {
+        name: 'NothingToWithdraw',
+        signature: 'NothingToWithdraw(address)',
+        selector: '0xdc69dc16'
+    },
+    NotSealedAuction: {
+        name: 'NotSealedAuction',
+        signature: 'NotSealedAuction(bytes32)',
+        selector: '0xa8020495'
+    },
+    PrerequisiteNotExecuted: {
+        name: 'PrerequisiteNotExecuted',
+        signature: 'PrerequisiteNotExecuted(bytes32,bytes32)',
+        selector: '0xd1cc4f38'
+    },
+    RevealClosed: {
+        name: 'RevealClosed',
+        signature: 'RevealClosed(bytes32,uint256)',
+        selector: '0xd66940ee'
+    },
+    RevealNotOpen: {
+        name: 'RevealNotOpen',
+        signature: 'RevealNotOpen(bytes32,uint256)',
+        selector: '0x0b0e00d0'
+    },
+    RevealPeriodTooShort: {
+        name: 'RevealPeriodTooShort',
+        signature: 'RevealPeriodTooShort(uint256,uint256)',
+        selector: '0x9429f15e'
+    },
+    SealedAuction: {
+        name: 'SealedAuction',
+        signature: 'SealedAuction(bytes32)',
+        selector: '0xf7cc2078'
+    },
+    SignatureExpired: {
+        name: 'SignatureExpired',
+        signature: 'SignatureExpired(uint256)',
+        selector: '0xcd21db4f'
+    },
+    TimeoutTooShort: {
+        name: 'TimeoutTooShort',
+        signature: 'TimeoutTooShort(uint256,uint256)',
+        selector: '0xc2f4114e'
+    },
+    TransferFailed: {
+        name: 'TransferFailed',
+        signature: 'TransferFailed(address,uint256)',
+        selector: '0x1c43b976'
+    },
+    UnknownPrerequisite: {
+        name: 'UnknownPrerequisite',
+        signature: 'UnknownPrerequisite(bytes32)',
+        selector: '0x9a14c8b5'
+    },
+    WrongBatchReward: {
+        name: 'WrongBatchReward',
+        signature: 'WrongBatchReward(uint256,uint256)',
+        selector: '0x71ffa83a'
+    },
+    WrongCollateral: {
+        name: 'WrongCollateral',
+        signature: 'WrongCollateral(uint256,uint256)',
+        selector: '0x990e55c9'
+    },
+    ZeroAddress: {
+        name: 'ZeroAddress',
+        signature: 'ZeroAddress()',
+        selector: '0xd92e233d'
+    }
+}
+
+export type DelayedJobsErrorName = keyof typeof DelayedJobsError
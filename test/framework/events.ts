@@ -1,48 +1,57 @@
-import {ContractReceipt, Event} from 'ethers'
+import {BaseContract, ContractReceipt, providers} from 'ethers'
+import {network} from 'hardhat'
 import {expect} from 'chai'
+import {TypedEvent, TypedEventFilter} from '../../typechain-types/common'
+import {receiptEvents} from '../../src/events'
+
+// HardHat's own provider polls every four seconds, too slow for event tests
+const POLLING_INTERVAL_MS = 50
 
 /**
- * Retrieves a single events that matches the given name, failing if not present.
- *
- * @param name  name of the event expected within the given contracts.
- * @param receipt expected to contain the events matching the given name.
+ * Provider to the HardHat network that polls for blocks and events quickly,
+ * for contracts listened to by event streams.
  */
-export function event(name: string, receipt: ContractReceipt): Event {
-    const found = events(name, receipt)
-    expect(found.length, 'Expecting a single Event').equals(1)
-    return found[0]
+export function pollingProvider(): providers.Web3Provider {
+    const provider = new providers.Web3Provider({
+        request: (request) => network.provider.request(request)
+    })
+    provider.pollingInterval = POLLING_INTERVAL_MS
+
+    return provider
 }
 
 /**
- * Retrieves any events that matches the given name, failing if not present.
+ * Retrieves the single event of the receipt matching the filter, failing
+ * when there is not exactly one.
  *
- * @param name  name of the event(s) expected within the given contracts.
- * @param receipt expected to contain the events matching the given name.
+ * @param contract emitting the event.
+ * @param filter of the event, typically from contract.filters.
+ * @param receipt expected to contain the event.
  */
-export function events(name: string, receipt: ContractReceipt): Event[] {
-    const availableEvents = receiptEvents(receipt)
-    const found = []
-
-    for (let i = 0; i < availableEvents.length; i++) {
-        if (availableEvents[i]?.event === name) {
-            found.push(availableEvents[i])
-        }
-    }
-
-    expect(
-        found.length,
-        'Failed to find any event matching name: ' + name
-    ).is.greaterThan(0)
-
-    return found
+export function event<E extends TypedEvent>(
+    contract: BaseContract,
+    filter: TypedEventFilter<E>,
+    receipt: ContractReceipt
+): E {
+    const found = receiptEvents(contract, filter, receipt)
+    expect(found.length, 'Expecting a single Event').equals(1)
+    return found[0]
 }
 
 /**
- * Checks the shape of the event array, failing when expectation are not met.
+ * Retrieves the events of the receipt matching the filter, failing when
+ * there are none.
+ *
+ * @param contract emitting the events.
+ * @param filter of the events, typically from contract.filters.
+ * @param receipt expected to contain the events.
  */
-function receiptEvents(receipt: ContractReceipt): Event[] {
-    expect(receipt.events, 'No receipt events').is.not.undefined
-    const availableEvents = receipt.events
-    expect(availableEvents, 'Receipt events are undefined').is.not.undefined
-    return availableEvents ? availableEvents : []
+export function events<E extends TypedEvent>(
+    contract: BaseContract,
+    filter: TypedEventFilter<E>,
+    receipt: ContractReceipt
+): E[] {
+    const found = receiptEvents(contract, filter, receipt)
+    expect(found.length, 'Failed to find any matching event').is.greaterThan(0)
+    return found
 }
@@ -0,0 +1,245 @@
+import {existsSync, mkdirSync, readFileSync, writeFileSync} from 'fs'
+import {BaseContract, ContractReceipt, ContractTransaction} from 'ethers'
+
+/**
+ * Gas used by each contract function, by scenario e.g.
+ * {"placeJobBid": {"first bid": 61234, "outbidding bid": 48123}}
+ */
+export interface GasSnapshot {
+    [functionName: string]: {[scenario: string]: number}
+}
+
+/**
+ * How the gas used in a scenario compares to the snapshot, where regressed is
+ * an increase past the threshold.
+ */
+export type GasStatus =
+    | 'added'
+    | 'removed'
+    | 'unchanged'
+    | 'decreased'
+    | 'increased'
+    | 'regressed'
+
+/**
+ * Gas used by a function in a scenario against the snapshot, with null for
+ * either side that has no measurement.
+ */
+export interface GasDifference {
+    functionName: string
+    scenario: string
+    snapshot: number | null
+    gasUsed: number | null
+    delta: number
+    percent: number
+    status: GasStatus
+}
+
+/**
+ * Every measurement against the snapshot, with the threshold percentage
+ * separating an increase from a regression.
+ */
+export interface GasComparison {
+    thresholdPercent: number
+    differences: GasDifference[]
+    regressions: GasDifference[]
+}
+
+/**
+ * Records the gasUsed from the receipts of contract transactions, by the
+ * function called and a scenario naming the circumstances of the call.
+ */
+export class GasReporter {
+    private readonly _measurements: GasSnapshot = {}
+
+    /**
+     * Waits for the receipt of the transaction, recording its gas used under
+     * the contract function it called.
+     *
+     * @param contract whose function the transaction calls.
+     * @param scenario distinguishing calls of the same function.
+     * @param transaction the sent transaction.
+     */
+    public async record(
+        contract: BaseContract,
+        scenario: string,
+        transaction: Promise<ContractTransaction>
+    ): Promise<ContractReceipt> {
+        const sent = await transaction
+        const receipt = await sent.wait()
+        const {name} = contract.interface.parseTransaction(sent)
+
+        this._measurements[name] = {
+            ...this._measurements[name],
+            [scenario]: receipt.gasUsed.toNumber()
+        }
+
+        return receipt
+    }
+
+    /**
+     * Measurements so far, in the snapshot layout.
+     */
+    public measurements(): GasSnapshot {
+        return sorted(this._measurements)
+    }
+}
+
+/**
+ * Reads the snapshot file, empty when there is none yet.
+ */
+export function readGasSnapshot(path: string): GasSnapshot {
+    return existsSync(path)
+        ? (JSON.parse(readFileSync(path, 'utf8')) as GasSnapshot)
+        : {}
+}
+
+export function writeGasSnapshot(path: string, snapshot: GasSnapshot): void {
+    writeFileSync(path, `${JSON.stringify(sorted(snapshot), null, 4)}\n`)
+}
+
+/**
+ * Compares the measurements against the snapshot, scenario by scenario.
+ *
+ * @param snapshot previously committed measurements.
+ * @param measurements of the current run.
+ * @param thresholdPercent greatest increase that is not a regression.
+ */
+export function compareGas(
+    snapshot: GasSnapshot,
+    measurements: GasSnapshot,
+    thresholdPercent: number
+): GasComparison {
+    const differences = keys(snapshot, measurements).flatMap((functionName) =>
+        keys(snapshot[functionName], measurements[functionName]).map(
+            (scenario) =>
+                difference(
+                    functionName,
+                    scenario,
+                    snapshot[functionName]?.[scenario] ?? null,
+                    measurements[functionName]?.[scenario] ?? null,
+                    thresholdPercent
+                )
+        )
+    )
+
+    return {
+        thresholdPercent,
+        differences,
+        regressions: differences.filter(({status}) => status === 'regressed')
+    }
+}
+
+/**
+ * Comparison as a markdown table, e.g. for a pull request comment.
+ */
+export function markdownGasReport(comparison: GasComparison): string {
+    const rows = comparison.differences.map(
+        (row) =>
+            `| ${row.functionName} | ${row.scenario} | ${gas(
+                row.snapshot
+            )} | ` +
+            `${gas(row.gasUsed)} | ${signed(row.delta)} | ` +
+            `${signed(row.percent)}% | ${row.status} |`
+    )
+
+    return [
+        '# Gas report',
+        '',
+        `${comparison.regressions.length} regression(s) past the ` +
+            `${comparison.thresholdPercent}% threshold.`,
+        '',
+        '| Function | Scenario | Snapshot | Gas used | Delta | Change | Status |',
+        '| --- | --- | ---: | ---: | ---: | ---: | --- |',
+        ...rows,
+        ''
+    ].join('\n')
+}
+
+export function jsonGasReport(comparison: GasComparison): string {
+    return `${JSON.stringify(comparison, null, 4)}\n`
+}
+
+/**
+ * Writes the markdown and JSON reports, as gas.md and gas.json.
+ */
+export function writeGasReports(
+    directory: string,
+    comparison: GasComparison
+): void {
+    mkdirSync(directory, {recursive: true})
+    writeFileSync(`${directory}/gas.md`, markdownGasReport(comparison))
+    writeFileSync(`${directory}/gas.json`, jsonGasReport(comparison))
+}
+
+function difference(
+    functionName: string,
+    scenario: string,
+    snapshot: number | null,
+    gasUsed: number | null,
+    thresholdPercent: number
+): GasDifference {
+    const delta = (gasUsed ?? 0) - (snapshot ?? 0)
+    const percent =
+        snapshot && gasUsed ? Math.round((delta / snapshot) * 10000) / 100 : 0
+
+    return {
+        functionName,
+        scenario,
+        snapshot,
+        gasUsed,
+        delta,
+        percent,
+        status: gasStatus(snapshot, gasUsed, percent, thresholdPercent)
+    }
+}
+
+function gasStatus(
+    snapshot: number | null,
+    gasUsed: number | null,
+    percent: number,
+    thresholdPercent: number
+): GasStatus {
+    if (snapshot === null) {
+        return 'added'
+    }
+    if (gasUsed === null) {
+        return 'removed'
+    }
+    if (gasUsed === snapshot) {
+        return 'unchanged'
+    }
+    if (gasUsed < snapshot) {
+        return 'decreased'
+    }
+
+    return percent > thresholdPercent ? 'regressed' : 'increased'
+}
+
+function keys(...objects: Array<Record<string, unknown> | null>): string[] {
+    return [
+        ...new Set(objects.flatMap((object) => Object.keys(object ?? {})))
+    ].sort()
+}
+
+function sorted(snapshot: GasSnapshot): GasSnapshot {
+    return Object.fromEntries(
+        keys(snapshot).map((functionName) => [
+            functionName,
+            Object.fromEntries(
+                keys(snapshot[functionName]).map((scenario) => [
+                    scenario,
+                    snapshot[functionName][scenario]
+                ])
+            )
+        ])
+    )
+}
+
+function gas(value: number | null): string {
+    return value === null ? '-' : String(value)
+}
+
+function signed(value: number): string {
+    return value > 0 ? `+${value}` : String(value)
+}
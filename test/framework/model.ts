@@ -0,0 +1,947 @@
+import {BigNumber, constants} from 'ethers'
+import {
+    AuctionJob,
+    Job,
+    RecurringJob,
+    isAuctionJob,
+    isRecurringJob
+} from '../../src/job'
+import {JobRole} from '../../src/roles'
+import {DelayedJobsErrorName} from './errors'
+
+// Bounds on the delay, as the MIN_DELAY and MAX_DELAY of the contract
+export const MIN_DELAY = 3600
+export const MAX_DELAY = 48 * 3600
+// Period after maturity when the submitter may not cancel, as the contract
+export const CANCEL_GRACE_PERIOD = 3600
+
+/**
+ * A sealed bid as committed, to be revealed.
+ */
+export interface ModelSealedBid {
+    bid: BigNumber
+    salt: string
+}
+
+/**
+ * A job awaiting execution (or cancellation) in the model.
+ */
+export interface ModelJob {
+    job: Job
+    // Account owning the job, its submitter or whoever that was rotated to
+    submitter: string
+    submittedAt: number
+    // Seconds after maturity the job may be executed, or 0 for no expiry
+    expiry: number
+    // ERC-20 token of the reward and collateral, the zero address for ETH
+    token: string
+    bestBid: BigNumber
+    bestBidder: string
+    // Seconds revealing the bids of a sealed auction, or 0 for open bids
+    revealPeriod: number
+    // Sealed bids committed and yet to be revealed, by bidder
+    sealedBids: Map<string, ModelSealedBid>
+    // Runs a recurring job has executed
+    runs: number
+    // txHashes of the jobs that must execute first
+    prerequisites: string[]
+    // Submission of each prerequisite that must execute, as counted then
+    prerequisiteSubmissions: number[]
+}
+
+/**
+ * Expected result of an action: either the custom error it reverts with, or
+ * the balance change of each account (the contract included) it moves ETH
+ * between, gas aside, or the ERC-20 token when given.
+ */
+export type Outcome =
+    | {error: DelayedJobsErrorName}
+    | {deltas: Map<string, BigNumber>; token?: string}
+
+/**
+ * In-memory reference model of DelayedJobs, predicting the outcome of each
+ * action at a block timestamp and applying its state changes when the action
+ * succeeds.
+ *
+ * Every job successfully submitted is kept, including those since executed
+ * or cancelled, to replay actions on them. Jobs belong to the account that
+ * submitted them, moving to whoever the submitter role is rotated to from the
+ * account holding them. A job may be submitted again once no longer pending,
+ * but not while it is.
+ *
+ * Payments out of the contract (rewards and refunds) are credited to the
+ * claimable balance of the account in the token of the job, which only leaves
+ * the contract when the account withdraws it. The escrow of a token (or ETH)
+ * is everything the contract should hold of it: the reward of each
+ * outstanding job, the collateral of each best bidder (and of each sealed bid
+ * yet to be revealed) and every claimable balance. A recurring job draws an equal share of its budget on each run, so
+ * only the share of the runs still to execute remains escrowed.
+ *
+ * A job with prerequisites only executes once each has executed (an auction
+ * won, or the last run of a recurring job) in the submission it was pending
+ * or last executed in when the job was submitted, so submitting one again
+ * later leaves the job as it was.
+ *
+ * A job may be submitted by a relayer with the signature of its submitter,
+ * which the relayer pays the reward for, but the submitter owns. Each
+ * signature is made with the next nonce of the submitter, so is only
+ * submitted once.
+ *
+ * A sealed auction takes commitments to bids, each with the maximum bid as
+ * collateral, until its delay has passed, then their reveals for its reveal
+ * period, only after which it matures. A bid revealed lower than the best
+ * leads, any other has its collateral refunded, while the collateral of the
+ * bids never revealed goes to the submitter once the auction settles.
+ *
+ * A batch submits or executes each of its jobs as if alone, in order, so one
+ * failing leaves the others as they would be without it.
+ */
+export class DelayedJobsModel {
+    public readonly contract: string
+    public readonly submitted: Job[] = []
+    public readonly pending = new Map<string, ModelJob>()
+    public readonly executed = new Set<string>()
+    // Times each job has been submitted, and which of those last executed
+    public readonly submissions = new Map<string, number>()
+    public readonly executedSubmission = new Map<string, number>()
+    public readonly roles: Record<JobRole, Set<string>>
+    // Nonce each submitter signs its next relayed job with, absent for 0
+    public readonly nonces = new Map<string, number>()
+    // Claimable balances by token (the zero address for ETH), then account
+    public readonly claimable = new Map<string, Map<string, BigNumber>>()
+    public delay: number
+
+    /**
+     * @param admin also the first submitter, as the contract constructor.
+     */
+    constructor(
+        contract: string,
+        admin: string,
+        executor: string,
+        delay: number
+    ) {
+        this.contract = contract
+        this.roles = {
+            admin: new Set([admin]),
+            submitter: new Set([admin]),
+            executor: new Set([executor])
+        }
+        this.delay = delay
+    }
+
+    /**
+     * Balance of the token, ETH by default, the contract should have.
+     */
+    public escrow(token: string = constants.AddressZero): BigNumber {
+        return [...this.pending.values()]
+            .filter((pending) => pending.token === token)
+            .reduce(
+                (sum, pending) =>
+                    sum
+                        .add(pending.job.value)
+                        .sub(drawn(pending))
+                        .add(collateral(pending))
+                        .add(unrevealed(pending)),
+                [...(this.claimable.get(token)?.values() ?? [])].reduce(
+                    (sum, credit) => sum.add(credit),
+                    BigNumber.from(0)
+                )
+            )
+    }
+
+    public updateDelay(sender: string, delay: number): Outcome {
+        if (!this.roles.admin.has(sender)) {
+            return {error: 'MissingRole'}
+        }
+        if (delay < MIN_DELAY) {
+            return {error: 'DelayBelowMinimum'}
+        }
+        if (delay > MAX_DELAY) {
+            return {error: 'DelayAboveMaximum'}
+        }
+
+        this.delay = delay
+        return {deltas: new Map()}
+    }
+
+    /**
+     * The proxy keeps every job, balance and role, as the upgrade is to an
+     * implementation appending storage after the existing.
+     */
+    public upgradeTo(sender: string): Outcome {
+        if (!this.roles.admin.has(sender)) {
+            return {error: 'MissingRole'}
+        }
+
+        return {deltas: new Map()}
+    }
+
+    public rotateRole(
+        sender: string,
+        role: JobRole,
+        from: string,
+        to: string
+    ): Outcome {
+        if (!this.roles.admin.has(sender) || !this.roles[role].has(from)) {
+            return {error: 'MissingRole'}
+        }
+        if (from === constants.AddressZero || to === constants.AddressZero) {
+            return {error: 'ZeroAddress'}
+        }
+
+        this.roles[role].delete(from)
+        this.roles[role].add(to)
+
+        if (role === 'submitter') {
+            for (const pending of this.pending.values()) {
+                if (pending.submitter === from) {
+                    pending.submitter = to
+                }
+            }
+        }
+        return {deltas: new Map()}
+    }
+
+    /**
+     * @param token of the reward, submitted with submitTokenJob (or the token
+     * variant of the other submissions) unless the zero address for ETH.
+     * @param payer of the reward, the relayer of a signed job.
+     */
+    public submitJob(
+        sender: string,
+        job: Job,
+        at: number,
+        token: string = constants.AddressZero,
+        payer: string = sender
+    ): Outcome {
+        if (!this.roles.submitter.has(sender)) {
+            return {error: 'MissingRole'}
+        }
+        if (job.value.isZero()) {
+            return {error: 'MissingReward'}
+        }
+        if (this.pending.has(job.txHash)) {
+            return {error: 'JobAlreadySubmitted'}
+        }
+
+        this.submitted.push(job)
+        this.submissions.set(
+            job.txHash,
+            (this.submissions.get(job.txHash) ?? 0) + 1
+        )
+        this.pending.set(job.txHash, {
+            job,
+            submitter: sender,
+            submittedAt: at,
+            expiry: 0,
+            token,
+            bestBid: job.value,
+            bestBidder: constants.AddressZero,
+            revealPeriod: 0,
+            sealedBids: new Map(),
+            runs: 0,
+            prerequisites: [],
+            prerequisiteSubmissions: []
+        })
+        return this.paid(token, [payer, job.value.mul(-1)])
+    }
+
+    public submitJobWithExpiry(
+        sender: string,
+        job: Job,
+        expiry: number,
+        at: number,
+        token: string = constants.AddressZero
+    ): Outcome {
+        if (!this.roles.submitter.has(sender)) {
+            return {error: 'MissingRole'}
+        }
+        if (job.value.isZero()) {
+            return {error: 'MissingReward'}
+        }
+        if (this.pending.has(job.txHash)) {
+            return {error: 'JobAlreadySubmitted'}
+        }
+        if (expiry < MIN_DELAY) {
+            return {error: 'ExpiryTooShort'}
+        }
+
+        const outcome = this.submitJob(sender, job, at, token)
+        const pending = this.pending.get(job.txHash)
+
+        if (pending) {
+            pending.expiry = expiry
+        }
+        return outcome
+    }
+
+    public submitJobWithPrerequisites(
+        sender: string,
+        job: Job,
+        prerequisites: string[],
+        at: number,
+        token: string = constants.AddressZero
+    ): Outcome {
+        if (!this.roles.submitter.has(sender)) {
+            return {error: 'MissingRole'}
+        }
+        if (job.value.isZero()) {
+            return {error: 'MissingReward'}
+        }
+        if (this.pending.has(job.txHash)) {
+            return {error: 'JobAlreadySubmitted'}
+        }
+        if (
+            prerequisites.some(
+                (txHash) =>
+                    txHash === job.txHash ||
+                    (!this.pending.has(txHash) && !this.executed.has(txHash))
+            )
+        ) {
+            return {error: 'UnknownPrerequisite'}
+        }
+
+        const outcome = this.submitJob(sender, job, at, token)
+        const pending = this.pending.get(job.txHash)
+
+        if (pending) {
+            pending.prerequisites = prerequisites
+            pending.prerequisiteSubmissions = prerequisites.map(
+                (txHash) => this.submissions.get(txHash) ?? 0
+            )
+        }
+        return outcome
+    }
+
+    public submitJobAuction(
+        sender: string,
+        job: AuctionJob,
+        at: number,
+        token: string = constants.AddressZero,
+        payer: string = sender
+    ): Outcome {
+        if (!this.roles.submitter.has(sender)) {
+            return {error: 'MissingRole'}
+        }
+        if (job.value.isZero()) {
+            return {error: 'MissingReward'}
+        }
+        if (job.timeout.lte(MIN_DELAY)) {
+            return {error: 'TimeoutTooShort'}
+        }
+
+        return this.submitJob(sender, job, at, token, payer)
+    }
+
+    public submitJobSealedAuction(
+        sender: string,
+        job: AuctionJob,
+        revealPeriod: number,
+        at: number
+    ): Outcome {
+        if (!this.roles.submitter.has(sender)) {
+            return {error: 'MissingRole'}
+        }
+        if (job.value.isZero()) {
+            return {error: 'MissingReward'}
+        }
+        if (job.timeout.lte(MIN_DELAY)) {
+            return {error: 'TimeoutTooShort'}
+        }
+        if (this.pending.has(job.txHash)) {
+            return {error: 'JobAlreadySubmitted'}
+        }
+        if (revealPeriod < MIN_DELAY) {
+            return {error: 'RevealPeriodTooShort'}
+        }
+
+        const outcome = this.submitJobAuction(sender, job, at)
+        const pending = this.pending.get(job.txHash)
+
+        if (pending) {
+            pending.revealPeriod = revealPeriod
+        }
+        return outcome
+    }
+
+    /**
+     * A plain or auction job relayed by the sender, signed by the signer on
+     * behalf of the submitter with the nonce, to be submitted by the deadline.
+     */
+    public submitJobBySig(
+        sender: string,
+        submitter: string,
+        signer: string,
+        job: Job,
+        nonce: number,
+        deadline: number,
+        at: number
+    ): Outcome {
+        if (at > deadline) {
+            return {error: 'SignatureExpired'}
+        }
+        if (signer !== submitter || nonce !== this.nonceOf(submitter)) {
+            return {error: 'InvalidSignature'}
+        }
+
+        const outcome = isAuctionJob(job)
+            ? this.submitJobAuction(
+                  submitter,
+                  job,
+                  at,
+                  constants.AddressZero,
+                  sender
+              )
+            : this.submitJob(submitter, job, at, constants.AddressZero, sender)
+
+        if ('deltas' in outcome) {
+            this.nonces.set(submitter, nonce + 1)
+        }
+        return outcome
+    }
+
+    public submitRecurringJob(
+        sender: string,
+        job: RecurringJob,
+        at: number,
+        token: string = constants.AddressZero
+    ): Outcome {
+        if (!this.roles.submitter.has(sender)) {
+            return {error: 'MissingRole'}
+        }
+        if (job.maxRuns.isZero()) {
+            return {error: 'MissingRuns'}
+        }
+        if (job.value.lt(job.maxRuns)) {
+            return {error: 'MissingReward'}
+        }
+        if (job.interval.lt(MIN_DELAY)) {
+            return {error: 'IntervalTooShort'}
+        }
+
+        return this.submitJob(sender, job, at, token)
+    }
+
+    /**
+     * Each job is submitted as by submitJob, a job failing leaving the others
+     * submitted and crediting its reward back to the sender.
+     */
+    public submitJobs(
+        sender: string,
+        jobs: Job[],
+        sent: BigNumber,
+        at: number
+    ): Outcome {
+        if (!this.roles.submitter.has(sender)) {
+            return {error: 'MissingRole'}
+        }
+
+        const total = jobs.reduce(
+            (sum, job) => sum.add(job.value),
+            BigNumber.from(0)
+        )
+
+        if (!sent.eq(total)) {
+            return {error: 'WrongBatchReward'}
+        }
+
+        return merged(
+            jobs.map((job) => {
+                const outcome = this.submitJob(sender, job, at)
+
+                return 'deltas' in outcome
+                    ? outcome
+                    : this.paid(
+                          constants.AddressZero,
+                          [sender, job.value.mul(-1)],
+                          [sender, job.value]
+                      )
+            })
+        )
+    }
+
+    public placeJobBid(
+        sender: string,
+        job: AuctionJob,
+        bid: BigNumber,
+        at: number
+    ): Outcome {
+        const pending = this.pending.get(job.txHash)
+
+        if (sender === this.submitterOf(job)) {
+            return {error: 'CallerIsSubmitter'}
+        }
+        if (!pending) {
+            return {error: 'JobNotSubmitted'}
+        }
+        if (pending.revealPeriod > 0) {
+            return {error: 'SealedAuction'}
+        }
+        if (at >= this.revealsAt(pending)) {
+            return {error: 'BiddingClosed'}
+        }
+        if (pending.bestBid.lte(bid)) {
+            return {error: 'BidNotLower'}
+        }
+
+        const previous = collateral(pending)
+        const deltas = this.paid(
+            pending.token,
+            [sender, job.value.sub(bid).mul(-1)],
+            [pending.bestBidder, previous]
+        )
+        pending.bestBid = bid
+        pending.bestBidder = sender
+        return deltas
+    }
+
+    /**
+     * Commits to the sealed bid, sending the collateral, which must be the
+     * maximum bid.
+     */
+    public commitJobBid(
+        sender: string,
+        job: AuctionJob,
+        sealed: ModelSealedBid,
+        sent: BigNumber,
+        at: number
+    ): Outcome {
+        const pending = this.pending.get(job.txHash)
+
+        if (sender === this.submitterOf(job)) {
+            return {error: 'CallerIsSubmitter'}
+        }
+        if (!pending) {
+            return {error: 'JobNotSubmitted'}
+        }
+        if (pending.revealPeriod === 0) {
+            return {error: 'NotSealedAuction'}
+        }
+        if (at >= this.revealsAt(pending)) {
+            return {error: 'BiddingClosed'}
+        }
+        if (pending.sealedBids.has(sender)) {
+            return {error: 'AlreadyCommitted'}
+        }
+        if (!sent.eq(job.value)) {
+            return {error: 'WrongCollateral'}
+        }
+
+        pending.sealedBids.set(sender, sealed)
+        return this.paid(pending.token, [sender, job.value.mul(-1)])
+    }
+
+    public revealJobBid(
+        sender: string,
+        job: AuctionJob,
+        revealed: ModelSealedBid,
+        at: number
+    ): Outcome {
+        const pending = this.pending.get(job.txHash)
+
+        if (!pending) {
+            return {error: 'JobNotSubmitted'}
+        }
+        if (pending.revealPeriod === 0) {
+            return {error: 'NotSealedAuction'}
+        }
+        if (at < this.revealsAt(pending)) {
+            return {error: 'RevealNotOpen'}
+        }
+        if (at >= this.maturesAt(pending)) {
+            return {error: 'RevealClosed'}
+        }
+
+        const sealed = pending.sealedBids.get(sender)
+
+        if (
+            !sealed ||
+            !sealed.bid.eq(revealed.bid) ||
+            sealed.salt !== revealed.salt
+        ) {
+            return {error: 'CommitmentMismatch'}
+        }
+
+        pending.sealedBids.delete(sender)
+        if (revealed.bid.gte(pending.bestBid)) {
+            return this.paid(pending.token, [sender, job.value])
+        }
+
+        const deltas = this.paid(pending.token, [
+            pending.bestBidder,
+            collateral(pending)
+        ])
+        pending.bestBid = revealed.bid
+        pending.bestBidder = sender
+        return deltas
+    }
+
+    public executeJob(sender: string, job: Job, at: number): Outcome {
+        if (!this.roles.executor.has(sender)) {
+            return {error: 'MissingRole'}
+        }
+
+        const pending = this.pending.get(job.txHash)
+
+        if (!pending) {
+            return {error: 'JobNotSubmitted'}
+        }
+        if (pending.expiry !== 0 && at >= this.expiresAt(pending)) {
+            return {error: 'JobExpired'}
+        }
+        if (at < this.maturesAt(pending)) {
+            return {error: 'DelayNotElapsed'}
+        }
+        if (
+            pending.prerequisites.some(
+                (txHash, index) =>
+                    (this.executedSubmission.get(txHash) ?? 0) <
+                    pending.prerequisiteSubmissions[index]
+            )
+        ) {
+            return {error: 'PrerequisiteNotExecuted'}
+        }
+
+        this.pending.delete(job.txHash)
+        this.setExecuted(job.txHash)
+        return this.paid(pending.token, [sender, job.value])
+    }
+
+    /**
+     * Each job is executed in order as by executeJob, a job failing leaving
+     * the others executed.
+     */
+    public executeJobs(sender: string, jobs: Job[], at: number): Outcome {
+        if (!this.roles.executor.has(sender)) {
+            return {error: 'MissingRole'}
+        }
+
+        return merged(jobs.map((job) => this.executeJob(sender, job, at)))
+    }
+
+    public cancelJob(sender: string, job: Job, at: number): Outcome {
+        const pending = this.pending.get(job.txHash)
+
+        if (!pending) {
+            return {error: 'JobNotSubmitted'}
+        }
+        if (sender !== this.submitterOf(job)) {
+            return {error: 'CallerNotSubmitter'}
+        }
+
+        const maturesAt = this.maturesAt(pending)
+
+        if (at >= maturesAt && at < maturesAt + CANCEL_GRACE_PERIOD) {
+            return {error: 'CancellationLocked'}
+        }
+
+        this.pending.delete(job.txHash)
+        return this.paid(pending.token, [sender, job.value])
+    }
+
+    public reclaimJob(sender: string, job: Job, at: number): Outcome {
+        const pending = this.pending.get(job.txHash)
+
+        if (!pending) {
+            return {error: 'JobNotSubmitted'}
+        }
+        if (sender !== this.submitterOf(job)) {
+            return {error: 'CallerNotSubmitter'}
+        }
+        if (pending.expiry === 0) {
+            return {error: 'JobWithoutExpiry'}
+        }
+        if (at < this.expiresAt(pending)) {
+            return {error: 'JobNotExpired'}
+        }
+
+        this.pending.delete(job.txHash)
+        return this.paid(pending.token, [sender, job.value])
+    }
+
+    public executeRecurringJob(
+        sender: string,
+        job: RecurringJob,
+        at: number
+    ): Outcome {
+        if (!this.roles.executor.has(sender)) {
+            return {error: 'MissingRole'}
+        }
+
+        const pending = this.pending.get(job.txHash)
+
+        if (!pending) {
+            return {error: 'JobNotSubmitted'}
+        }
+        if (at < this.maturesAt(pending)) {
+            return {error: 'DelayNotElapsed'}
+        }
+
+        const before = drawn(pending)
+        pending.runs += 1
+        if (job.maxRuns.eq(pending.runs)) {
+            this.pending.delete(job.txHash)
+            this.setExecuted(job.txHash)
+        }
+        return this.paid(pending.token, [sender, drawn(pending).sub(before)])
+    }
+
+    public cancelRecurringJob(
+        sender: string,
+        job: RecurringJob,
+        at: number
+    ): Outcome {
+        const pending = this.pending.get(job.txHash)
+
+        if (!pending) {
+            return {error: 'JobNotSubmitted'}
+        }
+        if (sender !== this.submitterOf(job)) {
+            return {error: 'CallerNotSubmitter'}
+        }
+
+        const nextRunAt = this.maturesAt(pending)
+
+        if (at >= nextRunAt && at < nextRunAt + CANCEL_GRACE_PERIOD) {
+            return {error: 'CancellationLocked'}
+        }
+
+        this.pending.delete(job.txHash)
+        return this.paid(pending.token, [sender, job.value.sub(drawn(pending))])
+    }
+
+    public executeJobBid(sender: string, job: AuctionJob, at: number): Outcome {
+        const pending = this.pending.get(job.txHash)
+        const submitter = this.submitterOf(job)
+
+        if (sender === submitter) {
+            return {error: 'CallerIsSubmitter'}
+        }
+        if (!pending) {
+            return {error: 'JobNotSubmitted'}
+        }
+        if (at >= this.maturesAt(pending) + job.timeout.toNumber()) {
+            return {error: 'AuctionExpired'}
+        }
+        if (at < this.maturesAt(pending)) {
+            return {error: 'DelayNotElapsed'}
+        }
+        if (pending.bestBidder !== sender) {
+            return {error: 'NotBestBidder'}
+        }
+
+        this.pending.delete(job.txHash)
+        this.setExecuted(job.txHash)
+        return this.paid(
+            pending.token,
+            [sender, collateral(pending).add(pending.bestBid)],
+            [submitter, job.value.sub(pending.bestBid).add(unrevealed(pending))]
+        )
+    }
+
+    public cancelJobAuction(
+        sender: string,
+        job: AuctionJob,
+        at: number
+    ): Outcome {
+        const pending = this.pending.get(job.txHash)
+
+        if (!pending) {
+            return {error: 'JobNotSubmitted'}
+        }
+        if (sender !== this.submitterOf(job)) {
+            return {error: 'CallerNotSubmitter'}
+        }
+        if (at < this.maturesAt(pending) + job.timeout.toNumber()) {
+            return {error: 'AuctionNotExpired'}
+        }
+
+        this.pending.delete(job.txHash)
+        return this.paid(
+            pending.token,
+            [pending.bestBidder, collateral(pending)],
+            [sender, job.value.add(unrevealed(pending))]
+        )
+    }
+
+    /**
+     * @param token withdrawn, by withdrawTokenTo unless the zero address for
+     * ETH.
+     */
+    public withdrawTo(
+        sender: string,
+        recipient: string,
+        token: string = constants.AddressZero
+    ): Outcome {
+        const amount = this.claimableOf(sender, token)
+
+        if (recipient === constants.AddressZero) {
+            return {error: 'ZeroAddress'}
+        }
+        if (amount.isZero()) {
+            return {error: 'NothingToWithdraw'}
+        }
+
+        this.claimable.get(token)?.delete(sender)
+        return inToken(token, {
+            deltas: new Map([
+                [recipient, amount],
+                [this.contract, amount.mul(-1)]
+            ])
+        })
+    }
+
+    /**
+     * Account owning the pending job, or the zero address once it is no longer
+     * pending.
+     */
+    public submitterOf(job: Job): string {
+        return this.pending.get(job.txHash)?.submitter ?? constants.AddressZero
+    }
+
+    public nonceOf(submitter: string): number {
+        return this.nonces.get(submitter) ?? 0
+    }
+
+    public claimableOf(
+        account: string,
+        token: string = constants.AddressZero
+    ): BigNumber {
+        return this.claimable.get(token)?.get(account) ?? BigNumber.from(0)
+    }
+
+    /**
+     * Maturity with the current delay, as the contract applies a delay update
+     * to jobs already submitted. For a recurring job, that of its next run,
+     * an interval after the run before, and for a sealed auction once its
+     * reveal period has passed.
+     */
+    public maturesAt(pending: ModelJob): number {
+        const runs = isRecurringJob(pending.job)
+            ? pending.job.interval.toNumber() * pending.runs
+            : 0
+
+        return pending.submittedAt + this.delay + runs + pending.revealPeriod
+    }
+
+    /**
+     * End of the bidding on an auction, when the reveals of a sealed auction
+     * open.
+     */
+    public revealsAt(pending: ModelJob): number {
+        return pending.submittedAt + this.delay
+    }
+
+    /**
+     * End of the execution window of a job submitted with an expiry.
+     */
+    public expiresAt(pending: ModelJob): number {
+        return this.maturesAt(pending) + pending.expiry
+    }
+
+    /**
+     * Records the current submission of the job as executed.
+     */
+    private setExecuted(txHash: string): void {
+        this.executed.add(txHash)
+        this.executedSubmission.set(txHash, this.submissions.get(txHash) ?? 0)
+    }
+
+    /**
+     * Deltas of the payments in the token from (negative) the accounts into
+     * the contract, with payments to (positive) the accounts credited to
+     * their claimable balance instead.
+     */
+    private paid(
+        token: string,
+        ...payments: Array<[string, BigNumber]>
+    ): Outcome {
+        const deltas = new Map<string, BigNumber>()
+        const claimable =
+            this.claimable.get(token) ?? new Map<string, BigNumber>()
+        let contract = BigNumber.from(0)
+
+        for (const [account, amount] of payments.filter(
+            ([payee, payment]) =>
+                payee !== constants.AddressZero && !payment.isZero()
+        )) {
+            if (amount.gt(0)) {
+                claimable.set(
+                    account,
+                    this.claimableOf(account, token).add(amount)
+                )
+            } else {
+                deltas.set(
+                    account,
+                    (deltas.get(account) ?? BigNumber.from(0)).add(amount)
+                )
+                contract = contract.sub(amount)
+            }
+        }
+
+        this.claimable.set(token, claimable)
+        deltas.set(this.contract, contract)
+        return inToken(token, {deltas})
+    }
+}
+
+/**
+ * Combined ETH deltas of the outcomes that succeeded.
+ */
+function merged(outcomes: Outcome[]): Outcome {
+    const deltas = new Map<string, BigNumber>()
+
+    for (const outcome of outcomes) {
+        if ('deltas' in outcome) {
+            outcome.deltas.forEach((delta, account) =>
+                deltas.set(
+                    account,
+                    (deltas.get(account) ?? BigNumber.from(0)).add(delta)
+                )
+            )
+        }
+    }
+    return {deltas}
+}
+
+/**
+ * The deltas, marked as in the token unless the zero address for ETH.
+ */
+function inToken(token: string, outcome: {deltas: Map<string, BigNumber>}) {
+    return token === constants.AddressZero ? outcome : {...outcome, token}
+}
+
+/**
+ * Budget the runs of a recurring job executed so far have drawn, an equal
+ * share each rounded down, the last drawing whatever remains.
+ */
+function drawn(pending: ModelJob): BigNumber {
+    return isRecurringJob(pending.job)
+        ? pending.job.value.mul(pending.runs).div(pending.job.maxRuns)
+        : BigNumber.from(0)
+}
+
+/**
+ * Collateral of the best bidder: the difference between the maximum bid
+ * escrowed by the submitter and the best bid, or for a sealed bid the whole
+ * maximum bid.
+ */
+function collateral(pending: ModelJob): BigNumber {
+    if (!isAuctionJob(pending.job)) {
+        return BigNumber.from(0)
+    }
+    if (pending.revealPeriod === 0) {
+        return pending.job.value.sub(pending.bestBid)
+    }
+
+    return pending.bestBidder === constants.AddressZero
+        ? BigNumber.from(0)
+        : pending.job.value
+}
+
+/**
+ * Collateral of the sealed bids yet to be revealed, the maximum bid each.
+ */
+function unrevealed(pending: ModelJob): BigNumber {
+    return pending.job.value.mul(pending.sealedBids.size)
+}
@@ -1,5 +1,17 @@
+import {ethers} from 'hardhat'
+import {utils} from 'ethers'
+import {DelayedJobs} from '../../typechain-types'
+import {DelayedJobsClient} from '../../src/client'
+import {AuctionJob, Job} from '../../src/job'
+
 const PAUSE_TIME_INCREMENT_MS = 100
 
+// JSON-RPC error code of a method the network does not have
+const METHOD_NOT_FOUND = -32601
+
+// Methods found missing from the network, so not tried again
+const unsupported = new Set<string>()
+
 /**
  * Whether the side effects being awaited have occurred.
  */
@@ -25,6 +37,177 @@ export async function occurrenceAtMost(
     }
 }
 
+/**
+ * Timestamp of the latest block.
+ */
+export async function now(): Promise<number> {
+    return (await ethers.provider.getBlock('latest')).timestamp
+}
+
+/**
+ * Mines the blocks, by hardhat_mine when the network supports it, otherwise
+ * one evm_mine at a time.
+ */
+export async function mine(blocks = 1): Promise<void> {
+    if (await send('hardhat_mine', [utils.hexValue(blocks)])) {
+        return
+    }
+
+    for (let i = 0; i < blocks; i++) {
+        await ethers.provider.send('evm_mine', [])
+    }
+}
+
+/**
+ * The next block (whether mined or from a transaction) has the timestamp.
+ */
+export async function setNextBlockTimestamp(timestamp: number): Promise<void> {
+    await ethers.provider.send('evm_setNextBlockTimestamp', [timestamp])
+}
+
+/**
+ * Mines a block the given seconds after the latest block.
+ *
+ * @return timestamp of the mined block.
+ */
+export async function advanceBy(seconds: number): Promise<number> {
+    return advanceTo((await now()) + seconds)
+}
+
+/**
+ * Mines a block at the timestamp, which must be after the latest block.
+ *
+ * @return timestamp of the mined block.
+ */
+export async function advanceTo(timestamp: number): Promise<number> {
+    await setNextBlockTimestamp(timestamp)
+    await mine()
+    return timestamp
+}
+
+/**
+ * Whether every transaction is mined into a block as it is sent.
+ */
+export async function setAutomine(enabled: boolean): Promise<void> {
+    await ethers.provider.send('evm_setAutomine', [enabled])
+}
+
+/**
+ * Mines a block every interval, or never when the interval is zero.
+ */
+export async function setIntervalMining(intervalMs: number): Promise<void> {
+    await ethers.provider.send('evm_setIntervalMining', [intervalMs])
+}
+
+/**
+ * The next block is at the maturity of the job (when its delay has just
+ * passed), adjusted by the offset seconds e.g. -1 for the last second
+ * before maturity.
+ *
+ * @return timestamp of the next block.
+ */
+export async function advanceToMaturity(
+    contract: DelayedJobs,
+    job: Job,
+    offsetSeconds = 0
+): Promise<number> {
+    const {maturesAt} = await new DelayedJobsClient(contract).status(job)
+    const timestamp = maturesAt.toNumber() + offsetSeconds
+
+    await setNextBlockTimestamp(timestamp)
+    return timestamp
+}
+
+/**
+ * The next block is at the expiry of the auction (delay + timeout after
+ * submission, when only cancellation remains), adjusted by the offset
+ * seconds e.g. -1 for the last second the winner may execute.
+ *
+ * @return timestamp of the next block.
+ */
+export async function advanceToAuctionExpiry(
+    contract: DelayedJobs,
+    job: AuctionJob,
+    offsetSeconds = 0
+): Promise<number> {
+    const {maturesAt} = await new DelayedJobsClient(contract).status(job)
+    const timestamp = maturesAt.add(job.timeout).toNumber() + offsetSeconds
+
+    await setNextBlockTimestamp(timestamp)
+    return timestamp
+}
+
+/**
+ * The next block is at the expiry of a plain job submitted with an expiry
+ * (its maturity plus the expiry, when only reclaiming remains), adjusted by
+ * the offset seconds e.g. -1 for the last second it may execute.
+ *
+ * @return timestamp of the next block.
+ */
+export async function advanceToExpiry(
+    contract: DelayedJobs,
+    job: Job,
+    offsetSeconds = 0
+): Promise<number> {
+    const {expiresAt} = await new DelayedJobsClient(contract).status(job)
+
+    if (!expiresAt) {
+        throw new Error(`Job ${job.txHash} has no expiry`)
+    }
+
+    const timestamp = expiresAt.toNumber() + offsetSeconds
+
+    await setNextBlockTimestamp(timestamp)
+    return timestamp
+}
+
+/**
+ * The next block is when the reveals of a sealed auction open (its delay
+ * after submission, when bidding closes), adjusted by the offset seconds e.g.
+ * -1 for the last second a bid may be committed.
+ *
+ * @return timestamp of the next block.
+ */
+export async function advanceToReveal(
+    contract: DelayedJobs,
+    job: AuctionJob,
+    offsetSeconds = 0
+): Promise<number> {
+    const {revealsAt} = await new DelayedJobsClient(contract).status(job)
+
+    if (!revealsAt) {
+        throw new Error(`Job ${job.txHash} is not a sealed auction`)
+    }
+
+    const timestamp = revealsAt.toNumber() + offsetSeconds
+
+    await setNextBlockTimestamp(timestamp)
+    return timestamp
+}
+
+/**
+ * Sends the JSON-RPC request, unless the network lacks the method.
+ *
+ * @return whether the network has the method.
+ */
+async function send(method: string, params: unknown[]): Promise<boolean> {
+    if (unsupported.has(method)) {
+        return false
+    }
+
+    try {
+        await ethers.provider.send(method, params)
+        return true
+    } catch (error) {
+        if ((error as {code?: unknown}).code !== METHOD_NOT_FOUND) {
+            throw error
+        }
+
+        unsupported.add(method)
+        return false
+    }
+}
+
 function sleep(ms: number): Promise<unknown> {
     return new Promise((resolve) => {
         setTimeout(resolve, ms)
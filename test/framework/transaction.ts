@@ -1,6 +1,12 @@
 import {expect} from 'chai'
-import {ContractTransaction} from 'ethers'
-import {ContractReceipt} from '@ethersproject/contracts/src.ts/index'
+import {ContractReceipt, ContractTransaction, utils} from 'ethers'
+import {
+    DecodedRevert,
+    RevertError,
+    decodeError,
+    formatRevert
+} from '../../src/revert'
+import {ContractError} from './errors'
 
 // Transaction status code https://eips.ethereum.org/EIPS/eip-1066
 const SUCCESS = 1
@@ -20,3 +26,46 @@ export async function successfulTransaction(
 
     return receipt
 }
+
+/**
+ * The expectation is a transaction (or call) reverted by the custom error.
+ *
+ * @param transaction sent transaction, waited on for its receipt.
+ * @param error expected custom error, from the catalogue in ./errors.
+ * @param args when given, the expected arguments of the error.
+ */
+export async function expectRevert(
+    transaction: Promise<unknown>,
+    error: ContractError,
+    ...args: unknown[]
+): Promise<void> {
+    const revert = await reverted(transaction, error)
+
+    expect(
+        revert?.kind === 'custom'
+            ? revert.name
+            : revert && formatRevert(revert),
+        `Expecting revert with ${error.signature}`
+    ).equals(error.name)
+
+    if (args.length > 0 && revert?.kind === 'custom') {
+        expect(revert.args.map(String)).deep.equals(args.map(String))
+    }
+}
+
+async function reverted(
+    transaction: Promise<unknown>,
+    error: ContractError
+): Promise<DecodedRevert | null> {
+    try {
+        const sent = await transaction
+        await (sent as Partial<ContractTransaction>).wait?.()
+        return null
+    } catch (thrown) {
+        return thrown instanceof RevertError
+            ? thrown.revert
+            : decodeError(thrown, [
+                  new utils.Interface([`error ${error.signature}`])
+              ])
+    }
+}
@@ -0,0 +1,1577 @@
+// Start - Support direct Mocha run & debug
+import {ethers} from 'hardhat'
+import '@nomiclabs/hardhat-ethers'
+// End - Support direct Mocha run & debug
+import {expect} from 'chai'
+import {before} from 'mocha'
+import fc from 'fast-check'
+import {
+    BigNumber,
+    ContractReceipt,
+    ContractTransaction,
+    Overrides,
+    constants,
+    utils
+} from 'ethers'
+import {SignerWithAddress} from '@nomiclabs/hardhat-ethers/signers'
+import {DelayedJobs, DelayedJobsV2, MockERC20} from '../typechain-types'
+import {
+    AuctionJob,
+    Job,
+    RecurringJob,
+    describeAuctionJob,
+    describeJob,
+    describeRecurringJob,
+    isAuctionJob,
+    isRecurringJob
+} from '../src/job'
+import {decodeError, formatRevert} from '../src/revert'
+import {JOB_ROLES, JobRole, roleId} from '../src/roles'
+import {bidCommitment} from '../src/sealed-bids'
+import {signJob} from '../src/signing'
+import {
+    FIXTURE_DELAY,
+    FIXTURE_TOKEN_DECIMALS,
+    deployContract,
+    execute,
+    fixture,
+    signer,
+    tokenDeployed
+} from './framework/contracts'
+import {balances, gasPaid} from './framework/balances'
+import {
+    DelayedJobsModel,
+    MAX_DELAY,
+    MIN_DELAY,
+    ModelSealedBid,
+    Outcome
+} from './framework/model'
+import {advanceBy, now, setNextBlockTimestamp} from './framework/time'
+
+// Sequences tried, override with FUZZ_RUNS and replay a failure with FUZZ_SEED
+const RUNS = Number(process.env.FUZZ_RUNS ?? 25)
+const SEED = process.env.FUZZ_SEED ? {seed: Number(process.env.FUZZ_SEED)} : {}
+
+// Most actions in a sequence
+const MAX_ACTIONS = 30
+
+// Sent without estimating, so failing transactions are also mined
+const GAS_LIMIT = 1000000
+
+const REWARD_UNIT = utils.parseUnits('0.1', 'ether')
+const TOKEN_REWARD_UNIT = utils.parseUnits('10', FIXTURE_TOKEN_DECIMALS)
+const SIGNATURE = 'identity()'
+
+// userA, userB and two further bidders
+const ACTORS = 4
+
+/**
+ * The deployed contract, the ERC-20 token of the token jobs, the
+ * implementation of the next version to upgrade to and the signers acting on
+ * them, in actor order.
+ */
+interface Real {
+    jobs: DelayedJobs
+    token: MockERC20
+    upgrade: DelayedJobsV2
+    actors: SignerWithAddress[]
+}
+
+type Action = fc.AsyncCommand<DelayedJobsModel, Real>
+
+describe('DelayedJobs fuzzing', () => {
+    before(async () => {
+        actors = []
+        for (let i = 0; i < ACTORS; i++) {
+            actors.push(await signer(i))
+        }
+    })
+
+    it('matches the reference model for any sequence of actions', async () => {
+        await fc.assert(
+            fc.asyncProperty(
+                fc.commands(actions, {
+                    maxCommands: MAX_ACTIONS,
+                    size: 'max'
+                }),
+                (commands) => fc.asyncModelRun(setup, commands)
+            ),
+            {numRuns: RUNS, ...SEED}
+        )
+    }).timeout(0)
+
+    async function setup(): Promise<{model: DelayedJobsModel; real: Real}> {
+        const {jobs, token, upgrade, userA, userB} = await approved()
+
+        return {
+            model: new DelayedJobsModel(
+                jobs.address,
+                userA.address,
+                userB.address,
+                FIXTURE_DELAY
+            ),
+            real: {jobs, token, upgrade, actors}
+        }
+    }
+
+    let actors: SignerWithAddress[]
+})
+
+/**
+ * Every actor has approved DelayedJobs to take any amount of its tokens, and
+ * the next version is deployed for upgrading to.
+ */
+const approved = fixture('fuzz approved', async () => {
+    const loaded = await tokenDeployed()
+    const upgrade = await deployContract<DelayedJobsV2>('DelayedJobsV2')
+
+    for (let i = 0; i < ACTORS; i++) {
+        await execute(
+            loaded.token
+                .connect(await signer(i))
+                .approve(loaded.jobs.address, constants.MaxUint256)
+        )
+    }
+
+    return {...loaded, upgrade}
+})
+
+// Actor of each role: userA, userB and the bidders
+const USER_A = 0
+const USER_B = 1
+const BIDDER = fc.integer({min: USER_B, max: ACTORS - 1})
+
+/**
+ * Mostly the expected actor, otherwise any (to also cover the wrong caller).
+ */
+function actor(expected: fc.Arbitrary<number>): fc.Arbitrary<number> {
+    return fc.oneof(
+        {arbitrary: expected, weight: 4},
+        {arbitrary: fc.nat({max: ACTORS - 1}), weight: 1}
+    )
+}
+
+const reward = fc.nat({max: 5}).map((units) => REWARD_UNIT.mul(units))
+const tokenReward = fc
+    .nat({max: 5})
+    .map((units) => TOKEN_REWARD_UNIT.mul(units))
+const jobIndex = fc.nat()
+
+/**
+ * An action in the sequence, described by its call in the counterexample.
+ */
+class Step implements Action {
+    private readonly _description: string
+    private readonly _applicable: (model: Readonly<DelayedJobsModel>) => boolean
+    private readonly _perform: (
+        model: DelayedJobsModel,
+        real: Real
+    ) => Promise<void>
+
+    constructor(
+        description: string,
+        perform: (model: DelayedJobsModel, real: Real) => Promise<void>,
+        applicable: (model: Readonly<DelayedJobsModel>) => boolean = () => true
+    ) {
+        this._description = description
+        this._perform = perform
+        this._applicable = applicable
+    }
+
+    public check(model: Readonly<DelayedJobsModel>): boolean {
+        return this._applicable(model)
+    }
+
+    public run(model: DelayedJobsModel, real: Real): Promise<void> {
+        return this._perform(model, real)
+    }
+
+    public toString(): string {
+        return this._description
+    }
+}
+
+/**
+ * Submits a job with an ETH reward, or by submitTokenJob with a token reward.
+ */
+function submitJob(sender: number, value: BigNumber, inToken = false): Step {
+    return new Step(
+        `${inToken ? 'submitTokenJob' : 'submitJob'}(${sender}, ${amount(
+            value,
+            inToken
+        )})`,
+        (model, real) => {
+            const job = describeJob(
+                real.jobs.address,
+                value,
+                SIGNATURE,
+                uniqueData(model)
+            )
+            const token = inToken ? real.token.address : constants.AddressZero
+
+            return act(
+                model,
+                real,
+                sender,
+                (account, at) => model.submitJob(account, job, at, token),
+                (jobs, overrides) =>
+                    inToken
+                        ? jobs.submitTokenJob(
+                              job.target,
+                              job.signature,
+                              job.data,
+                              token,
+                              job.value,
+                              overrides
+                          )
+                        : jobs.submitJob(job.target, job.signature, job.data, {
+                              ...overrides,
+                              value: job.value
+                          })
+            )
+        }
+    )
+}
+
+function submitJobWithExpiry(
+    sender: number,
+    value: BigNumber,
+    expiry: number,
+    inToken = false
+): Step {
+    return new Step(
+        `${
+            inToken ? 'submitTokenJobWithExpiry' : 'submitJobWithExpiry'
+        }(${sender}, ${amount(value, inToken)}, ${expiry})`,
+        (model, real) => {
+            const job = describeJob(
+                real.jobs.address,
+                value,
+                SIGNATURE,
+                uniqueData(model)
+            )
+            const token = inToken ? real.token.address : constants.AddressZero
+
+            return act(
+                model,
+                real,
+                sender,
+                (account, at) =>
+                    model.submitJobWithExpiry(account, job, expiry, at, token),
+                (jobs, overrides) =>
+                    inToken
+                        ? jobs.submitTokenJobWithExpiry(
+                              job.target,
+                              job.signature,
+                              job.data,
+                              expiry,
+                              token,
+                              job.value,
+                              overrides
+                          )
+                        : jobs.submitJobWithExpiry(
+                              job.target,
+                              job.signature,
+                              job.data,
+                              expiry,
+                              {...overrides, value: job.value}
+                          )
+            )
+        }
+    )
+}
+
+/**
+ * Submits a job executing after the submitted jobs at the indices, and after
+ * a job never submitted when unknown, with an ETH or a token reward.
+ */
+function submitJobWithPrerequisites(
+    sender: number,
+    value: BigNumber,
+    indices: number[],
+    unknown: boolean,
+    inToken = false
+): Step {
+    return new Step(
+        `${
+            inToken
+                ? 'submitTokenJobWithPrerequisites'
+                : 'submitJobWithPrerequisites'
+        }(${sender}, ${amount(value, inToken)}, [${indices
+            .map((index) => `#${index}`)
+            .concat(unknown ? ['unknown'] : [])
+            .join(', ')}])`,
+        (model, real) => {
+            const job = describeJob(
+                real.jobs.address,
+                value,
+                SIGNATURE,
+                uniqueData(model)
+            )
+            const token = inToken ? real.token.address : constants.AddressZero
+            const prerequisites = (
+                model.submitted.length > 0
+                    ? indices.map(
+                          (index) => pick(model.submitted, index).txHash
+                      )
+                    : []
+            ).concat(unknown ? [utils.id('unknown prerequisite')] : [])
+
+            return act(
+                model,
+                real,
+                sender,
+                (account, at) =>
+                    model.submitJobWithPrerequisites(
+                        account,
+                        job,
+                        prerequisites,
+                        at,
+                        token
+                    ),
+                (jobs, overrides) =>
+                    inToken
+                        ? jobs.submitTokenJobWithPrerequisites(
+                              job.target,
+                              job.signature,
+                              job.data,
+                              prerequisites,
+                              token,
+                              job.value,
+                              overrides
+                          )
+                        : jobs.submitJobWithPrerequisites(
+                              job.target,
+                              job.signature,
+                              job.data,
+                              prerequisites,
+                              {...overrides, value: job.value}
+                          )
+            )
+        }
+    )
+}
+
+/**
+ * How a relayed job is signed: as its submitter would, by another actor, past
+ * its deadline or with a nonce other than the next.
+ */
+type Signing = 'valid' | 'forged' | 'expired' | 'wrong nonce'
+
+/**
+ * Relays a plain job, or an auction job when given a timeout, signed for the
+ * submitter.
+ */
+function submitJobBySig(
+    sender: number,
+    submitter: number,
+    value: BigNumber,
+    timeout: number,
+    signing: Signing
+): Step {
+    return new Step(
+        `${
+            timeout > 0 ? 'submitJobAuctionBySig' : 'submitJobBySig'
+        }(${sender}, ${submitter}, ${amount(value, false)}, ${
+            timeout > 0 ? `${timeout}, ` : ''
+        }${signing})`,
+        async (model, real) => {
+            const data = uniqueData(model)
+            const job =
+                timeout > 0
+                    ? describeAuctionJob(
+                          real.jobs.address,
+                          value,
+                          SIGNATURE,
+                          data,
+                          timeout
+                      )
+                    : describeJob(real.jobs.address, value, SIGNATURE, data)
+            const account = real.actors[submitter].address
+            const signedBy =
+                real.actors[
+                    signing === 'forged' ? (submitter + 1) % ACTORS : submitter
+                ]
+            const nonce =
+                model.nonceOf(account) + (signing === 'wrong nonce' ? 1 : 0)
+            // The next block is a second later than the latest
+            const deadline = (await now()) + (signing === 'expired' ? 0 : 60)
+            const {sig} = await signJob(
+                real.jobs,
+                signedBy,
+                job,
+                deadline,
+                nonce
+            )
+
+            return act(
+                model,
+                real,
+                sender,
+                (relayer, at) =>
+                    model.submitJobBySig(
+                        relayer,
+                        account,
+                        signedBy.address,
+                        job,
+                        nonce,
+                        deadline,
+                        at
+                    ),
+                (jobs, overrides) =>
+                    isAuctionJob(job)
+                        ? jobs.submitJobAuctionBySig(
+                              job.target,
+                              job.signature,
+                              job.data,
+                              job.timeout,
+                              account,
+                              deadline,
+                              sig,
+                              {...overrides, value: job.value}
+                          )
+                        : jobs.submitJobBySig(
+                              job.target,
+                              job.signature,
+                              job.data,
+                              account,
+                              deadline,
+                              sig,
+                              {...overrides, value: job.value}
+                          )
+            )
+        }
+    )
+}
+
+function submitJobAuction(
+    sender: number,
+    value: BigNumber,
+    timeout: number,
+    inToken = false
+): Step {
+    return new Step(
+        `${
+            inToken ? 'submitTokenJobAuction' : 'submitJobAuction'
+        }(${sender}, ${amount(value, inToken)}, ${timeout})`,
+        (model, real) => {
+            const job = describeAuctionJob(
+                real.jobs.address,
+                value,
+                SIGNATURE,
+                uniqueData(model),
+                timeout
+            )
+            const token = inToken ? real.token.address : constants.AddressZero
+
+            return act(
+                model,
+                real,
+                sender,
+                (account, at) =>
+                    model.submitJobAuction(account, job, at, token),
+                (jobs, overrides) =>
+                    inToken
+                        ? jobs.submitTokenJobAuction(
+                              job.target,
+                              job.signature,
+                              job.data,
+                              job.timeout,
+                              token,
+                              job.value,
+                              overrides
+                          )
+                        : jobs.submitJobAuction(
+                              job.target,
+                              job.signature,
+                              job.data,
+                              job.timeout,
+                              {...overrides, value: job.value}
+                          )
+            )
+        }
+    )
+}
+
+function submitJobSealedAuction(
+    sender: number,
+    value: BigNumber,
+    timeout: number,
+    revealPeriod: number
+): Step {
+    return new Step(
+        `submitJobSealedAuction(${sender}, ${amount(
+            value,
+            false
+        )}, ${timeout}, ${revealPeriod})`,
+        (model, real) => {
+            const job = describeAuctionJob(
+                real.jobs.address,
+                value,
+                SIGNATURE,
+                uniqueData(model),
+                timeout
+            )
+
+            return act(
+                model,
+                real,
+                sender,
+                (account, at) =>
+                    model.submitJobSealedAuction(
+                        account,
+                        job,
+                        revealPeriod,
+                        at
+                    ),
+                (jobs, overrides) =>
+                    jobs.submitJobSealedAuction(
+                        job.target,
+                        job.signature,
+                        job.data,
+                        job.timeout,
+                        revealPeriod,
+                        {...overrides, value: job.value}
+                    )
+            )
+        }
+    )
+}
+
+function submitRecurringJob(
+    sender: number,
+    value: BigNumber,
+    interval: number,
+    maxRuns: number,
+    inToken = false
+): Step {
+    return new Step(
+        `${
+            inToken ? 'submitTokenRecurringJob' : 'submitRecurringJob'
+        }(${sender}, ${amount(value, inToken)}, ${interval}, ${maxRuns})`,
+        (model, real) => {
+            const job = describeRecurringJob(
+                real.jobs.address,
+                value,
+                SIGNATURE,
+                uniqueData(model),
+                interval,
+                maxRuns
+            )
+            const token = inToken ? real.token.address : constants.AddressZero
+
+            return act(
+                model,
+                real,
+                sender,
+                (account, at) =>
+                    model.submitRecurringJob(account, job, at, token),
+                (jobs, overrides) =>
+                    inToken
+                        ? jobs.submitTokenRecurringJob(
+                              job.target,
+                              job.signature,
+                              job.data,
+                              job.interval,
+                              job.maxRuns,
+                              token,
+                              job.value,
+                              overrides
+                          )
+                        : jobs.submitRecurringJob(
+                              job.target,
+                              job.signature,
+                              job.data,
+                              job.interval,
+                              job.maxRuns,
+                              {...overrides, value: job.value}
+                          )
+            )
+        }
+    )
+}
+
+/**
+ * Bids the percentage of the best bid (100 being no lower) on an auction,
+ * sending the collateral as ETH unless the auction is in the token (as bids
+ * on auctions no longer pending revert whatever is sent).
+ */
+/**
+ * Submits a batch of jobs with ETH rewards, sending their combined reward,
+ * with the first job listed again at the end when repeated.
+ */
+function submitJobs(
+    sender: number,
+    values: BigNumber[],
+    repeated: boolean
+): Step {
+    return new Step(
+        `submitJobs(${sender}, [${values
+            .map((value) => amount(value, false))
+            .join(', ')}]${repeated ? ', repeated' : ''})`,
+        (model, real) => {
+            const fresh = values.map((value, i) =>
+                describeJob(
+                    real.jobs.address,
+                    value,
+                    SIGNATURE,
+                    utils.hexConcat([uniqueData(model), utils.hexlify(i)])
+                )
+            )
+            const batch = repeated ? [...fresh, fresh[0]] : fresh
+            const total = batch.reduce(
+                (sum, job) => sum.add(job.value),
+                BigNumber.from(0)
+            )
+
+            return act(
+                model,
+                real,
+                sender,
+                (account, at) => model.submitJobs(account, batch, total, at),
+                (jobs, overrides) =>
+                    jobs.submitJobs(
+                        batch.map((job) => job.target),
+                        batch.map((job) => job.value),
+                        batch.map((job) => job.signature),
+                        batch.map((job) => job.data),
+                        {...overrides, value: total}
+                    )
+            )
+        }
+    )
+}
+
+/**
+ * Submits a plain job submitted before once more, identically, whether or not
+ * it is still pending.
+ */
+function resubmitJob(sender: number, index: number): Step {
+    return new Step(
+        `resubmitJob(${sender}, #${index})`,
+        (model, real) => {
+            const job = pick(plainJobs(model), index)
+
+            return act(
+                model,
+                real,
+                sender,
+                (account, at) => model.submitJob(account, job, at),
+                (jobs, overrides) =>
+                    jobs.submitJob(job.target, job.signature, job.data, {
+                        ...overrides,
+                        value: job.value
+                    })
+            )
+        },
+        (model) => plainJobs(model).length > 0
+    )
+}
+
+/**
+ * Submits an auction job (open or sealed) submitted before once more as an
+ * open auction, whether or not it is still pending.
+ */
+function resubmitJobAuction(sender: number, index: number): Step {
+    return new Step(
+        `resubmitJobAuction(${sender}, #${index})`,
+        (model, real) => {
+            const job = pick(auctions(model), index)
+
+            return act(
+                model,
+                real,
+                sender,
+                (account, at) => model.submitJobAuction(account, job, at),
+                (jobs, overrides) =>
+                    jobs.submitJobAuction(
+                        job.target,
+                        job.signature,
+                        job.data,
+                        job.timeout,
+                        {...overrides, value: job.value}
+                    )
+            )
+        },
+        (model) => auctions(model).length > 0
+    )
+}
+
+function placeJobBid(sender: number, index: number, percent: number): Step {
+    return new Step(
+        `placeJobBid(${sender}, #${index}, ${percent}%)`,
+        (model, real) => {
+            const job = pick(auctions(model), index)
+            const pending = model.pending.get(job.txHash)
+            const best = pending?.bestBid ?? job.value
+            const bid = best.mul(percent).div(100)
+            const inToken = pending && pending.token !== constants.AddressZero
+
+            return act(
+                model,
+                real,
+                sender,
+                (account, at) => model.placeJobBid(account, job, bid, at),
+                (jobs, overrides) =>
+                    jobs.placeJobBid(
+                        job.target,
+                        job.value,
+                        bid,
+                        job.signature,
+                        job.data,
+                        job.timeout,
+                        {...overrides, value: inToken ? 0 : job.value.sub(bid)}
+                    )
+            )
+        },
+        (model) => auctions(model).length > 0
+    )
+}
+
+/**
+ * Commits to a sealed bid of the percentage of the maximum bid (100 or more
+ * being invalid) on an auction, sending the maximum bid as collateral, or one
+ * wei short of it.
+ */
+function commitJobBid(
+    sender: number,
+    index: number,
+    percent: number,
+    fullCollateral: boolean
+): Step {
+    return new Step(
+        `commitJobBid(${sender}, #${index}, ${percent}%${
+            fullCollateral ? '' : ', short'
+        })`,
+        (model, real) => {
+            const job = pick(auctions(model), index)
+            const sealed: ModelSealedBid = {
+                bid: job.value.mul(percent).div(100),
+                salt: utils.id(`salt of ${sender} at ${percent}%`)
+            }
+            const sent = fullCollateral ? job.value : job.value.sub(1)
+
+            return act(
+                model,
+                real,
+                sender,
+                (account, at) =>
+                    model.commitJobBid(account, job, sealed, sent, at),
+                (jobs, overrides) =>
+                    jobs.commitJobBid(
+                        job.target,
+                        job.value,
+                        job.signature,
+                        job.data,
+                        job.timeout,
+                        bidCommitment(
+                            job,
+                            real.actors[sender].address,
+                            sealed.bid,
+                            sealed.salt
+                        ),
+                        {...overrides, value: sent}
+                    )
+            )
+        },
+        (model) => auctions(model).length > 0
+    )
+}
+
+/**
+ * Reveals the sealed bid the actor committed on an auction, or when not
+ * honest, with another salt.
+ */
+function revealJobBid(sender: number, index: number, honest: boolean): Step {
+    return new Step(
+        `revealJobBid(${sender}, #${index}${honest ? '' : ', wrong salt'})`,
+        (model, real) => {
+            const job = pick(auctions(model), index)
+            const committed = model.pending
+                .get(job.txHash)
+                ?.sealedBids.get(real.actors[sender].address) ?? {
+                bid: BigNumber.from(0),
+                salt: utils.id('never committed')
+            }
+            const revealed = honest
+                ? committed
+                : {...committed, salt: utils.id('wrong salt')}
+
+            return act(
+                model,
+                real,
+                sender,
+                (account, at) => model.revealJobBid(account, job, revealed, at),
+                (jobs, overrides) =>
+                    jobs.revealJobBid(
+                        job.target,
+                        job.value,
+                        job.signature,
+                        job.data,
+                        job.timeout,
+                        revealed.bid,
+                        revealed.salt,
+                        overrides
+                    )
+            )
+        },
+        (model) => auctions(model).length > 0
+    )
+}
+
+function executeJob(sender: number, index: number): Step {
+    return new Step(
+        `executeJob(${sender}, #${index})`,
+        (model, real) => {
+            const job = pick(plainJobs(model), index)
+
+            return act(
+                model,
+                real,
+                sender,
+                (account, at) => model.executeJob(account, job, at),
+                (jobs, overrides) =>
+                    jobs.executeJob(
+                        job.target,
+                        job.value,
+                        job.signature,
+                        job.data,
+                        overrides
+                    )
+            )
+        },
+        (model) => plainJobs(model).length > 0
+    )
+}
+
+function executeJobs(sender: number, indices: number[]): Step {
+    return new Step(
+        `executeJobs(${sender}, [${indices
+            .map((index) => `#${index}`)
+            .join(', ')}])`,
+        (model, real) => {
+            const batch = indices.map((index) => pick(plainJobs(model), index))
+
+            return act(
+                model,
+                real,
+                sender,
+                (account, at) => model.executeJobs(account, batch, at),
+                (jobs, overrides) =>
+                    jobs.executeJobs(
+                        batch.map((job) => job.target),
+                        batch.map((job) => job.value),
+                        batch.map((job) => job.signature),
+                        batch.map((job) => job.data),
+                        overrides
+                    )
+            )
+        },
+        (model) => plainJobs(model).length > 0
+    )
+}
+
+function cancelJob(sender: number, index: number): Step {
+    return new Step(
+        `cancelJob(${sender}, #${index})`,
+        (model, real) => {
+            const job = pick(plainJobs(model), index)
+
+            return act(
+                model,
+                real,
+                sender,
+                (account, at) => model.cancelJob(account, job, at),
+                (jobs, overrides) =>
+                    jobs.cancelJob(
+                        job.target,
+                        job.value,
+                        job.signature,
+                        job.data,
+                        overrides
+                    )
+            )
+        },
+        (model) => plainJobs(model).length > 0
+    )
+}
+
+function reclaimJob(sender: number, index: number): Step {
+    return new Step(
+        `reclaimJob(${sender}, #${index})`,
+        (model, real) => {
+            const job = pick(plainJobs(model), index)
+
+            return act(
+                model,
+                real,
+                sender,
+                (account, at) => model.reclaimJob(account, job, at),
+                (jobs, overrides) =>
+                    jobs.reclaimJob(
+                        job.target,
+                        job.value,
+                        job.signature,
+                        job.data,
+                        overrides
+                    )
+            )
+        },
+        (model) => plainJobs(model).length > 0
+    )
+}
+
+function executeJobBid(sender: number, index: number): Step {
+    return new Step(
+        `executeJobBid(${sender}, #${index})`,
+        (model, real) => {
+            const job = pick(auctions(model), index)
+
+            return act(
+                model,
+                real,
+                sender,
+                (account, at) => model.executeJobBid(account, job, at),
+                (jobs, overrides) =>
+                    jobs.executeJobBid(
+                        job.target,
+                        job.value,
+                        job.signature,
+                        job.data,
+                        job.timeout,
+                        overrides
+                    )
+            )
+        },
+        (model) => auctions(model).length > 0
+    )
+}
+
+function cancelJobAuction(sender: number, index: number): Step {
+    return new Step(
+        `cancelJobAuction(${sender}, #${index})`,
+        (model, real) => {
+            const job = pick(auctions(model), index)
+
+            return act(
+                model,
+                real,
+                sender,
+                (account, at) => model.cancelJobAuction(account, job, at),
+                (jobs, overrides) =>
+                    jobs.cancelJobAuction(
+                        job.target,
+                        job.value,
+                        job.signature,
+                        job.data,
+                        job.timeout,
+                        overrides
+                    )
+            )
+        },
+        (model) => auctions(model).length > 0
+    )
+}
+
+function executeRecurringJob(sender: number, index: number): Step {
+    return new Step(
+        `executeRecurringJob(${sender}, #${index})`,
+        (model, real) => {
+            const job = pick(recurringJobs(model), index)
+
+            return act(
+                model,
+                real,
+                sender,
+                (account, at) => model.executeRecurringJob(account, job, at),
+                (jobs, overrides) =>
+                    jobs.executeRecurringJob(
+                        job.target,
+                        job.value,
+                        job.signature,
+                        job.data,
+                        job.interval,
+                        job.maxRuns,
+                        overrides
+                    )
+            )
+        },
+        (model) => recurringJobs(model).length > 0
+    )
+}
+
+function cancelRecurringJob(sender: number, index: number): Step {
+    return new Step(
+        `cancelRecurringJob(${sender}, #${index})`,
+        (model, real) => {
+            const job = pick(recurringJobs(model), index)
+
+            return act(
+                model,
+                real,
+                sender,
+                (account, at) => model.cancelRecurringJob(account, job, at),
+                (jobs, overrides) =>
+                    jobs.cancelRecurringJob(
+                        job.target,
+                        job.value,
+                        job.signature,
+                        job.data,
+                        job.interval,
+                        job.maxRuns,
+                        overrides
+                    )
+            )
+        },
+        (model) => recurringJobs(model).length > 0
+    )
+}
+
+function updateDelay(sender: number, delay: number): Step {
+    return new Step(`updateDelay(${sender}, ${delay})`, (model, real) =>
+        act(
+            model,
+            real,
+            sender,
+            (account) => model.updateDelay(account, delay),
+            (jobs, overrides) => jobs.updateDelay(delay, overrides)
+        )
+    )
+}
+
+/**
+ * Upgrades the proxy to the next version, whatever it was upgraded to before.
+ */
+function upgradeTo(sender: number): Step {
+    return new Step(`upgradeTo(${sender})`, (model, real) =>
+        act(
+            model,
+            real,
+            sender,
+            (account) => model.upgradeTo(account),
+            (jobs, overrides) => jobs.upgradeTo(real.upgrade.address, overrides)
+        )
+    )
+}
+
+function rotateRole(
+    sender: number,
+    role: JobRole,
+    from: number,
+    to: number
+): Step {
+    return new Step(
+        `rotateRole(${sender}, ${role}, ${from}, ${to})`,
+        (model, real) => {
+            const [fromAccount, toAccount] = [from, to].map(
+                (index) => real.actors[index].address
+            )
+
+            return act(
+                model,
+                real,
+                sender,
+                (account) =>
+                    model.rotateRole(account, role, fromAccount, toAccount),
+                (jobs, overrides) =>
+                    jobs.rotateRole(
+                        roleId(role),
+                        fromAccount,
+                        toAccount,
+                        overrides
+                    )
+            )
+        }
+    )
+}
+
+/**
+ * Withdraws the claimable ETH (or token) balance of the sender to the
+ * recipient, by withdraw() (or withdrawToken()) when they are the same actor.
+ */
+function withdrawTo(sender: number, recipient: number, inToken = false): Step {
+    return new Step(
+        `${
+            inToken ? 'withdrawTokenTo' : 'withdrawTo'
+        }(${sender}, ${recipient})`,
+        (model, real) => {
+            const to = real.actors[recipient].address
+            const token = inToken ? real.token.address : constants.AddressZero
+
+            return act(
+                model,
+                real,
+                sender,
+                (account) => model.withdrawTo(account, to, token),
+                (jobs, overrides) => {
+                    if (inToken) {
+                        return sender === recipient
+                            ? jobs.withdrawToken(token, overrides)
+                            : jobs.withdrawTokenTo(token, to, overrides)
+                    }
+
+                    return sender === recipient
+                        ? jobs.withdraw(overrides)
+                        : jobs.withdrawTo(to, overrides)
+                }
+            )
+        }
+    )
+}
+
+function timeJump(seconds: number): Step {
+    return new Step(`timeJump(${seconds})`, async () => {
+        await advanceBy(seconds)
+    })
+}
+
+const actions = [
+    fc
+        .tuple(actor(fc.constant(USER_A)), reward)
+        .map((args) => submitJob(...args)),
+    fc
+        .tuple(actor(fc.constant(USER_A)), tokenReward)
+        .map((args) => submitJob(...args, true)),
+    fc
+        .tuple(
+            actor(fc.constant(USER_A)),
+            reward,
+            fc.constantFrom(MIN_DELAY - 1, MIN_DELAY, 2 * MIN_DELAY)
+        )
+        .map((args) => submitJobWithExpiry(...args)),
+    fc
+        .tuple(
+            actor(fc.constant(USER_A)),
+            tokenReward,
+            fc.constantFrom(MIN_DELAY - 1, MIN_DELAY, 2 * MIN_DELAY)
+        )
+        .map((args) => submitJobWithExpiry(...args, true)),
+    fc
+        .tuple(
+            actor(fc.constant(USER_A)),
+            reward,
+            fc.array(jobIndex, {maxLength: 2}),
+            fc.boolean()
+        )
+        .map((args) => submitJobWithPrerequisites(...args)),
+    fc
+        .tuple(
+            actor(fc.constant(USER_A)),
+            tokenReward,
+            fc.array(jobIndex, {maxLength: 2}),
+            fc.boolean()
+        )
+        .map((args) => submitJobWithPrerequisites(...args, true)),
+    fc
+        .tuple(
+            actor(fc.constant(USER_A)),
+            reward,
+            fc.constantFrom(MIN_DELAY, MIN_DELAY + 1, 2 * MIN_DELAY)
+        )
+        .map((args) => submitJobAuction(...args)),
+    fc
+        .tuple(
+            actor(fc.constant(USER_A)),
+            tokenReward,
+            fc.constantFrom(MIN_DELAY, MIN_DELAY + 1, 2 * MIN_DELAY)
+        )
+        .map((args) => submitJobAuction(...args, true)),
+    fc
+        .tuple(
+            actor(fc.constant(USER_A)),
+            reward,
+            fc.constantFrom(MIN_DELAY + 1, 2 * MIN_DELAY),
+            fc.constantFrom(MIN_DELAY - 1, MIN_DELAY, 2 * MIN_DELAY)
+        )
+        .map((args) => submitJobSealedAuction(...args)),
+    fc
+        .tuple(
+            fc.nat({max: ACTORS - 1}),
+            actor(fc.constant(USER_A)),
+            reward,
+            fc.constantFrom(0, MIN_DELAY + 1),
+            fc.constantFrom<Signing>(
+                'valid',
+                'valid',
+                'forged',
+                'expired',
+                'wrong nonce'
+            )
+        )
+        .map((args) => submitJobBySig(...args)),
+    fc
+        .tuple(
+            actor(fc.constant(USER_A)),
+            reward,
+            fc.constantFrom(MIN_DELAY - 1, MIN_DELAY, 2 * MIN_DELAY),
+            fc.constantFrom(0, 1, 3)
+        )
+        .map((args) => submitRecurringJob(...args)),
+    fc
+        .tuple(
+            actor(fc.constant(USER_A)),
+            tokenReward,
+            fc.constantFrom(MIN_DELAY - 1, MIN_DELAY, 2 * MIN_DELAY),
+            fc.constantFrom(0, 1, 3)
+        )
+        .map((args) => submitRecurringJob(...args, true)),
+    fc
+        .tuple(
+            actor(fc.constant(USER_A)),
+            fc.array(reward, {minLength: 1, maxLength: 3}),
+            fc.boolean()
+        )
+        .map((args) => submitJobs(...args)),
+    fc
+        .tuple(actor(fc.constant(USER_A)), jobIndex)
+        .map((args) => resubmitJob(...args)),
+    fc
+        .tuple(actor(fc.constant(USER_A)), jobIndex)
+        .map((args) => resubmitJobAuction(...args)),
+    fc
+        .tuple(actor(BIDDER), jobIndex, fc.integer({min: 0, max: 100}))
+        .map((args) => placeJobBid(...args)),
+    fc
+        .tuple(
+            actor(BIDDER),
+            jobIndex,
+            fc.integer({min: 0, max: 110}),
+            fc.constantFrom(true, true, true, false)
+        )
+        .map((args) => commitJobBid(...args)),
+    fc
+        .tuple(actor(BIDDER), jobIndex, fc.constantFrom(true, true, false))
+        .map((args) => revealJobBid(...args)),
+    fc
+        .tuple(actor(fc.constant(USER_B)), jobIndex)
+        .map((args) => executeJob(...args)),
+    fc
+        .tuple(
+            actor(fc.constant(USER_B)),
+            fc.array(jobIndex, {minLength: 1, maxLength: 3})
+        )
+        .map((args) => executeJobs(...args)),
+    fc
+        .tuple(actor(fc.constant(USER_A)), jobIndex)
+        .map((args) => cancelJob(...args)),
+    fc
+        .tuple(actor(fc.constant(USER_A)), jobIndex)
+        .map((args) => reclaimJob(...args)),
+    fc.tuple(actor(BIDDER), jobIndex).map((args) => executeJobBid(...args)),
+    fc
+        .tuple(actor(fc.constant(USER_B)), jobIndex)
+        .map((args) => executeRecurringJob(...args)),
+    fc
+        .tuple(actor(fc.constant(USER_A)), jobIndex)
+        .map((args) => cancelRecurringJob(...args)),
+    fc
+        .tuple(actor(fc.constant(USER_A)), jobIndex)
+        .map((args) => cancelJobAuction(...args)),
+    fc
+        .tuple(
+            actor(fc.constant(USER_A)),
+            fc.constantFrom(
+                MIN_DELAY - 1,
+                MIN_DELAY,
+                FIXTURE_DELAY,
+                MAX_DELAY,
+                MAX_DELAY + 1
+            )
+        )
+        .map((args) => updateDelay(...args)),
+    fc
+        .tuple(
+            actor(fc.constant(USER_A)),
+            fc.constantFrom<JobRole>('submitter', 'executor'),
+            fc.nat({max: ACTORS - 1}),
+            fc.nat({max: ACTORS - 1})
+        )
+        .map((args) => rotateRole(...args)),
+    actor(fc.constant(USER_A)).map(upgradeTo),
+    fc
+        .tuple(
+            fc.nat({max: ACTORS - 1}),
+            fc.nat({max: ACTORS - 1}),
+            fc.boolean()
+        )
+        .map((args) => withdrawTo(...args)),
+    fc
+        .oneof(
+            fc.integer({min: 1, max: 600}),
+            fc.integer({min: MIN_DELAY, max: 2 * MAX_DELAY})
+        )
+        .map(timeJump)
+]
+
+/**
+ * Sends the transaction as the actor in the next block, with the outcome the
+ * model predicts for that block timestamp; then compares the revert (or its
+ * absence) and the ETH (net of gas) and token balances of every actor and the
+ * contract, before checking the contract state against the model.
+ */
+async function act(
+    model: DelayedJobsModel,
+    real: Real,
+    sender: number,
+    predict: (account: string, at: number) => Outcome,
+    send: (
+        jobs: DelayedJobs,
+        overrides: Overrides
+    ) => Promise<ContractTransaction>
+): Promise<void> {
+    const from = real.actors[sender]
+    const accounts = [
+        real.jobs.address,
+        ...real.actors.map((account) => account.address)
+    ]
+    const at = (await now()) + 1
+    await setNextBlockTimestamp(at)
+    const outcome = predict(from.address, at)
+
+    const earlier = await balances(accounts)
+    const earlierTokens = await tokenBalances(real.token, accounts)
+    const {receipt, error} = await attempt(() =>
+        send(real.jobs.connect(from), {gasLimit: GAS_LIMIT})
+    )
+    const later = await balances(accounts)
+    const laterTokens = await tokenBalances(real.token, accounts)
+
+    const revert =
+        error === null ? null : decodeError(error, [real.jobs.interface])
+    expect(
+        revert?.kind === 'custom'
+            ? revert.name
+            : revert && formatRevert(revert),
+        'Revert'
+    ).equals('error' in outcome ? outcome.error : null)
+
+    const paid = 'deltas' in outcome ? outcome : null
+    const expected = (account: string, inToken: boolean) =>
+        (paid && Boolean(paid.token) === inToken
+            ? paid.deltas.get(account) ?? BigNumber.from(0)
+            : BigNumber.from(0)
+        ).toString()
+
+    accounts.forEach((account, i) => {
+        expect(
+            later[i]
+                .sub(earlier[i])
+                .add(gasPaid(account, [receipt]))
+                .toString(),
+            `Balance delta of ${account}`
+        ).equals(expected(account, false))
+        expect(
+            laterTokens[i].sub(earlierTokens[i]).toString(),
+            `Token balance delta of ${account}`
+        ).equals(expected(account, true))
+    })
+
+    await expectModelState(
+        model,
+        real.jobs,
+        real.token,
+        real.actors.map((account) => account.address)
+    )
+}
+
+/**
+ * The ETH and token escrow held by the contract is exactly what the model
+ * accounts for, no job executed (cancelled or reclaimed) remains submitted,
+ * and every actor has the claimable balances and holds the roles of the
+ * model, with pending jobs owned by the submitters it expects, in the token
+ * and expiring when it expects, having run as many times as it expects and
+ * awaiting the prerequisites it expects, and only the jobs it expects have
+ * executed, and each actor signs its next relayed job with the nonce it
+ * expects, and each sealed auction holds the commitments it expects.
+ */
+async function expectModelState(
+    model: DelayedJobsModel,
+    jobs: DelayedJobs,
+    token: MockERC20,
+    actors: string[]
+): Promise<void> {
+    expect(
+        (await ethers.provider.getBalance(jobs.address)).toString(),
+        'Escrow'
+    ).equals(model.escrow().toString())
+    expect(
+        (await token.balanceOf(jobs.address)).toString(),
+        'Token escrow'
+    ).equals(model.escrow(token.address).toString())
+    expect((await jobs.delay()).toNumber(), 'Delay').equals(model.delay)
+
+    for (const currency of [constants.AddressZero, token.address]) {
+        expect(
+            (
+                await Promise.all(
+                    actors.map((account) =>
+                        jobs.claimableToken(account, currency)
+                    )
+                )
+            ).map(String),
+            `Claimable ${currency}`
+        ).deep.equals(
+            actors.map((account) =>
+                model.claimableOf(account, currency).toString()
+            )
+        )
+    }
+
+    expect(
+        (await Promise.all(actors.map((account) => jobs.nonces(account)))).map(
+            Number
+        ),
+        'Nonces'
+    ).deep.equals(actors.map((account) => model.nonceOf(account)))
+
+    for (const role of JOB_ROLES) {
+        expect(
+            await Promise.all(
+                actors.map((account) => jobs.hasRole(roleId(role), account))
+            ),
+            `Holders of ${role}`
+        ).deep.equals(actors.map((account) => model.roles[role].has(account)))
+    }
+
+    for (const job of model.submitted) {
+        const pending = model.pending.get(job.txHash)
+        expect(
+            await jobs.submittedTxs(job.txHash),
+            `Submitted ${job.txHash}`
+        ).equals(Boolean(pending))
+        expect(
+            await jobs.executedTxs(job.txHash),
+            `Executed ${job.txHash}`
+        ).equals(model.executed.has(job.txHash))
+        expect(
+            (await jobs.submissions(job.txHash)).toNumber(),
+            `Submissions ${job.txHash}`
+        ).equals(model.submissions.get(job.txHash))
+
+        if (pending) {
+            expect(
+                await jobs.submitterOf(job.txHash),
+                `Submitter ${job.txHash}`
+            ).equals(model.submitterOf(job))
+            expect(
+                (await jobs.submittedExpiry(job.txHash)).toNumber(),
+                `Expiry ${job.txHash}`
+            ).equals(pending.expiry)
+            expect(
+                await jobs.submittedToken(job.txHash),
+                `Token ${job.txHash}`
+            ).equals(pending.token)
+            expect(
+                (await jobs.submittedRuns(job.txHash)).toNumber(),
+                `Runs ${job.txHash}`
+            ).equals(pending.runs)
+            expect(
+                await jobs.prerequisitesOf(job.txHash),
+                `Prerequisites ${job.txHash}`
+            ).deep.equals(pending.prerequisites)
+        }
+        if (pending && isAuctionJob(job)) {
+            expect(
+                (await jobs.submittedBestBid(job.txHash)).toString(),
+                `Best bid ${job.txHash}`
+            ).equals(pending.bestBid.toString())
+            expect(
+                await jobs.submittedBestBidder(job.txHash),
+                `Best bidder ${job.txHash}`
+            ).equals(pending.bestBidder)
+            expect(
+                (await jobs.submittedRevealPeriod(job.txHash)).toNumber(),
+                `Reveal period ${job.txHash}`
+            ).equals(pending.revealPeriod)
+            expect(
+                (await jobs.unrevealedBids(job.txHash)).toNumber(),
+                `Unrevealed bids ${job.txHash}`
+            ).equals(pending.sealedBids.size)
+            expect(
+                await Promise.all(
+                    actors.map((account) =>
+                        jobs.bidCommitmentOf(job.txHash, account)
+                    )
+                ),
+                `Commitments ${job.txHash}`
+            ).deep.equals(
+                actors.map((account) => {
+                    const sealed = pending.sealedBids.get(account)
+
+                    return sealed
+                        ? bidCommitment(job, account, sealed.bid, sealed.salt)
+                        : constants.HashZero
+                })
+            )
+        }
+    }
+}
+
+/**
+ * Sends the transaction, returning its receipt even when it reverts (as the
+ * HardHat network throws on failed transactions after mining them).
+ */
+async function attempt(
+    send: () => Promise<ContractTransaction>
+): Promise<{receipt: ContractReceipt; error: unknown}> {
+    const earlier = await ethers.provider.getBlockNumber()
+
+    try {
+        return {receipt: await (await send()).wait(), error: null}
+    } catch (error: unknown) {
+        const block = await ethers.provider.getBlock('latest')
+
+        if (block.number === earlier || block.transactions.length === 0) {
+            throw error
+        }
+
+        return {
+            receipt: await ethers.provider.getTransactionReceipt(
+                block.transactions[0]
+            ),
+            error
+        }
+    }
+}
+
+function tokenBalances(
+    token: MockERC20,
+    accounts: string[]
+): Promise<BigNumber[]> {
+    return Promise.all(accounts.map((account) => token.balanceOf(account)))
+}
+
+/**
+ * Reward in ETH, or in tokens, for the description of a step.
+ */
+function amount(value: BigNumber, inToken: boolean): string {
+    return inToken
+        ? `${utils.formatUnits(value, FIXTURE_TOKEN_DECIMALS)} tokens`
+        : utils.formatEther(value)
+}
+
+/**
+ * Data making each new job distinct, identical jobs being submitted again on
+ * purpose by resubmitJob and resubmitJobAuction.
+ */
+function uniqueData(model: Readonly<DelayedJobsModel>): string {
+    return utils.hexZeroPad(utils.hexlify(model.submitted.length + 1), 32)
+}
+
+function auctions(model: Readonly<DelayedJobsModel>): AuctionJob[] {
+    return model.submitted.filter(isAuctionJob)
+}
+
+function plainJobs(model: Readonly<DelayedJobsModel>): Job[] {
+    return model.submitted.filter(
+        (job) => !isAuctionJob(job) && !isRecurringJob(job)
+    )
+}
+
+function recurringJobs(model: Readonly<DelayedJobsModel>): RecurringJob[] {
+    return model.submitted.filter(isRecurringJob)
+}
+
+function pick<T>(candidates: T[], index: number): T {
+    return candidates[index % candidates.length]
+}
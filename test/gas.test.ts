@@ -0,0 +1,840 @@
+// Start - Support direct Mocha run & debug
+import {ethers, upgrades} from 'hardhat'
+import '@nomiclabs/hardhat-ethers'
+import '@openzeppelin/hardhat-upgrades'
+// End - Support direct Mocha run & debug
+import {expect} from 'chai'
+import {before} from 'mocha'
+import {BigNumber, Wallet, constants, utils} from 'ethers'
+import {SignerWithAddress} from '@nomiclabs/hardhat-ethers/signers'
+import {DelayedJobs, DelayedJobsV2, MockERC20} from '../typechain-types'
+import {
+    AuctionJob,
+    Job,
+    RecurringJob,
+    describeAuctionJob,
+    describeJob,
+    describeRecurringJob
+} from '../src/job'
+import {roleId} from '../src/roles'
+import {bidCommitment} from '../src/sealed-bids'
+import {signJob} from '../src/signing'
+import {
+    deployContract,
+    deployContractWithProxy,
+    fixture,
+    signer
+} from './framework/contracts'
+import {
+    GasReporter,
+    GasSnapshot,
+    compareGas,
+    markdownGasReport,
+    readGasSnapshot,
+    writeGasReports,
+    writeGasSnapshot
+} from './framework/gas'
+import {advanceBy} from './framework/time'
+
+// Committed snapshot, rewritten with GAS_SNAPSHOT_UPDATE=true
+const SNAPSHOT = process.env.GAS_SNAPSHOT ?? 'gas-snapshot.json'
+const UPDATE = process.env.GAS_SNAPSHOT_UPDATE === 'true'
+
+// Where the markdown and JSON reports are written
+const REPORTS = process.env.GAS_REPORTS ?? 'reports'
+
+// Greatest percentage increase on the snapshot that is not a regression
+const THRESHOLD_PERCENT = Number(process.env.GAS_THRESHOLD_PERCENT ?? 1)
+
+// Deployer used by nothing else, so DelayedJobs has the same address each run
+const DEPLOYER_KEY = utils.id('DelayedJobs gas reporter deployer')
+
+const DELAY = 10000
+const TIMEOUT = 3601
+const EXPIRY = 3600
+const REVEAL_PERIOD = 3600
+const INTERVAL = 3600
+const RUNS = 2
+const BATCH_SIZE = 5
+const SIGNATURE = 'identity()'
+const TOKENS = utils.parseUnits('1000', 6)
+const TOKEN_REWARD = utils.parseUnits('10', 6)
+const LARGE_DATA = utils.hexlify(new Uint8Array(1024).fill(0xab))
+// Deadline of signed jobs, fixed so their calldata is the same each run
+const DEADLINE = Date.UTC(2100, 0, 1) / 1000
+// Salt of sealed bids, fixed for the same reason
+const SALT = utils.id('DelayedJobs gas reporter salt')
+
+const gasDeployed = fixture('gas deployed', async () => {
+    const userA = await signer(0)
+    const deployer = new Wallet(DEPLOYER_KEY, ethers.provider)
+    await (
+        await userA.sendTransaction({
+            to: deployer.address,
+            value: utils.parseEther('1')
+        })
+    ).wait()
+
+    const args = [userA.address, (await signer(1)).address, DELAY]
+
+    // Implementation deployed (or reused) for another proxy, so ours is first
+    await deployContractWithProxy<DelayedJobs>('DelayedJobs', ...args)
+    const factory = await ethers.getContractFactory('DelayedJobs', deployer)
+    const jobs = <DelayedJobs>(
+        (<unknown>await upgrades.deployProxy(factory, args, {kind: 'uups'}))
+    )
+    const token = <MockERC20>(
+        await (
+            await ethers.getContractFactory('MockERC20', deployer)
+        ).deploy('Mock USD', 'MUSD', 6)
+    )
+
+    for (const holder of [userA, await signer(1)]) {
+        await (await token.mint(holder.address, TOKENS)).wait()
+        await (
+            await token
+                .connect(holder)
+                .approve(jobs.address, constants.MaxUint256)
+        ).wait()
+    }
+
+    return {jobs: await jobs.deployed(), token}
+})
+
+describe('Gas', () => {
+    before(async () => {
+        userA = await signer(0)
+        userB = await signer(1)
+        bidder = await signer(2)
+        reward = utils.parseUnits('1', 'ether')
+        reporter = new GasReporter()
+    })
+
+    beforeEach(async () => {
+        ;({jobs, token} = await gasDeployed())
+    })
+
+    async function submitJob(data: string): Promise<Job> {
+        const job = describeJob(jobs.address, reward, SIGNATURE, data)
+        await reporter.record(
+            jobs,
+            data === '0x' ? 'empty data' : 'large data',
+            jobs.connect(userA).submitJob(job.target, job.signature, job.data, {
+                value: reward
+            })
+        )
+        return job
+    }
+
+    async function submitJobWithExpiry(): Promise<Job> {
+        const job = describeJob(jobs.address, reward, SIGNATURE, '0x')
+        await reporter.record(
+            jobs,
+            'empty data',
+            jobs
+                .connect(userA)
+                .submitJobWithExpiry(
+                    job.target,
+                    job.signature,
+                    job.data,
+                    EXPIRY,
+                    {value: reward}
+                )
+        )
+        return job
+    }
+
+    async function submitJobWithPrerequisites(prerequisite: Job): Promise<Job> {
+        const job = describeJob(jobs.address, reward, SIGNATURE, '0x01')
+        await reporter.record(
+            jobs,
+            'one prerequisite',
+            jobs
+                .connect(userA)
+                .submitJobWithPrerequisites(
+                    job.target,
+                    job.signature,
+                    job.data,
+                    [prerequisite.txHash],
+                    {value: reward}
+                )
+        )
+        return job
+    }
+
+    async function submitTokenJob(): Promise<Job> {
+        const job = describeJob(jobs.address, TOKEN_REWARD, SIGNATURE, '0x')
+        await reporter.record(
+            jobs,
+            'empty data',
+            jobs
+                .connect(userA)
+                .submitTokenJob(
+                    job.target,
+                    job.signature,
+                    job.data,
+                    token.address,
+                    TOKEN_REWARD
+                )
+        )
+        return job
+    }
+
+    async function submitJobAuction(data: string): Promise<AuctionJob> {
+        const job = describeAuctionJob(
+            jobs.address,
+            reward,
+            SIGNATURE,
+            data,
+            TIMEOUT
+        )
+        await reporter.record(
+            jobs,
+            data === '0x' ? 'empty data' : 'large data',
+            jobs
+                .connect(userA)
+                .submitJobAuction(
+                    job.target,
+                    job.signature,
+                    job.data,
+                    job.timeout,
+                    {value: reward}
+                )
+        )
+        return job
+    }
+
+    async function submitJobSealedAuction(): Promise<AuctionJob> {
+        const job = describeAuctionJob(
+            jobs.address,
+            reward,
+            SIGNATURE,
+            '0x',
+            TIMEOUT
+        )
+        await reporter.record(
+            jobs,
+            'empty data',
+            jobs
+                .connect(userA)
+                .submitJobSealedAuction(
+                    job.target,
+                    job.signature,
+                    job.data,
+                    job.timeout,
+                    REVEAL_PERIOD,
+                    {value: reward}
+                )
+        )
+        return job
+    }
+
+    async function submitRecurringJob(): Promise<RecurringJob> {
+        const job = describeRecurringJob(
+            jobs.address,
+            reward,
+            SIGNATURE,
+            '0x',
+            INTERVAL,
+            RUNS
+        )
+        await reporter.record(
+            jobs,
+            'empty data',
+            jobs
+                .connect(userA)
+                .submitRecurringJob(
+                    job.target,
+                    job.signature,
+                    job.data,
+                    job.interval,
+                    job.maxRuns,
+                    {value: reward}
+                )
+        )
+        return job
+    }
+
+    function executeRecurringJob(job: RecurringJob) {
+        return jobs
+            .connect(userB)
+            .executeRecurringJob(
+                job.target,
+                job.value,
+                job.signature,
+                job.data,
+                job.interval,
+                job.maxRuns
+            )
+    }
+
+    async function placeJobBid(
+        scenario: string,
+        job: AuctionJob,
+        from: SignerWithAddress,
+        bid: BigNumber
+    ): Promise<void> {
+        await reporter.record(
+            jobs,
+            scenario,
+            jobs
+                .connect(from)
+                .placeJobBid(
+                    job.target,
+                    job.value,
+                    bid,
+                    job.signature,
+                    job.data,
+                    job.timeout,
+                    {value: job.value.sub(bid)}
+                )
+        )
+    }
+
+    async function commitJobBid(
+        scenario: string,
+        job: AuctionJob,
+        from: SignerWithAddress,
+        bid: BigNumber
+    ): Promise<void> {
+        await reporter.record(
+            jobs,
+            scenario,
+            jobs
+                .connect(from)
+                .commitJobBid(
+                    job.target,
+                    job.value,
+                    job.signature,
+                    job.data,
+                    job.timeout,
+                    bidCommitment(job, from.address, bid, SALT),
+                    {value: job.value}
+                )
+        )
+    }
+
+    async function revealJobBid(
+        scenario: string,
+        job: AuctionJob,
+        from: SignerWithAddress,
+        bid: BigNumber
+    ): Promise<void> {
+        await reporter.record(
+            jobs,
+            scenario,
+            jobs
+                .connect(from)
+                .revealJobBid(
+                    job.target,
+                    job.value,
+                    job.signature,
+                    job.data,
+                    job.timeout,
+                    bid,
+                    SALT
+                )
+        )
+    }
+
+    async function submitJobs(): Promise<Job[]> {
+        const batch = Array.from({length: BATCH_SIZE}, (_, i) =>
+            describeJob(jobs.address, reward, SIGNATURE, utils.hexlify(i + 1))
+        )
+        await reporter.record(
+            jobs,
+            'five jobs',
+            jobs.connect(userA).submitJobs(
+                batch.map((job) => job.target),
+                batch.map((job) => job.value),
+                batch.map((job) => job.signature),
+                batch.map((job) => job.data),
+                {value: reward.mul(BATCH_SIZE)}
+            )
+        )
+        return batch
+    }
+
+    it('updateDelay()', async () => {
+        await reporter.record(
+            jobs,
+            'update',
+            jobs.connect(userA).updateDelay(DELAY * 2)
+        )
+    })
+
+    it('upgradeTo()', async () => {
+        const next = await deployContract<DelayedJobsV2>('DelayedJobsV2')
+
+        await reporter.record(
+            jobs,
+            'next version',
+            jobs.connect(userA).upgradeTo(next.address)
+        )
+    })
+
+    it('rotateRole()', async () => {
+        await reporter.record(
+            jobs,
+            'submitter',
+            jobs
+                .connect(userA)
+                .rotateRole(roleId('submitter'), userA.address, bidder.address)
+        )
+    })
+
+    it('submitJob()', async () => {
+        await submitJob('0x')
+        await submitJob(LARGE_DATA)
+    })
+
+    it('submitJobWithExpiry()', async () => {
+        await submitJobWithExpiry()
+    })
+
+    it('submitTokenJob()', async () => {
+        await submitTokenJob()
+    })
+
+    it('submitJobAuction()', async () => {
+        await submitJobAuction('0x')
+        await submitJobAuction(LARGE_DATA)
+    })
+
+    it('placeJobBid()', async () => {
+        const job = await submitJobAuction('0x')
+
+        await placeJobBid('first bid', job, userB, reward.div(2))
+        await placeJobBid('outbidding bid', job, bidder, reward.div(4))
+    })
+
+    it('executeJob()', async () => {
+        const empty = await submitJob('0x')
+        const large = await submitJob(LARGE_DATA)
+        await advanceBy(DELAY)
+
+        for (const [scenario, job] of [
+            ['empty data', empty],
+            ['large data', large]
+        ] as const) {
+            await reporter.record(
+                jobs,
+                scenario,
+                jobs
+                    .connect(userB)
+                    .executeJob(job.target, job.value, job.signature, job.data)
+            )
+        }
+    })
+
+    it('executeJobBid()', async () => {
+        const job = await submitJobAuction('0x')
+        await placeJobBid('first bid', job, userB, reward.div(2))
+        await advanceBy(DELAY)
+
+        await reporter.record(
+            jobs,
+            'best bidder',
+            jobs
+                .connect(userB)
+                .executeJobBid(
+                    job.target,
+                    job.value,
+                    job.signature,
+                    job.data,
+                    job.timeout
+                )
+        )
+    })
+
+    it('cancelJob()', async () => {
+        const job = await submitJob('0x')
+
+        await reporter.record(
+            jobs,
+            'before maturity',
+            jobs
+                .connect(userA)
+                .cancelJob(job.target, job.value, job.signature, job.data)
+        )
+    })
+
+    it('reclaimJob()', async () => {
+        const job = await submitJobWithExpiry()
+        await advanceBy(DELAY + EXPIRY)
+
+        await reporter.record(
+            jobs,
+            'expired',
+            jobs
+                .connect(userA)
+                .reclaimJob(job.target, job.value, job.signature, job.data)
+        )
+    })
+
+    it('cancelJobAuction()', async () => {
+        const unbid = await submitJobAuction('0x')
+        const bid = await submitJobAuction(LARGE_DATA)
+        await placeJobBid('first bid', bid, userB, reward.div(2))
+        await advanceBy(DELAY + TIMEOUT)
+
+        for (const [scenario, job] of [
+            ['without bid', unbid],
+            ['with bid', bid]
+        ] as const) {
+            await reporter.record(
+                jobs,
+                scenario,
+                jobs
+                    .connect(userA)
+                    .cancelJobAuction(
+                        job.target,
+                        job.value,
+                        job.signature,
+                        job.data,
+                        job.timeout
+                    )
+            )
+        }
+    })
+
+    it('submitJobSealedAuction()', async () => {
+        await submitJobSealedAuction()
+    })
+
+    it('commitJobBid()', async () => {
+        const job = await submitJobSealedAuction()
+
+        await commitJobBid('first commitment', job, userB, reward.div(2))
+        await commitJobBid('second commitment', job, bidder, reward.div(4))
+    })
+
+    it('revealJobBid()', async () => {
+        const job = await submitJobSealedAuction()
+        await commitJobBid('first commitment', job, userB, reward.div(2))
+        await commitJobBid('second commitment', job, bidder, reward.div(4))
+        await advanceBy(DELAY)
+
+        await revealJobBid('first reveal', job, userB, reward.div(2))
+        await revealJobBid('lower reveal', job, bidder, reward.div(4))
+    })
+
+    it('executeJobBid() sealed', async () => {
+        const job = await submitJobSealedAuction()
+        await commitJobBid('first commitment', job, userB, reward.div(2))
+        await commitJobBid('second commitment', job, bidder, reward.div(4))
+        await advanceBy(DELAY)
+        await revealJobBid('first reveal', job, userB, reward.div(2))
+        await advanceBy(REVEAL_PERIOD)
+
+        await reporter.record(
+            jobs,
+            'sealed best bidder, one unrevealed',
+            jobs
+                .connect(userB)
+                .executeJobBid(
+                    job.target,
+                    job.value,
+                    job.signature,
+                    job.data,
+                    job.timeout
+                )
+        )
+    })
+
+    it('cancelJobAuction() sealed', async () => {
+        const job = await submitJobSealedAuction()
+        await commitJobBid('first commitment', job, userB, reward.div(2))
+        await advanceBy(DELAY + REVEAL_PERIOD + TIMEOUT)
+
+        await reporter.record(
+            jobs,
+            'sealed, unrevealed',
+            jobs
+                .connect(userA)
+                .cancelJobAuction(
+                    job.target,
+                    job.value,
+                    job.signature,
+                    job.data,
+                    job.timeout
+                )
+        )
+    })
+
+    it('withdraw()', async () => {
+        const job = await submitJob('0x')
+        await advanceBy(DELAY)
+        await jobs
+            .connect(userB)
+            .executeJob(job.target, job.value, job.signature, job.data)
+
+        await reporter.record(jobs, 'reward', jobs.connect(userB).withdraw())
+    })
+
+    it('withdrawTo()', async () => {
+        const job = await submitJob('0x')
+        await jobs
+            .connect(userA)
+            .cancelJob(job.target, job.value, job.signature, job.data)
+
+        await reporter.record(
+            jobs,
+            'refund',
+            jobs.connect(userA).withdrawTo(bidder.address)
+        )
+    })
+
+    it('placeJobBid() token collateral', async () => {
+        const job = describeAuctionJob(
+            jobs.address,
+            TOKEN_REWARD,
+            SIGNATURE,
+            '0x',
+            TIMEOUT
+        )
+        await jobs
+            .connect(userA)
+            .submitTokenJobAuction(
+                job.target,
+                job.signature,
+                job.data,
+                job.timeout,
+                token.address,
+                TOKEN_REWARD
+            )
+
+        await reporter.record(
+            jobs,
+            'token collateral',
+            jobs
+                .connect(userB)
+                .placeJobBid(
+                    job.target,
+                    job.value,
+                    TOKEN_REWARD.div(2),
+                    job.signature,
+                    job.data,
+                    job.timeout
+                )
+        )
+    })
+
+    it('withdrawToken()', async () => {
+        const job = await submitTokenJob()
+        await advanceBy(DELAY)
+        await jobs
+            .connect(userB)
+            .executeJob(job.target, job.value, job.signature, job.data)
+
+        await reporter.record(
+            jobs,
+            'reward',
+            jobs.connect(userB).withdrawToken(token.address)
+        )
+    })
+
+    it('submitRecurringJob()', async () => {
+        await submitRecurringJob()
+    })
+
+    it('executeRecurringJob()', async () => {
+        const job = await submitRecurringJob()
+        await advanceBy(DELAY + INTERVAL)
+
+        await reporter.record(jobs, 'first run', executeRecurringJob(job))
+        await reporter.record(jobs, 'last run', executeRecurringJob(job))
+    })
+
+    it('cancelRecurringJob()', async () => {
+        const job = await submitRecurringJob()
+        await advanceBy(DELAY)
+        await executeRecurringJob(job)
+
+        await reporter.record(
+            jobs,
+            'after first run',
+            jobs
+                .connect(userA)
+                .cancelRecurringJob(
+                    job.target,
+                    job.value,
+                    job.signature,
+                    job.data,
+                    job.interval,
+                    job.maxRuns
+                )
+        )
+    })
+
+    it('submitJobWithPrerequisites()', async () => {
+        await submitJobWithPrerequisites(await submitJob('0x'))
+    })
+
+    it('executeJob() after prerequisite', async () => {
+        const prerequisite = await submitJob('0x')
+        const job = await submitJobWithPrerequisites(prerequisite)
+        await advanceBy(DELAY)
+        await jobs
+            .connect(userB)
+            .executeJob(
+                prerequisite.target,
+                prerequisite.value,
+                prerequisite.signature,
+                prerequisite.data
+            )
+
+        await reporter.record(
+            jobs,
+            'after prerequisite',
+            jobs
+                .connect(userB)
+                .executeJob(job.target, job.value, job.signature, job.data)
+        )
+    })
+
+    it('submitJobBySig()', async () => {
+        const {job, sig} = await signJob(
+            jobs,
+            userA,
+            describeJob(jobs.address, reward, SIGNATURE, '0x'),
+            DEADLINE
+        )
+
+        await reporter.record(
+            jobs,
+            'empty data',
+            jobs
+                .connect(bidder)
+                .submitJobBySig(
+                    job.target,
+                    job.signature,
+                    job.data,
+                    userA.address,
+                    DEADLINE,
+                    sig,
+                    {value: reward}
+                )
+        )
+    })
+
+    it('submitJobAuctionBySig()', async () => {
+        const job = describeAuctionJob(
+            jobs.address,
+            reward,
+            SIGNATURE,
+            '0x',
+            TIMEOUT
+        )
+        const {sig} = await signJob(jobs, userA, job, DEADLINE)
+
+        await reporter.record(
+            jobs,
+            'empty data',
+            jobs
+                .connect(bidder)
+                .submitJobAuctionBySig(
+                    job.target,
+                    job.signature,
+                    job.data,
+                    job.timeout,
+                    userA.address,
+                    DEADLINE,
+                    sig,
+                    {value: reward}
+                )
+        )
+    })
+
+    it('submitJobs()', async () => {
+        await submitJobs()
+    })
+
+    it('executeJobs()', async () => {
+        const batch = await submitJobs()
+        await advanceBy(DELAY)
+
+        await reporter.record(
+            jobs,
+            'five matured',
+            jobs.connect(userB).executeJobs(
+                batch.map((job) => job.target),
+                batch.map((job) => job.value),
+                batch.map((job) => job.signature),
+                batch.map((job) => job.data)
+            )
+        )
+    })
+
+    it('within threshold of the snapshot', () => {
+        const measurements = reporter.measurements()
+        const snapshot = readGasSnapshot(SNAPSHOT)
+        const comparison = compareGas(snapshot, measurements, THRESHOLD_PERCENT)
+
+        writeGasReports(REPORTS, comparison)
+
+        if (UPDATE || Object.keys(snapshot).length === 0) {
+            writeGasSnapshot(SNAPSHOT, measurements)
+        } else {
+            expect(
+                comparison.regressions.length,
+                markdownGasReport(comparison)
+            ).equals(0)
+        }
+    })
+
+    let userA: SignerWithAddress
+    let userB: SignerWithAddress
+    let bidder: SignerWithAddress
+    let jobs: DelayedJobs
+    let token: MockERC20
+    let reward: BigNumber
+    let reporter: GasReporter
+})
+
+describe('compareGas()', () => {
+    const snapshot: GasSnapshot = {
+        executeJob: {'empty data': 1000, 'large data': 2000},
+        submitJob: {'empty data': 500}
+    }
+
+    it('classifies each scenario', () => {
+        const comparison = compareGas(
+            snapshot,
+            {
+                executeJob: {'empty data': 1005, 'large data': 2100},
+                placeJobBid: {'first bid': 700}
+            },
+            1
+        )
+
+        expect(
+            comparison.differences.map(
+                ({functionName, scenario, status}) =>
+                    `${functionName} ${scenario}: ${status}`
+            )
+        ).deep.equals([
+            'executeJob empty data: increased',
+            'executeJob large data: regressed',
+            'placeJobBid first bid: added',
+            'submitJob empty data: removed'
+        ])
+        expect(comparison.regressions).length(1)
+        expect(comparison.regressions[0]).deep.include({
+            delta: 100,
+            percent: 5
+        })
+    })
+
+    it('markdown report has a row per scenario', () => {
+        const report = markdownGasReport(compareGas(snapshot, snapshot, 1))
+
+        expect(report).contains('0 regression(s) past the 1% threshold.')
+        expect(report).contains(
+            '| executeJob | large data | 2000 | 2000 | 0 | 0% | unchanged |'
+        )
+        expect(
+            report.split('\n').filter((line) => line.startsWith('| '))
+        ).length(5)
+    })
+})
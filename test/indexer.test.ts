@@ -0,0 +1,296 @@
+// Start - Support direct Mocha run & debug
+import 'hardhat'
+import '@nomiclabs/hardhat-ethers'
+// End - Support direct Mocha run & debug
+import {expect} from 'chai'
+import {before} from 'mocha'
+import {BigNumber, providers, utils} from 'ethers'
+import {SignerWithAddress} from '@nomiclabs/hardhat-ethers/signers'
+import {DelayedJobs} from '../typechain-types'
+import {DelayedJobsClient} from '../src/client'
+import {JobIndexer} from '../src/indexer'
+import {deployContractWithProxy, signer} from './framework/contracts'
+import {advanceBy} from './framework/time'
+
+describe('JobIndexer', () => {
+    before(async () => {
+        userA = await signer(0)
+        userB = await signer(1)
+        userC = await signer(2)
+        reward = utils.parseUnits('1', 'ether')
+        signature = 'identity()'
+        data = '0x'
+        delay = 10000
+        timeout = 3601
+    })
+
+    beforeEach(async () => {
+        jobs = await deployContractWithProxy<DelayedJobs>(
+            'DelayedJobs',
+            userA.address,
+            userB.address,
+            delay
+        )
+        client = new DelayedJobsClient(jobs).connect(userA)
+        indexer = new JobIndexer(jobs, {
+            startBlock: jobs.deployTransaction.blockNumber
+        })
+    })
+
+    describe('sync()', () => {
+        it('pending job', async () => {
+            const job = await client.submit(
+                jobs.address,
+                signature,
+                data,
+                reward
+            )
+
+            await indexer.sync()
+
+            const indexed = indexer.book.job(job.txHash)
+            expect(indexed?.kind).equals('job')
+            expect(indexed?.state).equals('pending')
+            expect(indexed?.value).equals(reward)
+            expect(indexed?.submitter).equals(userA.address)
+        })
+
+        it('executed job', async () => {
+            const job = await client.submit(
+                jobs.address,
+                signature,
+                data,
+                reward
+            )
+            await advanceBy(delay)
+            await client.connect(userB).execute(job)
+
+            await indexer.sync()
+
+            const indexed = indexer.book.job(job.txHash)
+            expect(indexed?.state).equals('executed')
+            expect(indexed?.executor).equals(userB.address)
+        })
+
+        it('auction bids', async () => {
+            const job = await client.submitAuction(
+                jobs.address,
+                signature,
+                data,
+                timeout,
+                reward
+            )
+            await client.connect(userB).bid(job, reward.div(2))
+            await client.connect(userC).bid(job, reward.div(4))
+
+            await indexer.sync()
+
+            const indexed = indexer.book.job(job.txHash)
+            expect(indexed?.kind).equals('auction')
+            expect(indexed?.timeout).equals(timeout)
+            expect(indexed?.bestBid).equals(reward.div(4))
+            expect(indexed?.bestBidder).equals(userC.address)
+            expect(indexed?.bidders).deep.equals([userB.address, userC.address])
+        })
+
+        it('executed auction', async () => {
+            const job = await client.submitAuction(
+                jobs.address,
+                signature,
+                data,
+                timeout,
+                reward
+            )
+            await client.connect(userB).bid(job, reward.div(2))
+            await advanceBy(delay)
+            await client.connect(userB).execute(job)
+
+            await indexer.sync()
+
+            const indexed = indexer.book.job(job.txHash)
+            expect(indexed?.state).equals('executed')
+            expect(indexed?.executor).equals(userB.address)
+        })
+
+        it('cancelled auction', async () => {
+            const job = await client.submitAuction(
+                jobs.address,
+                signature,
+                data,
+                timeout,
+                reward
+            )
+            await advanceBy(delay + timeout)
+            await client.cancel(job)
+
+            await indexer.sync()
+
+            expect(indexer.book.job(job.txHash)?.state).equals('cancelled')
+        })
+
+        it('cancelled job', async () => {
+            const job = await client.submit(
+                jobs.address,
+                signature,
+                data,
+                reward
+            )
+            await client.cancel(job)
+
+            await indexer.sync()
+
+            expect(indexer.book.job(job.txHash)?.state).equals('cancelled')
+        })
+
+        it('reclaimed job', async () => {
+            const job = await client.submit(
+                jobs.address,
+                signature,
+                data,
+                reward,
+                timeout
+            )
+            await advanceBy(delay + timeout)
+            await client.reclaim(job)
+
+            await indexer.sync()
+
+            const indexed = indexer.book.job(job.txHash)
+            expect(indexed?.expiry?.toNumber()).equals(timeout)
+            expect(indexed?.state).equals('reclaimed')
+        })
+
+        it('incremental', async () => {
+            const first = await client.submit(
+                jobs.address,
+                signature,
+                data,
+                reward
+            )
+            await indexer.sync()
+            const second = await client.submit(
+                jobs.address,
+                signature,
+                data,
+                reward.mul(2)
+            )
+
+            await indexer.sync()
+
+            expect(indexer.book.jobs().map((job) => job.txHash)).deep.equals([
+                first.txHash,
+                second.txHash
+            ])
+        })
+
+        it('reorg', async () => {
+            const provider = userA.provider as providers.JsonRpcProvider
+            const snapshot = (await provider.send('evm_snapshot', [])) as string
+            const orphaned = await client.submit(
+                jobs.address,
+                signature,
+                data,
+                reward
+            )
+            await indexer.sync()
+            await provider.send('evm_revert', [snapshot])
+            const canonical = await client.submit(
+                jobs.address,
+                signature,
+                data,
+                reward.mul(2)
+            )
+
+            await indexer.sync()
+
+            expect(indexer.book.job(orphaned.txHash)).is.null
+            expect(indexer.book.job(canonical.txHash)?.state).equals('pending')
+        })
+    })
+
+    describe('jobs()', () => {
+        it('by state', async () => {
+            const pending = await client.submit(
+                jobs.address,
+                signature,
+                data,
+                reward
+            )
+            const cancelled = await client.submitAuction(
+                jobs.address,
+                signature,
+                data,
+                timeout,
+                reward
+            )
+            await advanceBy(delay + timeout)
+            await client.cancel(cancelled)
+
+            await indexer.sync()
+
+            expect(
+                indexer.book.jobs({state: 'pending'}).map((job) => job.txHash)
+            ).deep.equals([pending.txHash])
+            expect(
+                indexer.book.jobs({state: 'cancelled'}).map((job) => job.txHash)
+            ).deep.equals([cancelled.txHash])
+        })
+
+        it('by target', async () => {
+            await client.submit(jobs.address, signature, data, reward)
+            await client.submit(userC.address, '', data, reward)
+
+            await indexer.sync()
+
+            expect(indexer.book.jobs({target: userC.address})).length(1)
+            expect(indexer.book.jobs({target: jobs.address})).length(1)
+        })
+
+        it('by submitter', async () => {
+            await client.submit(jobs.address, signature, data, reward)
+
+            await indexer.sync()
+
+            expect(indexer.book.jobs({submitter: userA.address})).length(1)
+            expect(indexer.book.jobs({submitter: userB.address})).length(0)
+        })
+
+        it('by bidder', async () => {
+            const job = await client.submitAuction(
+                jobs.address,
+                signature,
+                data,
+                timeout,
+                reward
+            )
+            await client.submitAuction(
+                jobs.address,
+                signature,
+                data,
+                timeout,
+                reward.mul(2)
+            )
+            await client.connect(userC).bid(job, reward.div(2))
+
+            await indexer.sync()
+
+            expect(
+                indexer.book
+                    .jobs({bidder: userC.address})
+                    .map((found) => found.txHash)
+            ).deep.equals([job.txHash])
+        })
+    })
+
+    let userA: SignerWithAddress
+    let userB: SignerWithAddress
+    let userC: SignerWithAddress
+    let jobs: DelayedJobs
+    let client: DelayedJobsClient
+    let indexer: JobIndexer
+    let reward: BigNumber
+    let signature: string
+    let data: string
+    let delay: number
+    let timeout: number
+})
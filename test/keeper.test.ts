@@ -0,0 +1,271 @@
+// Start - Support direct Mocha run & debug
+import '@nomiclabs/hardhat-ethers'
+// End - Support direct Mocha run & debug
+import {expect} from 'chai'
+import {before} from 'mocha'
+import {createLogger} from 'bunyan'
+import {mkdtempSync} from 'fs'
+import {tmpdir} from 'os'
+import {join} from 'path'
+import {BigNumber, providers, utils} from 'ethers'
+import {SignerWithAddress} from '@nomiclabs/hardhat-ethers/signers'
+import {DelayedJobs, MockERC20} from '../typechain-types'
+import {DelayedJobsClient} from '../src/client'
+import {Keeper} from '../src/keeper'
+import {JsonFileKeeperStore, MemoryKeeperStore} from '../src/keeper-store'
+import {PriceOracle, fixedPrices} from '../src/prices'
+import {
+    FIXTURE_TOKEN_DECIMALS,
+    FIXTURE_TOKENS,
+    deployContract,
+    deployContractWithProxy,
+    execute,
+    signer
+} from './framework/contracts'
+import {pollingProvider} from './framework/events'
+import {advanceBy, occurrenceAtMost} from './framework/time'
+
+const EXECUTION_WAIT_MS = 5000
+
+describe('Keeper', () => {
+    before(async () => {
+        userA = await signer(0)
+        userB = await signer(1)
+        reward = utils.parseUnits('1', 'ether')
+        signature = 'identity()'
+        data = '0x'
+        delay = 10000
+
+        executor = pollingProvider().getSigner(userB.address)
+    })
+
+    beforeEach(async () => {
+        jobs = await deployContractWithProxy<DelayedJobs>(
+            'DelayedJobs',
+            userA.address,
+            userB.address,
+            delay
+        )
+        client = new DelayedJobsClient(jobs).connect(userA)
+        store = new MemoryKeeperStore()
+        keeper = createKeeper(store)
+    })
+
+    afterEach(async () => {
+        await keeper.stop()
+    })
+
+    function createKeeper(
+        keeperStore: MemoryKeeperStore | JsonFileKeeperStore,
+        prices?: PriceOracle
+    ): Keeper {
+        return new Keeper(jobs.connect(executor), keeperStore, {
+            maxAttempts: 1,
+            startBlock: jobs.deployTransaction.blockNumber,
+            logger: createLogger({name: 'keeper', streams: []}),
+            prices
+        })
+    }
+
+    async function deployToken(): Promise<MockERC20> {
+        const token = await deployContract<MockERC20>(
+            'MockERC20',
+            'Mock USD',
+            'MUSD',
+            FIXTURE_TOKEN_DECIMALS
+        )
+        await execute(token.mint(userA.address, FIXTURE_TOKENS))
+
+        return token
+    }
+
+    it('executes matured job', async () => {
+        await keeper.start()
+        const job = await client.submit(jobs.address, signature, data, reward)
+        await occurrenceAtMost(
+            () => keeper.job(job.txHash) !== null,
+            EXECUTION_WAIT_MS
+        )
+        expect(keeper.job(job.txHash)?.status).equals('scheduled')
+
+        await advanceBy(delay)
+        await occurrenceAtMost(
+            () => keeper.job(job.txHash)?.status === 'executed',
+            EXECUTION_WAIT_MS
+        )
+
+        expect(keeper.job(job.txHash)?.status).equals('executed')
+        expect(await jobs.submittedTxs(job.txHash)).equals(false)
+    })
+
+    it('stops tracking cancelled job', async () => {
+        await keeper.start()
+        const job = await client.submit(jobs.address, signature, data, reward)
+        await occurrenceAtMost(
+            () => keeper.job(job.txHash) !== null,
+            EXECUTION_WAIT_MS
+        )
+
+        await client.cancel(job)
+        await occurrenceAtMost(
+            () => keeper.job(job.txHash)?.status === 'cancelled',
+            EXECUTION_WAIT_MS
+        )
+
+        expect(keeper.job(job.txHash)?.status).equals('cancelled')
+    })
+
+    it('catches up on reclaimed job', async () => {
+        const job = await client.submit(
+            jobs.address,
+            signature,
+            data,
+            reward,
+            delay
+        )
+        await advanceBy(delay * 2)
+        await client.reclaim(job)
+
+        await keeper.start()
+
+        expect(keeper.job(job.txHash)?.status).equals('cancelled')
+        expect(keeper.job(job.txHash)?.attempts).equals(0)
+    })
+
+    it('ignores auction jobs', async () => {
+        await client.submitAuction(jobs.address, signature, data, 3601, reward)
+
+        await keeper.start()
+
+        expect(keeper.jobs()).length(0)
+    })
+
+    it('skips job costing more gas than reward', async () => {
+        const job = await client.submit(jobs.address, signature, data, 1)
+        await advanceBy(delay)
+
+        await keeper.start()
+
+        expect(keeper.job(job.txHash)?.status).equals('scheduled')
+        expect(keeper.job(job.txHash)?.attempts).equals(0)
+        expect(await jobs.submittedTxs(job.txHash)).equals(true)
+    })
+
+    it('executes token job without price whatever its gas', async () => {
+        const token = await deployToken()
+        const job = await client.submitToken(
+            jobs.address,
+            signature,
+            data,
+            token.address,
+            1
+        )
+        await advanceBy(delay)
+
+        await keeper.start()
+
+        expect(keeper.job(job.txHash)?.status).equals('executed')
+        expect(await jobs.claimableToken(userB.address, token.address)).equals(
+            1
+        )
+    })
+
+    it('skips token job worth less than gas at its price', async () => {
+        const token = await deployToken()
+        const job = await client.submitToken(
+            jobs.address,
+            signature,
+            data,
+            token.address,
+            1
+        )
+        await advanceBy(delay)
+        keeper = createKeeper(
+            store,
+            fixedPrices({[token.address]: {amount: 1, wei: 1}})
+        )
+
+        await keeper.start()
+
+        expect(keeper.job(job.txHash)?.status).equals('scheduled')
+        expect(keeper.job(job.txHash)?.attempts).equals(0)
+        expect(await jobs.submittedTxs(job.txHash)).equals(true)
+    })
+
+    it('waits for prerequisites of blocked job', async () => {
+        const auction = await client.submitAuction(
+            jobs.address,
+            signature,
+            data,
+            3601,
+            reward
+        )
+        const job = await client.submitWithPrerequisites(
+            jobs.address,
+            signature,
+            data,
+            [auction.txHash],
+            reward
+        )
+        await client.connect(userB).bid(auction, reward.div(2))
+        await advanceBy(delay)
+
+        await keeper.start()
+
+        expect(keeper.job(job.txHash)?.status).equals('scheduled')
+        expect(keeper.job(job.txHash)?.attempts).equals(0)
+
+        await client.connect(userB).execute(auction)
+        await keeper.tick()
+
+        expect(keeper.job(job.txHash)?.status).equals('executed')
+    })
+
+    it('fails job reverting in simulation', async () => {
+        const job = await client.submit(
+            jobs.address,
+            'updateDelay(uint256)',
+            utils.defaultAbiCoder.encode(['uint256'], [delay]),
+            reward
+        )
+        await advanceBy(delay)
+
+        await keeper.start()
+
+        expect(keeper.job(job.txHash)?.status).equals('failed')
+        expect(keeper.job(job.txHash)?.attempts).equals(1)
+        expect(await jobs.submittedTxs(job.txHash)).equals(true)
+    })
+
+    it('resumes after restart', async () => {
+        const path = join(mkdtempSync(join(tmpdir(), 'keeper-')), 'state.json')
+        const first = createKeeper(new JsonFileKeeperStore(path))
+        await first.start()
+        const job = await client.submit(jobs.address, signature, data, reward)
+        await occurrenceAtMost(
+            () => first.job(job.txHash) !== null,
+            EXECUTION_WAIT_MS
+        )
+        await first.stop()
+        await advanceBy(delay)
+
+        const second = createKeeper(new JsonFileKeeperStore(path))
+        await second.start()
+        await second.stop()
+
+        expect(second.job(job.txHash)?.status).equals('executed')
+        expect(await jobs.submittedTxs(job.txHash)).equals(false)
+    })
+
+    let userA: SignerWithAddress
+    let userB: SignerWithAddress
+    let jobs: DelayedJobs
+    let client: DelayedJobsClient
+    let keeper: Keeper
+    let store: MemoryKeeperStore
+    let reward: BigNumber
+    let signature: string
+    let data: string
+    let delay: number
+    let executor: providers.JsonRpcSigner
+})
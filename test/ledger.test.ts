@@ -0,0 +1,328 @@
+// Start - Support direct Mocha run & debug
+import 'hardhat'
+import '@nomiclabs/hardhat-ethers'
+// End - Support direct Mocha run & debug
+import chai, {expect} from 'chai'
+import {before} from 'mocha'
+import {solidity} from 'ethereum-waffle'
+import {BigNumber, constants} from 'ethers'
+import {SignerWithAddress} from '@nomiclabs/hardhat-ethers/signers'
+import {DelayedJobs, RejectingReceiver} from '../typechain-types'
+import {DelayedJobsClient} from '../src/client'
+import {AuctionJob} from '../src/job'
+import {reconcileLedger} from '../src/ledger'
+import {
+    FIXTURE_BID,
+    FIXTURE_DELAY,
+    FIXTURE_REWARD,
+    FIXTURE_TIMEOUT,
+    auctionSubmitted,
+    deployContract,
+    signer
+} from './framework/contracts'
+import {expectBalanceDeltas, expectClaimableDeltas} from './framework/balances'
+import {DelayedJobsError} from './framework/errors'
+import {expectRevert} from './framework/transaction'
+import {advanceBy} from './framework/time'
+
+// Wires up Waffle with Chai
+chai.use(solidity)
+
+// Modes of RejectingReceiver
+const ACCEPT = 0
+const REJECT = 1
+const REENTER = 2
+
+describe('DelayedJobs claimable ledger', () => {
+    before(async () => {
+        userA = await signer(0)
+        userB = await signer(1)
+        userC = await signer(2)
+    })
+
+    beforeEach(async () => {
+        ;({jobs, job} = await auctionSubmitted())
+        receiver = await deployContract<RejectingReceiver>(
+            'RejectingReceiver',
+            jobs.address
+        )
+        client = new DelayedJobsClient(jobs)
+    })
+
+    describe('withdraw()', () => {
+        beforeEach(async () => {
+            await placeJobBid(userB, FIXTURE_BID)
+            await placeJobBid(userC, FIXTURE_BID.div(2))
+            refund = FIXTURE_REWARD.sub(FIXTURE_BID)
+        })
+
+        it('credits the outbid bidder', async () => {
+            expect(await jobs.claimable(userB.address)).equals(refund)
+        })
+
+        it('pays the caller and emits Withdrawn', async () => {
+            await expectBalanceDeltas(
+                [
+                    [userB, refund],
+                    [jobs, refund.mul(-1)]
+                ],
+                () => jobs.connect(userB).withdraw()
+            )
+            expect(await jobs.claimable(userB.address)).equals(0)
+        })
+
+        it('emits Withdrawn', async () => {
+            await expect(jobs.connect(userB).withdraw())
+                .to.emit(jobs, 'Withdrawn')
+                .withArgs(
+                    userB.address,
+                    constants.AddressZero,
+                    userB.address,
+                    refund
+                )
+        })
+
+        it('pays another recipient', async () => {
+            await expectBalanceDeltas(
+                [
+                    [userB, 0],
+                    [userC, refund],
+                    [jobs, refund.mul(-1)]
+                ],
+                () => jobs.connect(userB).withdrawTo(userC.address)
+            )
+        })
+
+        it('not twice', async () => {
+            await jobs.connect(userB).withdraw()
+
+            await expectRevert(
+                jobs.connect(userB).withdraw(),
+                DelayedJobsError.NothingToWithdraw,
+                userB.address
+            )
+        })
+
+        it('not to the zero address', async () => {
+            await expectRevert(
+                jobs.connect(userB).withdrawTo(constants.AddressZero),
+                DelayedJobsError.ZeroAddress
+            )
+        })
+
+        it('through the client', async () => {
+            const userBClient = client.connect(userB)
+
+            expect(await userBClient.claimable(userB.address)).equals(refund)
+            const balance = await userC.getBalance()
+            await userBClient.withdraw(userC.address)
+
+            expect((await userC.getBalance()).sub(balance)).equals(refund)
+            expect(await userBClient.claimable(userB.address)).equals(0)
+        })
+    })
+
+    describe('receiver rejecting ETH', () => {
+        beforeEach(async () => {
+            await receiver.setMode(REJECT)
+            await receiver.placeJobBid(
+                job.target,
+                job.value,
+                FIXTURE_BID,
+                job.signature,
+                job.data,
+                job.timeout,
+                {value: job.value.sub(FIXTURE_BID)}
+            )
+        })
+
+        it('cannot stop being outbid', async () => {
+            const bid = FIXTURE_BID.div(2)
+
+            await expectClaimableDeltas(
+                jobs,
+                [[receiver, FIXTURE_REWARD.sub(FIXTURE_BID)]],
+                () => placeJobBid(userC, bid)
+            )
+            expect(await jobs.submittedBestBidder(job.txHash)).equals(
+                userC.address
+            )
+        })
+
+        it('cannot stop cancellation', async () => {
+            await advanceBy(FIXTURE_DELAY + FIXTURE_TIMEOUT)
+
+            await expectClaimableDeltas(
+                jobs,
+                [
+                    [userA, FIXTURE_REWARD],
+                    [receiver, FIXTURE_REWARD.sub(FIXTURE_BID)]
+                ],
+                () =>
+                    jobs
+                        .connect(userA)
+                        .cancelJobAuction(
+                            job.target,
+                            job.value,
+                            job.signature,
+                            job.data,
+                            job.timeout
+                        )
+            )
+        })
+
+        it('executes and withdraws elsewhere', async () => {
+            await advanceBy(FIXTURE_DELAY)
+            await receiver.executeJobBid(
+                job.target,
+                job.value,
+                job.signature,
+                job.data,
+                job.timeout
+            )
+
+            await expectRevert(
+                receiver.withdraw(),
+                DelayedJobsError.TransferFailed,
+                receiver.address,
+                FIXTURE_REWARD
+            )
+            await expectBalanceDeltas(
+                [
+                    [userC, FIXTURE_REWARD],
+                    [jobs, FIXTURE_REWARD.mul(-1)]
+                ],
+                () => receiver.withdrawTo(userC.address)
+            )
+        })
+
+        it('withdraws once reentering', async () => {
+            await placeJobBid(userC, FIXTURE_BID.div(2))
+            await receiver.setMode(REENTER)
+
+            await expectRevert(
+                receiver.withdraw(),
+                DelayedJobsError.TransferFailed,
+                receiver.address,
+                FIXTURE_REWARD.sub(FIXTURE_BID)
+            )
+            expect(await jobs.claimable(receiver.address)).equals(
+                FIXTURE_REWARD.sub(FIXTURE_BID)
+            )
+
+            await receiver.setMode(ACCEPT)
+            await expectBalanceDeltas(
+                [
+                    [receiver, FIXTURE_REWARD.sub(FIXTURE_BID)],
+                    [jobs, FIXTURE_REWARD.sub(FIXTURE_BID).mul(-1)]
+                ],
+                () => receiver.withdraw()
+            )
+        })
+    })
+
+    describe('reconcileLedger()', () => {
+        beforeEach(async () => {
+            await placeJobBid(userB, FIXTURE_BID)
+            await placeJobBid(userC, FIXTURE_BID.div(2))
+            credited = await blockNumber()
+            await jobs.connect(userB).withdrawTo(userC.address)
+        })
+
+        it('matches the claimable balances', async () => {
+            await advanceBy(FIXTURE_DELAY)
+            await executeJobBid(userC)
+
+            const reconciliation = await reconcileLedger(jobs)
+
+            expect(reconciliation.mismatches).deep.equals([])
+            expect(reconciliation.solvent).is.true
+            expect(
+                reconciliation.balances.map(({account, expected}) => [
+                    account,
+                    expected.toString()
+                ])
+            ).deep.equals([
+                [userB.address, '0'],
+                [userC.address, FIXTURE_REWARD.toString()],
+                [
+                    userA.address,
+                    FIXTURE_REWARD.sub(FIXTURE_BID.div(2)).toString()
+                ]
+            ])
+        })
+
+        it('at an earlier block', async () => {
+            const {balances, totalClaimable, contractBalance} =
+                await reconcileLedger(jobs, {blockNumber: credited})
+
+            expect(balances.map(({account}) => account)).deep.equals([
+                userB.address
+            ])
+            expect(balances[0].actual).equals(FIXTURE_REWARD.sub(FIXTURE_BID))
+            expect(totalClaimable).equals(FIXTURE_REWARD.sub(FIXTURE_BID))
+            expect(contractBalance).equals(
+                FIXTURE_REWARD.mul(2)
+                    .sub(FIXTURE_BID.div(2))
+                    .add(FIXTURE_REWARD.sub(FIXTURE_BID))
+            )
+        })
+
+        it('reports a balance missing its credits', async () => {
+            const {mismatches} = await reconcileLedger(jobs, {
+                fromBlock: credited + 1
+            })
+
+            expect(
+                mismatches.map(({account, expected, actual}) => [
+                    account,
+                    expected.toString(),
+                    actual.toString()
+                ])
+            ).deep.equals([
+                [userB.address, FIXTURE_BID.sub(FIXTURE_REWARD).toString(), '0']
+            ])
+        })
+
+        let credited: number
+    })
+
+    function placeJobBid(from: SignerWithAddress, bid: BigNumber) {
+        return jobs
+            .connect(from)
+            .placeJobBid(
+                job.target,
+                job.value,
+                bid,
+                job.signature,
+                job.data,
+                job.timeout,
+                {value: job.value.sub(bid)}
+            )
+    }
+
+    async function blockNumber() {
+        return (await jobs.provider.getBlock('latest')).number
+    }
+
+    function executeJobBid(from: SignerWithAddress) {
+        return jobs
+            .connect(from)
+            .executeJobBid(
+                job.target,
+                job.value,
+                job.signature,
+                job.data,
+                job.timeout
+            )
+    }
+
+    let userA: SignerWithAddress
+    let userB: SignerWithAddress
+    let userC: SignerWithAddress
+    let jobs: DelayedJobs
+    let job: AuctionJob
+    let receiver: RejectingReceiver
+    let client: DelayedJobsClient
+    let refund: BigNumber
+})
@@ -0,0 +1,367 @@
+// Start - Support direct Mocha run & debug
+import 'hardhat'
+import '@nomiclabs/hardhat-ethers'
+// End - Support direct Mocha run & debug
+import chai, {expect} from 'chai'
+import {before} from 'mocha'
+import {solidity} from 'ethereum-waffle'
+import {utils} from 'ethers'
+import {SignerWithAddress} from '@nomiclabs/hardhat-ethers/signers'
+import {DelayedJobs, MockERC20} from '../typechain-types'
+import {DelayedJobsClient} from '../src/client'
+import {JobIndexer} from '../src/indexer'
+import {RecurringJob, describeRecurringJob, runReward} from '../src/job'
+import {upcomingRuns} from '../src/schedule'
+import {
+    FIXTURE_DELAY,
+    FIXTURE_TOKEN_DECIMALS,
+    signer,
+    tokenDeployed
+} from './framework/contracts'
+import {expectClaimableDeltas} from './framework/balances'
+import {DelayedJobsError} from './framework/errors'
+import {CANCEL_GRACE_PERIOD, MIN_DELAY} from './framework/model'
+import {expectRevert} from './framework/transaction'
+import {advanceToMaturity} from './framework/time'
+
+// Wires up Waffle with Chai
+chai.use(solidity)
+
+const INTERVAL = 6 * 3600
+const MAX_RUNS = 3
+// Not a multiple of the runs, so the last run draws the remainder
+const BUDGET = utils.parseEther('1')
+
+describe('DelayedJobs recurring jobs', () => {
+    before(async () => {
+        userA = await signer(0)
+        userB = await signer(1)
+        userC = await signer(2)
+    })
+
+    beforeEach(async () => {
+        ;({jobs, token} = await tokenDeployed())
+        client = new DelayedJobsClient(jobs)
+    })
+
+    describe('submitRecurringJob()', () => {
+        beforeEach(() => {
+            job = describeRecurringJob(
+                jobs.address,
+                BUDGET,
+                'identity()',
+                '0x',
+                INTERVAL,
+                MAX_RUNS
+            )
+        })
+
+        it('emits JobSubmitted and JobRecurring', async () => {
+            const submission = submitRecurringJob(INTERVAL, MAX_RUNS)
+
+            await expect(submission)
+                .to.emit(jobs, 'JobSubmitted')
+                .withArgs(job.txHash, job.target, BUDGET, job.signature, '0x')
+            await expect(submission)
+                .to.emit(jobs, 'JobRecurring')
+                .withArgs(job.txHash, INTERVAL, MAX_RUNS)
+            expect(await jobs.submittedRuns(job.txHash)).equals(0)
+        })
+
+        it('not without runs', async () => {
+            await expectRevert(
+                submitRecurringJob(INTERVAL, 0),
+                DelayedJobsError.MissingRuns
+            )
+        })
+
+        it('not without a reward for every run', async () => {
+            await expectRevert(
+                jobs
+                    .connect(userA)
+                    .submitRecurringJob(
+                        jobs.address,
+                        'identity()',
+                        '0x',
+                        INTERVAL,
+                        MAX_RUNS,
+                        {value: MAX_RUNS - 1}
+                    ),
+                DelayedJobsError.MissingReward
+            )
+        })
+
+        it('not with an interval below the minimum delay', async () => {
+            await expectRevert(
+                submitRecurringJob(MIN_DELAY - 1, MAX_RUNS),
+                DelayedJobsError.IntervalTooShort,
+                MIN_DELAY - 1,
+                MIN_DELAY
+            )
+        })
+
+        it('only by a submitter', async () => {
+            await expectRevert(
+                submitRecurringJob(INTERVAL, MAX_RUNS, userB),
+                DelayedJobsError.MissingRole,
+                utils.id('SUBMITTER_ROLE'),
+                userB.address
+            )
+        })
+    })
+
+    describe('with recurring job', () => {
+        beforeEach(async () => {
+            job = await client
+                .connect(userA)
+                .submitRecurring(
+                    jobs.address,
+                    'identity()',
+                    '0x',
+                    INTERVAL,
+                    MAX_RUNS,
+                    BUDGET
+                )
+        })
+
+        it('executes every run at its interval', async () => {
+            const executor = userB
+
+            for (let run = 1; run <= MAX_RUNS; run++) {
+                await advanceToMaturity(jobs, job)
+
+                await expectClaimableDeltas(
+                    jobs,
+                    [[executor, runReward(job, run)]],
+                    () => executeRecurringJob(executor)
+                )
+                expect(await jobs.submittedRuns(job.txHash)).equals(
+                    run === MAX_RUNS ? 0 : run
+                )
+            }
+
+            expect(await jobs.submittedTxs(job.txHash)).is.false
+            expect(await jobs.claimable(userB.address)).equals(BUDGET)
+        })
+
+        it('emits JobRunExecuted', async () => {
+            await advanceToMaturity(jobs, job)
+
+            await expect(executeRecurringJob(userB))
+                .to.emit(jobs, 'JobRunExecuted')
+                .withArgs(job.txHash, userB.address, 1, runReward(job, 1))
+        })
+
+        it('not before the next run matures', async () => {
+            const maturesAt = await advanceToMaturity(jobs, job)
+            await executeRecurringJob(userB)
+
+            await expectRevert(
+                executeRecurringJob(userB),
+                DelayedJobsError.DelayNotElapsed,
+                job.txHash,
+                maturesAt + INTERVAL
+            )
+        })
+
+        it('catches up on runs executed late', async () => {
+            await advanceToMaturity(jobs, job, 2 * INTERVAL)
+
+            await executeRecurringJob(userB)
+            await executeRecurringJob(userB)
+
+            expect(await jobs.submittedRuns(job.txHash)).equals(2)
+        })
+
+        it('not after the last run', async () => {
+            await advanceToMaturity(jobs, job, (MAX_RUNS - 1) * INTERVAL)
+            for (let run = 1; run <= MAX_RUNS; run++) {
+                await executeRecurringJob(userB)
+            }
+
+            await expectRevert(
+                executeRecurringJob(userB),
+                DelayedJobsError.JobNotSubmitted,
+                job.txHash
+            )
+        })
+
+        it('only by an executor', async () => {
+            await advanceToMaturity(jobs, job)
+
+            await expectRevert(
+                executeRecurringJob(userC),
+                DelayedJobsError.MissingRole,
+                utils.id('EXECUTOR_ROLE'),
+                userC.address
+            )
+        })
+
+        it('refunds the remaining budget on cancellation', async () => {
+            await advanceToMaturity(jobs, job)
+            await executeRecurringJob(userB)
+
+            await expectClaimableDeltas(
+                jobs,
+                [[userA, BUDGET.sub(runReward(job, 1))]],
+                () => cancelRecurringJob(userA)
+            )
+            expect(await jobs.submittedTxs(job.txHash)).is.false
+            expect(await jobs.submittedRuns(job.txHash)).equals(0)
+        })
+
+        it('cancellation locked after the next run matures', async () => {
+            await advanceToMaturity(jobs, job)
+            await executeRecurringJob(userB)
+            const nextRunAt = await advanceToMaturity(jobs, job)
+
+            await expectRevert(
+                cancelRecurringJob(userA),
+                DelayedJobsError.CancellationLocked,
+                job.txHash,
+                nextRunAt + CANCEL_GRACE_PERIOD
+            )
+            await advanceToMaturity(jobs, job, CANCEL_GRACE_PERIOD)
+            await expectClaimableDeltas(
+                jobs,
+                [[userA, BUDGET.sub(runReward(job, 1))]],
+                () => cancelRecurringJob(userA)
+            )
+        })
+
+        it('cancels only by the submitter', async () => {
+            await expectRevert(
+                cancelRecurringJob(userB),
+                DelayedJobsError.CallerNotSubmitter,
+                userB.address,
+                userA.address
+            )
+        })
+
+        it('reports its runs and next maturity', async () => {
+            const {submittedAt} = await client.status(job)
+            await advanceToMaturity(jobs, job)
+            await client.connect(userB).execute(job)
+
+            const status = await client.status(job)
+
+            expect(status.phase).equals('delayed')
+            expect(status.runs).equals(1)
+            expect(status.maturesAt).equals(
+                submittedAt.add(FIXTURE_DELAY).add(INTERVAL)
+            )
+            expect(
+                upcomingRuns(job, submittedAt, FIXTURE_DELAY, 1)
+            ).deep.equals([
+                submittedAt.add(FIXTURE_DELAY).add(INTERVAL),
+                submittedAt.add(FIXTURE_DELAY).add(2 * INTERVAL)
+            ])
+        })
+
+        it('is indexed with its runs', async () => {
+            const indexer = new JobIndexer(jobs)
+            await advanceToMaturity(jobs, job)
+            await client.connect(userB).execute(job)
+            await indexer.sync()
+
+            expect(indexer.book.job(job.txHash)).to.include({
+                kind: 'recurring',
+                state: 'pending',
+                runs: 1,
+                executor: userB.address
+            })
+
+            await advanceToMaturity(jobs, job, INTERVAL)
+            await client.connect(userB).execute(job)
+            await client.connect(userB).execute(job)
+            await indexer.sync()
+
+            expect(indexer.book.job(job.txHash)?.state).equals('executed')
+        })
+    })
+
+    describe('with token recurring job', () => {
+        it('draws each run from the token budget', async () => {
+            const budget = utils.parseUnits('100', FIXTURE_TOKEN_DECIMALS)
+            job = await client
+                .connect(userA)
+                .submitTokenRecurring(
+                    jobs.address,
+                    'identity()',
+                    '0x',
+                    INTERVAL,
+                    MAX_RUNS,
+                    token.address,
+                    budget
+                )
+            await advanceToMaturity(jobs, job)
+
+            await expectClaimableDeltas(
+                {
+                    claimable: (account) =>
+                        jobs.claimableToken(account, token.address)
+                },
+                [
+                    [userB, runReward(job, 1)],
+                    [userA, budget.sub(runReward(job, 1))]
+                ],
+                () => executeRecurringJob(userB),
+                async () => {
+                    await advanceToMaturity(jobs, job, CANCEL_GRACE_PERIOD)
+                    return cancelRecurringJob(userA)
+                }
+            )
+        })
+    })
+
+    function submitRecurringJob(
+        interval: number,
+        maxRuns: number,
+        from: SignerWithAddress = userA
+    ) {
+        return jobs
+            .connect(from)
+            .submitRecurringJob(
+                jobs.address,
+                'identity()',
+                '0x',
+                interval,
+                maxRuns,
+                {value: BUDGET}
+            )
+    }
+
+    function executeRecurringJob(from: SignerWithAddress) {
+        return jobs
+            .connect(from)
+            .executeRecurringJob(
+                job.target,
+                job.value,
+                job.signature,
+                job.data,
+                job.interval,
+                job.maxRuns
+            )
+    }
+
+    function cancelRecurringJob(from: SignerWithAddress) {
+        return jobs
+            .connect(from)
+            .cancelRecurringJob(
+                job.target,
+                job.value,
+                job.signature,
+                job.data,
+                job.interval,
+                job.maxRuns
+            )
+    }
+
+    let userA: SignerWithAddress
+    let userB: SignerWithAddress
+    let userC: SignerWithAddress
+    let jobs: DelayedJobs
+    let token: MockERC20
+    let client: DelayedJobsClient
+    let job: RecurringJob
+})
@@ -0,0 +1,128 @@
+// Start - Support direct Mocha run & debug
+import 'hardhat'
+import '@nomiclabs/hardhat-ethers'
+// End - Support direct Mocha run & debug
+import {expect} from 'chai'
+import {before} from 'mocha'
+import {utils} from 'ethers'
+import {SignerWithAddress} from '@nomiclabs/hardhat-ethers/signers'
+import {DelayedJobs} from '../typechain-types'
+import {DelayedJobsClient} from '../src/client'
+import {
+    RevertError,
+    decodeError,
+    decodeRevert,
+    formatRevert
+} from '../src/revert'
+import {DelayedJobsError} from './framework/errors'
+import {deployContractWithProxy, signer} from './framework/contracts'
+
+const DELAY = 10000
+
+describe('Revert decoding', () => {
+    before(async () => {
+        userA = await signer(0)
+        userB = await signer(1)
+    })
+
+    beforeEach(async () => {
+        jobs = await deployContractWithProxy<DelayedJobs>(
+            'DelayedJobs',
+            userA.address,
+            userB.address,
+            DELAY
+        )
+    })
+
+    it('decodes reason string data', () => {
+        const data = utils.hexConcat([
+            utils.id('Error(string)').slice(0, 10),
+            utils.defaultAbiCoder.encode(['string'], ['No'])
+        ])
+
+        expect(decodeRevert(data)).deep.equals({kind: 'error', reason: 'No'})
+    })
+
+    it('decodes custom error data', () => {
+        const data = jobs.interface.encodeErrorResult('WrongCollateral', [1, 2])
+
+        const revert = decodeRevert(data, [jobs.interface])
+
+        expect(revert.kind).equals('custom')
+        expect(formatRevert(revert)).equals('WrongCollateral(1, 2)')
+    })
+
+    it('unknown custom error data', () => {
+        const data = jobs.interface.encodeErrorResult('MissingReward')
+
+        expect(decodeRevert(data)).deep.equals({kind: 'unknown', data})
+    })
+
+    it('decodes data nested in provider error', () => {
+        const data = jobs.interface.encodeErrorResult('CallerIsSubmitter')
+        const error = {error: {data: {message: 'reverted', data}}}
+
+        expect(decodeError(error, [jobs.interface])?.kind).equals('custom')
+    })
+
+    it('decodes HardHat custom error message', async () => {
+        const error = await jobs
+            .connect(userB)
+            .placeJobBid(jobs.address, 1, 0, '', '0x', 3601)
+            .catch((thrown: unknown) => thrown)
+
+        const revert = decodeError(error, [jobs.interface])
+        expect(revert?.kind).equals('custom')
+        expect(revert?.kind === 'custom' && revert.name).equals(
+            DelayedJobsError.JobNotSubmitted.name
+        )
+    })
+
+    it('keeps large numbers of HardHat custom error message', async () => {
+        const collateral = utils.parseEther('1.000000000000000001')
+        const job = await new DelayedJobsClient(jobs)
+            .connect(userA)
+            .submitAuction(jobs.address, 'identity()', '0x', 3601, collateral)
+
+        const error = await jobs
+            .connect(userB)
+            .placeJobBid(
+                job.target,
+                job.value,
+                1,
+                job.signature,
+                job.data,
+                job.timeout,
+                {value: 1}
+            )
+            .catch((thrown: unknown) => thrown)
+
+        expect(
+            formatRevert(
+                decodeError(error, [jobs.interface]) ?? {
+                    kind: 'unknown',
+                    data: '0x'
+                }
+            )
+        ).equals(`WrongCollateral(1, ${collateral.sub(1).toString()})`)
+    })
+
+    it('client fails with RevertError', async () => {
+        const job = await new DelayedJobsClient(jobs)
+            .connect(userA)
+            .submit(jobs.address, 'identity()', '0x', 1)
+
+        const error = await new DelayedJobsClient(jobs)
+            .connect(userB)
+            .execute(job)
+            .catch((thrown: unknown) => thrown)
+
+        expect(error).instanceOf(RevertError)
+        expect((error as RevertError).revert.kind).equals('custom')
+        expect((error as Error).message).contains('DelayNotElapsed')
+    })
+
+    let userA: SignerWithAddress
+    let userB: SignerWithAddress
+    let jobs: DelayedJobs
+})
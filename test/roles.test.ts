@@ -0,0 +1,320 @@
+// Start - Support direct Mocha run & debug
+import 'hardhat'
+import '@nomiclabs/hardhat-ethers'
+// End - Support direct Mocha run & debug
+import chai, {expect} from 'chai'
+import {before} from 'mocha'
+import {solidity} from 'ethereum-waffle'
+import {BigNumber, constants} from 'ethers'
+import {SignerWithAddress} from '@nomiclabs/hardhat-ethers/signers'
+import {DelayedJobs} from '../typechain-types'
+import {DelayedJobsClient} from '../src/client'
+import {AuctionJob, Job} from '../src/job'
+import {roleId} from '../src/roles'
+import {
+    FIXTURE_BID,
+    FIXTURE_DELAY,
+    FIXTURE_REWARD,
+    FIXTURE_TIMEOUT,
+    bidPlaced,
+    deployed,
+    signer
+} from './framework/contracts'
+import {expectClaimableDeltas} from './framework/balances'
+import {DelayedJobsError} from './framework/errors'
+import {expectRevert} from './framework/transaction'
+import {advanceBy} from './framework/time'
+
+// Wires up Waffle with Chai
+chai.use(solidity)
+
+describe('DelayedJobs roles', () => {
+    before(async () => {
+        userA = await signer(0)
+        userB = await signer(1)
+        userC = await signer(2)
+        userD = await signer(3)
+        submitter = roleId('submitter')
+        executor = roleId('executor')
+    })
+
+    describe('admin', () => {
+        beforeEach(async () => {
+            jobs = (await deployed()).jobs
+            admin = new DelayedJobsClient(jobs).connect(userA)
+        })
+
+        it('grants and revokes roles', async () => {
+            await expect(jobs.connect(userA).grantRole(executor, userC.address))
+                .to.emit(jobs, 'RoleGranted')
+                .withArgs(executor, userC.address, userA.address)
+            expect(await admin.roleMembers('executor')).deep.equals([
+                userB.address,
+                userC.address
+            ])
+
+            await expect(
+                jobs.connect(userA).revokeRole(executor, userB.address)
+            )
+                .to.emit(jobs, 'RoleRevoked')
+                .withArgs(executor, userB.address, userA.address)
+            expect(await admin.roleMembers('executor')).deep.equals([
+                userC.address
+            ])
+        })
+
+        it('rotates a role', async () => {
+            await expect(
+                jobs
+                    .connect(userA)
+                    .rotateRole(executor, userB.address, userC.address)
+            )
+                .to.emit(jobs, 'RoleRotated')
+                .withArgs(executor, userB.address, userC.address)
+
+            expect(await admin.hasRole('executor', userB.address)).is.false
+            expect(await admin.hasRole('executor', userC.address)).is.true
+            expect(await jobs.rotations(userB.address)).equals(0)
+            expect((await jobs.rotatedTo(userB.address, 0)).to).equals(
+                constants.AddressZero
+            )
+        })
+
+        it('only admin rotates', async () => {
+            await expectRevert(
+                jobs
+                    .connect(userB)
+                    .rotateRole(executor, userB.address, userC.address),
+                DelayedJobsError.MissingRole,
+                constants.HashZero,
+                userB.address
+            )
+        })
+
+        it('rotates only from a holder', async () => {
+            await expectRevert(
+                jobs
+                    .connect(userA)
+                    .rotateRole(executor, userC.address, userD.address),
+                DelayedJobsError.MissingRole,
+                executor,
+                userC.address
+            )
+        })
+
+        it('rotates not to the zero address', async () => {
+            await expectRevert(
+                jobs
+                    .connect(userA)
+                    .rotateRole(
+                        submitter,
+                        userA.address,
+                        constants.AddressZero
+                    ),
+                DelayedJobsError.ZeroAddress
+            )
+        })
+
+        it('granted submitter owns its jobs', async () => {
+            await admin.grantRole('submitter', userC.address)
+            const client = new DelayedJobsClient(jobs).connect(userC)
+
+            const job = await client.submit(
+                jobs.address,
+                'identity()',
+                '0x',
+                FIXTURE_REWARD
+            )
+
+            expect((await client.status(job)).submitter).equals(userC.address)
+        })
+    })
+
+    describe('with pending auction job', () => {
+        beforeEach(async () => {
+            ;({jobs, job} = await bidPlaced())
+            admin = new DelayedJobsClient(jobs).connect(userA)
+        })
+
+        it('rotated submitter is refunded on execution', async () => {
+            await admin.rotateRole('submitter', userA.address, userC.address)
+            await advanceBy(FIXTURE_DELAY)
+
+            await expectClaimableDeltas(
+                jobs,
+                [
+                    [userA, 0],
+                    [userB, FIXTURE_REWARD],
+                    [userC, FIXTURE_REWARD.sub(FIXTURE_BID)]
+                ],
+                () => executeJobBid(userB)
+            )
+        })
+
+        it('rotated submitter cancels and is refunded', async () => {
+            await admin.rotateRole('submitter', userA.address, userC.address)
+            await advanceBy(FIXTURE_DELAY + FIXTURE_TIMEOUT)
+
+            await expectRevert(
+                cancelJobAuction(userA),
+                DelayedJobsError.CallerNotSubmitter,
+                userA.address,
+                userC.address
+            )
+            await expectClaimableDeltas(jobs, [[userC, FIXTURE_REWARD]], () =>
+                cancelJobAuction(userC)
+            )
+        })
+
+        it('rotated submitter cannot bid on its jobs', async () => {
+            await admin.rotateRole('submitter', userA.address, userC.address)
+
+            await expectRevert(
+                placeJobBid(userC, FIXTURE_BID.div(2)),
+                DelayedJobsError.CallerIsSubmitter
+            )
+            await placeJobBid(userA, FIXTURE_BID.div(2))
+            expect(await jobs.submittedBestBidder(job.txHash)).equals(
+                userA.address
+            )
+        })
+
+        it('follows repeated rotations', async () => {
+            await admin.rotateRole('submitter', userA.address, userC.address)
+            await admin.rotateRole('submitter', userC.address, userD.address)
+            expect(await jobs.submitterOf(job.txHash)).equals(userD.address)
+
+            await admin.rotateRole('submitter', userD.address, userA.address)
+            expect(await jobs.submitterOf(job.txHash)).equals(userA.address)
+            expect((await jobs.rotatedTo(userA.address, 1)).to).equals(
+                constants.AddressZero
+            )
+        })
+
+        it('a submitter rotated twice keeps its later jobs apart', async () => {
+            await admin.rotateRole('submitter', userA.address, userC.address)
+            await admin.grantRole('submitter', userA.address)
+            const later = await admin.submit(
+                jobs.address,
+                'identity()',
+                '0x01',
+                FIXTURE_REWARD
+            )
+            await admin.rotateRole('submitter', userA.address, userD.address)
+
+            expect(await jobs.submitterOf(job.txHash)).equals(userC.address)
+            expect(await jobs.submitterOf(later.txHash)).equals(userD.address)
+            expect(await jobs.rotations(userA.address)).equals(2)
+        })
+
+        it('rotating to a former submitter hands back none of its jobs', async () => {
+            await admin.rotateRole('submitter', userA.address, userC.address)
+            await admin.grantRole('submitter', userD.address)
+            await admin.rotateRole('submitter', userD.address, userA.address)
+
+            expect(await jobs.submitterOf(job.txHash)).equals(userC.address)
+        })
+
+        it('revoked submitter still owns its jobs', async () => {
+            await admin.revokeRole('submitter', userA.address)
+            await advanceBy(FIXTURE_DELAY + FIXTURE_TIMEOUT)
+
+            await expectClaimableDeltas(jobs, [[userA, FIXTURE_REWARD]], () =>
+                cancelJobAuction(userA)
+            )
+        })
+    })
+
+    describe('with pending plain job', () => {
+        beforeEach(async () => {
+            jobs = (await deployed()).jobs
+            admin = new DelayedJobsClient(jobs).connect(userA)
+            plain = await admin.submit(
+                jobs.address,
+                'identity()',
+                '0x',
+                FIXTURE_REWARD
+            )
+            await advanceBy(FIXTURE_DELAY)
+        })
+
+        it('revoked executor cannot execute', async () => {
+            await admin.revokeRole('executor', userB.address)
+
+            await expectRevert(
+                executeJob(userB),
+                DelayedJobsError.MissingRole,
+                executor,
+                userB.address
+            )
+        })
+
+        it('rotated executor executes for the reward', async () => {
+            await admin.rotateRole('executor', userB.address, userC.address)
+
+            await expectClaimableDeltas(
+                jobs,
+                [
+                    [userB, 0],
+                    [userC, FIXTURE_REWARD]
+                ],
+                () => executeJob(userC)
+            )
+        })
+    })
+
+    function executeJob(from: SignerWithAddress) {
+        return jobs
+            .connect(from)
+            .executeJob(plain.target, plain.value, plain.signature, plain.data)
+    }
+
+    function placeJobBid(from: SignerWithAddress, bid: BigNumber) {
+        return jobs
+            .connect(from)
+            .placeJobBid(
+                job.target,
+                job.value,
+                bid,
+                job.signature,
+                job.data,
+                job.timeout,
+                {value: job.value.sub(bid)}
+            )
+    }
+
+    function executeJobBid(from: SignerWithAddress) {
+        return jobs
+            .connect(from)
+            .executeJobBid(
+                job.target,
+                job.value,
+                job.signature,
+                job.data,
+                job.timeout
+            )
+    }
+
+    function cancelJobAuction(from: SignerWithAddress) {
+        return jobs
+            .connect(from)
+            .cancelJobAuction(
+                job.target,
+                job.value,
+                job.signature,
+                job.data,
+                job.timeout
+            )
+    }
+
+    let userA: SignerWithAddress
+    let userB: SignerWithAddress
+    let userC: SignerWithAddress
+    let userD: SignerWithAddress
+    let submitter: string
+    let executor: string
+    let jobs: DelayedJobs
+    let admin: DelayedJobsClient
+    let job: AuctionJob
+    let plain: Job
+})
@@ -0,0 +1,180 @@
+// Start - Support direct Mocha run & debug
+import 'hardhat'
+import '@nomiclabs/hardhat-ethers'
+// End - Support direct Mocha run & debug
+import {expect} from 'chai'
+import {BigNumber} from 'ethers'
+import {describeRecurringJob} from '../src/job'
+import {
+    occurrences,
+    parseCron,
+    planSchedule,
+    upcomingRuns
+} from '../src/schedule'
+
+const HOUR = 3600
+const DAY = 24 * HOUR
+// Monday 1 January 2024, midnight UTC
+const MONDAY = Date.UTC(2024, 0, 1) / 1000
+
+/**
+ * Timestamp the days and hours after Monday's midnight.
+ */
+function at(days: number, hours = 0): number {
+    const daySeconds = days * DAY
+    const hourSeconds = hours * HOUR
+
+    return MONDAY + daySeconds + hourSeconds
+}
+
+describe('Schedule', () => {
+    describe('parseCron()', () => {
+        it('parses values, ranges, lists and steps', () => {
+            const schedule = parseCron('*/15 9-17/4 1,15 * 1-5')
+
+            expect([...schedule.minutes]).deep.equals([0, 15, 30, 45])
+            expect([...schedule.hours]).deep.equals([9, 13, 17])
+            expect([...schedule.days]).deep.equals([1, 15])
+            expect(schedule.months.size).equals(12)
+            expect([...schedule.weekdays]).deep.equals([1, 2, 3, 4, 5])
+            expect(schedule).to.include({anyDay: false, anyWeekday: false})
+        })
+
+        it('steps a single value to the maximum', () => {
+            expect([...parseCron('50/5 * * * *').minutes]).deep.equals([50, 55])
+        })
+
+        it('takes Sunday as 0 or 7', () => {
+            expect([...parseCron('0 0 * * 7').weekdays]).deep.equals([0])
+        })
+
+        it('expands macros', () => {
+            expect(parseCron('@daily')).deep.equals(parseCron('0 0 * * *'))
+        })
+
+        it('rejects the wrong field count', () => {
+            expect(() => parseCron('0 * * *')).throws(
+                'Schedule: Expecting five fields in "0 * * *", found 4'
+            )
+        })
+
+        it('rejects values out of range', () => {
+            expect(() => parseCron('60 * * * *')).throws(
+                'Schedule: "60" is outside 0-59 or has no values'
+            )
+        })
+
+        it('rejects values that are not numbers', () => {
+            expect(() => parseCron('* * * JAN *')).throws(
+                'Schedule: "JAN" is not a number'
+            )
+        })
+    })
+
+    describe('occurrences()', () => {
+        it('from the start of the next matching minute', () => {
+            expect(
+                occurrences(parseCron('0 */6 * * *'), MONDAY + 1, 3)
+            ).deep.equals([at(0, 6), at(0, 12), at(0, 18)])
+        })
+
+        it('including the from timestamp when it matches', () => {
+            expect(occurrences(parseCron('@hourly'), MONDAY, 1)).deep.equals([
+                MONDAY
+            ])
+        })
+
+        it('on either the day of month or the weekday', () => {
+            // Friday 5th, Friday 12th then Saturday 13th
+            expect(occurrences(parseCron('0 0 13 * 5'), MONDAY, 3)).deep.equals(
+                [at(4), at(11), at(12)]
+            )
+        })
+
+        it('across months', () => {
+            expect(
+                occurrences(parseCron('@monthly'), MONDAY + 1, 2)
+            ).deep.equals([
+                Date.UTC(2024, 1, 1) / 1000,
+                Date.UTC(2024, 2, 1) / 1000
+            ])
+        })
+    })
+
+    describe('planSchedule()', () => {
+        it('plans the interval and runs after the delay', () => {
+            const plan = planSchedule('0 */6 * * *', {
+                from: MONDAY,
+                delay: 10000,
+                maxRuns: 3
+            })
+
+            expect(plan).deep.equals({
+                interval: 6 * HOUR,
+                firstRunAt: at(0, 6),
+                submitAt: at(0, 6) - 10000,
+                runs: [at(0, 6), at(0, 12), at(0, 18)]
+            })
+        })
+
+        it('plans the interval of a single run', () => {
+            const plan = planSchedule('@daily', {
+                from: MONDAY + 1,
+                delay: HOUR,
+                maxRuns: 1
+            })
+
+            expect(plan.interval).equals(DAY)
+            expect(plan.runs).deep.equals([at(1)])
+        })
+
+        it('rejects runs not evenly spaced', () => {
+            // Thursday, Friday then the following Monday
+            expect(() =>
+                planSchedule('0 9 * * 1-5', {
+                    from: at(3),
+                    delay: 0,
+                    maxRuns: 3
+                })
+            ).throws(
+                'Schedule: "0 9 * * 1-5" does not recur at a fixed interval, its runs are 86400s and 259200s apart'
+            )
+        })
+
+        it('rejects runs less than an hour apart', () => {
+            expect(() =>
+                planSchedule('*/5 * * * *', {
+                    from: MONDAY,
+                    delay: 0,
+                    maxRuns: 3
+                })
+            ).throws(
+                'Schedule: "*/5 * * * *" recurs every 300s, more often than the minimum interval of 3600s'
+            )
+        })
+
+        it('rejects no runs', () => {
+            expect(() =>
+                planSchedule('@hourly', {from: MONDAY, delay: 0, maxRuns: 0})
+            ).throws('Schedule: Expecting at least one run, not 0')
+        })
+    })
+
+    describe('upcomingRuns()', () => {
+        it('matures each run an interval after the one before', () => {
+            const job = describeRecurringJob(
+                '0x0000000000000000000000000000000000000001',
+                3,
+                'identity()',
+                '0x',
+                HOUR,
+                3
+            )
+
+            expect(upcomingRuns(job, MONDAY, 100, 1)).deep.equals([
+                BigNumber.from(at(0, 1) + 100),
+                BigNumber.from(at(0, 2) + 100)
+            ])
+        })
+    })
+})
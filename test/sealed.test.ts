@@ -0,0 +1,722 @@
+// Start - Support direct Mocha run & debug
+import 'hardhat'
+import '@nomiclabs/hardhat-ethers'
+// End - Support direct Mocha run & debug
+import chai, {expect} from 'chai'
+import chaiAsPromised from 'chai-as-promised'
+import {before} from 'mocha'
+import {solidity} from 'ethereum-waffle'
+import {createLogger} from 'bunyan'
+import {mkdtempSync, statSync} from 'fs'
+import {tmpdir} from 'os'
+import {join} from 'path'
+import {BigNumber, constants} from 'ethers'
+import {SignerWithAddress} from '@nomiclabs/hardhat-ethers/signers'
+import {DelayedJobs} from '../typechain-types'
+import {DelayedJobsClient} from '../src/client'
+import {JobIndexer} from '../src/indexer'
+import {AuctionJob, describeAuctionJob} from '../src/job'
+import {
+    JsonFileSealedBidStore,
+    MemorySealedBidStore,
+    SealedBidder,
+    bidCommitment,
+    randomSalt
+} from '../src/sealed-bids'
+import {
+    FIXTURE_DELAY,
+    FIXTURE_REWARD,
+    FIXTURE_TIMEOUT,
+    deployed,
+    signer
+} from './framework/contracts'
+import {expectBalanceDeltas, expectClaimableDeltas} from './framework/balances'
+import {DelayedJobsError} from './framework/errors'
+import {MIN_DELAY} from './framework/model'
+import {expectRevert} from './framework/transaction'
+import {
+    advanceToAuctionExpiry,
+    advanceToMaturity,
+    advanceToReveal,
+    mine
+} from './framework/time'
+
+// Wires up Waffle with Chai
+chai.use(solidity)
+chai.use(chaiAsPromised)
+
+const REVEAL_PERIOD = 7200
+const OWNER_READ_WRITE = 0o600
+
+describe('DelayedJobs sealed auctions', () => {
+    before(async () => {
+        userA = await signer(0)
+        bidderA = await signer(1)
+        bidderB = await signer(2)
+        bidderC = await signer(3)
+    })
+
+    beforeEach(async () => {
+        ;({jobs} = await deployed())
+        client = new DelayedJobsClient(jobs).connect(userA)
+        job = await client.submitSealedAuction(
+            jobs.address,
+            'identity()',
+            '0x',
+            FIXTURE_TIMEOUT,
+            REVEAL_PERIOD,
+            FIXTURE_REWARD
+        )
+    })
+
+    describe('submitJobSealedAuction()', () => {
+        it('emits JobAuctionStarted and JobBidsSealed', async () => {
+            const sealed = describeAuctionJob(
+                jobs.address,
+                FIXTURE_REWARD,
+                'identity()',
+                '0x01',
+                FIXTURE_TIMEOUT
+            )
+            const submission = submitJobSealedAuction(sealed, REVEAL_PERIOD)
+
+            await expect(submission)
+                .to.emit(jobs, 'JobAuctionStarted')
+                .withArgs(sealed.txHash, FIXTURE_TIMEOUT)
+            await expect(submission)
+                .to.emit(jobs, 'JobBidsSealed')
+                .withArgs(sealed.txHash, REVEAL_PERIOD)
+            expect(await jobs.submittedRevealPeriod(sealed.txHash)).equals(
+                REVEAL_PERIOD
+            )
+        })
+
+        it('not with a reveal period below the minimum', async () => {
+            await expectRevert(
+                submitJobSealedAuction(
+                    describeAuctionJob(
+                        jobs.address,
+                        FIXTURE_REWARD,
+                        'identity()',
+                        '0x01',
+                        FIXTURE_TIMEOUT
+                    ),
+                    MIN_DELAY - 1
+                ),
+                DelayedJobsError.RevealPeriodTooShort,
+                MIN_DELAY - 1,
+                MIN_DELAY
+            )
+        })
+    })
+
+    describe('commitJobBid()', () => {
+        it('takes the maximum bid as collateral, whatever the bid', async () => {
+            const salt = randomSalt()
+            const commitment = bidCommitment(job, bidderA.address, 1, salt)
+
+            await expectBalanceDeltas(
+                [
+                    [bidderA, FIXTURE_REWARD.mul(-1)],
+                    [jobs, FIXTURE_REWARD]
+                ],
+                () => commitJobBid(bidderA, commitment)
+            )
+
+            expect(
+                await jobs.bidCommitmentOf(job.txHash, bidderA.address)
+            ).equals(commitment)
+            expect(await jobs.unrevealedBids(job.txHash)).equals(1)
+        })
+
+        it('emits JobBidCommitted', async () => {
+            const commitment = bidCommitment(
+                job,
+                bidderA.address,
+                1,
+                randomSalt()
+            )
+
+            await expect(commitJobBid(bidderA, commitment))
+                .to.emit(jobs, 'JobBidCommitted')
+                .withArgs(job.txHash, bidderA.address, commitment)
+        })
+
+        it('not with other collateral than the maximum bid', async () => {
+            await expectRevert(
+                commitJobBid(bidderA, randomSalt(), FIXTURE_REWARD.div(2)),
+                DelayedJobsError.WrongCollateral,
+                FIXTURE_REWARD.div(2),
+                FIXTURE_REWARD
+            )
+        })
+
+        it('not twice', async () => {
+            await commitJobBid(bidderA, randomSalt())
+
+            await expectRevert(
+                commitJobBid(bidderA, randomSalt()),
+                DelayedJobsError.AlreadyCommitted,
+                job.txHash,
+                bidderA.address
+            )
+        })
+
+        it('not without a commitment', async () => {
+            await expectRevert(
+                commitJobBid(bidderA, constants.HashZero),
+                DelayedJobsError.MissingCommitment
+            )
+            expect(await jobs.unrevealedBids(job.txHash)).equals(0)
+        })
+
+        it('not by the submitter', async () => {
+            await expectRevert(
+                commitJobBid(userA, randomSalt()),
+                DelayedJobsError.CallerIsSubmitter
+            )
+        })
+
+        it('not once the delay has passed', async () => {
+            const closedAt = await advanceToReveal(jobs, job)
+
+            await expectRevert(
+                commitJobBid(bidderA, randomSalt()),
+                DelayedJobsError.BiddingClosed,
+                job.txHash,
+                closedAt
+            )
+        })
+
+        it('not on an open auction', async () => {
+            const open = await client.submitAuction(
+                jobs.address,
+                'identity()',
+                '0x01',
+                FIXTURE_TIMEOUT,
+                FIXTURE_REWARD
+            )
+
+            await expectRevert(
+                jobs
+                    .connect(bidderA)
+                    .commitJobBid(
+                        open.target,
+                        open.value,
+                        open.signature,
+                        open.data,
+                        open.timeout,
+                        randomSalt(),
+                        {value: open.value}
+                    ),
+                DelayedJobsError.NotSealedAuction,
+                open.txHash
+            )
+        })
+    })
+
+    it('takes no open bids', async () => {
+        await expectRevert(
+            client.connect(bidderA).bid(job, FIXTURE_REWARD.div(2)),
+            DelayedJobsError.SealedAuction,
+            job.txHash
+        )
+    })
+
+    describe('revealJobBid()', () => {
+        it('lowest bid leads, refunding the bid it beats', async () => {
+            const a = await commit(bidderA, FIXTURE_REWARD.div(2))
+            const b = await commit(bidderB, FIXTURE_REWARD.div(4))
+            await advanceToReveal(jobs, job)
+            await reveal(bidderA, a)
+
+            await expectClaimableDeltas(
+                jobs,
+                [
+                    [bidderA, FIXTURE_REWARD],
+                    [bidderB, 0]
+                ],
+                () => reveal(bidderB, b)
+            )
+
+            expect(await jobs.submittedBestBidder(job.txHash)).equals(
+                bidderB.address
+            )
+            expect(await jobs.submittedBestBid(job.txHash)).equals(b.bid)
+            expect(await jobs.unrevealedBids(job.txHash)).equals(0)
+        })
+
+        it('higher bid refunded once revealed', async () => {
+            const a = await commit(bidderA, FIXTURE_REWARD.div(4))
+            const b = await commit(bidderB, FIXTURE_REWARD.div(2))
+            await advanceToReveal(jobs, job)
+            await reveal(bidderA, a)
+
+            await expectClaimableDeltas(
+                jobs,
+                [
+                    [bidderA, 0],
+                    [bidderB, FIXTURE_REWARD]
+                ],
+                () => reveal(bidderB, b)
+            )
+
+            expect(await jobs.submittedBestBidder(job.txHash)).equals(
+                bidderA.address
+            )
+        })
+
+        it('ties go to the first revealed', async () => {
+            const a = await commit(bidderA, FIXTURE_REWARD.div(2))
+            const b = await commit(bidderB, FIXTURE_REWARD.div(2))
+            await advanceToReveal(jobs, job)
+            await reveal(bidderB, b)
+
+            await expectClaimableDeltas(
+                jobs,
+                [
+                    [bidderA, FIXTURE_REWARD],
+                    [bidderB, 0]
+                ],
+                () => reveal(bidderA, a)
+            )
+
+            expect(await jobs.submittedBestBidder(job.txHash)).equals(
+                bidderB.address
+            )
+        })
+
+        it('bid not below the maximum refunded, never leading', async () => {
+            const a = await commit(bidderA, FIXTURE_REWARD)
+            await advanceToReveal(jobs, job)
+
+            await expectClaimableDeltas(jobs, [[bidderA, FIXTURE_REWARD]], () =>
+                reveal(bidderA, a)
+            )
+
+            expect(await jobs.submittedBestBidder(job.txHash)).equals(
+                constants.AddressZero
+            )
+        })
+
+        it('emits JobBidRevealed', async () => {
+            const a = await commit(bidderA, FIXTURE_REWARD.div(2))
+            await advanceToReveal(jobs, job)
+
+            await expect(reveal(bidderA, a))
+                .to.emit(jobs, 'JobBidRevealed')
+                .withArgs(job.txHash, bidderA.address, a.bid)
+        })
+
+        it('not before the delay has passed', async () => {
+            const a = await commit(bidderA, FIXTURE_REWARD.div(2))
+            const opensAt = await advanceToReveal(jobs, job, -1)
+
+            await expectRevert(
+                reveal(bidderA, a),
+                DelayedJobsError.RevealNotOpen,
+                job.txHash,
+                opensAt + 1
+            )
+        })
+
+        it('not once the reveal period has passed', async () => {
+            const a = await commit(bidderA, FIXTURE_REWARD.div(2))
+            const closedAt = await advanceToMaturity(jobs, job)
+
+            await expectRevert(
+                reveal(bidderA, a),
+                DelayedJobsError.RevealClosed,
+                job.txHash,
+                closedAt
+            )
+        })
+
+        it('not with another salt', async () => {
+            const a = await commit(bidderA, FIXTURE_REWARD.div(2))
+            await advanceToReveal(jobs, job)
+
+            await expectRevert(
+                reveal(bidderA, {...a, salt: randomSalt()}),
+                DelayedJobsError.CommitmentMismatch,
+                job.txHash,
+                bidderA.address
+            )
+        })
+
+        it('not another bid', async () => {
+            const a = await commit(bidderA, FIXTURE_REWARD.div(2))
+            await advanceToReveal(jobs, job)
+
+            await expectRevert(
+                reveal(bidderA, {...a, bid: a.bid.sub(1)}),
+                DelayedJobsError.CommitmentMismatch,
+                job.txHash,
+                bidderA.address
+            )
+        })
+
+        it('not twice', async () => {
+            const a = await commit(bidderA, FIXTURE_REWARD.div(2))
+            await advanceToReveal(jobs, job)
+            await reveal(bidderA, a)
+
+            await expectRevert(
+                reveal(bidderA, a),
+                DelayedJobsError.CommitmentMismatch,
+                job.txHash,
+                bidderA.address
+            )
+        })
+
+        it('not committed on an earlier submission of the job', async () => {
+            const a = await commit(bidderA, FIXTURE_REWARD.div(2))
+            await advanceToAuctionExpiry(jobs, job)
+            await client.cancel(job)
+            await submitJobSealedAuction(job, REVEAL_PERIOD)
+            await advanceToReveal(jobs, job)
+
+            await expectRevert(
+                reveal(bidderA, a),
+                DelayedJobsError.CommitmentMismatch,
+                job.txHash,
+                bidderA.address
+            )
+        })
+    })
+
+    describe('executeJobBid()', () => {
+        it('not before the reveal period has passed', async () => {
+            const a = await commit(bidderA, FIXTURE_REWARD.div(2))
+            await advanceToReveal(jobs, job)
+            await reveal(bidderA, a)
+            const maturesAt = await advanceToMaturity(jobs, job, -1)
+
+            await expectRevert(
+                executeJobBid(bidderA),
+                DelayedJobsError.DelayNotElapsed,
+                job.txHash,
+                maturesAt + 1
+            )
+        })
+
+        it('pays the bid, forfeiting unrevealed collateral to the submitter', async () => {
+            const a = await commit(bidderA, FIXTURE_REWARD.div(2))
+            await commit(bidderB, FIXTURE_REWARD.div(4))
+            await advanceToReveal(jobs, job)
+            await reveal(bidderA, a)
+            await advanceToMaturity(jobs, job)
+
+            await expectClaimableDeltas(
+                jobs,
+                [
+                    [bidderA, FIXTURE_REWARD.add(a.bid)],
+                    [bidderB, 0],
+                    [userA, FIXTURE_REWARD.sub(a.bid).add(FIXTURE_REWARD)]
+                ],
+                () => executeJobBid(bidderA)
+            )
+
+            expect(await jobs.unrevealedBids(job.txHash)).equals(0)
+            expect(await jobs.submittedRevealPeriod(job.txHash)).equals(0)
+        })
+
+        it('only by the lowest revealed bid', async () => {
+            const a = await commit(bidderA, FIXTURE_REWARD.div(2))
+            await commit(bidderB, FIXTURE_REWARD.div(4))
+            await advanceToReveal(jobs, job)
+            await reveal(bidderA, a)
+            await advanceToMaturity(jobs, job)
+
+            await expectRevert(
+                executeJobBid(bidderB),
+                DelayedJobsError.NotBestBidder,
+                bidderB.address,
+                bidderA.address
+            )
+        })
+    })
+
+    describe('cancelJobAuction()', () => {
+        it('forfeits unrevealed collateral to the submitter', async () => {
+            await commit(bidderA, FIXTURE_REWARD.div(2))
+            await commit(bidderB, FIXTURE_REWARD.div(4))
+            await advanceToAuctionExpiry(jobs, job)
+
+            await expectClaimableDeltas(
+                jobs,
+                [
+                    [userA, FIXTURE_REWARD.mul(3)],
+                    [bidderA, 0],
+                    [bidderB, 0]
+                ],
+                () => cancelJobAuction()
+            )
+        })
+
+        it('refunds the collateral of the lowest revealed bid', async () => {
+            const a = await commit(bidderA, FIXTURE_REWARD.div(2))
+            await advanceToReveal(jobs, job)
+            await reveal(bidderA, a)
+            await advanceToAuctionExpiry(jobs, job)
+
+            await expectClaimableDeltas(
+                jobs,
+                [
+                    [userA, FIXTURE_REWARD],
+                    [bidderA, FIXTURE_REWARD]
+                ],
+                () => cancelJobAuction()
+            )
+        })
+
+        it('not before the timeout after the reveal period', async () => {
+            const expiresAt = await advanceToAuctionExpiry(jobs, job, -1)
+
+            await expectRevert(
+                cancelJobAuction(),
+                DelayedJobsError.AuctionNotExpired,
+                job.txHash,
+                expiresAt + 1
+            )
+        })
+    })
+
+    describe('status()', () => {
+        it('bidding, revealing, then executable until expired', async () => {
+            const submittedAt = (await client.status(job)).submittedAt
+            const revealsAt = submittedAt.add(FIXTURE_DELAY)
+            const maturesAt = revealsAt.add(REVEAL_PERIOD)
+            await commit(bidderA, FIXTURE_REWARD.div(2))
+
+            expect(await client.status(job)).to.deep.include({
+                phase: 'bidding',
+                revealsAt,
+                maturesAt,
+                expiresAt: maturesAt.add(FIXTURE_TIMEOUT),
+                unrevealedBids: BigNumber.from(1)
+            })
+
+            await advanceToReveal(jobs, job)
+            await mine()
+            expect((await client.status(job)).phase).equals('revealing')
+
+            await advanceToMaturity(jobs, job)
+            await mine()
+            expect((await client.status(job)).phase).equals('executable')
+
+            await advanceToAuctionExpiry(jobs, job)
+            await mine()
+            expect((await client.status(job)).phase).equals('expired')
+        })
+    })
+
+    it('is indexed with its commitments and reveals', async () => {
+        const a = await commit(bidderA, FIXTURE_REWARD.div(2))
+        const b = await commit(bidderB, FIXTURE_REWARD.div(4))
+        await commit(bidderC, FIXTURE_REWARD.div(8))
+        await advanceToReveal(jobs, job)
+        await reveal(bidderA, a)
+        await reveal(bidderB, b)
+
+        const indexer = new JobIndexer(jobs)
+        await indexer.sync()
+
+        expect(indexer.book.job(job.txHash)).to.deep.include({
+            kind: 'auction',
+            revealPeriod: BigNumber.from(REVEAL_PERIOD),
+            unrevealedBids: 1,
+            bestBid: b.bid,
+            bestBidder: bidderB.address,
+            bidders: [bidderA.address, bidderB.address, bidderC.address]
+        })
+    })
+
+    describe('SealedBidder', () => {
+        beforeEach(() => {
+            store = new MemorySealedBidStore()
+            bidder = createBidder(store)
+        })
+
+        afterEach(async () => {
+            await bidder.stop()
+        })
+
+        it('reveals once the auction is revealing', async () => {
+            const sealed = await bidder.commit(job, FIXTURE_REWARD.div(2))
+            await bidder.step()
+
+            expect(bidder.pending()).deep.equals([sealed])
+
+            await advanceToReveal(jobs, job)
+            await mine()
+            await bidder.step()
+
+            expect(bidder.pending()).is.empty
+            expect(await jobs.submittedBestBidder(job.txHash)).equals(
+                bidderA.address
+            )
+            expect(await jobs.submittedBestBid(job.txHash)).equals(
+                FIXTURE_REWARD.div(2)
+            )
+        })
+
+        it('forgets a bid past its reveal period', async () => {
+            await bidder.commit(job, FIXTURE_REWARD.div(2))
+            await advanceToMaturity(jobs, job)
+            await mine()
+
+            await bidder.step()
+
+            expect(bidder.pending()).is.empty
+            expect(await jobs.unrevealedBids(job.txHash)).equals(1)
+        })
+
+        it('forgets the salt of a reverted commitment', async () => {
+            await advanceToReveal(jobs, job)
+            await mine()
+
+            await expect(
+                bidder.commit(job, FIXTURE_REWARD.div(2))
+            ).to.be.rejectedWith('BiddingClosed')
+            expect(bidder.pending()).is.empty
+        })
+
+        it('commits once per auction', async () => {
+            await bidder.commit(job, FIXTURE_REWARD.div(2))
+
+            await expect(
+                bidder.commit(job, FIXTURE_REWARD.div(4))
+            ).to.be.rejectedWith(
+                `SealedBidder: Bid on ${job.txHash} already committed, yet to be revealed`
+            )
+        })
+
+        it('reveals after restart, from a file only its owner reads', async () => {
+            const path = join(mkdtempSync(join(tmpdir(), 'bids-')), 'bids.json')
+            const first = createBidder(new JsonFileSealedBidStore(path))
+            await first.commit(job, FIXTURE_REWARD.div(2))
+            await advanceToReveal(jobs, job)
+            await mine()
+
+            const second = createBidder(new JsonFileSealedBidStore(path))
+            await second.step()
+
+            // eslint-disable-next-line no-bitwise
+            expect(statSync(path).mode & 0o777).equals(OWNER_READ_WRITE)
+            expect(second.pending()).is.empty
+            expect(await jobs.submittedBestBidder(job.txHash)).equals(
+                bidderA.address
+            )
+        })
+
+        function createBidder(
+            bidStore: MemorySealedBidStore | JsonFileSealedBidStore
+        ): SealedBidder {
+            return new SealedBidder(jobs.connect(bidderA), bidStore, {
+                logger: createLogger({name: 'sealed-bidder', streams: []})
+            })
+        }
+
+        let store: MemorySealedBidStore
+        let bidder: SealedBidder
+    })
+
+    /**
+     * Commits the bid of the bidder with a fresh salt.
+     */
+    async function commit(
+        from: SignerWithAddress,
+        bid: BigNumber
+    ): Promise<Sealed> {
+        const salt = randomSalt()
+        await commitJobBid(from, bidCommitment(job, from.address, bid, salt))
+
+        return {bid, salt}
+    }
+
+    function commitJobBid(
+        from: SignerWithAddress,
+        commitment: string,
+        collateral: BigNumber = job.value
+    ) {
+        return jobs
+            .connect(from)
+            .commitJobBid(
+                job.target,
+                job.value,
+                job.signature,
+                job.data,
+                job.timeout,
+                commitment,
+                {value: collateral}
+            )
+    }
+
+    function reveal(from: SignerWithAddress, sealed: Sealed) {
+        return jobs
+            .connect(from)
+            .revealJobBid(
+                job.target,
+                job.value,
+                job.signature,
+                job.data,
+                job.timeout,
+                sealed.bid,
+                sealed.salt
+            )
+    }
+
+    function submitJobSealedAuction(sealed: AuctionJob, revealPeriod: number) {
+        return jobs
+            .connect(userA)
+            .submitJobSealedAuction(
+                sealed.target,
+                sealed.signature,
+                sealed.data,
+                sealed.timeout,
+                revealPeriod,
+                {value: sealed.value}
+            )
+    }
+
+    function executeJobBid(from: SignerWithAddress) {
+        return jobs
+            .connect(from)
+            .executeJobBid(
+                job.target,
+                job.value,
+                job.signature,
+                job.data,
+                job.timeout
+            )
+    }
+
+    function cancelJobAuction() {
+        return jobs
+            .connect(userA)
+            .cancelJobAuction(
+                job.target,
+                job.value,
+                job.signature,
+                job.data,
+                job.timeout
+            )
+    }
+
+    let userA: SignerWithAddress
+    let bidderA: SignerWithAddress
+    let bidderB: SignerWithAddress
+    let bidderC: SignerWithAddress
+    let jobs: DelayedJobs
+    let client: DelayedJobsClient
+    let job: AuctionJob
+})
+
+/**
+ * A bid as committed, to reveal.
+ */
+interface Sealed {
+    bid: BigNumber
+    salt: string
+}
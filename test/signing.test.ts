@@ -0,0 +1,416 @@
+// Start - Support direct Mocha run & debug
+import 'hardhat'
+import '@nomiclabs/hardhat-ethers'
+// End - Support direct Mocha run & debug
+import chai, {expect} from 'chai'
+import chaiAsPromised from 'chai-as-promised'
+import {before} from 'mocha'
+import {solidity} from 'ethereum-waffle'
+import {utils} from 'ethers'
+import {SignerWithAddress} from '@nomiclabs/hardhat-ethers/signers'
+import {DelayedJobs} from '../typechain-types'
+import {DelayedJobsClient} from '../src/client'
+import {JobIndexer} from '../src/indexer'
+import {
+    AuctionJob,
+    Job,
+    describeAuctionJob,
+    describeJob,
+    isAuctionJob
+} from '../src/job'
+import {roleId} from '../src/roles'
+import {
+    SignedJob,
+    parseSignedJob,
+    recoverSigner,
+    signJob,
+    signingDomain,
+    verifySignedJob
+} from '../src/signing'
+import {
+    FIXTURE_DELAY,
+    FIXTURE_REWARD,
+    FIXTURE_TIMEOUT,
+    deployed,
+    signer
+} from './framework/contracts'
+import {expectBalanceDeltas, expectClaimableDeltas} from './framework/balances'
+import {DelayedJobsError} from './framework/errors'
+import {expectRevert} from './framework/transaction'
+import {
+    advanceBy,
+    advanceToAuctionExpiry,
+    advanceToMaturity,
+    now
+} from './framework/time'
+
+// Wires up Waffle with Chai
+chai.use(solidity)
+chai.use(chaiAsPromised)
+
+const VALIDITY = 600
+
+describe('DelayedJobs signed submissions', () => {
+    before(async () => {
+        userA = await signer(0)
+        userB = await signer(1)
+        relayer = await signer(2)
+    })
+
+    beforeEach(async () => {
+        ;({jobs} = await deployed())
+        client = new DelayedJobsClient(jobs).connect(relayer)
+        job = describeJob(jobs.address, FIXTURE_REWARD, 'identity()', '0x01')
+        deadline = (await now()) + VALIDITY
+    })
+
+    describe('submitJobBySig()', () => {
+        it('submitted for the signer, paid by the relayer', async () => {
+            const signed = await signJob(jobs, userA, job, deadline)
+
+            await expectBalanceDeltas(
+                [
+                    [userA, 0],
+                    [relayer, FIXTURE_REWARD.mul(-1)],
+                    [jobs, FIXTURE_REWARD]
+                ],
+                () => submitJobBySig(signed)
+            )
+
+            expect(await jobs.submittedTxs(job.txHash)).is.true
+            expect(await jobs.submitterOf(job.txHash)).equals(userA.address)
+            expect(await jobs.nonces(userA.address)).equals(1)
+        })
+
+        it('emits JobSubmitted and JobRelayed', async () => {
+            const submission = submitJobBySig(
+                await signJob(jobs, userA, job, deadline)
+            )
+
+            await expect(submission)
+                .to.emit(jobs, 'JobSubmitted')
+                .withArgs(
+                    job.txHash,
+                    job.target,
+                    FIXTURE_REWARD,
+                    job.signature,
+                    job.data
+                )
+            await expect(submission)
+                .to.emit(jobs, 'JobRelayed')
+                .withArgs(job.txHash, userA.address, relayer.address, 0)
+        })
+
+        it('refunds the signer on cancellation', async () => {
+            await submitJobBySig(await signJob(jobs, userA, job, deadline))
+
+            await expectClaimableDeltas(
+                jobs,
+                [
+                    [userA, FIXTURE_REWARD],
+                    [relayer, 0]
+                ],
+                () =>
+                    jobs
+                        .connect(userA)
+                        .cancelJob(
+                            job.target,
+                            job.value,
+                            job.signature,
+                            job.data
+                        )
+            )
+        })
+
+        it('not signed by the submitter', async () => {
+            const forged = {
+                ...(await signJob(jobs, userB, job, deadline)),
+                submitter: userA.address
+            }
+
+            await expectRevert(
+                submitJobBySig(forged),
+                DelayedJobsError.InvalidSignature,
+                userA.address
+            )
+        })
+
+        it('not with another reward', async () => {
+            const signed = await signJob(jobs, userA, job, deadline)
+
+            await expectRevert(
+                jobs
+                    .connect(relayer)
+                    .submitJobBySig(
+                        job.target,
+                        job.signature,
+                        job.data,
+                        userA.address,
+                        deadline,
+                        signed.sig,
+                        {value: FIXTURE_REWARD.div(2)}
+                    ),
+                DelayedJobsError.InvalidSignature,
+                userA.address
+            )
+        })
+
+        it('not with a malformed signature', async () => {
+            const signed = await signJob(jobs, userA, job, deadline)
+
+            await expectRevert(
+                submitJobBySig({...signed, sig: signed.sig.slice(0, -4)}),
+                DelayedJobsError.InvalidSignature,
+                userA.address
+            )
+        })
+
+        it('not after the deadline', async () => {
+            const signed = await signJob(jobs, userA, job, deadline)
+            await advanceBy(VALIDITY)
+
+            await expectRevert(
+                submitJobBySig(signed),
+                DelayedJobsError.SignatureExpired,
+                deadline
+            )
+        })
+
+        it('not replayed', async () => {
+            const signed = await signJob(
+                jobs,
+                userA,
+                job,
+                deadline + FIXTURE_DELAY
+            )
+            await submitJobBySig(signed)
+            await advanceToMaturity(jobs, job)
+            await new DelayedJobsClient(jobs).connect(userB).execute(job)
+
+            await expectRevert(
+                submitJobBySig(signed),
+                DelayedJobsError.InvalidSignature,
+                userA.address
+            )
+        })
+
+        it('not signed with a later nonce', async () => {
+            const signed = await signJob(jobs, userA, job, deadline, 1)
+
+            await expectRevert(
+                submitJobBySig(signed),
+                DelayedJobsError.InvalidSignature,
+                userA.address
+            )
+        })
+
+        it('not signed by an account without the submitter role', async () => {
+            await expectRevert(
+                submitJobBySig(await signJob(jobs, userB, job, deadline)),
+                DelayedJobsError.MissingRole,
+                roleId('submitter'),
+                userB.address
+            )
+        })
+    })
+
+    describe('submitJobAuctionBySig()', () => {
+        beforeEach(() => {
+            auction = describeAuctionJob(
+                jobs.address,
+                FIXTURE_REWARD,
+                'identity()',
+                '0x02',
+                FIXTURE_TIMEOUT
+            )
+        })
+
+        it('submitted for the signer, refunded on cancellation', async () => {
+            await client.relay(await signJob(jobs, userA, auction, deadline))
+            await advanceToAuctionExpiry(jobs, auction)
+
+            await expectClaimableDeltas(
+                jobs,
+                [
+                    [userA, FIXTURE_REWARD],
+                    [relayer, 0]
+                ],
+                () =>
+                    jobs
+                        .connect(userA)
+                        .cancelJobAuction(
+                            auction.target,
+                            auction.value,
+                            auction.signature,
+                            auction.data,
+                            auction.timeout
+                        )
+            )
+        })
+
+        it('not signed for another timeout', async () => {
+            const signed = await signJob(jobs, userA, auction, deadline)
+
+            await expectRevert(
+                submitJobBySig({
+                    ...signed,
+                    job: {...auction, timeout: auction.timeout.add(1)}
+                } as SignedJob),
+                DelayedJobsError.InvalidSignature,
+                userA.address
+            )
+        })
+    })
+
+    describe('relay()', () => {
+        it('relays the signed job', async () => {
+            const relayed = await client.relay(
+                await signJob(jobs, userA, job, deadline)
+            )
+
+            expect(relayed).deep.equals(job)
+            expect((await client.status(job)).submitter).equals(userA.address)
+        })
+
+        it('relays jobs signed in advance in nonce order', async () => {
+            const second = describeJob(
+                jobs.address,
+                FIXTURE_REWARD,
+                'identity()',
+                '0x02'
+            )
+            const first = await signJob(jobs, userA, job, deadline)
+            const next = await signJob(jobs, userA, second, deadline, 1)
+
+            await client.relay(first)
+            await client.relay(next)
+
+            expect(await jobs.nonces(userA.address)).equals(2)
+        })
+
+        it('rejects a replay before sending', async () => {
+            const signed = await signJob(jobs, userA, job, deadline)
+            await client.relay(signed)
+
+            await expect(client.relay(signed)).to.be.rejectedWith(
+                `DelayedJobsClient: Signed with nonce 0, the next nonce of ${userA.address} is 1`
+            )
+        })
+
+        it('rejects an expired signature before sending', async () => {
+            const signed = await signJob(jobs, userA, job, deadline)
+            await advanceBy(VALIDITY + 1)
+
+            await expect(client.relay(signed)).to.be.rejectedWith(
+                `Signing: Expired at ${deadline}`
+            )
+        })
+
+        it('indexes the signer as the submitter', async () => {
+            await client.relay(await signJob(jobs, userA, job, deadline))
+
+            const indexer = new JobIndexer(jobs)
+            await indexer.sync()
+
+            expect(indexer.book.job(job.txHash)).to.include({
+                submitter: userA.address,
+                relayer: relayer.address
+            })
+        })
+    })
+
+    describe('signing', () => {
+        it('domain of the contract', async () => {
+            expect(
+                utils._TypedDataEncoder.hashDomain(await signingDomain(jobs))
+            ).equals(await jobs.DOMAIN_SEPARATOR())
+        })
+
+        it('recovers the signer', async () => {
+            const signed = await signJob(jobs, userB, job, deadline)
+
+            expect(recoverSigner(await signingDomain(jobs), signed)).equals(
+                userB.address
+            )
+        })
+
+        it('verifies the submitter signed', async () => {
+            const domain = await signingDomain(jobs)
+            const signed = await signJob(jobs, userA, job, deadline)
+
+            expect(() =>
+                verifySignedJob(domain, signed, deadline)
+            ).not.to.throw()
+            expect(() =>
+                verifySignedJob(
+                    domain,
+                    {...signed, submitter: userB.address},
+                    deadline
+                )
+            ).throws(
+                `Signing: Signed by ${userA.address}, not the submitter ${userB.address}`
+            )
+            expect(() => verifySignedJob(domain, signed, deadline + 1)).throws(
+                `Signing: Expired at ${deadline}, before ${deadline + 1}`
+            )
+        })
+
+        it('parses the signed job from JSON', async () => {
+            const signed = await signJob(jobs, userA, job, deadline)
+            const auction = await signJob(
+                jobs,
+                userA,
+                describeAuctionJob(
+                    jobs.address,
+                    FIXTURE_REWARD,
+                    'identity()',
+                    '0x02',
+                    FIXTURE_TIMEOUT
+                ),
+                deadline
+            )
+
+            expect(parseSignedJob(JSON.stringify(signed))).deep.equals(signed)
+            expect(parseSignedJob(JSON.stringify(auction))).deep.equals(auction)
+        })
+    })
+
+    function submitJobBySig(signed: SignedJob) {
+        const {
+            job: {target, value, signature, data},
+            submitter,
+            sig
+        } = signed
+        const relaying = jobs.connect(relayer)
+
+        return isAuctionJob(signed.job)
+            ? relaying.submitJobAuctionBySig(
+                  target,
+                  signature,
+                  data,
+                  signed.job.timeout,
+                  submitter,
+                  signed.deadline,
+                  sig,
+                  {value}
+              )
+            : relaying.submitJobBySig(
+                  target,
+                  signature,
+                  data,
+                  submitter,
+                  signed.deadline,
+                  sig,
+                  {value}
+              )
+    }
+
+    let userA: SignerWithAddress
+    let userB: SignerWithAddress
+    let relayer: SignerWithAddress
+    let jobs: DelayedJobs
+    let client: DelayedJobsClient
+    let job: Job
+    let auction: AuctionJob
+    let deadline: number
+})
@@ -0,0 +1,181 @@
+// Start - Support direct Mocha run & debug
+import 'hardhat'
+import '@nomiclabs/hardhat-ethers'
+// End - Support direct Mocha run & debug
+import {expect} from 'chai'
+import {before} from 'mocha'
+import {BigNumber, utils} from 'ethers'
+import {SignerWithAddress} from '@nomiclabs/hardhat-ethers/signers'
+import {DelayedJobs, Reverter} from '../typechain-types'
+import {AbiRegistry, contractCall} from '../src/calldata'
+import {DelayedJobsClient} from '../src/client'
+import {Job} from '../src/job'
+import {formatRevert} from '../src/revert'
+import {simulateJob} from '../src/simulator'
+import {
+    deployContract,
+    deployContractWithProxy,
+    signer
+} from './framework/contracts'
+
+const DELAY = 10000
+const TIMEOUT = 3601
+
+describe('simulateJob()', () => {
+    before(async () => {
+        userA = await signer(0)
+        userB = await signer(1)
+        reward = utils.parseUnits('1', 'ether')
+    })
+
+    beforeEach(async () => {
+        jobs = await deployContractWithProxy<DelayedJobs>(
+            'DelayedJobs',
+            userA.address,
+            userB.address,
+            DELAY
+        )
+        reverter = await deployContract<Reverter>('Reverter')
+        client = new DelayedJobsClient(jobs).connect(userA)
+    })
+
+    async function submit(
+        name: keyof Reverter['functions'] & string,
+        ...args: unknown[]
+    ): Promise<Job> {
+        const fragment = reverter.interface.getFunction(name)
+        const data = utils.defaultAbiCoder.encode(fragment.inputs, args)
+
+        return client.submit(reverter.address, fragment.format(), data, reward)
+    }
+
+    it('success with return data and gas estimate', async () => {
+        const job = await submit('succeed', 21)
+
+        const simulation = await simulateJob(jobs, job)
+
+        expect(simulation.success).equals(true)
+        expect(simulation.from).equals(userB.address)
+        expect(simulation.revert).is.null
+        expect(simulation.returnData).equals(
+            utils.defaultAbiCoder.encode(['uint256'], [42])
+        )
+        expect(simulation.gasEstimate.gt(0)).equals(true)
+    })
+
+    it('simulates at maturity without moving the chain', async () => {
+        const job = await submit('succeed', 1)
+        const earlier = await jobs.provider.getBlock('latest')
+        const status = await client.status(job)
+
+        const simulation = await simulateJob(jobs, job)
+
+        const later = await jobs.provider.getBlock('latest')
+        expect(simulation.timestamp).equals(status.maturesAt.toNumber())
+        expect(later.number).equals(earlier.number)
+        expect(later.timestamp).equals(earlier.timestamp)
+        expect(await jobs.submittedTxs(job.txHash)).equals(true)
+    })
+
+    it('before maturity reports the delay', async () => {
+        const job = await submit('succeed', 1)
+        const status = await client.status(job)
+        const {timestamp} = await jobs.provider.getBlock('latest')
+
+        const simulation = await simulateJob(jobs, job, {at: timestamp + 10})
+
+        expect(simulation.success).equals(false)
+        expect(simulation.revert?.kind).equals('custom')
+        expect(
+            formatRevert(simulation.revert ?? {kind: 'unknown', data: ''})
+        ).equals(
+            `DelayNotElapsed(${job.txHash}, ${status.maturesAt.toString()})`
+        )
+    })
+
+    it('nested reason string', async () => {
+        const job = await submit('failWithReason', 'Target says no')
+
+        const simulation = await simulateJob(jobs, job)
+
+        expect(simulation.success).equals(false)
+        expect(simulation.returnData).is.null
+        expect(simulation.revert).deep.equals({
+            kind: 'error',
+            reason: 'Target says no'
+        })
+    })
+
+    it('nested panic', async () => {
+        const job = await submit('failWithPanic', 0)
+
+        const simulation = await simulateJob(jobs, job)
+
+        expect(simulation.revert).deep.equals({
+            kind: 'panic',
+            code: 0x12,
+            description: 'Division or modulo by zero'
+        })
+    })
+
+    it('nested custom error of registered target', async () => {
+        const job = await submit('failWithCustomError', 7)
+        const registry = new AbiRegistry().registerContract(
+            'Reverter',
+            reverter
+        )
+
+        const simulation = await simulateJob(jobs, job, {registry})
+
+        expect(simulation.revert?.kind).equals('custom')
+        expect(
+            formatRevert(simulation.revert ?? {kind: 'unknown', data: ''})
+        ).equals(`Refused(${jobs.address}, 7)`)
+    })
+
+    it('nested custom error of unknown target', async () => {
+        const job = await submit('failWithCustomError', 7)
+
+        const simulation = await simulateJob(jobs, job)
+
+        expect(simulation.revert?.kind).equals('unknown')
+    })
+
+    it('target reverting without data', async () => {
+        const job = await submit('failSilently')
+
+        const simulation = await simulateJob(jobs, job)
+
+        expect(simulation.revert?.kind).equals('custom')
+        expect(
+            formatRevert(simulation.revert ?? {kind: 'unknown', data: ''})
+        ).equals(`ExecutionReverted(${job.txHash})`)
+    })
+
+    it('auction as best bidder', async () => {
+        const call = contractCall(reverter, 'failWithReason', 'Auction says no')
+        const job = await client.submitAuction(
+            call.target,
+            call.signature,
+            call.data,
+            TIMEOUT,
+            reward
+        )
+        await client.connect(userB).bid(job, reward.div(2))
+
+        const simulation = await simulateJob(jobs, job)
+
+        expect(simulation.from).equals(userB.address)
+        expect(simulation.revert).deep.equals({
+            kind: 'error',
+            reason: 'Auction says no'
+        })
+    })
+
+    let userA: SignerWithAddress
+    let userB: SignerWithAddress
+    let jobs: DelayedJobs
+    let reverter: Reverter
+    let client: DelayedJobsClient
+    let reward: BigNumber
+})
@@ -0,0 +1,637 @@
+// Start - Support direct Mocha run & debug
+import '@nomiclabs/hardhat-ethers'
+// End - Support direct Mocha run & debug
+import chai, {expect} from 'chai'
+import chaiAsPromised from 'chai-as-promised'
+import {before} from 'mocha'
+import hre from 'hardhat'
+import {mkdtempSync, readFileSync, writeFileSync} from 'fs'
+import {tmpdir} from 'os'
+import {join} from 'path'
+import {utils} from 'ethers'
+import {SignerWithAddress} from '@nomiclabs/hardhat-ethers/signers'
+import {DelayedJobs, DelayedJobsV2, MockERC20} from '../typechain-types'
+import {Deployment} from '../src/deployments'
+import {Job} from '../src/job'
+import {deployContract, signer} from './framework/contracts'
+import {advanceBy} from './framework/time'
+
+chai.use(chaiAsPromised)
+
+const DELAY = 10000
+
+/**
+ * Runs the task, returning what it printed.
+ */
+async function run(name: string, args: Record<string, unknown>) {
+    const write = process.stdout.write.bind(process.stdout)
+    let output = ''
+    process.stdout.write = (chunk: string | Uint8Array) => {
+        output += chunk.toString()
+        return true
+    }
+
+    try {
+        await hre.run(name, args)
+    } finally {
+        process.stdout.write = write
+    }
+
+    return output
+}
+
+describe('jobs tasks', () => {
+    before(async () => {
+        userA = await signer(0)
+        userB = await signer(1)
+        userC = await signer(2)
+    })
+
+    beforeEach(async () => {
+        deployments = join(
+            mkdtempSync(join(tmpdir(), 'tasks-')),
+            'deployments.json'
+        )
+        const deployed = JSON.parse(
+            await run('jobs:deploy', {delay: DELAY, deployments})
+        ) as Deployment
+        address = deployed.address
+    })
+
+    async function submit(args: Record<string, unknown> = {}): Promise<Job> {
+        return JSON.parse(
+            await run('jobs:submit', {
+                address,
+                target: address,
+                signature: 'updateDelay(uint256)',
+                args: [DELAY],
+                reward: '1.0',
+                ...args
+            })
+        ) as Job
+    }
+
+    /**
+     * Writes the value as JSON to a temporary file, returning its path.
+     */
+    function writeJson(value: unknown): string {
+        const path = join(mkdtempSync(join(tmpdir(), 'tasks-')), 'value.json')
+        writeFileSync(path, JSON.stringify(value))
+        return path
+    }
+
+    /**
+     * Deployments recorded by the tasks, by network name.
+     */
+    function recorded(): Record<string, Deployment> {
+        return JSON.parse(readFileSync(deployments, 'utf8')) as Record<
+            string,
+            Deployment
+        >
+    }
+
+    async function list(args: Record<string, unknown> = {}) {
+        return JSON.parse(
+            await run('jobs:list', {address, json: true, ...args})
+        ) as Array<Record<string, string>>
+    }
+
+    it('submit encodes signature and arguments', async () => {
+        const job = await submit({signature: 'updateDelay( uint )'})
+
+        expect(job.signature).equals('updateDelay(uint256)')
+        expect(job.data).equals(
+            hre.ethers.utils.defaultAbiCoder.encode(['uint256'], [DELAY])
+        )
+    })
+
+    it('submit rejects unknown function of known target', async () => {
+        await expect(
+            submit({signature: 'updateDelay(uint128)'})
+        ).to.be.rejectedWith('has no function updateDelay(uint128)')
+    })
+
+    it('list pending', async () => {
+        const job = await submit()
+
+        const jobs = await list({state: 'pending'})
+
+        expect(jobs).length(1)
+        expect(jobs[0].txHash).equals(job.txHash)
+        expect(jobs[0].kind).equals('job')
+        expect(jobs[0].value).equals('1.0')
+        expect(jobs[0].call).equals(`DelayedJobs.updateDelay(delay_=${DELAY})`)
+    })
+
+    it('show as table', async () => {
+        const job = await submit()
+
+        const output = await run('jobs:show', {address, txHash: job.txHash})
+
+        expect(output).contains('field')
+        expect(output).contains(job.txHash)
+        expect(output).contains('updateDelay(uint256)')
+    })
+
+    it('execute', async () => {
+        const job = await submit({signature: 'identity()', args: []})
+        await advanceBy(DELAY)
+
+        await run('jobs:execute', {address, txHash: job.txHash})
+
+        expect((await list())[0].state).equals('executed')
+    })
+
+    it('simulate at maturity', async () => {
+        const job = await submit({signature: 'identity()', args: []})
+
+        const [simulation] = JSON.parse(
+            await run('jobs:simulate', {
+                address,
+                txHash: job.txHash,
+                json: true
+            })
+        ) as Array<Record<string, string>>
+
+        expect(simulation.success).equals('true')
+        expect(simulation.from).equals(userB.address)
+        expect((await list())[0].state).equals('pending')
+    })
+
+    it('execute reports revert reason', async () => {
+        const job = await submit({signature: 'identity()', args: []})
+
+        await expect(
+            run('jobs:execute', {address, txHash: job.txHash})
+        ).to.be.rejectedWith(
+            `Transaction failed: DelayNotElapsed(${job.txHash}`
+        )
+    })
+
+    it('execute-batch every pending plain job', async () => {
+        const matured = await submit({signature: 'identity()', args: []})
+        await submit({signature: 'identity()', args: [], timeout: 3601})
+        await advanceBy(DELAY)
+        const immature = await submit({
+            signature: 'identity()',
+            args: [],
+            reward: '2.0'
+        })
+
+        const results = JSON.parse(
+            await run('jobs:execute-batch', {address})
+        ) as Array<Record<string, unknown>>
+
+        expect(
+            results.map(({txHash, success}) => [txHash, success])
+        ).deep.equals([
+            [matured.txHash, true],
+            [immature.txHash, false]
+        ])
+        expect(results[1].error).contains('DelayNotElapsed')
+        expect(
+            (await list({state: 'executed'})).map(({txHash}) => txHash)
+        ).deep.equals([matured.txHash])
+    })
+
+    it('bid then cancel auction', async () => {
+        const job = await submit({timeout: 3601})
+
+        await run('jobs:bid', {address, txHash: job.txHash, amount: '0.5'})
+        await advanceBy(DELAY + 3601)
+        await run('jobs:cancel', {address, txHash: job.txHash})
+
+        const jobs = await list({bidder: userB.address})
+        expect(jobs).length(1)
+        expect(jobs[0].state).equals('cancelled')
+    })
+
+    it('commit sealed bid then reveal once revealing', async () => {
+        const job = await submit({timeout: 3601, revealPeriod: 3600})
+        const bids = join(mkdtempSync(join(tmpdir(), 'tasks-')), 'bids.json')
+
+        await run('jobs:commit-bid', {
+            address,
+            txHash: job.txHash,
+            amount: '0.5',
+            bids
+        })
+        expect(
+            JSON.parse(await run('jobs:reveal-bids', {address, bids}))
+        ).deep.equals({done: [], pending: [job.txHash]})
+
+        await advanceBy(DELAY)
+        expect(
+            JSON.parse(await run('jobs:reveal-bids', {address, bids}))
+        ).deep.equals({done: [job.txHash], pending: []})
+
+        const shown = JSON.parse(
+            await run('jobs:show', {address, txHash: job.txHash, json: true})
+        ) as Record<string, unknown>
+        expect(shown).to.include({bestBidder: userB.address, unrevealedBids: 0})
+    })
+
+    it('submit rejects reveal period without timeout', async () => {
+        await expect(submit({revealPeriod: 3600})).to.be.rejectedWith(
+            'A reveal period applies to auctions'
+        )
+    })
+
+    it('cancel plain job', async () => {
+        const job = await submit()
+
+        await run('jobs:cancel', {address, txHash: job.txHash})
+
+        expect((await list({state: 'cancelled'}))[0].txHash).equals(job.txHash)
+    })
+
+    it('submit with expiry then reclaim', async () => {
+        const job = await submit({expiry: 3600})
+
+        await advanceBy(DELAY + 3600)
+        await run('jobs:reclaim', {address, txHash: job.txHash})
+
+        const jobs = await list({state: 'reclaimed'})
+        expect(jobs).length(1)
+        expect(jobs[0].txHash).equals(job.txHash)
+    })
+
+    it('withdraw reward then reconcile', async () => {
+        const job = await submit({signature: 'identity()', args: []})
+        await advanceBy(DELAY)
+        await run('jobs:execute', {address, txHash: job.txHash})
+
+        const withdrawal = JSON.parse(
+            await run('jobs:withdraw', {address, to: userC.address})
+        ) as Record<string, string>
+        expect(withdrawal.account).equals(userB.address)
+        expect(withdrawal.recipient).equals(userC.address)
+
+        const balances = JSON.parse(
+            await run('jobs:reconcile', {address, json: true})
+        ) as Array<Record<string, string>>
+        expect(balances).deep.equals([
+            {
+                account: userB.address,
+                credited: '1.0',
+                withdrawn: '1.0',
+                expected: '0.0',
+                actual: '0.0',
+                status: 'ok'
+            }
+        ])
+    })
+
+    it('token reward listed, withdrawn then reconciled', async () => {
+        const token = await deployContract<MockERC20>(
+            'MockERC20',
+            'Mock USD',
+            'MUSD',
+            6
+        )
+        await token.mint(userA.address, utils.parseUnits('10', 6))
+        const job = await submit({
+            signature: 'identity()',
+            args: [],
+            reward: '2.5',
+            token: token.address
+        })
+
+        const jobs = await list()
+        expect(jobs[0].token).equals(token.address)
+        expect(jobs[0].value).equals('2.5')
+
+        await advanceBy(DELAY)
+        await run('jobs:execute', {address, txHash: job.txHash})
+        const withdrawal = JSON.parse(
+            await run('jobs:withdraw', {address, token: token.address})
+        ) as Record<string, string>
+        expect(withdrawal.token).equals(token.address)
+        expect(await token.balanceOf(userB.address)).equals(
+            utils.parseUnits('2.5', 6)
+        )
+
+        const balances = JSON.parse(
+            await run('jobs:reconcile', {
+                address,
+                token: token.address,
+                json: true
+            })
+        ) as Array<Record<string, string>>
+        expect(balances).deep.equals([
+            {
+                account: userB.address,
+                credited: '2.5',
+                withdrawn: '2.5',
+                expected: '0.0',
+                actual: '0.0',
+                status: 'ok'
+            }
+        ])
+    })
+
+    it('plan schedule', async () => {
+        const plan = JSON.parse(
+            await run('jobs:plan', {
+                address,
+                schedule: '0 */6 * * *',
+                runs: 3
+            })
+        ) as {interval: number; runs: Array<{timestamp: number}>}
+
+        expect(plan.interval).equals(6 * 3600)
+        expect(plan.runs).length(3)
+        expect(plan.runs[1].timestamp - plan.runs[0].timestamp).equals(6 * 3600)
+    })
+
+    it('plan rejects uneven schedule', async () => {
+        await expect(
+            run('jobs:plan', {address, schedule: '0 9 * * 1-5', runs: 7})
+        ).to.be.rejectedWith('does not recur at a fixed interval')
+    })
+
+    it('plan rejects schedule under an hour apart', async () => {
+        await expect(
+            run('jobs:plan', {address, schedule: '*/5 * * * *', runs: 3})
+        ).to.be.rejectedWith('more often than the minimum interval')
+    })
+
+    it('submit scheduled recurring job then execute a run', async () => {
+        const job = await submit({
+            signature: 'identity()',
+            args: [],
+            schedule: '0 */6 * * *',
+            runs: 3
+        })
+
+        await advanceBy(DELAY)
+        await run('jobs:execute', {address, txHash: job.txHash})
+
+        const shown = JSON.parse(
+            await run('jobs:show', {address, txHash: job.txHash, json: true})
+        ) as Record<string, unknown>
+        expect(shown).to.include({
+            kind: 'recurring',
+            interval: String(6 * 3600),
+            maxRuns: '3',
+            runs: 1,
+            state: 'pending'
+        })
+    })
+
+    it('submit rejects recurring job without runs', async () => {
+        await expect(submit({interval: 3600})).to.be.rejectedWith(
+            'Maximum runs apply to recurring jobs'
+        )
+    })
+
+    it('submit after prerequisite then list blocked', async () => {
+        const first = await submit({signature: 'identity()', args: []})
+        const job = await submit({after: [first.txHash]})
+
+        const blocked = JSON.parse(
+            await run('jobs:blocked', {address, json: true})
+        ) as Array<Record<string, string>>
+        expect(blocked).deep.equals([
+            {txHash: job.txHash, blockedOn: first.txHash}
+        ])
+
+        await advanceBy(DELAY)
+        await run('jobs:execute', {address, txHash: first.txHash})
+        expect(
+            JSON.parse(await run('jobs:blocked', {address, json: true}))
+        ).deep.equals([])
+    })
+
+    it('submit plan in dependency order', async () => {
+        const plan = writeJson([
+            {
+                id: 'update',
+                target: address,
+                signature: 'updateDelay(uint256)',
+                args: [DELAY * 2],
+                reward: '0.5',
+                after: ['identity']
+            },
+            {
+                id: 'identity',
+                target: address,
+                signature: 'identity()',
+                reward: '0.5'
+            }
+        ])
+
+        const submitted = JSON.parse(
+            await run('jobs:submit-plan', {address, plan})
+        ) as Array<Record<string, string>>
+
+        expect(submitted.map(({id}) => id)).deep.equals(['identity', 'update'])
+        const [updated] = await list({
+            state: 'pending',
+            target: address
+        }).then((jobs) =>
+            jobs.filter(({txHash}) => txHash === submitted[1].txHash)
+        )
+        expect(updated.call).equals(
+            `DelayedJobs.updateDelay(delay_=${DELAY * 2})`
+        )
+    })
+
+    it('submit plan rejects cycle', async () => {
+        const plan = writeJson([
+            {
+                id: 'identity',
+                target: address,
+                signature: 'identity()',
+                reward: '0.5',
+                after: ['identity']
+            }
+        ])
+
+        await expect(
+            run('jobs:submit-plan', {address, plan})
+        ).to.be.rejectedWith('Cycle identity -> identity')
+    })
+
+    it('submit rejects prerequisites of auction', async () => {
+        await expect(
+            submit({timeout: 3601, after: [utils.id('job')]})
+        ).to.be.rejectedWith('Prerequisites apply to plain jobs')
+    })
+
+    it('sign then relay from another account', async () => {
+        const signed = await run('jobs:sign', {
+            address,
+            reward: '0.5',
+            target: address,
+            signature: 'identity()'
+        })
+
+        const job = JSON.parse(
+            await run('jobs:relay', {
+                address,
+                signed: writeJson(JSON.parse(signed)),
+                signer: 2
+            })
+        ) as Job
+
+        const shown = JSON.parse(
+            await run('jobs:show', {address, txHash: job.txHash, json: true})
+        ) as Record<string, unknown>
+        expect(shown).to.include({
+            submitter: userA.address,
+            relayer: userC.address
+        })
+    })
+
+    it('relay rejects replayed signature', async () => {
+        const signed = writeJson(
+            JSON.parse(
+                await run('jobs:sign', {
+                    address,
+                    reward: '0.5',
+                    timeout: 3601,
+                    target: address,
+                    signature: 'identity()'
+                })
+            )
+        )
+        await run('jobs:relay', {address, signed, signer: 2})
+
+        await expect(
+            run('jobs:relay', {address, signed, signer: 2})
+        ).to.be.rejectedWith('Signed with nonce 0')
+    })
+
+    it('relay rejects signature expired', async () => {
+        const signed = writeJson(
+            JSON.parse(
+                await run('jobs:sign', {
+                    address,
+                    reward: '0.5',
+                    validity: 60,
+                    target: address,
+                    signature: 'identity()'
+                })
+            )
+        )
+        await advanceBy(61)
+
+        await expect(
+            run('jobs:relay', {address, signed, signer: 2})
+        ).to.be.rejectedWith('Signing: Expired')
+    })
+
+    it('withdraw rejects nothing to withdraw', async () => {
+        await expect(run('jobs:withdraw', {address})).to.be.rejectedWith(
+            'Transaction failed: NothingToWithdraw'
+        )
+    })
+
+    it('submit rejects expiry of auction', async () => {
+        await expect(submit({timeout: 3601, expiry: 3600})).to.be.rejectedWith(
+            'An expiry applies to plain jobs'
+        )
+    })
+
+    it('unknown job', async () => {
+        await expect(
+            run('jobs:execute', {
+                address,
+                txHash: hre.ethers.constants.HashZero
+            })
+        ).to.be.rejectedWith('No job found')
+    })
+
+    it('update delay', async () => {
+        await run('jobs:update-delay', {address, delay: String(DELAY * 2)})
+
+        const contract = (await hre.ethers.getContractAt(
+            'DelayedJobs',
+            address
+        )) as DelayedJobs
+        expect((await contract.delay()).toNumber()).equals(DELAY * 2)
+    })
+
+    it('rotate role then list roles', async () => {
+        await run('jobs:rotate-role', {
+            address,
+            role: 'executor',
+            from: userB.address,
+            to: userC.address
+        })
+
+        const roles = JSON.parse(
+            await run('jobs:roles', {address, json: true})
+        ) as Array<{role: string; account: string}>
+        expect(roles).deep.equals([
+            {role: 'admin', account: userA.address},
+            {role: 'submitter', account: userA.address},
+            {role: 'executor', account: userC.address}
+        ])
+    })
+
+    it('deploy records the proxy for the network', async () => {
+        const deployment = recorded()[hre.network.name]
+
+        expect(Object.keys(recorded())).deep.equals([hre.network.name])
+        expect(deployment.address).equals(address)
+        expect(deployment.implementation).equals(
+            await hre.upgrades.erc1967.getImplementationAddress(address)
+        )
+        expect(deployment.previousImplementations).is.empty
+    })
+
+    it('upgrade keeps pending jobs, recording the implementation', async () => {
+        const job = await submit()
+        const {implementation} = recorded()[hre.network.name]
+
+        const upgraded = JSON.parse(
+            await run('jobs:upgrade', {contract: 'DelayedJobsV2', deployments})
+        ) as Deployment
+
+        expect(upgraded.address).equals(address)
+        expect(upgraded.implementation).not.equals(implementation)
+        expect(upgraded.previousImplementations).deep.equals([implementation])
+        expect(
+            (await list({state: 'pending'})).map((row) => row.txHash)
+        ).deep.equals([job.txHash])
+        const contract = (await hre.ethers.getContractAt(
+            'DelayedJobsV2',
+            address
+        )) as DelayedJobsV2
+        expect(await contract.version()).equals(2)
+    })
+
+    it('upgrade rejects a storage incompatible contract', async () => {
+        await expect(
+            run('jobs:upgrade', {contract: 'DelayedJobsShifted', deployments})
+        ).to.be.rejectedWith('New storage layout is incompatible')
+    })
+
+    it('upgrade rejects a network without a deployment', async () => {
+        await expect(
+            run('jobs:upgrade', {
+                deployments: join(tmpdir(), 'missing-deployments.json')
+            })
+        ).to.be.rejectedWith(
+            `No deployment recorded on ${hre.network.name}, give its --address`
+        )
+    })
+
+    it('grant rejects unknown role', async () => {
+        await expect(
+            run('jobs:grant-role', {
+                address,
+                role: 'owner',
+                account: userC.address
+            })
+        ).to.be.rejectedWith('Unknown role owner')
+    })
+
+    let userA: SignerWithAddress
+    let userB: SignerWithAddress
+    let userC: SignerWithAddress
+    let address: string
+    let deployments: string
+})
@@ -0,0 +1,427 @@
+// Start - Support direct Mocha run & debug
+import 'hardhat'
+import '@nomiclabs/hardhat-ethers'
+// End - Support direct Mocha run & debug
+import chai, {expect} from 'chai'
+import {before} from 'mocha'
+import {solidity} from 'ethereum-waffle'
+import {BigNumber, constants, utils} from 'ethers'
+import {SignerWithAddress} from '@nomiclabs/hardhat-ethers/signers'
+import {DelayedJobs, MockERC20} from '../typechain-types'
+import {DelayedJobsClient} from '../src/client'
+import {AuctionJob, Job, describeJob} from '../src/job'
+import {reconcileLedger} from '../src/ledger'
+import {
+    FIXTURE_DELAY,
+    FIXTURE_TIMEOUT,
+    FIXTURE_TOKEN_DECIMALS,
+    FIXTURE_TOKENS,
+    signer,
+    tokenDeployed
+} from './framework/contracts'
+import {
+    Ledger,
+    expectClaimableDeltas,
+    expectTokenDeltas
+} from './framework/balances'
+import {DelayedJobsError} from './framework/errors'
+import {MIN_DELAY} from './framework/model'
+import {expectRevert} from './framework/transaction'
+import {advanceBy, advanceToExpiry} from './framework/time'
+
+// Wires up Waffle with Chai
+chai.use(solidity)
+
+const REWARD = utils.parseUnits('100', FIXTURE_TOKEN_DECIMALS)
+const BID = utils.parseUnits('60', FIXTURE_TOKEN_DECIMALS)
+
+describe('DelayedJobs ERC-20 rewards', () => {
+    before(async () => {
+        userA = await signer(0)
+        userB = await signer(1)
+        userC = await signer(2)
+    })
+
+    beforeEach(async () => {
+        ;({jobs, token} = await tokenDeployed())
+        client = new DelayedJobsClient(jobs)
+        ledger = {
+            claimable: (account) => jobs.claimableToken(account, token.address)
+        }
+    })
+
+    describe('submitTokenJob()', () => {
+        beforeEach(() => {
+            job = describeJob(jobs.address, REWARD, 'identity()', '0x')
+        })
+
+        it('takes the reward from the allowance', async () => {
+            await token.connect(userA).approve(jobs.address, REWARD)
+
+            await expectTokenDeltas(
+                token,
+                [
+                    [userA, REWARD.mul(-1)],
+                    [jobs, REWARD]
+                ],
+                () => submitTokenJob(token.address)
+            )
+            expect(await token.allowance(userA.address, jobs.address)).equals(0)
+        })
+
+        it('emits JobSubmitted and JobRewardToken', async () => {
+            await token.connect(userA).approve(jobs.address, REWARD)
+            const submission = submitTokenJob(token.address)
+
+            await expect(submission)
+                .to.emit(jobs, 'JobSubmitted')
+                .withArgs(
+                    job.txHash,
+                    job.target,
+                    job.value,
+                    job.signature,
+                    job.data
+                )
+            await expect(submission)
+                .to.emit(jobs, 'JobRewardToken')
+                .withArgs(job.txHash, token.address)
+            expect(await jobs.submittedToken(job.txHash)).equals(token.address)
+        })
+
+        it('not without allowance', async () => {
+            await expect(submitTokenJob(token.address)).to.be.revertedWith(
+                'ERC20: transfer amount exceeds allowance'
+            )
+        })
+
+        it('not in the zero address', async () => {
+            await expectRevert(
+                submitTokenJob(constants.AddressZero),
+                DelayedJobsError.ZeroAddress
+            )
+        })
+
+        it('not without reward', async () => {
+            await expectRevert(
+                jobs
+                    .connect(userA)
+                    .submitTokenJob(
+                        job.target,
+                        job.signature,
+                        job.data,
+                        token.address,
+                        0
+                    ),
+                DelayedJobsError.MissingReward
+            )
+        })
+    })
+
+    describe('with token job', () => {
+        beforeEach(async () => {
+            job = await client
+                .connect(userA)
+                .submitToken(
+                    jobs.address,
+                    'identity()',
+                    '0x',
+                    token.address,
+                    REWARD
+                )
+        })
+
+        it('credits the reward in the token on execution', async () => {
+            await advanceBy(FIXTURE_DELAY)
+
+            await expectClaimableDeltas(ledger, [[userB, REWARD]], () =>
+                jobs
+                    .connect(userB)
+                    .executeJob(job.target, job.value, job.signature, job.data)
+            )
+            expect(await jobs.claimable(userB.address)).equals(0)
+            expect(await jobs.submittedToken(job.txHash)).equals(
+                constants.AddressZero
+            )
+        })
+
+        it('refunds the token on cancellation', async () => {
+            await expectClaimableDeltas(ledger, [[userA, REWARD]], () =>
+                jobs
+                    .connect(userA)
+                    .cancelJob(job.target, job.value, job.signature, job.data)
+            )
+        })
+
+        it('withdraws the token', async () => {
+            await advanceBy(FIXTURE_DELAY)
+            await client.connect(userB).execute(job)
+
+            await expectTokenDeltas(
+                token,
+                [
+                    [userB, REWARD],
+                    [jobs, REWARD.mul(-1)]
+                ],
+                () => jobs.connect(userB).withdrawToken(token.address)
+            )
+        })
+
+        it('withdraws the token to another recipient', async () => {
+            await advanceBy(FIXTURE_DELAY)
+            await client.connect(userB).execute(job)
+
+            await expect(
+                jobs
+                    .connect(userB)
+                    .withdrawTokenTo(token.address, userC.address)
+            )
+                .to.emit(jobs, 'Withdrawn')
+                .withArgs(userB.address, token.address, userC.address, REWARD)
+            expect(await token.balanceOf(jobs.address)).equals(0)
+        })
+
+        it('withdraws no ETH for the token', async () => {
+            await advanceBy(FIXTURE_DELAY)
+            await client.connect(userB).execute(job)
+
+            await expectRevert(
+                jobs.connect(userB).withdraw(),
+                DelayedJobsError.NothingToWithdraw,
+                userB.address
+            )
+        })
+
+        it('reports the token in its status', async () => {
+            expect((await client.status(job)).token).equals(token.address)
+        })
+    })
+
+    describe('with expiring token job', () => {
+        it('refunds the token once expired', async () => {
+            job = await client
+                .connect(userA)
+                .submitToken(
+                    jobs.address,
+                    'identity()',
+                    '0x',
+                    token.address,
+                    REWARD,
+                    MIN_DELAY
+                )
+            await advanceToExpiry(jobs, job)
+
+            await expectClaimableDeltas(ledger, [[userA, REWARD]], () =>
+                jobs
+                    .connect(userA)
+                    .reclaimJob(job.target, job.value, job.signature, job.data)
+            )
+        })
+    })
+
+    describe('with token auction', () => {
+        beforeEach(async () => {
+            auction = await client
+                .connect(userA)
+                .submitTokenAuction(
+                    jobs.address,
+                    'identity()',
+                    '0x',
+                    FIXTURE_TIMEOUT,
+                    token.address,
+                    REWARD
+                )
+        })
+
+        it('takes the collateral from the allowance', async () => {
+            await token.connect(userB).approve(jobs.address, REWARD.sub(BID))
+
+            await expectTokenDeltas(
+                token,
+                [
+                    [userB, BID.sub(REWARD)],
+                    [jobs, REWARD.sub(BID)]
+                ],
+                () => placeJobBid(userB, BID)
+            )
+        })
+
+        it('not with ETH collateral', async () => {
+            await token.connect(userB).approve(jobs.address, REWARD.sub(BID))
+
+            await expectRevert(
+                placeJobBid(userB, BID, REWARD.sub(BID)),
+                DelayedJobsError.WrongCollateral,
+                REWARD.sub(BID),
+                0
+            )
+        })
+
+        it('credits the outbid bidder in the token', async () => {
+            await client.connect(userB).bid(auction, BID)
+
+            await expectClaimableDeltas(
+                ledger,
+                [[userB, REWARD.sub(BID)]],
+                async () => {
+                    await token
+                        .connect(userC)
+                        .approve(jobs.address, REWARD.sub(BID.div(2)))
+                    return placeJobBid(userC, BID.div(2))
+                }
+            )
+        })
+
+        it('credits bidder and submitter on execution', async () => {
+            await client.connect(userB).bid(auction, BID)
+            await advanceBy(FIXTURE_DELAY)
+
+            await expectClaimableDeltas(
+                ledger,
+                [
+                    [userB, REWARD],
+                    [userA, REWARD.sub(BID)]
+                ],
+                () =>
+                    jobs
+                        .connect(userB)
+                        .executeJobBid(
+                            auction.target,
+                            auction.value,
+                            auction.signature,
+                            auction.data,
+                            auction.timeout
+                        )
+            )
+            expect(await jobs.claimable(userB.address)).equals(0)
+        })
+
+        it('credits bidder and submitter on cancellation', async () => {
+            await client.connect(userB).bid(auction, BID)
+            await advanceBy(FIXTURE_DELAY + FIXTURE_TIMEOUT)
+
+            await expectClaimableDeltas(
+                ledger,
+                [
+                    [userB, REWARD.sub(BID)],
+                    [userA, REWARD]
+                ],
+                () =>
+                    jobs
+                        .connect(userA)
+                        .cancelJobAuction(
+                            auction.target,
+                            auction.value,
+                            auction.signature,
+                            auction.data,
+                            auction.timeout
+                        )
+            )
+        })
+
+        it('reconciles the token ledger', async () => {
+            await client.connect(userB).bid(auction, BID)
+            await client.connect(userC).bid(auction, BID.div(2))
+
+            const reconciliation = await reconcileLedger(jobs, {
+                token: token.address
+            })
+
+            expect(reconciliation.token).equals(token.address)
+            expect(reconciliation.mismatches).deep.equals([])
+            expect(reconciliation.totalClaimable).equals(REWARD.sub(BID))
+            expect(reconciliation.contractBalance).equals(
+                REWARD.mul(3).sub(BID).sub(BID.div(2))
+            )
+            expect(reconciliation.solvent).is.true
+            expect((await reconcileLedger(jobs)).balances).deep.equals([])
+        })
+    })
+
+    describe('client approval', () => {
+        it('approves only the shortfall of the allowance', async () => {
+            const receipts = await client
+                .connect(userA)
+                .approve(token.address, REWARD)
+
+            expect(receipts).length(1)
+            expect(
+                await client.connect(userA).approve(token.address, REWARD)
+            ).deep.equals([])
+        })
+
+        it('resets a lower allowance first', async () => {
+            await token.connect(userA).approve(jobs.address, 1)
+
+            const receipts = await client
+                .connect(userA)
+                .approve(token.address, REWARD)
+
+            expect(receipts).length(2)
+            expect(await token.allowance(userA.address, jobs.address)).equals(
+                REWARD
+            )
+        })
+
+        it('approves the collateral of a bid', async () => {
+            auction = await client
+                .connect(userA)
+                .submitTokenAuction(
+                    jobs.address,
+                    'identity()',
+                    '0x',
+                    FIXTURE_TIMEOUT,
+                    token.address,
+                    REWARD
+                )
+
+            await client.connect(userB).bid(auction, BID)
+
+            expect(await token.balanceOf(userB.address)).equals(
+                FIXTURE_TOKENS.sub(REWARD.sub(BID))
+            )
+            expect(await jobs.submittedBestBidder(auction.txHash)).equals(
+                userB.address
+            )
+        })
+    })
+
+    function submitTokenJob(rewardToken: string) {
+        return jobs
+            .connect(userA)
+            .submitTokenJob(
+                job.target,
+                job.signature,
+                job.data,
+                rewardToken,
+                job.value
+            )
+    }
+
+    function placeJobBid(
+        from: SignerWithAddress,
+        bid: BigNumber,
+        value: BigNumber = BigNumber.from(0)
+    ) {
+        return jobs
+            .connect(from)
+            .placeJobBid(
+                auction.target,
+                auction.value,
+                bid,
+                auction.signature,
+                auction.data,
+                auction.timeout,
+                {value}
+            )
+    }
+
+    let userA: SignerWithAddress
+    let userB: SignerWithAddress
+    let userC: SignerWithAddress
+    let jobs: DelayedJobs
+    let token: MockERC20
+    let client: DelayedJobsClient
+    let ledger: Ledger
+    let job: Job
+    let auction: AuctionJob
+})
@@ -0,0 +1,214 @@
+// Start - Support direct Mocha run & debug
+import {ethers, upgrades} from 'hardhat'
+import '@nomiclabs/hardhat-ethers'
+import '@openzeppelin/hardhat-upgrades'
+// End - Support direct Mocha run & debug
+import chai, {expect} from 'chai'
+import chaiAsPromised from 'chai-as-promised'
+import {before} from 'mocha'
+import {solidity} from 'ethereum-waffle'
+import {SignerWithAddress} from '@nomiclabs/hardhat-ethers/signers'
+import {DelayedJobs, DelayedJobsV2} from '../typechain-types'
+import {DelayedJobsClient} from '../src/client'
+import {AuctionJob, Job} from '../src/job'
+import {roleId} from '../src/roles'
+import {bidCommitment, randomSalt} from '../src/sealed-bids'
+import {
+    FIXTURE_BID,
+    FIXTURE_DELAY,
+    FIXTURE_REWARD,
+    FIXTURE_TIMEOUT,
+    deployContract,
+    deployed,
+    signer,
+    upgradeContract
+} from './framework/contracts'
+import {DelayedJobsError} from './framework/errors'
+import {expectRevert} from './framework/transaction'
+import {advanceToReveal, mine} from './framework/time'
+
+// Wires up Waffle with Chai
+chai.use(solidity)
+chai.use(chaiAsPromised)
+
+const REVEAL_PERIOD = 7200
+const ALREADY_INITIALIZED = 'Initializable: contract is already initialized'
+
+describe('DelayedJobs upgrades', () => {
+    before(async () => {
+        userA = await signer(0)
+        userB = await signer(1)
+        bidderA = await signer(2)
+        bidderB = await signer(3)
+    })
+
+    beforeEach(async () => {
+        ;({jobs} = await deployed())
+        client = new DelayedJobsClient(jobs).connect(userA)
+    })
+
+    describe('initialize()', () => {
+        it('not twice', async () => {
+            await expect(
+                jobs.initialize(userA.address, userB.address, FIXTURE_DELAY)
+            ).to.be.revertedWith(ALREADY_INITIALIZED)
+        })
+
+        it('not the implementation', async () => {
+            const implementation = (await ethers.getContractAt(
+                'DelayedJobs',
+                await upgrades.erc1967.getImplementationAddress(jobs.address)
+            )) as DelayedJobs
+
+            await expect(
+                implementation.initialize(
+                    userA.address,
+                    userB.address,
+                    FIXTURE_DELAY
+                )
+            ).to.be.revertedWith(ALREADY_INITIALIZED)
+        })
+    })
+
+    describe('upgradeTo()', () => {
+        it('only by the admin', async () => {
+            const next = await deployContract<DelayedJobsV2>('DelayedJobsV2')
+
+            await expectRevert(
+                jobs.connect(userB).upgradeTo(next.address),
+                DelayedJobsError.MissingRole,
+                roleId('admin'),
+                userB.address
+            )
+        })
+
+        it('rejects shifted storage', async () => {
+            await expect(
+                upgradeContract<DelayedJobs>('DelayedJobsShifted', jobs.address)
+            ).to.be.rejectedWith('New storage layout is incompatible')
+        })
+    })
+
+    describe('with jobs pending', () => {
+        beforeEach(async () => {
+            plain = await client.submit(
+                jobs.address,
+                'identity()',
+                '0x01',
+                FIXTURE_REWARD
+            )
+            const cancelled = await client.submit(
+                jobs.address,
+                'identity()',
+                '0x02',
+                FIXTURE_REWARD
+            )
+            await client.cancel(cancelled)
+            auction = await client.submitAuction(
+                jobs.address,
+                'identity()',
+                '0x03',
+                FIXTURE_TIMEOUT,
+                FIXTURE_REWARD
+            )
+            await client.connect(bidderA).bid(auction, FIXTURE_BID)
+            sealed = await client.submitSealedAuction(
+                jobs.address,
+                'identity()',
+                '0x04',
+                FIXTURE_TIMEOUT,
+                REVEAL_PERIOD,
+                FIXTURE_REWARD
+            )
+            salt = randomSalt()
+            await client
+                .connect(bidderB)
+                .commitBid(
+                    sealed,
+                    bidCommitment(sealed, bidderB.address, FIXTURE_BID, salt)
+                )
+        })
+
+        it('keeps their status, balances and roles', async () => {
+            const kept = await snapshot()
+
+            await upgradeContract<DelayedJobsV2>('DelayedJobsV2', jobs.address)
+
+            expect(await snapshot()).deep.equals(kept)
+        })
+
+        it('executes them after the upgrade', async () => {
+            const upgraded = await upgradeContract<DelayedJobsV2>(
+                'DelayedJobsV2',
+                jobs.address
+            )
+            await advanceToReveal(jobs, sealed)
+            await mine()
+
+            await client.connect(userB).execute(plain)
+            await client.connect(bidderA).execute(auction)
+            await client.connect(bidderB).revealBid(sealed, FIXTURE_BID, salt)
+
+            expect(await jobs.executedTxs(plain.txHash)).is.true
+            expect(await jobs.executedTxs(auction.txHash)).is.true
+            expect(await jobs.submittedBestBidder(sealed.txHash)).equals(
+                bidderB.address
+            )
+            expect(await upgraded.version()).equals(2)
+        })
+
+        it('adds the functions of the upgrade', async () => {
+            const upgraded = await upgradeContract<DelayedJobsV2>(
+                'DelayedJobsV2',
+                jobs.address
+            )
+
+            await upgraded.connect(userA).annotate(plain.txHash, 'kept')
+
+            expect(await upgraded.notes(plain.txHash)).equals('kept')
+            await expectRevert(
+                upgraded.connect(bidderA).annotate(plain.txHash, 'taken'),
+                DelayedJobsError.CallerNotSubmitter,
+                bidderA.address,
+                userA.address
+            )
+        })
+
+        /**
+         * Everything the upgrade must leave as it was.
+         */
+        async function snapshot() {
+            return {
+                statuses: await Promise.all(
+                    [plain, auction, sealed].map((job) => client.status(job))
+                ),
+                commitment: await jobs.bidCommitmentOf(
+                    sealed.txHash,
+                    bidderB.address
+                ),
+                claimable: await Promise.all(
+                    [userA, bidderA, bidderB].map((account) =>
+                        client.claimable(account.address)
+                    )
+                ),
+                balance: await ethers.provider.getBalance(jobs.address),
+                delay: await jobs.delay(),
+                admins: await client.roleMembers('admin'),
+                executors: await client.roleMembers('executor'),
+                domain: await jobs.DOMAIN_SEPARATOR()
+            }
+        }
+
+        let plain: Job
+        let auction: AuctionJob
+        let sealed: AuctionJob
+        let salt: string
+    })
+
+    let userA: SignerWithAddress
+    let userB: SignerWithAddress
+    let bidderA: SignerWithAddress
+    let bidderB: SignerWithAddress
+    let jobs: DelayedJobs
+    let client: DelayedJobsClient
+})